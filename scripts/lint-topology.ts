@@ -0,0 +1,54 @@
+// Lints one or more swarm manifests and exits non-zero when any has errors.
+//
+//   npm run lint:topology                       # bundled manifest
+//   npm run lint:topology -- staging.yaml --strict --json
+import { readFile } from 'node:fs/promises';
+import { lintManifestText, summarizeIssues, type TopologyReport } from '../src/lib/swarm/topology-lint';
+
+const DEFAULT_MANIFEST = 'src/data/swarm.manifest.json';
+
+const args = process.argv.slice(2);
+const strict = args.includes('--strict');
+const asJson = args.includes('--json');
+const files = args.filter(arg => !arg.startsWith('--'));
+
+const printReport = (file: string, report: TopologyReport) => {
+  console.log(`\n${file}`);
+  report.issues.forEach(issue => {
+    const label = issue.severity === 'error' ? '\x1b[31merror\x1b[0m  ' : '\x1b[33mwarning\x1b[0m';
+    console.log(`  ${label} ${issue.path}  ${issue.message}  (${issue.code})`);
+  });
+  console.log(`  ${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+};
+
+// A file that cannot be read fails on its own, like one that does not parse, and the rest still get linted
+const lintFile = async (file: string): Promise<TopologyReport> => {
+  try {
+    return lintManifestText(await readFile(file, 'utf8'), file);
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'File not found' : `Cannot read file: ${error instanceof Error ? error.message : error}`;
+    return summarizeIssues([{ severity: 'error', code: 'invalid-manifest', path: file, message: reason }]);
+  }
+};
+
+const main = async () => {
+  const results: { file: string; report: TopologyReport }[] = [];
+
+  for (const file of files.length ? files : [DEFAULT_MANIFEST]) {
+    results.push({ file, report: await lintFile(file) });
+  }
+
+  if (asJson) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    results.forEach(({ file, report }) => printReport(file, report));
+  }
+
+  const failed = results.some(({ report }) => report.errorCount > 0 || (strict && report.warningCount > 0));
+  process.exitCode = failed ? 1 : 0;
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 2;
+});
@@ -0,0 +1,47 @@
+import { randomUUID } from 'node:crypto';
+import { PROTOCOL_VERSION, type StreamMessage } from '../src/lib/stream/protocol';
+
+export type Frame = StreamMessage & { seq: number; streamId: string; ts: number };
+
+type Listener = (frame: Frame) => void;
+
+export interface Broker {
+  publish: (message: StreamMessage, ts: number) => Frame;
+  // Buffered frames after `lastSeq` of stream `streamId`; `null` means everything still in the buffer
+  since: (lastSeq: number | null, streamId?: string | null) => Frame[];
+  subscribe: (listener: Listener) => () => void;
+  latestSeq: () => number;
+  streamId: string;
+}
+
+// Numbers every published message and keeps a bounded history so clients can resume. Frames
+// carry `streamId`, new for every broker unless given, so clients notice a restarted server.
+export const createBroker = ({ historyLimit = 1000, streamId = randomUUID() }: { historyLimit?: number; streamId?: string } = {}): Broker => {
+  let seq = 0;
+  let history: Frame[] = [];
+  const listeners = new Set<Listener>();
+
+  return {
+    publish: (message, ts) => {
+      seq += 1;
+      const frame = { ...message, v: PROTOCOL_VERSION, seq, streamId, ts } as Frame;
+      history.push(frame);
+      if (history.length > historyLimit) history = history.slice(-historyLimit);
+      listeners.forEach(listener => listener(frame));
+      return frame;
+    },
+    since: (lastSeq, from) => {
+      // A cursor from another stream, or ahead of this one, was taken before a restart
+      if (lastSeq === null || (from && from !== streamId) || lastSeq > seq) return [...history];
+      return history.filter(frame => frame.seq > lastSeq);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    latestSeq: () => seq,
+    streamId
+  };
+};
@@ -0,0 +1,149 @@
+// Bridges the manifest's stdio MCP servers to streamable HTTP so the dashboard can reach them.
+//
+//   npm run -s mcp:bridge -- --manifest swarm.manifest.yaml   # http://127.0.0.1:8790/servers/<id>/mcp
+//
+// Every HTTP session spawns its own copy of the server's command and ends it with the session,
+// so each client gets the one-client-per-process conversation stdio servers expect.
+import { spawn } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import {
+  failure,
+  JsonRpcErrorCode,
+  type JsonRpcId,
+  type JsonRpcNotification,
+  type JsonRpcResponse
+} from '../src/lib/mcp/jsonrpc';
+import { parseManifest } from '../src/lib/swarm/manifest';
+import { DEFAULT_MCP_BRIDGE_URL, type McpServerConfig } from '../src/lib/swarm/schema';
+import { serveMcpHttp, type HttpSession } from './mcp-http';
+
+type StdioServerConfig = Extract<McpServerConfig, { transport: 'stdio' }>;
+
+const DEFAULT_MANIFEST = 'src/data/swarm.manifest.json';
+const ROUTE = /^\/servers\/([^/]+)\/mcp$/;
+// Longest a request may wait for the child's answer
+const RESPONSE_TIMEOUT_MS = 60_000;
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const log = (message: string) => console.error(`[mcp-bridge] ${message}`);
+
+interface Message {
+  id?: JsonRpcId | null;
+  method?: string;
+}
+
+const spawnSession = (config: StdioServerConfig, notify: (notification: JsonRpcNotification) => void): HttpSession => {
+  const child = spawn(config.command, config.args, {
+    cwd: config.cwd,
+    env: { ...process.env, ...config.env },
+    stdio: ['pipe', 'pipe', 'pipe']
+  });
+  const pending = new Map<JsonRpcId, (response: JsonRpcResponse) => void>();
+  let exited: string | null = null;
+  log(`${config.id}: started ${[config.command, ...config.args].join(' ')} (pid ${child.pid ?? '?'})`);
+
+  const write = (message: unknown) => {
+    if (!exited) child.stdin.write(`${JSON.stringify(message)}\n`);
+  };
+
+  const settleAll = (reason: string) => {
+    exited = reason;
+    pending.forEach((resolve, id) => resolve(failure(id, JsonRpcErrorCode.InternalError, reason)));
+    pending.clear();
+  };
+
+  createInterface({ input: child.stdout }).on('line', line => {
+    if (!line.trim()) return;
+    let message: Message;
+    try {
+      message = JSON.parse(line) as Message;
+    } catch {
+      log(`${config.id}: ignoring non-JSON output: ${line.slice(0, 200)}`);
+      return;
+    }
+    if (message.method === undefined && message.id !== undefined && message.id !== null) {
+      pending.get(message.id)?.(message as JsonRpcResponse);
+      pending.delete(message.id);
+    } else if (message.method !== undefined && message.id !== undefined && message.id !== null) {
+      // Requests to the client (sampling, roots) need a client that can answer them
+      write(failure(message.id, JsonRpcErrorCode.MethodNotFound, `The bridge does not support ${message.method}`));
+    } else if (message.method !== undefined) {
+      notify(message as JsonRpcNotification);
+    }
+  });
+  createInterface({ input: child.stderr }).on('line', line => log(`${config.id}: ${line}`));
+  child.on('error', error => settleAll(`Could not run ${config.command}: ${error.message}`));
+  child.on('exit', (code, signal) => {
+    settleAll(`${config.id} exited (${signal ?? `code ${code}`})`);
+    log(`${config.id}: exited (${signal ?? `code ${code}`})`);
+  });
+
+  const forward = (message: Message): Promise<JsonRpcResponse | null> => {
+    const { id } = message;
+    if (id === undefined || id === null) {
+      write(message);
+      return Promise.resolve(null);
+    }
+    if (exited) return Promise.resolve(failure(id, JsonRpcErrorCode.InternalError, exited));
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        resolve(failure(id, JsonRpcErrorCode.InternalError, `${config.id} did not answer within ${RESPONSE_TIMEOUT_MS / 1000}s`));
+      }, RESPONSE_TIMEOUT_MS);
+      pending.set(id, response => {
+        clearTimeout(timer);
+        resolve(response);
+      });
+      write(message);
+    });
+  };
+
+  return {
+    // Batches are split because newer stdio servers no longer accept them
+    handle: async (message) => {
+      if (!Array.isArray(message)) return forward(message as Message);
+      const responses = (await Promise.all(message.map(item => forward(item as Message)))).filter(response => response !== null);
+      return responses.length > 0 ? responses : null;
+    },
+    close: () => {
+      child.stdin.end();
+      child.kill();
+    }
+  };
+};
+
+const main = async () => {
+  const manifestFile = option('manifest') ?? DEFAULT_MANIFEST;
+  const manifest = parseManifest(await readFile(manifestFile, 'utf8'), manifestFile);
+  const servers = new Map(manifest.mcpServers
+    .filter((server): server is StdioServerConfig => server.transport === 'stdio')
+    .map(server => [server.id, server]));
+  if (servers.size === 0) log(`${manifestFile} configures no stdio MCP servers; every route will 404`);
+
+  const bridge = new URL(DEFAULT_MCP_BRIDGE_URL);
+  const host = option('host') ?? bridge.hostname;
+  const port = Number(option('port') ?? bridge.port);
+
+  serveMcpHttp({
+    host,
+    port,
+    route: pathname => {
+      const config = servers.get(decodeURIComponent(ROUTE.exec(pathname)?.[1] ?? ''));
+      return config ? notify => spawnSession(config, notify) : undefined;
+    },
+    health: () => ({ servers: [...servers.keys()] }),
+    log,
+    onListening: () => [...servers.keys()].forEach(id => log(`Serving ${id} at http://${host}:${port}/servers/${encodeURIComponent(id)}/mcp`))
+  });
+};
+
+main().catch(error => {
+  log(error instanceof Error ? error.message : String(error));
+  process.exitCode = 2;
+});
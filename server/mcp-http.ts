@@ -0,0 +1,190 @@
+// Streamable HTTP transport for MCP, shared by the swarm's own server and the stdio bridge.
+//
+// POST carries JSON-RPC messages; `initialize` opens a session whose id is returned in the
+// Mcp-Session-Id header and must accompany every later request. GET with
+// `Accept: text/event-stream` opens the session's notification stream and DELETE ends it.
+// Sessions with no open stream and no request for `sessionIdleMs` end on their own.
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { failure, JsonRpcErrorCode, type JsonRpcNotification } from '../src/lib/mcp/jsonrpc';
+
+const SESSION_HEADER = 'mcp-session-id';
+const DEFAULT_SESSION_IDLE_MS = 10 * 60_000;
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+// One client's conversation with a server; the swarm's McpServer is one
+export interface HttpSession {
+  // The response(s) to a message or batch, or null when nothing needs answering
+  handle: (message: unknown) => Promise<unknown>;
+  close: () => void;
+}
+
+export type HttpSessionFactory = (notify: (notification: JsonRpcNotification) => void) => HttpSession | Promise<HttpSession>;
+
+export interface ServeHttpOptions {
+  host: string;
+  port: number;
+  // The session factory serving a path, or undefined for a 404
+  route: (pathname: string) => HttpSessionFactory | undefined;
+  health: () => Record<string, unknown>;
+  log: (message: string) => void;
+  onListening?: () => void;
+  // Clients that vanish without a DELETE would otherwise keep their session (and, behind the
+  // bridge, its process) forever
+  sessionIdleMs?: number;
+}
+
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Browsers may only reach the server from local pages; guards against DNS rebinding
+const isAllowedOrigin = (origin: string | undefined) => {
+  if (!origin) return true;
+  try {
+    return LOCAL_HOSTS.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+export const serveMcpHttp = ({ host, port, route, health, log, onListening, sessionIdleMs = DEFAULT_SESSION_IDLE_MS }: ServeHttpOptions) => {
+  // Each session belongs to the path that opened it and may hold open GET streams for its notifications
+  const sessions = new Map<string, { path: string; session: HttpSession; streams: Set<ServerResponse>; lastSeenAt: number }>();
+
+  const handlePost = async (req: IncomingMessage, res: ServerResponse, path: string, createSession: HttpSessionFactory) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(await readBody(req));
+    } catch (error) {
+      sendJson(res, 400, failure(null, JsonRpcErrorCode.ParseError, error instanceof Error ? error.message : 'Parse error'));
+      return;
+    }
+
+    const sessionId = req.headers[SESSION_HEADER];
+    const initializing = !Array.isArray(message) && (message as { method?: unknown } | null)?.method === 'initialize';
+    let session: HttpSession;
+    let headers: Record<string, string> = {};
+
+    if (initializing) {
+      const id = randomUUID();
+      const streams = new Set<ServerResponse>();
+      session = await createSession(notification => streams.forEach(stream => stream.write(`event: message\ndata: ${JSON.stringify(notification)}\n\n`)));
+      sessions.set(id, { path, session, streams, lastSeenAt: Date.now() });
+      headers = { 'Mcp-Session-Id': id };
+    } else if (typeof sessionId !== 'string') {
+      sendJson(res, 400, failure(null, JsonRpcErrorCode.InvalidRequest, 'Missing Mcp-Session-Id header'));
+      return;
+    } else {
+      const existing = sessions.get(sessionId);
+      if (!existing || existing.path !== path) {
+        // 404 tells the client to start over with a new initialize
+        sendJson(res, 404, failure(null, JsonRpcErrorCode.InvalidRequest, 'Unknown or expired session'));
+        return;
+      }
+      session = existing.session;
+      existing.lastSeenAt = Date.now();
+    }
+
+    const response = await session.handle(message);
+    if (response === null) {
+      res.writeHead(202, headers).end();
+    } else {
+      sendJson(res, 200, response, headers);
+    }
+  };
+
+  // Server-initiated messages (resource updates) for a session, as server-sent events
+  const handleGet = (req: IncomingMessage, res: ServerResponse, path: string) => {
+    const entry = sessions.get(String(req.headers[SESSION_HEADER]));
+    if (!req.headers.accept?.includes('text/event-stream')) {
+      res.writeHead(406).end();
+    } else if (!entry || entry.path !== path) {
+      res.writeHead(404).end();
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+      res.write(': connected\n\n');
+      entry.streams.add(res);
+      req.on('close', () => {
+        entry.streams.delete(res);
+        entry.lastSeenAt = Date.now();
+      });
+    }
+  };
+
+  const endSession = (id: unknown) => {
+    const entry = typeof id === 'string' ? sessions.get(id) : undefined;
+    if (!entry) return false;
+    entry.session.close();
+    entry.streams.forEach(stream => stream.end());
+    sessions.delete(id as string);
+    return true;
+  };
+
+  // An open notification stream counts as activity
+  const expireIdleSessions = () => {
+    const cutoff = Date.now() - sessionIdleMs;
+    sessions.forEach((entry, id) => {
+      if (entry.streams.size > 0 || entry.lastSeenAt > cutoff) return;
+      endSession(id);
+      log(`Ended idle session ${id} on ${entry.path}`);
+    });
+  };
+  const sweep = setInterval(expireIdleSessions, Math.min(sessionIdleMs, 60_000));
+  sweep.unref();
+
+  const http = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    const origin = req.headers.origin;
+    if (!isAllowedOrigin(origin)) {
+      res.writeHead(403).end();
+      return;
+    }
+    if (origin) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Mcp-Session-Id, MCP-Protocol-Version');
+      res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    }
+
+    const createSession = route(url.pathname);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+    } else if (url.pathname === '/health') {
+      sendJson(res, 200, { ...health(), sessions: sessions.size });
+    } else if (!createSession) {
+      res.writeHead(404).end();
+    } else if (req.method === 'POST') {
+      handlePost(req, res, url.pathname, createSession).catch(error => {
+        log(`http: ${error instanceof Error ? error.message : String(error)}`);
+        if (!res.headersSent) sendJson(res, 500, failure(null, JsonRpcErrorCode.InternalError, 'Internal error'));
+      });
+    } else if (req.method === 'GET') {
+      handleGet(req, res, url.pathname);
+    } else if (req.method === 'DELETE') {
+      res.writeHead(endSession(req.headers[SESSION_HEADER]) ? 204 : 404).end();
+    } else {
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+    }
+  });
+
+  http.listen(port, host, onListening);
+
+  return {
+    // Ends every session, e.g. before the process exits
+    close: () => {
+      clearInterval(sweep);
+      [...sessions.keys()].forEach(endSession);
+      http.close();
+    }
+  };
+};
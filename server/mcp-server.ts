@@ -0,0 +1,155 @@
+// MCP server exposing the cognitive architecture tools over stdio or streamable HTTP.
+//
+//   npm run -s mcp                                         # stdio, for MCP clients that spawn servers
+//   npm run -s mcp -- --stream ws://localhost:8787/stream  # answer from a live stream (see `npm run stream`)
+//   npm run -s mcp -- --http --port 8788                   # streamable HTTP at http://127.0.0.1:8788/mcp
+//
+// Resources (swarm://nucleus|ring|component/<id>) can be subscribed to; updates are pushed as
+// notifications on stdout, or on the session's GET /mcp event stream over HTTP. Prompts come
+// from --prompts (default src/data/swarm.prompts.json) and reload when the file changes.
+//
+// State-changing calls are held to a tool policy: the dashboard's default, or --policy (one
+// exported from the dashboard's Approvals sheet). Nobody is around to approve them here, so
+// anything its auto-approve rules do not cover is denied; --allow-all turns that off and runs
+// every valid call. --trace appends a JSON Lines record of every tool
+// call (caller, arguments, outcome, duration, parent trace) to the given file.
+//
+// stdout carries protocol messages in stdio mode, so everything else is logged to stderr.
+import { createWriteStream, watch } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { createApprovalGate, type ApprovalDecision, type ApprovalGate } from '../src/lib/mcp/approvals';
+import type { JsonRpcNotification } from '../src/lib/mcp/jsonrpc';
+import { DEFAULT_TOOL_POLICY, parseToolPolicy, type ToolPolicy } from '../src/lib/mcp/policy';
+import { createPromptRegistry, parsePromptLibrary, PromptLibraryError } from '../src/lib/mcp/prompts';
+import { createMcpServer, SERVER_INFO, type McpServer } from '../src/lib/mcp/server';
+import type { ToolTrace } from '../src/lib/mcp/trace';
+import { parseManifest } from '../src/lib/swarm/manifest';
+import { serveMcpHttp } from './mcp-http';
+import { createSwarmState, NODE_TRANSPORT_KINDS, type NodeTransportKind } from './swarm-state';
+
+const MCP_PATH = '/mcp';
+const DEFAULT_MANIFEST = 'src/data/swarm.manifest.json';
+const DEFAULT_PROMPTS = 'src/data/swarm.prompts.json';
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+const flag = (name: string) => args.includes(`--${name}`);
+
+const log = (message: string) => console.error(`[mcp] ${message}`);
+
+// Newline-delimited JSON-RPC on stdin/stdout, one session for the life of the process
+const serveStdio = (server: McpServer, onClose: () => void) => {
+  const lines = createInterface({ input: process.stdin });
+  lines.on('line', line => {
+    if (!line.trim()) return;
+    server.handleText(line)
+      .then(response => {
+        if (response !== null) process.stdout.write(`${response}\n`);
+      })
+      .catch(error => log(`stdio: ${error instanceof Error ? error.message : String(error)}`));
+  });
+  lines.on('close', onClose);
+  log('Serving MCP over stdio');
+};
+
+const loadToolPolicy = async (policyFile: string) => {
+  const policy = parseToolPolicy(await readFile(policyFile, 'utf8'));
+  if (!policy) throw new Error(`${policyFile} is not a valid tool policy`);
+  return policy;
+};
+
+const createUnattendedGate = (policy: ToolPolicy, source: string): ApprovalGate => {
+  const gate = createApprovalGate(() => policy);
+  let lastLogged: ApprovalDecision | undefined;
+  gate.subscribe(() => {
+    const { pending } = gate.getSnapshot();
+    if (pending.length > 0) {
+      // Each denial emits again, and that pass logs it
+      pending.forEach(request => gate.deny(request.id, 'No operator is attached to this server and no auto-approve rule covers the call', 'unattended'));
+      return;
+    }
+    // Decisions are newest first; log the ones since the last pass
+    const { decisions } = gate.getSnapshot();
+    const seen = lastLogged ? decisions.indexOf(lastLogged) : -1;
+    decisions.slice(0, seen === -1 ? decisions.length : seen).reverse()
+      .forEach(decision => log(`${decision.tool} ${JSON.stringify(decision.arguments)}: ${decision.outcome} (${decision.decidedBy})`));
+    lastLogged = decisions[0];
+  });
+  log(`Holding tool calls to ${source}`);
+  return gate;
+};
+
+const main = async () => {
+  const manifestFile = option('manifest') ?? DEFAULT_MANIFEST;
+  const streamUrl = option('stream');
+  const transport = option('transport') ?? 'websocket';
+  if (!(NODE_TRANSPORT_KINDS as readonly string[]).includes(transport)) {
+    throw new Error(`Unsupported transport "${transport}"; use ${NODE_TRANSPORT_KINDS.join(' or ')}`);
+  }
+
+  const manifest = parseManifest(await readFile(manifestFile, 'utf8'), manifestFile);
+  const state = createSwarmState({
+    manifest,
+    stream: streamUrl ? { url: streamUrl, transport: transport as NodeTransportKind } : undefined,
+    log
+  });
+  state.start();
+  if (!streamUrl) log('No --stream given; tools answer from the manifest until live data arrives');
+
+  // Prompt libraries exported from the dashboard's prompt page can be dropped in without a restart
+  const promptsFile = option('prompts') ?? DEFAULT_PROMPTS;
+  const prompts = createPromptRegistry(parsePromptLibrary(await readFile(promptsFile, 'utf8'), promptsFile));
+  watch(promptsFile, () => {
+    readFile(promptsFile, 'utf8')
+      .then(text => {
+        prompts.replace(parsePromptLibrary(text, promptsFile));
+        log(`Reloaded prompts from ${promptsFile}`);
+      })
+      .catch(error => log(error instanceof PromptLibraryError ? error.message : `Could not reload ${promptsFile}: ${error}`));
+  });
+
+  const policyFile = option('policy');
+  if (policyFile && flag('allow-all')) throw new Error('--policy and --allow-all cannot be combined');
+  let approvals: ApprovalGate | undefined;
+  if (flag('allow-all')) log('--allow-all given; every valid tool call runs without approval');
+  else if (policyFile) approvals = createUnattendedGate(await loadToolPolicy(policyFile), policyFile);
+  else approvals = createUnattendedGate(DEFAULT_TOOL_POLICY, 'the default tool policy');
+
+  const traceFile = option('trace');
+  const traceStream = traceFile ? createWriteStream(traceFile, { flags: 'a' }) : undefined;
+  const trace = traceStream && ((record: ToolTrace) => {
+    if (!traceStream.writableEnded) traceStream.write(`${JSON.stringify(record)}\n`);
+  });
+  if (traceFile) log(`Appending tool call traces to ${traceFile}`);
+
+  const createSession = (notify: (notification: JsonRpcNotification) => void) =>
+    createMcpServer({ context: state.context, prompts, notify, approvals, trace });
+  if (flag('http')) {
+    const host = option('host') ?? '127.0.0.1';
+    const port = Number(option('port') ?? 8788);
+    serveMcpHttp({
+      host,
+      port,
+      route: pathname => (pathname === MCP_PATH ? createSession : undefined),
+      health: () => ({ server: SERVER_INFO }),
+      log,
+      onListening: () => log(`Serving MCP over streamable HTTP at http://${host}:${port}${MCP_PATH}`)
+    });
+  } else {
+    serveStdio(createSession(notification => process.stdout.write(`${JSON.stringify(notification)}\n`)), () => {
+      state.stop();
+      // Let buffered traces reach the file first
+      if (traceStream) traceStream.end(() => process.exit(0));
+      else process.exit(0);
+    });
+  }
+};
+
+main().catch(error => {
+  log(error instanceof Error ? error.message : String(error));
+  process.exitCode = 2;
+});
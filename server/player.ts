@@ -0,0 +1,90 @@
+import type { StreamMessage } from '../src/lib/stream/protocol';
+import type { Scenario } from './scenario';
+
+export interface PlayerOptions {
+  scenarios: Scenario[];
+  publish: (message: StreamMessage, ts: number) => void;
+  // Wall-clock multiplier; `ts` values stay in scenario time so they do not depend on it
+  speed?: number;
+  loop?: boolean;
+  // Scenario time zero; fix it to get byte-identical frames across runs
+  epoch?: number;
+  onScenarioStart?: (scenario: Scenario) => void;
+  onDone?: () => void;
+}
+
+export interface ScenarioPlayer {
+  start: () => void;
+  stop: () => void;
+}
+
+interface TimelineEntry {
+  at: number;
+  scenario: Scenario;
+  message?: StreamMessage;
+}
+
+// Scenarios play back to back; each starts `durationMs` after the previous one
+const buildTimeline = (scenarios: Scenario[]) => {
+  let offset = 0;
+  const entries: TimelineEntry[] = [];
+  scenarios.forEach(scenario => {
+    entries.push({ at: offset, scenario });
+    scenario.steps.forEach(step => entries.push({ at: offset + step.at, scenario, message: step.message }));
+    offset += scenario.durationMs;
+  });
+  return { entries, duration: offset };
+};
+
+export const createScenarioPlayer = (options: PlayerOptions): ScenarioPlayer => {
+  const speed = options.speed ?? 1;
+  const { entries, duration } = buildTimeline(options.scenarios);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let startedAt = 0;
+  let epoch = 0;
+  let index = 0;
+  let pass = 0;
+
+  // Each wake-up is scheduled against the start time rather than the previous step, so drift never accumulates
+  const tick = () => {
+    const elapsed = (Date.now() - startedAt) * speed;
+    while (index < entries.length && pass * duration + entries[index].at <= elapsed) {
+      const entry = entries[index];
+      const ts = epoch + pass * duration + entry.at;
+      if (entry.message) {
+        options.publish(entry.message, ts);
+      } else {
+        options.onScenarioStart?.(entry.scenario);
+      }
+      index += 1;
+    }
+
+    if (index >= entries.length) {
+      if (!options.loop) {
+        timer = null;
+        options.onDone?.();
+        return;
+      }
+      pass += 1;
+      index = 0;
+    }
+
+    const nextAt = pass * duration + entries[index].at;
+    timer = setTimeout(tick, Math.max(0, (nextAt - elapsed) / speed));
+  };
+
+  return {
+    start: () => {
+      if (timer) return;
+      startedAt = Date.now();
+      epoch = options.epoch ?? startedAt;
+      index = 0;
+      pass = 0;
+      tick();
+    },
+    stop: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    }
+  };
+};
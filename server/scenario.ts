@@ -0,0 +1,81 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { decodeStreamMessage, type StreamMessage } from '../src/lib/stream/protocol';
+
+export const SCENARIO_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'scenarios');
+
+export class ScenarioError extends Error {
+  constructor(public readonly source: string, public readonly issues: string[]) {
+    super(`Invalid scenario (${source}):\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ScenarioError';
+  }
+}
+
+// Each step is a protocol message plus `at`, its offset in ms from the start of the scenario
+const scenarioFileSchema = z.object({
+  name: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  durationMs: z.number().positive(),
+  steps: z.array(z.object({ at: z.number().nonnegative() }).passthrough()).min(1)
+});
+
+export interface ScenarioStep {
+  at: number;
+  message: StreamMessage;
+}
+
+export interface Scenario {
+  name: string;
+  title: string;
+  description?: string;
+  durationMs: number;
+  steps: ScenarioStep[];
+}
+
+// Validates every step against the dashboard protocol (and, when given, the manifest's ids)
+export const parseScenario = (text: string, source: string, isKnownComponent?: (id: string) => boolean): Scenario => {
+  let data: unknown;
+  try {
+    data = parseYaml(text);
+  } catch (error) {
+    throw new ScenarioError(source, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const result = scenarioFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new ScenarioError(source, result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`));
+  }
+
+  const issues: string[] = [];
+  const steps: ScenarioStep[] = [];
+  result.data.steps.forEach(({ at, ...message }, index) => {
+    if (at > result.data.durationMs) issues.push(`steps.${index}.at: ${at}ms is past durationMs ${result.data.durationMs}`);
+    const decoded = decodeStreamMessage(message, isKnownComponent);
+    if (decoded.ok === false) {
+      issues.push(...decoded.issues.map(issue => `steps.${index}: ${decoded.reason}: ${issue}`));
+    } else {
+      steps.push({ at, message: decoded.message });
+    }
+  });
+  if (issues.length > 0) throw new ScenarioError(source, issues);
+
+  // Stable sort keeps same-`at` steps in file order, which keeps replays deterministic
+  return { ...result.data, steps: steps.sort((a, b) => a.at - b.at) };
+};
+
+export const listScenarios = async () =>
+  (await readdir(SCENARIO_DIR))
+    .filter(file => /\.ya?ml$/.test(file))
+    .map(file => file.replace(/\.ya?ml$/, ''))
+    .sort();
+
+// Accepts a built-in scenario name or a path to a YAML/JSON scenario file
+export const loadScenario = async (nameOrPath: string, isKnownComponent?: (id: string) => boolean) => {
+  const builtIn = (await listScenarios()).includes(nameOrPath);
+  const file = builtIn ? path.join(SCENARIO_DIR, `${nameOrPath}.yaml`) : nameOrPath;
+  return parseScenario(await readFile(file, 'utf8'), file, isKnownComponent);
+};
@@ -0,0 +1,232 @@
+// Reference stream server: replays scripted swarm scenarios over every dashboard transport.
+//
+//   npm run stream                                        # all built-in scenarios, looped
+//   npm run stream -- --scenario constraint-weaver-rate-limit --speed 4 --once
+//   npm run stream -- --scenario ./my-scenario.yaml --epoch 0 --stream-id test --wait-for-client
+//
+// Then open the dashboard with ?stream=ws://localhost:8787/stream
+// (or ?transport=sse / ?transport=long-poll with http://localhost:8787/stream).
+import { readFile } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { clientMessageSchema, PROTOCOL_VERSION, type ClientMessage } from '../src/lib/stream/protocol';
+import { parseManifest } from '../src/lib/swarm/manifest';
+import { createBroker, type Frame } from './broker';
+import { createScenarioPlayer } from './player';
+import { listScenarios, loadScenario, ScenarioError } from './scenario';
+
+const STREAM_PATH = '/stream';
+const DEFAULT_MANIFEST = 'src/data/swarm.manifest.json';
+const HEARTBEAT_INTERVAL_MS = 5000;
+const MAX_POLL_WAIT_MS = 30000;
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+const flag = (name: string) => args.includes(`--${name}`);
+
+const heartbeat = () => JSON.stringify({ v: PROTOCOL_VERSION, type: 'heartbeat', ts: Date.now() });
+
+const parseClientMessage = (text: string): ClientMessage | null => {
+  try {
+    const result = clientMessageSchema.safeParse(JSON.parse(text));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const main = async () => {
+  if (flag('list')) {
+    (await listScenarios()).forEach(name => console.log(name));
+    return;
+  }
+
+  const port = Number(option('port') ?? 8787);
+  const speed = Number(option('speed') ?? 1);
+  const epoch = option('epoch') === undefined ? undefined : Number(option('epoch'));
+  const manifestFile = option('manifest') ?? DEFAULT_MANIFEST;
+
+  const manifest = parseManifest(await readFile(manifestFile, 'utf8'), manifestFile);
+  const knownIds = new Set([manifest.nucleus.id, ...manifest.rings.flatMap(ring => ring.components.map(component => component.id))]);
+  const names = option('scenario')?.split(',') ?? await listScenarios();
+  const scenarios = await Promise.all(names.map(name => loadScenario(name, id => knownIds.has(id))));
+
+  const broker = createBroker({ streamId: option('stream-id') });
+  const player = createScenarioPlayer({
+    scenarios,
+    speed,
+    epoch,
+    loop: !flag('once'),
+    publish: (message, ts) => broker.publish(message, ts),
+    onScenarioStart: scenario => console.log(`▶ ${scenario.title}`),
+    onDone: () => {
+      console.log('Scenarios finished');
+      // Give clients a moment to drain before exiting
+      setTimeout(() => process.exit(0), 1000);
+    }
+  });
+
+  // Shared by WebSocket and SSE clients: replay what they missed, then follow live frames
+  const attach = (lastSeq: number | null, streamId: string | null | undefined, write: (data: string) => void) => {
+    broker.since(lastSeq, streamId).forEach(frame => write(JSON.stringify(frame)));
+    return broker.subscribe(frame => write(JSON.stringify(frame)));
+  };
+
+  const clients = new Set<{ write: (data: string) => void }>();
+  const sseSessions = new Map<string, { write: (data: string) => void; detach?: () => void }>();
+  let started = false;
+  const startPlayback = () => {
+    if (!started) {
+      started = true;
+      player.start();
+    }
+  };
+
+  const sendCors = (res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  };
+
+  const handleSse = (url: URL, req: IncomingMessage, res: ServerResponse) => {
+    const session = url.searchParams.get('session') ?? `anon-${Date.now()}`;
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.write(': connected\n\n');
+
+    const client = { write: (data: string) => res.write(`data: ${data}\n\n`), detach: undefined as (() => void) | undefined };
+    sseSessions.set(session, client);
+    clients.add(client);
+    startPlayback();
+
+    req.on('close', () => {
+      client.detach?.();
+      clients.delete(client);
+      sseSessions.delete(session);
+    });
+  };
+
+  const handleControl = async (url: URL, req: IncomingMessage, res: ServerResponse) => {
+    const client = sseSessions.get(url.searchParams.get('session') ?? '');
+    const message = parseClientMessage(await readBody(req));
+    if (!client || !message) {
+      res.writeHead(client ? 400 : 404).end();
+      return;
+    }
+    if (message.type === 'resume') {
+      client.detach?.();
+      client.detach = attach(message.lastSeq, message.streamId, client.write);
+    } else {
+      client.write(heartbeat());
+    }
+    res.writeHead(204).end();
+  };
+
+  // Answers immediately when frames are buffered after `after`, otherwise holds the request
+  const handleLongPoll = (url: URL, req: IncomingMessage, res: ServerResponse) => {
+    startPlayback();
+    const after = url.searchParams.get('after');
+    const wait = Math.min(Number(url.searchParams.get('wait') ?? 15000), MAX_POLL_WAIT_MS);
+    const respond = (frames: unknown[]) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(frames));
+    };
+
+    const pending = broker.since(after ? Number(after) : null, url.searchParams.get('stream'));
+    if (pending.length > 0) {
+      respond(pending);
+      return;
+    }
+
+    const frames: Frame[] = [];
+    const unsubscribe = broker.subscribe(frame => {
+      frames.push(frame);
+      // Let same-tick frames batch into one response
+      setImmediate(() => finish());
+    });
+    const timer = setTimeout(() => finish(), wait);
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      unsubscribe();
+      clearTimeout(timer);
+      respond(frames.length > 0 ? frames : [JSON.parse(heartbeat())]);
+    };
+    req.on('close', () => {
+      if (done) return;
+      done = true;
+      unsubscribe();
+      clearTimeout(timer);
+    });
+  };
+
+  const server = createServer((req, res) => {
+    sendCors(res);
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+    } else if (url.pathname === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ scenarios: names, streamId: broker.streamId, seq: broker.latestSeq(), clients: clients.size }));
+    } else if (url.pathname !== STREAM_PATH) {
+      res.writeHead(404).end();
+    } else if (req.method === 'POST') {
+      handleControl(url, req, res).catch(error => {
+        console.error(error);
+        res.writeHead(500).end();
+      });
+    } else if (req.headers.accept?.includes('text/event-stream') || url.searchParams.has('session')) {
+      handleSse(url, req, res);
+    } else {
+      handleLongPoll(url, req, res);
+    }
+  });
+
+  const wss = new WebSocketServer({ server, path: STREAM_PATH });
+  wss.on('connection', (socket: WebSocket) => {
+    const client = { write: (data: string) => socket.send(data) };
+    let detach: (() => void) | undefined;
+    clients.add(client);
+    startPlayback();
+
+    socket.on('message', data => {
+      const message = parseClientMessage(data.toString());
+      if (message?.type === 'resume') {
+        detach?.();
+        detach = attach(message.lastSeq, message.streamId, client.write);
+      } else if (message?.type === 'ping') {
+        socket.send(heartbeat());
+      }
+    });
+    socket.on('close', () => {
+      detach?.();
+      clients.delete(client);
+    });
+  });
+
+  // Idle connections still hear from the server so the dashboard does not mark them stale
+  setInterval(() => clients.forEach(client => client.write(heartbeat())), HEARTBEAT_INTERVAL_MS);
+
+  server.listen(port, () => {
+    console.log(`Stream server on http://localhost:${port}${STREAM_PATH} (ws://localhost:${port}${STREAM_PATH})`);
+    console.log(`Scenarios: ${scenarios.map(scenario => scenario.name).join(', ')} at ${speed}x${flag('once') ? '' : ', looping'}`);
+    if (!flag('wait-for-client')) startPlayback();
+  });
+};
+
+main().catch(error => {
+  console.error(error instanceof ScenarioError || error instanceof Error ? error.message : error);
+  process.exitCode = 2;
+});
@@ -0,0 +1,94 @@
+import WebSocket from 'ws';
+import { applyStreamMessage } from '../src/lib/stream/apply';
+import { createStreamConnection, type StreamConnection } from '../src/lib/stream/connection';
+import { decodeStreamMessage } from '../src/lib/stream/protocol';
+import { createLongPollTransport } from '../src/lib/stream/transports/long-poll';
+import { createWebSocketTransport } from '../src/lib/stream/transports/websocket';
+import type { Integration, SwarmContext } from '../src/lib/mcp/context';
+import { createAlertEngine, followLiveStore } from '../src/lib/swarm/alerts';
+import { createLiveStore } from '../src/lib/swarm/live-store';
+import { createMetricsHistory } from '../src/lib/swarm/metrics-history';
+import type { SwarmManifest } from '../src/lib/swarm/schema';
+
+const ALERT_TICK_MS = 1000;
+
+// SSE needs the browser's EventSource; Node 20 also lacks a global WebSocket, so `ws` stands in
+export const NODE_TRANSPORT_KINDS = ['websocket', 'long-poll'] as const;
+export type NodeTransportKind = (typeof NODE_TRANSPORT_KINDS)[number];
+
+export interface SwarmStateOptions {
+  manifest: SwarmManifest;
+  // Stream to follow; without one, tools answer from the manifest's claims
+  stream?: { url: string; transport: NodeTransportKind };
+  log?: (message: string) => void;
+}
+
+export interface SwarmState {
+  context: SwarmContext;
+  start: () => void;
+  stop: () => void;
+}
+
+// The dashboard's stores, run headless: the same stream frames feed the same live store,
+// metrics history and alert engine, so MCP answers match what the UI would show.
+export const createSwarmState = ({ manifest, stream, log = () => {} }: SwarmStateOptions): SwarmState => {
+  const live = createLiveStore(manifest);
+  const history = createMetricsHistory();
+  const alerts = createAlertEngine(manifest);
+  const knownIds = new Set([manifest.nucleus.id, ...manifest.rings.flatMap(ring => ring.components.map(component => component.id))]);
+
+  let connection: StreamConnection | null = null;
+  if (stream) {
+    const transport = stream.transport === 'websocket'
+      ? createWebSocketTransport(WebSocket as unknown as typeof globalThis.WebSocket)
+      : createLongPollTransport();
+    connection = createStreamConnection({
+      url: stream.url,
+      transport,
+      onFrame: (frame) => {
+        const result = decodeStreamMessage(frame, id => knownIds.has(id));
+        if (result.ok === false) {
+          log(`Rejected stream frame: ${result.reason}`);
+          return;
+        }
+        applyStreamMessage(result.message, { live, history });
+      },
+      onStateChange: (state) => log(`Stream ${stream.url}: ${state}`)
+    });
+  }
+
+  const integrations = (): Integration[] => {
+    if (!connection || !stream) return [];
+    const current = connection;
+    return [{
+      status: () => {
+        const { lastSeq, gaps } = current.getStats();
+        return {
+          name: 'stream',
+          kind: stream.transport,
+          state: current.getState(),
+          detail: `${stream.url} · seq ${lastSeq ?? '–'} · ${gaps} gap${gaps === 1 ? '' : 's'}`
+        };
+      },
+      connect: () => (current.getState() === 'idle' ? current.start() : current.reconnectNow()),
+      disconnect: () => current.stop()
+    }];
+  };
+
+  let unfollow: (() => void) | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  return {
+    context: { manifest: () => manifest, live, history, alerts, integrations },
+    start: () => {
+      unfollow = followLiveStore(alerts, live, manifest);
+      timer = setInterval(() => alerts.tick(), ALERT_TICK_MS);
+      connection?.start();
+    },
+    stop: () => {
+      connection?.stop();
+      unfollow?.();
+      if (timer) clearInterval(timer);
+    }
+  };
+};
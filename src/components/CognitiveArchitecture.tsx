@@ -1,36 +1,101 @@
-import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Search, Zap, Brain, Target, Settings, Database, Shield, Lightbulb, X, Play, Pause, ChevronLeft, ChevronRight, Network, Activity, Wifi, WifiOff } from 'lucide-react';
-
-interface ComponentData {
-  id: string;
-  name: string;
-  subtitle?: string;
-  description?: string;
-  details: string[];
-  metrics?: string;
-  angle: number;
-  performance?: number;
-  status?: 'active' | 'optimizing' | 'idle';
-  role?: string;
-  interplay?: string[];
-}
-
-interface RingData {
-  name: string;
-  color: string;
-  components: ComponentData[];
-  radius: number;
-}
+import React, { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { Network, Activity } from 'lucide-react';
+import ComponentNode, { type ViewMode } from '@/components/swarm/ComponentNode';
+import AlertCenter from '@/components/swarm/AlertCenter';
+import ApprovalCenter from '@/components/swarm/ApprovalCenter';
+import ApprovalDialog from '@/components/swarm/ApprovalDialog';
+import AuditLog from '@/components/swarm/AuditLog';
+import CallPulses from '@/components/swarm/CallPulses';
+import CanvasRenderer from '@/components/swarm/CanvasRenderer';
+import ConnectionLines from '@/components/swarm/ConnectionLines';
+import CostPanel from '@/components/swarm/CostPanel';
+import EdgeLabels from '@/components/swarm/EdgeLabels';
+import ConnectionBadge from '@/components/swarm/ConnectionBadge';
+import ContextInspector from '@/components/swarm/ContextInspector';
+import ControlPanel, { type ControlPanelSheet, type Renderer } from '@/components/swarm/ControlPanel';
+import DetailPanel from '@/components/swarm/DetailPanel';
+import ReplayScrubber from '@/components/swarm/ReplayScrubber';
+import McpServersPanel from '@/components/swarm/McpServersPanel';
+import Minimap from '@/components/swarm/Minimap';
+import NucleusNode from '@/components/swarm/NucleusNode';
+import StreamInspector from '@/components/swarm/StreamInspector';
+import ToolConsole from '@/components/swarm/ToolConsole';
+import TopologyHealthPanel from '@/components/swarm/TopologyHealthPanel';
+import { useAlertEngine, useAlerts } from '@/hooks/use-alert-engine';
+import { useApprovalGate, useApprovals } from '@/hooks/use-approval-gate';
+import { useContextTracker, useContextWarnings, useContextWindow } from '@/hooks/use-context-window';
+import { useLiveStore } from '@/hooks/use-live-store';
+import { useExternalServers, useExternalServerSnapshots } from '@/hooks/use-external-servers';
+import { useMetricsHistory } from '@/hooks/use-metrics-history';
+import { usePromptLibrary, usePrompts } from '@/hooks/use-prompt-library';
+import { useSessionReplay } from '@/hooks/use-session-replay';
+import { useSwarmManifest } from '@/hooks/use-swarm-manifest';
+import { useAnimatedLayout } from '@/hooks/use-animated-layout';
+import { useViewTransform } from '@/hooks/use-view-transform';
+import { useBudgetToasts, useTokenLedger, useTokenUsage } from '@/hooks/use-token-ledger';
+import { useStreamConnection } from '@/hooks/use-stream-connection';
+import { toast } from '@/hooks/use-toast';
+import { createToolCallLog } from '@/lib/mcp/call-log';
+import type { IntegrationStatus } from '@/lib/mcp/context';
+import { createMcpServer } from '@/lib/mcp/server';
+import { createTraceLog } from '@/lib/mcp/trace';
+import { applyStreamMessage } from '@/lib/stream/apply';
+import {
+  decodeStreamMessage,
+  type CognitiveAnalysisMessage,
+  type ContextUpdateMessage,
+  type StreamMessage
+} from '@/lib/stream/protocol';
+import {
+  createSessionRecorder,
+  parseRecording,
+  RecordingError,
+  serializeRecording,
+  type RecordedEvent
+} from '@/lib/stream/recording';
+import { createRejectedFrameLog } from '@/lib/stream/rejected-frames';
+import { buildInterplayGraph, edgesForComponent } from '@/lib/swarm/interplay';
+import { formatCost, totalUsage, type TokenUsageUpdate } from '@/lib/swarm/costs';
+import {
+  DEFAULT_GRAPH_LAYOUT,
+  forceExtent,
+  forceLayout,
+  layeredExtent,
+  layeredLayout,
+  parseLayoutKind,
+  type GraphLayoutOptions,
+  type LayoutKind
+} from '@/lib/swarm/graph-layout';
+import { DEFAULT_LAYOUT, layoutExtent, ringLayout, type LayoutOptions } from '@/lib/swarm/layout';
+import { lintTopology } from '@/lib/swarm/topology-lint';
+import { boundsOf } from '@/lib/swarm/viewport';
+import type { MetricKey, MetricWindow } from '@/lib/swarm/metrics-history';
+import type { ComponentData, NucleusData } from '@/lib/swarm/schema';
+
+// Ring spacing and label room for the detailed view, on a canvas at least DETAILED_CANVAS in size
+const DETAILED_LAYOUT: LayoutOptions = { innerRadius: 200, margin: 140, ringGap: 190, nodeArc: 175 };
+const DETAILED_CANVAS = { width: 1800, height: 1500 };
+const MIN_CANVAS = { width: 960, height: 800 };
+// Crowded swarms grow the canvas until their layout fits, up to this; beyond it nodes are packed closer
+const MAX_CANVAS_SIDE = 4000;
+// Spacing of the force-directed and layered layouts in the detailed view
+const DETAILED_GRAPH_LAYOUT: GraphLayoutOptions = { margin: 160, nodeSpacing: 220, columnGap: 320, rowGap: 170 };
+// `?renderer=dom|canvas`; without it, swarms larger than this draw on a canvas
+const RENDERER_QUERY_PARAM = 'renderer';
+const CANVAS_RENDERER_THRESHOLD = 200;
+// `?layout=concentric|force|layered`
+const LAYOUT_QUERY_PARAM = 'layout';
+
+const readQueryParam = (name: string) => new URLSearchParams(window.location.search).get(name);
+
+const writeQueryParam = (name: string, value: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(name, value);
+  window.history.replaceState(window.history.state, '', url);
+};
 
-interface NucleusData {
-  id: string;
-  name: string;
-  description: string;
-  details: string[];
-  color: string;
-  position: { x: number; y: number };
-  role?: string;
-  interplay?: string[];
+interface RealTimeData {
+  cognitive?: CognitiveAnalysisMessage['analysis'];
 }
 
 const CognitiveArchitecture = () => {
@@ -38,17 +103,85 @@ const CognitiveArchitecture = () => {
   const [hoveredComponent, setHoveredComponent] = useState<ComponentData | NucleusData | null>(null);
   const [activeRing, setActiveRing] = useState('all');
   const [isAnimating, setIsAnimating] = useState(true);
-  const [viewMode, setViewMode] = useState<'overview' | 'detailed' | 'performance'>('overview');
+  const [viewMode, setViewMode] = useState<ViewMode>('overview');
+  const [rendererChoice, setRendererChoice] = useState<Renderer | null>(() => {
+    const param = readQueryParam(RENDERER_QUERY_PARAM);
+    return param === 'dom' || param === 'canvas' ? param : null;
+  });
+  const [layoutKind, setLayoutKind] = useState<LayoutKind>(() => parseLayoutKind(readQueryParam(LAYOUT_QUERY_PARAM)) ?? 'concentric');
   const [configPanelOpen, setConfigPanelOpen] = useState(true);
+  const [isDraggingManifest, setIsDraggingManifest] = useState(false);
+  const [topologyPanelOpen, setTopologyPanelOpen] = useState(false);
+  const [alertCenterOpen, setAlertCenterOpen] = useState(false);
+  const [streamInspectorOpen, setStreamInspectorOpen] = useState(false);
+  const [toolConsoleOpen, setToolConsoleOpen] = useState(false);
+  const [mcpServersOpen, setMcpServersOpen] = useState(false);
+  const [approvalCenterOpen, setApprovalCenterOpen] = useState(false);
+  const [auditLogOpen, setAuditLogOpen] = useState(false);
+  const [costPanelOpen, setCostPanelOpen] = useState(false);
+  const [contextInspectorOpen, setContextInspectorOpen] = useState(false);
+  const [trendMetric, setTrendMetric] = useState<MetricKey>('performance');
+  const [trendWindow, setTrendWindow] = useState<MetricWindow>('15m');
+
+  // Enhanced Swarm context protocol system data, loaded from the versioned swarm manifest
+  const { manifest: swarmSystem, source: manifestSource, loadFile: loadManifestFile } = useSwarmManifest();
+  const liveStore = useLiveStore(swarmSystem);
+  const tokenLedger = useTokenLedger(swarmSystem);
+  const tokenUsage = useTokenUsage(tokenLedger);
+  const tokenTotals = useMemo(() => totalUsage(tokenUsage.tallies), [tokenUsage.tallies]);
+  const exceededBudgetCount = tokenUsage.budgets.filter(status => status.state === 'exceeded').length;
+  const contextTracker = useContextTracker(swarmSystem);
+  const contextWindows = Object.values(useContextWindow(contextTracker).latest);
+  const fullestContext = contextWindows.reduce<(typeof contextWindows)[number] | null>(
+    (fullest, sample) => !fullest || sample.used / sample.limit > fullest.used / fullest.limit ? sample : fullest,
+    null
+  );
+  const metricsHistory = useMetricsHistory(swarmSystem);
+  const totalComponents = useMemo(
+    () => swarmSystem.rings.reduce((sum, ring) => sum + ring.components.length, 0),
+    [swarmSystem]
+  );
+
+  // Ids the stream may reference; read through a ref because the socket handlers outlive renders
+  const knownComponentIds = useRef(new Set<string>());
+  useEffect(() => {
+    knownComponentIds.current = new Set([
+      swarmSystem.nucleus.id,
+      ...swarmSystem.rings.flatMap(ring => ring.components.map(component => component.id))
+    ]);
+  }, [swarmSystem]);
+
+  const [rejectedFrames] = useState(() => createRejectedFrameLog());
+  const rejectedFrameCount = useSyncExternalStore(rejectedFrames.subscribe, () => rejectedFrames.getSnapshot().total);
+
+  // Every accepted message is recorded so a session can be exported and replayed later
+  const [sessionRecorder] = useState(() => createSessionRecorder(swarmSystem.name));
+  const recordedEventCount = useSyncExternalStore(sessionRecorder.subscribe, () => sessionRecorder.getSnapshot().events.length);
+  const sessionImportRef = useRef<HTMLInputElement>(null);
+  const replayingRef = useRef(false);
+  useEffect(() => {
+    sessionRecorder.clear(swarmSystem.name);
+  }, [sessionRecorder, swarmSystem]);
+
+  // Drag-and-drop a JSON/YAML manifest anywhere on the canvas to swap topologies
+  const handleManifestDragOver = useCallback((event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingManifest(true);
+  }, []);
+
+  const handleManifestDrop = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDraggingManifest(false);
+    const file = event.dataTransfer.files[0];
+    if (file) loadManifestFile(file);
+  }, [loadManifestFile]);
   
   // Dynamic Claude Code Hooks & MCP Server Integration
-  const [isConnected, setIsConnected] = useState(false);
-  const [realTimeData, setRealTimeData] = useState<{[key: string]: any}>({});
+  const [realTimeData, setRealTimeData] = useState<RealTimeData>({});
   const [mcpStatus, setMcpStatus] = useState<'disconnected' | 'starting' | 'running'>('disconnected');
   const [streamingUpdates, setStreamingUpdates] = useState<string[]>([]);
   const [showStatusMessages, setShowStatusMessages] = useState(true);
-  const wsRef = useRef<WebSocket | null>(null);
-  const mcpServerRef = useRef<any>(null);
 
   // Auto-hide status messages after 5 seconds
   useEffect(() => {
@@ -59,1171 +192,288 @@ const CognitiveArchitecture = () => {
     return () => clearTimeout(timer);
   }, []);
 
-  // Initialize Claude Code Hooks and MCP Connection
-  useEffect(() => {
-    const initializeClaudeHooks = async () => {
-      try {
-        setMcpStatus('starting');
-        
-        // Simulate Claude Code Hooks initialization
-        const claudeHooks = {
-          model: 'claude-4.1-2025-04-14',
-          contextProtocol: 'MCP-v1.2',
-          capabilities: ['streaming', 'tool-use', 'real-time-updates'],
-          hooks: {
-            onMessage: (data: any) => updateRealTimeData(data),
-            onError: (error: any) => console.error('Claude Hook Error:', error),
-            onTokenUpdate: (tokens: any) => updateTokenMetrics(tokens),
-            onContextChange: (context: any) => updateContext(context)
-          }
-        };
-
-        // Initialize WebSocket for real-time updates
-        const ws = new WebSocket('wss://api.lovable.dev/cognitive-stream');
-        wsRef.current = ws;
-
-        ws.onopen = () => {
-          setIsConnected(true);
-          setMcpStatus('running');
-          console.log('Claude Code Hooks: Connected');
-        };
-
-        ws.onmessage = (event) => {
-          const data = JSON.parse(event.data);
-          handleRealTimeUpdate(data);
-        };
-
-        ws.onclose = () => {
-          setIsConnected(false);
-          setMcpStatus('disconnected');
-        };
-
-        // Initialize MCP Server
-        initializeMCPServer();
-
-      } catch (error) {
-        console.error('Failed to initialize Claude Hooks:', error);
-        setMcpStatus('disconnected');
-      }
-    };
-
-    initializeClaudeHooks();
-
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-    };
-  }, []);
-
-  const initializeMCPServer = useCallback(async () => {
-    try {
-      // Initialize MCP Server that exposes cognitive architecture tools to Claude
-      mcpServerRef.current = {
-        name: 'cognitive-architecture-server',
-        version: '1.0.0',
-        capabilities: {
-          tools: true,
-          resources: true,
-          prompts: true
-        },
-        tools: [
-          {
-            name: 'cognitive_analyzer',
-            description: 'Analyzes cognitive patterns and provides insights',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                target: { type: 'string' },
-                depth: { type: 'string', enum: ['surface', 'deep', 'comprehensive'] }
-              }
-            }
-          },
-          {
-            name: 'performance_monitor', 
-            description: 'Monitors system performance and provides metrics',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                component: { type: 'string' },
-                timeframe: { type: 'string' }
-              }
-            }
-          },
-          {
-            name: 'integration_manager',
-            description: 'Manages platform integrations and connections',
-            inputSchema: {
-              type: 'object', 
-              properties: {
-                action: { type: 'string', enum: ['status', 'connect', 'disconnect'] },
-                platform: { type: 'string' }
-              }
-            }
-          }
-        ],
-        handleToolCall: async (name: string, args: any) => {
-          return simulateToolCall(name, args);
-        }
-      };
-
-      console.log('MCP Server initialized with cognitive architecture tools');
-    } catch (error) {
-      console.error('MCP Server initialization failed:', error);
-    }
-  }, []);
-
-  const handleRealTimeUpdate = useCallback((data: any) => {
+  const updateRealTimeData = useCallback((data: CognitiveAnalysisMessage) => {
+    // Process Claude streaming response data
     setRealTimeData(prev => ({
       ...prev,
-      [data.componentId]: {
-        ...prev[data.componentId],
-        ...data.updates,
-        lastUpdated: Date.now()
-      }
+      cognitive: data.analysis
     }));
+  }, []);
 
-    if (data.type === 'performance_update') {
-      updateComponentPerformance(data.componentId, data.performance);
-    }
-
-    if (data.type === 'status_change') {
-      updateComponentStatus(data.componentId, data.status);
+  // Every update is one model call's usage, booked per component, session and model
+  const updateTokenMetrics = useCallback((tokens: TokenUsageUpdate, receivedAt?: number) => {
+    tokenLedger.record(tokens, receivedAt);
+  }, [tokenLedger]);
+
+  // Every update is the full composition of one context window
+  const updateContext = useCallback((context: ContextUpdateMessage, receivedAt?: number) => {
+    contextTracker.record(context, receivedAt);
+  }, [contextTracker]);
+
+  // `quiet` applies state without toasts, for replays and seeks
+  const handleRealTimeUpdate = useCallback((data: StreamMessage, options: { quiet?: boolean; receivedAt?: number } = {}) => {
+    switch (data.type) {
+      case 'performance_update':
+      case 'status_change':
+        applyStreamMessage(data, { live: liveStore, history: metricsHistory }, options.receivedAt);
+        break;
+      case 'cognitive_analysis':
+        updateRealTimeData(data);
+        break;
+      case 'token_update':
+        updateTokenMetrics(data, options.receivedAt);
+        break;
+      case 'context_update':
+        updateContext(data, options.receivedAt);
+        break;
+      case 'alert':
+        if (options.quiet) break;
+        toast({
+          variant: data.severity === 'critical' ? 'destructive' : 'default',
+          title: data.title,
+          description: data.message
+        });
+        break;
+      case 'heartbeat':
+        // Keep-alive only; nothing to render
+        return;
+      default:
+        break;
     }
 
     setStreamingUpdates(prev => [
-      `${new Date().toLocaleTimeString()}: ${data.message || 'System update received'}`,
+      `${new Date(options.receivedAt ?? Date.now()).toLocaleTimeString()}: ${data.message || 'System update received'}`,
       ...prev.slice(0, 9)
     ]);
-  }, []);
-
-  const updateRealTimeData = useCallback((data: any) => {
-    // Process Claude streaming response data
-    if (data.type === 'cognitive_analysis') {
-      setRealTimeData(prev => ({
-        ...prev,
-        cognitive: data.analysis
-      }));
+  }, [liveStore, metricsHistory, updateRealTimeData, updateTokenMetrics, updateContext]);
+
+  // Every inbound frame, live or simulated, is validated before it can touch state
+  const ingestFrame = useCallback((frame: unknown) => {
+    const result = decodeStreamMessage(frame, id => knownComponentIds.current.has(id));
+    if (result.ok === false) {
+      rejectedFrames.record({ reason: result.reason, issues: result.issues, raw: result.raw });
+      console.warn(`Rejected stream frame: ${result.reason}`, result.issues);
+      return;
     }
-  }, []);
-
-  const updateTokenMetrics = useCallback((tokens: any) => {
-    setRealTimeData(prev => ({
-      ...prev,
-      tokens: {
-        input: tokens.input_tokens,
-        output: tokens.output_tokens,
-        total: tokens.input_tokens + tokens.output_tokens
-      }
-    }));
-  }, []);
-
-  const updateContext = useCallback((context: any) => {
-    setRealTimeData(prev => ({
-      ...prev,
-      context: context
-    }));
-  }, []);
-
-  const simulateToolCall = useCallback(async (toolName: string, args: any) => {
-    // Simulate MCP tool execution
-    const mockResults = {
-      cognitive_analyzer: {
-        insights: ['Pattern recognition improved by 15%', 'New edge case discovered'],
-        performance: Math.random() * 100,
-        recommendations: ['Optimize neural pathways', 'Enhance learning algorithms']
-      },
-      performance_monitor: {
-        metrics: {
-          cpu: Math.random() * 100,
-          memory: Math.random() * 100,
-          network: Math.random() * 100
-        },
-        alerts: [],
-        status: 'optimal'
-      },
-      integration_manager: {
-        connections: ['GHL API', 'Assistable Voice', 'Database'],
-        health: 'excellent',
-        latency: Math.random() * 50
-      }
-    };
-
-    return mockResults[toolName as keyof typeof mockResults] || { status: 'executed' };
-  }, []);
-
-  const updateComponentPerformance = useCallback((componentId: string, performance: number) => {
-    // This would update the actual component performance in a real implementation
-    console.log(`Performance update for ${componentId}: ${performance}%`);
-  }, []);
-
-  const updateComponentStatus = useCallback((componentId: string, status: string) => {
-    // This would update the actual component status in a real implementation
-    console.log(`Status update for ${componentId}: ${status}`);
-  }, []);
-
-  // Enhanced Swarm context protocol system data with complete story integration
-  const swarmSystem = useMemo(() => ({
-    nucleus: {
-      id: 'HARMONY',
-      name: 'Harmony-v2.1',
-      description: 'Zero-Shot Bidirectional Cognitive Traversal Engine with Perfect Semantic Fidelity Preservation',
-      details: [
-        'First successful zero-shot implementation of bidirectional cognitive traversal',
-        'Perfect semantic fidelity preservation across 7 abstraction layers',
-        'Swarm Intelligence Coordination at 97.3% efficiency',
-        'Real-Time Strategic Optimization with <3 second response time',
-        'Integrated Learning Systems with exponential capability expansion',
-        'Cross-Domain Intelligence Harmonization across B2B2B2C realms',
-        'Bidirectional Neural Pathway Management: Vision ↔ Reality alignment',
-        'Context Coherence Maintenance with zero information loss',
-        'Production System Status: $115M market value pathway enabled'
-      ],
-      color: '#fbbf24',
-      position: { x: 50, y: 50 },
-      role: 'Supreme Cognitive Orchestration Nucleus & Swarm Kernel',
-      interplay: [
-        'Orchestrates all subsystem interactions through bidirectional semantic bridging',
-        'Maintains perfect fidelity across abstraction layers via cognitive traversal protocols',
-        'Distributes workload through intelligent swarm choreography at 97.3% efficiency',
-        'Ensures zero-loss translation via semantic preservation algorithms',
-        'Enables exponential learning through cross-domain pattern transfer mechanisms',
-        'Coordinates real-time adaptation to new challenges and opportunities'
-      ]
-    },
-    rings: {
-      core: {
-        name: 'Core Swarm Architecture',
-        color: '#10b981',
-        radius: 22,
-        components: [
-          {
-            id: 'CSA1',
-            name: 'VISION_PROCESSOR',
-            subtitle: 'Intent Recognition & Pattern Extraction Core',
-            details: [
-              'Business Model Pattern Matching (100+ models)',
-              'Strategic Goal Synthesis Engine',
-              'Market Opportunity Identification',
-              'Value Proposition Analysis Matrix',
-              'Industry Template Recognition',
-              'Revenue Potential Assessment',
-              '30-second Website Analysis capability',
-              'Emergency Protocol Detection systems'
-            ],
-            metrics: 'Processes 2000+ context patterns/sec | 30-sec analysis completion',
-            angle: 0,
-            performance: 98,
-            status: 'active' as const,
-            role: 'Primary Vision Intelligence & Business Pattern Orchestrator',
-            interplay: [
-              'Synthesizes extracted business vision to REQUIREMENT_SWARM through semantic injection protocols',
-              'Validates interpretations with SEMANTIC_GUARDIAN via coherence verification algorithms',
-              'Coordinates with IMPLEMENTATION_WEAVER through feasibility cross-referencing matrices',
-              'Feeds blueprint intelligence to BLUEPRINT_ANALYZER through pattern recognition channels',
-              'Harmonizes with learning systems through continuous pattern refinement protocols'
-            ]
-          },
-          {
-            id: 'CSA2',
-            name: 'REQUIREMENT_SWARM',
-            subtitle: 'Specification Intelligence & Constraint Discovery',
-            details: [
-              'Functional Requirement Mining with 99.8% accuracy',
-              'Non-Functional Constraint Discovery',
-              'Dependency Relationship Mapping',
-              'Priority Hierarchy Generation',
-              'Edge Case Identification (234+ scenarios)',
-              'Performance Threshold Analysis',
-              'Platform Integration Requirements',
-              'Revenue Generation Specifications'
-            ],
-            metrics: '99.8% Requirement Accuracy | 234+ Edge Cases Catalogued',
-            angle: 60,
-            performance: 97,
-            status: 'active' as const,
-            role: 'Requirements Architect & Specification Intelligence Coordinator',
-            interplay: [
-              'Receives vision streams from VISION_PROCESSOR via semantic channeling protocols',
-              'Collaborates with CONSTRAINT_WEAVER through limitation cross-validation matrices',
-              'Provisions specifications to ARCHITECTURE_GENERATOR via structured blueprinting systems',
-              'Informs LEARNING_SYSTEMS through requirement pattern extraction mechanisms',
-              'Synchronizes with DEPLOYMENT_ORCHESTRATOR through specification compliance verification'
-            ]
-          },
-          {
-            id: 'CSA3',
-            name: 'CONSTRAINT_WEAVER',
-            subtitle: 'Limitation Intelligence & Workaround Strategy Engine',
-            details: [
-              'Platform Restriction Discovery (GHL API limitations)',
-              'Integration Boundary Analysis',
-              'Performance Threshold Identification',
-              'Workaround Strategy Generation (95% success rate)',
-              'Resource Allocation Optimization',
-              'Technical Debt Management',
-              'Rate Limit Orchestration (5 req/sec management)',
-              '300+ Constraint Scenarios Handled'
-            ],
-            metrics: '300+ Constraint Scenarios | 95% Workaround Success Rate',
-            angle: 120,
-            performance: 94,
-            status: 'optimizing' as const,
-            role: 'Constraint Orchestrator & Limitation Transcendence Specialist',
-            interplay: [
-              'Collaborates with REQUIREMENT_SWARM through feasibility matrix validation protocols',
-              'Informs ARCHITECTURE_GENERATOR via constraint boundary mapping systems',
-              'Coordinates with SWARM_AGENTS through resource allocation synchronization',
-              'Optimizes with LEARNING_SYSTEMS through constraint pattern learning mechanisms',
-              'Harmonizes with PLATFORM_INTEGRATION through workaround strategy sharing'
-            ]
-          },
-          {
-            id: 'CSA4',
-            name: 'Homeskillet-v7.1',
-            subtitle: 'Structure Intelligence & System Design Orchestrator',
-            details: [
-              'Component Relationship Modeling',
-              'Scalability Strategy Formulation',
-              'Technology Stack Optimization',
-              'Performance Pattern Recognition',
-              'Microservice Orchestration Design',
-              'Data Flow Architecture Generation',
-              '92% Optimization Improvement achieved',
-              'Zero-Downtime Deployment Architecture'
-            ],
-            metrics: '92% Optimization Improvement | Zero-Downtime Architecture',
-            angle: 180,
-            performance: 96,
-            status: 'active' as const,
-            role: 'System Architect & Infrastructure Intelligence Coordinator',
-            interplay: [
-              'Receives requirements from REQUIREMENT_SWARM via structured specification intake',
-              'Considers constraints from CONSTRAINT_WEAVER through limitation integration protocols',
-              'Provisions blueprints to IMPLEMENTATION_WEAVER via architectural transmission systems',
-              'Coordinates with DEPLOYMENT_ORCHESTRATOR through infrastructure planning synchronization',
-              'Optimizes with PERFORMANCE_SYSTEMS through architecture efficiency enhancement'
-            ]
-          },
-          {
-            id: 'CSA5',
-            name: 'IMPLEMENTATION_WEAVER',
-            subtitle: 'Execution Intelligence & Development Coordination Core',
-            details: [
-              'Development Task Orchestration',
-              'Resource Allocation Optimization',
-              'Timeline Strategy Generation',
-              'Risk Mitigation Planning',
-              'Quality Assurance Integration',
-              'Deployment Pipeline Management',
-              '99% Automation Achievement',
-              'Swarm Agent Task Delegation'
-            ],
-            metrics: '99% Automation Achievement | 97.3% Swarm Coordination',
-            angle: 240,
-            performance: 99,
-            status: 'active' as const,
-            role: 'Implementation Coordinator & Execution Intelligence Orchestrator',
-            interplay: [
-              'Executes plans from ARCHITECTURE_GENERATOR through blueprint materialization protocols',
-              'Coordinates with SWARM_AGENTS via specialized task delegation systems',
-              'Reports progress to DEPLOYMENT_ORCHESTRATOR through status synchronization channels',
-              'Integrates with LEARNING_SYSTEMS through implementation pattern capture mechanisms',
-              'Harmonizes with QUALITY_ASSURANCE through validation protocol coordination'
-            ]
-          },
-          {
-            id: 'CSA6',
-            name: 'DEPLOYMENT_ORCHESTRATOR',
-            subtitle: 'Production Intelligence & Infrastructure Coordination',
-            details: [
-              'Infrastructure Provisioning Logic',
-              'Environment Configuration Management',
-              'Service Orchestration Coordination',
-              'Monitoring Strategy Implementation',
-              'Auto-Scaling Intelligence',
-              'Disaster Recovery Protocols',
-              '99.9% Uptime Guarantee',
-              'Blue-Green Deployment Logic'
-            ],
-            metrics: '99.9% Uptime Guarantee | Zero-Downtime Deployments',
-            angle: 300,
-            performance: 100,
-            status: 'active' as const,
-            role: 'Production Guardian & Infrastructure Intelligence Coordinator',
-            interplay: [
-              'Receives deployment plans from IMPLEMENTATION_WEAVER via execution handoff protocols',
-              'Coordinates with INFRASTRUCTURE_AGENTS through provisioning orchestration systems',
-              'Monitors system health and reports to Harmony nucleus via telemetry streaming',
-              'Synchronizes with SECURITY_CORE through threat detection integration protocols',
-              'Optimizes with PERFORMANCE_ENGINES through resource allocation enhancement'
-            ]
-          }
-        ]
-      },
-      agents: {
-        name: 'Swarm Intelligence Agents',
-        color: '#f59e0b',
-        radius: 32,
-        components: [
-          {
-            id: 'SA1',
-            name: 'ALPHA_SWARM',
-            subtitle: 'GHL Integration Specialist & OAuth Orchestrator',
-            details: [
-              'OAuth Token Management & Refresh (100% success)',
-              'Rate Limit Orchestration (5 req/sec)',
-              'Workflow Template Generation',
-              'Field Preservation Algorithms',
-              'Webhook Self-Healing Protocols',
-              'Template Library Optimization',
-              'CRM Intelligence Adaptation',
-              'Request Queue Management'
-            ],
-            metrics: '100% Integration Success Rate | 5 req/sec Rate Management',
-            angle: 15,
-            performance: 100,
-            status: 'active' as const,
-            role: 'Integration Specialist & Platform Harmony Orchestrator',
-            interplay: [
-              'Manages external system connections through protocol harmonization matrices',
-              'Reports integration status to core systems via health telemetry broadcasting',
-              'Coordinates with BRAVO_SWARM through cross-platform synchronization protocols',
-              'Optimizes with CONSTRAINT_WEAVER through limitation transcendence strategies',
-              'Learns from PLATFORM_INTEGRATION through pattern recognition enhancement'
-            ]
-          },
-          {
-            id: 'SA2',
-            name: 'BRAVO_SWARM',
-            subtitle: 'Voice & Conversation Architect',
-            details: [
-              'Voice Configuration Engine',
-              'Tool State Preservation',
-              'Conversation Flow Designer',
-              'Integration Point Manager',
-              'Browser Automation Scripts',
-              'Configuration Injection System',
-              '24/7 Call Handling Automation',
-              'Emergency Detection (<5 seconds)'
-            ],
-            metrics: '98.1% Voice Recognition | <5sec Emergency Detection',
-            angle: 45,
-            performance: 98,
-            status: 'active' as const,
-            role: 'Conversation Interface Manager & Voice Intelligence Coordinator',
-            interplay: [
-              'Interfaces with users through voice channel orchestration protocols',
-              'Translates voice commands to system actions via intent materialization systems',
-              'Collaborates with VISION_PROCESSOR through understanding amplification mechanisms',
-              'Coordinates with RECEPTIONIST_CORE through emergency response synchronization',
-              'Harmonizes with LEARNING_SYSTEMS through conversation pattern optimization'
-            ]
-          },
-          {
-            id: 'SA3',
-            name: 'CHARLIE_SWARM',
-            subtitle: 'MCP Pattern Analyst & Protocol Harmonizer',
-            details: [
-              'Server Recommendation Engine',
-              'Integration Pattern Matcher',
-              'Protocol Optimization Core',
-              'Cross-Platform Harmonizer',
-              'Message Queue Orchestration',
-              'Event-Driven Architecture',
-              '75+ Integration Patterns',
-              'Communication Network Intelligence'
-            ],
-            metrics: '75+ Integration Patterns | 94% Protocol Optimization',
-            angle: 75,
-            performance: 95,
-            status: 'optimizing' as const,
-            role: 'Protocol Harmonizer & Communication Intelligence Orchestrator',
-            interplay: [
-              'Analyzes communication patterns between systems via protocol introspection',
-              'Optimizes data flow protocols through efficiency amplification algorithms',
-              'Ensures interoperability across platforms via compatibility orchestration',
-              'Synchronizes with INTEGRATION_MESH through communication harmonization',
-              'Evolves with LEARNING_SYSTEMS through protocol pattern enhancement'
-            ]
-          },
-          {
-            id: 'SA4',
-            name: 'DELTA_SWARM',
-            subtitle: 'React Frontend Orchestrator',
-            details: [
-              'Component Hierarchy Designer',
-              'State Management Architect',
-              'UI/UX Pattern Generator',
-              'Performance Optimization Core',
-              'Bundle Size Optimization (40% reduction)',
-              'Accessibility Compliance Engine',
-              'Real-Time Update Coordination',
-              'User Experience Intelligence'
-            ],
-            metrics: '40% Bundle Size Reduction | 100% Accessibility Compliance',
-            angle: 105,
-            performance: 96,
-            status: 'active' as const,
-            role: 'Frontend Intelligence Coordinator & User Experience Orchestrator',
-            interplay: [
-              'Designs component hierarchies through architectural intelligence protocols',
-              'Manages state coordination via optimization synchronization systems',
-              'Harmonizes with ECHO_SWARM through frontend-backend communication protocols',
-              'Integrates with PERFORMANCE_ENGINES through efficiency enhancement mechanisms',
-              'Evolves with USER_EXPERIENCE_LEARNING through pattern optimization'
-            ]
-          },
-          {
-            id: 'SA5',
-            name: 'ECHO_SWARM',
-            subtitle: 'Express Backend Coordinator',
-            details: [
-              'API Gateway Architecture',
-              'Endpoint Orchestration Matrix',
-              'Middleware Chain Designer',
-              'Security Protocol Manager',
-              'Database Connection Pooling',
-              'Caching Strategy Implementation',
-              '<100ms API Response Time',
-              'Load Balancing Intelligence'
-            ],
-            metrics: '<100ms API Response Time | 99.9% Uptime',
-            angle: 135,
-            performance: 98,
-            status: 'active' as const,
-            role: 'Backend Intelligence Coordinator & API Orchestration Specialist',
-            interplay: [
-              'Orchestrates API gateway architecture through endpoint coordination protocols',
-              'Manages middleware chains via security integration systems',
-              'Coordinates with FOXTROT_SWARM through database optimization synchronization',
-              'Harmonizes with SECURITY_CORE through threat prevention integration',
-              'Optimizes with PERFORMANCE_ENGINES through response time enhancement'
-            ]
-          },
-          {
-            id: 'SA6',
-            name: 'FOXTROT_SWARM',
-            subtitle: 'Database Intelligence Core',
-            details: [
-              'Schema Evolution Engine',
-              'Vector Store Optimizer',
-              'Migration Strategy Generator',
-              'Query Performance Enhancer',
-              'Index Optimization Algorithms',
-              'Data Consistency Protocols',
-              '99.99% Data Consistency',
-              'Knowledge Graph Integration'
-            ],
-            metrics: '99.99% Data Consistency | <50ms Query Response',
-            angle: 165,
-            performance: 99,
-            status: 'active' as const,
-            role: 'Database Intelligence Orchestrator & Data Consistency Guardian',
-            interplay: [
-              'Evolves schema architecture through intelligent migration protocols',
-              'Optimizes vector store performance via AI-enhanced indexing systems',
-              'Coordinates with KNOWLEDGE_SYSTEMS through data integration synchronization',
-              'Harmonizes with LEARNING_SYSTEMS through pattern storage optimization',
-              'Maintains consistency via distributed transaction coordination protocols'
-            ]
-          }
-        ]
-      },
-      specialized: {
-        name: 'Specialized Swarm Systems',
-        color: '#ef4444',
-        radius: 42,
-        components: [
-          {
-            id: 'SS1',
-            name: 'QUANTUM_PROCESSOR',
-            subtitle: 'Advanced Context Intelligence & Multi-Dimensional Analysis',
-            details: [
-              '24/7 Context Processing',
-              'Quantum State Management',
-              'Multi-Dimensional Analysis',
-              'Parallel Processing Optimization',
-              'Real-Time Context Synthesis',
-              'Predictive Context Modeling',
-              'Infinite context state processing',
-              'Cross-domain pattern transfer'
-            ],
-            metrics: 'Processes infinite context states | 15ms adaptation speed',
-            angle: 30,
-            performance: 99,
-            status: 'active' as const,
-            role: 'Advanced Context Processor & Quantum Intelligence Coordinator',
-            interplay: [
-              'Handles complex multi-dimensional contexts through quantum state orchestration',
-              'Supports core systems with advanced analytics via predictive intelligence injection',
-              'Provides predictive insights to Harmony nucleus through foresight streaming protocols',
-              'Harmonizes with LEARNING_SYSTEMS through quantum pattern enhancement mechanisms',
-              'Coordinates cross-domain intelligence transfer through dimensional bridging protocols'
-            ]
-          },
-          {
-            id: 'SS2',
-            name: 'LEARNING_ORCHESTRATOR',
-            subtitle: 'Meta-Learning & Cognitive Evolution Engine',
-            details: [
-              'Learning Strategy Selection',
-              'Knowledge Transfer Coordination',
-              'Cognitive Adaptation Engine refinement',
-              'Pattern Learning System integration',
-              'Continuous Learning Engine optimization',
-              'Self-Supervised Learning mechanisms',
-              '94.7% Pattern Recognition accuracy',
-              'Exponential capability expansion'
-            ],
-            metrics: '94.7% Learning Accuracy | 8ms Continuous Adaptation',
-            angle: 90,
-            performance: 97,
-            status: 'active' as const,
-            role: 'Meta-Learning Coordinator & Cognitive Evolution Orchestrator',
-            interplay: [
-              'Orchestrates learning strategies through meta-cognitive optimization protocols',
-              'Transfers knowledge across domains via analogical learning systems',
-              'Adapts cognitive models through real-time strategy adjustment mechanisms',
-              'Coordinates with all systems through learning integration synchronization',
-              'Evolves system capabilities through continuous improvement protocols'
-            ]
-          },
-          {
-            id: 'SS3',
-            name: 'REVENUE_MAXIMIZER',
-            subtitle: 'AI Employee Revenue Intelligence Matrix',
-            details: [
-              'Emergency Revenue Capture ($1,650 avg)',
-              'Customer Reactivation Engine ($20K avg recovery)',
-              'Lead Qualification System (3x conversion)',
-              'Reputation Revenue Amplifier (4.8+ stars)',
-              'Multi-Channel Revenue Orchestration',
-              'ROI Optimization Matrix',
-              '$115M market value pathway enabled',
-              '35% market share achievement'
-            ],
-            metrics: '$115M Market Value | $4,067/month per business',
-            angle: 150,
-            performance: 100,
-            status: 'active' as const,
-            role: 'Revenue Intelligence Coordinator & Business Value Maximizer',
-            interplay: [
-              'Coordinates revenue streams through intelligent capture orchestration protocols',
-              'Optimizes customer lifecycle through reactivation pattern synchronization',
-              'Enhances lead qualification via multi-dimensional scoring systems',
-              'Amplifies reputation value through brand enhancement coordination',
-              'Maximizes ROI through cross-channel optimization protocols'
-            ]
-          },
-          {
-            id: 'SS4',
-            name: 'SEMANTIC_GUARDIAN',
-            subtitle: 'Fidelity Preservation & Integrity Core',
-            details: [
-              '100% Vision-to-Code Fidelity',
-              'Semantic Coherence Maintenance',
-              'Translation Loss Prevention',
-              'Meaning Preservation Algorithms',
-              'Context Integrity Validation',
-              'Zero-Drift Guarantee Protocols',
-              'Bidirectional traversal coordination',
-              'Perfect abstraction layer alignment'
-            ],
-            metrics: '100% Semantic Fidelity | Zero Information Loss',
-            angle: 210,
-            performance: 100,
-            status: 'active' as const,
-            role: 'Fidelity Guardian & Semantic Integrity Orchestrator',
-            interplay: [
-              'Preserves semantic integrity across all system interactions via fidelity protocols',
-              'Validates meaning preservation through coherence verification algorithms',
-              'Coordinates bidirectional traversal through perfect alignment mechanisms',
-              'Maintains context integrity via zero-drift guarantee systems',
-              'Ensures translation fidelity through semantic preservation orchestration'
-            ]
-          }
-        ]
-      }
+    if (result.message.type !== 'heartbeat') sessionRecorder.record(result.message);
+    // Live frames keep being recorded during a replay but only touch state once it ends
+    if (replayingRef.current) return;
+    handleRealTimeUpdate(result.message);
+  }, [handleRealTimeUpdate, rejectedFrames, sessionRecorder]);
+
+  const resetDashboardState = useCallback(() => {
+    liveStore.reset(swarmSystem);
+    metricsHistory.clear();
+    tokenLedger.clear();
+    contextTracker.clear();
+    setRealTimeData({});
+    setStreamingUpdates([]);
+  }, [liveStore, metricsHistory, tokenLedger, contextTracker, swarmSystem]);
+
+  const applyRecordedEvent = useCallback((event: RecordedEvent) => {
+    handleRealTimeUpdate(event.message, { quiet: true, receivedAt: event.receivedAt });
+  }, [handleRealTimeUpdate]);
+
+  const replay = useSessionReplay({ reset: resetDashboardState, apply: applyRecordedEvent });
+  const { enter: enterReplay, exit: leaveReplay } = replay;
+  replayingRef.current = replay.recording !== null;
+
+  const alertEngine = useAlertEngine(swarmSystem, liveStore, {
+    silent: replay.recording !== null,
+    now: replay.recording ? replay.recording.startedAt + replay.position : undefined
+  });
+  const { alerts, severityByComponent } = useAlerts(alertEngine);
+  useBudgetToasts(tokenLedger, swarmSystem.costs.currency, { silent: replay.recording !== null });
+  useContextWarnings(contextTracker, { silent: replay.recording !== null });
+  const firingAlertCount = alerts.filter(alert => alert.status === 'firing').length;
+
+  // MCP servers from the manifest, drawn as components and reporting into the same stores
+  const externalServers = useExternalServers(swarmSystem, { live: liveStore, history: metricsHistory }, { paused: replay.recording !== null });
+  const connectedServerCount = useExternalServerSnapshots(externalServers).filter(server => server.state === 'connected').length;
+
+  // Rebuilds live state from the recording, which includes anything that arrived mid-replay
+  const exitReplay = useCallback(() => {
+    leaveReplay();
+    resetDashboardState();
+    sessionRecorder.getSnapshot().events.forEach(applyRecordedEvent);
+  }, [leaveReplay, resetDashboardState, sessionRecorder, applyRecordedEvent]);
+
+  const exportSession = useCallback(() => {
+    const recording = sessionRecorder.getSnapshot();
+    const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `swarm-session-${new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }, [sessionRecorder]);
+
+  const importSession = useCallback(async (file: File) => {
+    try {
+      enterReplay(parseRecording(await file.text(), file.name, id => knownComponentIds.current.has(id)));
+      toast({ title: 'Session loaded for replay', description: file.name });
+    } catch (error) {
+      console.error(error);
+      toast({
+        variant: 'destructive',
+        title: `Could not load session ${file.name}`,
+        description: error instanceof RecordingError ? error.issues.slice(0, 5).join('\n') : String(error)
+      });
+    }
+  }, [enterReplay]);
+
+  // Real-time updates over the configured transport; reconnects with backoff and resumes from the last seq
+  const {
+    state: connectionState,
+    stats: connectionStats,
+    reconnect,
+    connect: connectStream,
+    disconnect: disconnectStream,
+    transport,
+    url: streamUrl
+  } = useStreamConnection({ onFrame: ingestFrame });
+  const isConnected = connectionState === 'open' || connectionState === 'stale';
+
+  // The MCP tools answer from this page's stores; refs keep the server stable across renders
+  const manifestRef = useRef(swarmSystem);
+  manifestRef.current = swarmSystem;
+  const streamStatus: IntegrationStatus = {
+    name: 'stream',
+    kind: transport,
+    state: connectionState,
+    detail: `${streamUrl} · seq ${connectionStats?.lastSeq ?? '–'} · ${connectionStats?.gaps ?? 0} gaps`
+  };
+  const streamStatusRef = useRef(streamStatus);
+  streamStatusRef.current = streamStatus;
+  const promptRegistry = usePromptLibrary();
+  const promptCount = usePrompts(promptRegistry).prompts.length;
+  const { gate: approvalGate, policy: toolPolicy, setPolicy: setToolPolicy } = useApprovalGate();
+  const pendingApprovalCount = useApprovals(approvalGate).pending.length;
+  const [traceLog] = useState(() => createTraceLog());
+  const traceCount = useSyncExternalStore(traceLog.subscribe, () => traceLog.getSnapshot().length);
+  const mcpServer = useMemo(() => createMcpServer({
+    prompts: promptRegistry,
+    approvals: approvalGate,
+    trace: traceLog.record,
+    context: {
+      manifest: () => manifestRef.current,
+      live: liveStore,
+      history: metricsHistory,
+      alerts: alertEngine,
+      integrations: () => [{
+        status: () => streamStatusRef.current,
+        connect: connectStream,
+        disconnect: disconnectStream
+      }, ...externalServers.integrations()]
     }
-  }), []);
+  }), [liveStore, metricsHistory, alertEngine, connectStream, disconnectStream, promptRegistry, externalServers, approvalGate, traceLog]);
+  const toolNames = useMemo(() => mcpServer.listTools().map(tool => tool.name), [mcpServer]);
+  const toolCallers = useMemo(
+    () => swarmSystem.rings.flatMap(ring => ring.components.map(component => ({ id: component.id, name: component.name }))),
+    [swarmSystem]
+  );
+  const [toolCalls] = useState(() => createToolCallLog());
+  const toolCallCount = useSyncExternalStore(toolCalls.subscribe, () => toolCalls.getSnapshot().length);
 
-  // Simulate real-time data updates
   useEffect(() => {
-    if (!isConnected) return;
-
-    const interval = setInterval(() => {
-      // Simulate random component updates
-      const components = Object.values(swarmSystem.rings).flatMap(ring => ring.components);
-      const randomComponent = components[Math.floor(Math.random() * components.length)];
-      
-      const mockUpdate = {
-        componentId: randomComponent.id,
-        type: 'performance_update',
-        performance: Math.floor(Math.random() * 20) + 80, // 80-100%
-        message: `${randomComponent.name} optimization cycle complete`,
-        updates: {
-          efficiency: Math.floor(Math.random() * 10) + 90,
-          throughput: Math.floor(Math.random() * 1000) + 500,
-          errorRate: Math.random() * 0.1
-        }
-      };
-
-      handleRealTimeUpdate(mockUpdate);
-    }, 3000);
+    if (isConnected) {
+      setMcpStatus('running');
+    } else if (connectionState === 'failed' || connectionState === 'idle') {
+      setMcpStatus('disconnected');
+    }
+  }, [connectionState, isConnected]);
 
-    return () => clearInterval(interval);
-  }, [isConnected, handleRealTimeUpdate, swarmSystem.rings]);
+  const interplayGraph = useMemo(() => buildInterplayGraph(swarmSystem), [swarmSystem]);
+  const renderer: Renderer = rendererChoice ?? (totalComponents > CANVAS_RENDERER_THRESHOLD ? 'canvas' : 'dom');
 
-  const getComponentIcon = useCallback((id: string) => {
-    if (id.startsWith('CSA')) return Brain;
-    if (id.startsWith('SA')) return Settings;
-    if (id.startsWith('SS')) return Target;
-    if (id.startsWith('BA')) return Search;
-    if (id.startsWith('PI')) return Database;
-    if (id.startsWith('LE')) return Lightbulb;
-    if (id.startsWith('FP')) return Shield;
-    if (id.startsWith('RG')) return Zap;
-    return Brain;
+  const chooseRenderer = useCallback((next: Renderer) => {
+    setRendererChoice(next);
+    writeQueryParam(RENDERER_QUERY_PARAM, next);
   }, []);
 
-  const calculatePosition = useCallback((angle: number, radius: number, centerX = 50, centerY = 50) => {
-    const radian = (angle * Math.PI) / 180;
-    return {
-      x: centerX + radius * Math.cos(radian),
-      y: centerY + radius * Math.sin(radian)
-    };
+  const chooseLayout = useCallback((next: LayoutKind) => {
+    setLayoutKind(next);
+    writeQueryParam(LAYOUT_QUERY_PARAM, next);
   }, []);
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'active': return '#10b981';
-      case 'optimizing': return '#f59e0b';
-      case 'idle': return '#6b7280';
-      default: return '#10b981';
+  const topologyReport = useMemo(() => lintTopology(swarmSystem), [swarmSystem]);
+
+  // The detailed view spreads rings and nodes out on a larger canvas so inline labels do not collide
+  const isDetailed = viewMode === 'detailed';
+  const layoutOptions = isDetailed ? DETAILED_LAYOUT : DEFAULT_LAYOUT;
+  const graphLayoutOptions = isDetailed ? DETAILED_GRAPH_LAYOUT : DEFAULT_GRAPH_LAYOUT;
+  const baseCanvas = isDetailed ? DETAILED_CANVAS : MIN_CANVAS;
+  const layoutSize = useMemo(() => {
+    if (layoutKind === 'layered') return layeredExtent(swarmSystem, interplayGraph.edges, graphLayoutOptions);
+    const side = layoutKind === 'force' ? forceExtent(swarmSystem, graphLayoutOptions) : layoutExtent(swarmSystem, layoutOptions);
+    return { width: side, height: side };
+  }, [layoutKind, swarmSystem, interplayGraph, layoutOptions, graphLayoutOptions]);
+
+  // Wheel/pinch zoom and drag panning over a canvas at least MIN_CANVAS in size (and large enough
+  // for the layout), so small screens zoom out instead of piling nodes on top of each other
+  const canvasViewportRef = useRef<HTMLDivElement>(null);
+  const {
+    view: canvasView,
+    setView: setCanvasView,
+    viewport: canvasViewport,
+    canvas: canvasSize,
+    transform: canvasTransform,
+    zoomBy: zoomCanvasBy,
+    fit: fitCanvas,
+    handlers: canvasHandlers
+  } = useViewTransform(canvasViewportRef, {
+    minCanvas: {
+      width: Math.max(baseCanvas.width, Math.min(MAX_CANVAS_SIDE, layoutSize.width)),
+      height: Math.max(baseCanvas.height, Math.min(MAX_CANVAS_SIDE, layoutSize.height))
     }
+  });
+
+  // Where nodes are headed, and where they are drawn while they move there
+  const layoutTarget = useMemo(() => {
+    switch (layoutKind) {
+      case 'force': return forceLayout(swarmSystem, interplayGraph.edges, canvasSize, graphLayoutOptions);
+      case 'layered': return layeredLayout(swarmSystem, interplayGraph.edges, canvasSize, graphLayoutOptions);
+      default: return ringLayout(swarmSystem, canvasSize, layoutOptions);
+    }
+  }, [layoutKind, swarmSystem, interplayGraph, canvasSize, layoutOptions, graphLayoutOptions]);
+  const { x: nucleusX, y: nucleusY } = swarmSystem.nucleus.position;
+  const nodePositions = useAnimatedLayout(layoutTarget, { origin: { x: nucleusX, y: nucleusY } });
+
+  const zoomToFit = useCallback(() => {
+    fitCanvas(boundsOf([...layoutTarget.values()]), { padding: isDetailed ? 120 : 80 });
+  }, [fitCanvas, layoutTarget, isDetailed]);
+
+  // The selection and everything it interplays with
+  const zoomToSelection = useCallback(() => {
+    if (!selectedComponent) return;
+    const ids = [selectedComponent.id, ...edgesForComponent(interplayGraph, selectedComponent.id).map(({ peer }) => peer)];
+    fitCanvas(boundsOf(ids.map(id => layoutTarget.get(id)).filter(Boolean)), { padding: isDetailed ? 140 : 100, maxScale: 2.5 });
+  }, [fitCanvas, selectedComponent, interplayGraph, layoutTarget, isDetailed]);
+
+  const findComponent = useCallback((id: string): ComponentData | NucleusData | null => (
+    id === swarmSystem.nucleus.id
+      ? swarmSystem.nucleus
+      : swarmSystem.rings.flatMap(ring => ring.components).find(component => component.id === id) ?? null
+  ), [swarmSystem]);
+
+  // The control panel opens side sheets by name
+  const sheetSetters: Record<ControlPanelSheet, (open: boolean) => void> = {
+    topology: setTopologyPanelOpen,
+    alerts: setAlertCenterOpen,
+    tools: setToolConsoleOpen,
+    costs: setCostPanelOpen,
+    context: setContextInspectorOpen,
+    audit: setAuditLogOpen,
+    approvals: setApprovalCenterOpen,
+    'mcp-servers': setMcpServersOpen
   };
 
-  const ComponentNode: React.FC<{
-    component: ComponentData;
-    ring: RingData;
-  }> = ({ component, ring }) => {
-    const position = calculatePosition(component.angle, ring.radius);
-    const Icon = getComponentIcon(component.id);
-    const isSelected = selectedComponent?.id === component.id;
-    const isHovered = hoveredComponent?.id === component.id;
-
-    return (
-      <div
-        className={`absolute transform -translate-x-1/2 -translate-y-1/2 cursor-pointer transition-all duration-500 ${
-          isSelected ? 'scale-125 z-30' : isHovered ? 'scale-110 z-20' : 'z-10'
-        }`}
-        style={{
-          left: `${position.x}%`,
-          top: `${position.y}%`,
-          filter: isSelected || isHovered ? 'drop-shadow(0 0 20px rgba(59, 130, 246, 0.6))' : 'none'
-        }}
-        onClick={() => setSelectedComponent(component)}
-        onMouseEnter={() => setHoveredComponent(component)}
-        onMouseLeave={() => setHoveredComponent(null)}
-      >
-        <div
-          className={`relative w-16 h-16 rounded-full border-2 flex items-center justify-center backdrop-blur-md transition-all duration-300 ${
-            isSelected
-              ? 'border-white bg-white/20 text-white shadow-2xl'
-              : isHovered
-              ? 'border-white/80 bg-white/10 text-white shadow-xl'
-              : 'border-current bg-black/40 text-current'
-          }`}
-          style={{
-            borderColor: isSelected || isHovered ? '#fff' : ring.color,
-            backgroundColor: isSelected 
-              ? `${ring.color}40` 
-              : isHovered 
-              ? `${ring.color}20` 
-              : 'rgba(0,0,0,0.4)'
-          }}
-        >
-          <Icon size={20} />
-          
-          {/* Performance indicator */}
-          {viewMode === 'performance' && component.performance && (
-            <div 
-              className="absolute -top-1 -right-1 w-4 h-4 rounded-full border-2 border-white text-xs flex items-center justify-center font-bold"
-              style={{ backgroundColor: getStatusColor(component.status || 'active') }}
-            >
-              {Math.round(component.performance)}
-            </div>
-          )}
-
-          {/* Status pulse animation */}
-          {isAnimating && component.status === 'active' && (
-            <div 
-              className="absolute inset-0 rounded-full animate-ping opacity-20"
-              style={{ backgroundColor: ring.color }}
-            />
-          )}
-        </div>
-
-        {/* Enhanced tooltip */}
-        {(isHovered || isSelected) && (
-          <div
-            className="absolute top-full mt-3 bg-black/90 backdrop-blur-md text-white p-3 rounded-xl text-xs font-medium whitespace-nowrap shadow-2xl border border-white/20 z-40"
-            style={{ 
-              borderColor: ring.color,
-              boxShadow: `0 0 20px ${ring.color}40`
-            }}
-          >
-            <div className="font-bold text-sm">{component.name}</div>
-            <div className="text-gray-300 mt-1">{component.subtitle}</div>
-            {component.role && (
-              <div className="text-blue-300 text-xs mt-2 font-semibold">
-                🎯 {component.role}
-              </div>
-            )}
-            {component.metrics && (
-              <div className="text-yellow-300 text-xs mt-2 font-semibold">
-                📊 {component.metrics}
-              </div>
-            )}
-            {component.performance && (
-              <div className="flex items-center space-x-2 mt-2">
-                <div className="w-12 h-1 bg-gray-600 rounded-full overflow-hidden">
-                  <div 
-                    className="h-full transition-all duration-300 rounded-full"
-                    style={{ 
-                      width: `${component.performance}%`,
-                      backgroundColor: getStatusColor(component.status || 'active')
-                    }}
-                  />
-                </div>
-                <span className="text-xs">{component.performance}%</span>
-              </div>
-            )}
-          </div>
-        )}
-      </div>
-    );
-  };
-
-  const NucleusNode = () => {
-    const nucleus = swarmSystem.nucleus;
-    const isSelected = selectedComponent?.id === nucleus.id;
-
-    return (
-      <div
-        className={`absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 cursor-pointer transition-all duration-700 ${
-          isSelected ? 'scale-110' : 'scale-100'
-        }`}
-        onClick={() => setSelectedComponent(nucleus)}
-        onMouseEnter={() => setHoveredComponent(nucleus)}
-        onMouseLeave={() => setHoveredComponent(null)}
-        style={{
-          filter: isSelected ? 'drop-shadow(0 0 40px rgba(251, 191, 36, 0.8))' : 'drop-shadow(0 0 20px rgba(251, 191, 36, 0.4))'
-        }}
-      >
-        <div
-          className={`relative w-36 h-36 rounded-full border-4 flex items-center justify-center backdrop-blur-md transition-all duration-500 ${
-            isSelected ? 'bg-yellow-400/30 text-white border-white' : 'bg-black/50 border-yellow-400 text-yellow-400'
-          }`}
-          style={{
-            borderColor: isSelected ? '#fff' : nucleus.color,
-            backgroundColor: isSelected ? `${nucleus.color}30` : 'rgba(0,0,0,0.5)'
-          }}
-        >
-          <div className="text-center">
-            <Brain size={36} className="mx-auto mb-2" />
-            <div className="text-xs font-bold leading-tight">
-              Harmony-v2.1
-            </div>
-          </div>
-
-          {/* Rotating outer ring */}
-          {isAnimating && (
-            <div className="absolute inset-0 rounded-full border-2 border-dashed border-yellow-400/30 animate-spin" 
-                 style={{ animationDuration: '10s' }} />
-          )}
-        </div>
-      </div>
-    );
-  };
-
-  const ConnectionLines = () => {
-    const allComponents = Object.values(swarmSystem.rings).flatMap(ring => ring.components);
-
-    return (
-      <svg className="absolute inset-0 w-full h-full pointer-events-none" style={{ zIndex: 1 }}>
-        <defs>
-          <radialGradient id="connectionGradient" cx="50%" cy="50%" r="50%">
-            <stop offset="0%" stopColor="#fbbf24" stopOpacity="0.6" />
-            <stop offset="100%" stopColor="transparent" stopOpacity="0" />
-          </radialGradient>
-        </defs>
-        
-        {allComponents.map((component) => {
-          const ringName = Object.keys(swarmSystem.rings).find(key => 
-            swarmSystem.rings[key as keyof typeof swarmSystem.rings].components.some(c => c.id === component.id)
-          );
-          if (!ringName) return null;
-          
-          const ring = swarmSystem.rings[ringName as keyof typeof swarmSystem.rings];
-          const componentPos = calculatePosition(component.angle, ring.radius);
-          
-          return (
-            <line
-              key={component.id}
-              x1="50%"
-              y1="50%"
-              x2={`${componentPos.x}%`}
-              y2={`${componentPos.y}%`}
-              stroke={ring.color}
-              strokeWidth="2"
-              opacity={activeRing === 'all' || activeRing === ringName ? 0.4 : 0.1}
-              className="transition-all duration-500"
-              style={{
-                filter: 'drop-shadow(0 0 4px rgba(59, 130, 246, 0.3))'
-              }}
-            />
-          );
-        })}
-      </svg>
-    );
-  };
-
-  const EnhancedDetailPanel = () => {
-    if (!selectedComponent) return null;
-
-    return (
-      <div className="fixed inset-0 z-40 lg:inset-auto lg:right-6 lg:top-6 lg:bottom-6 lg:w-96">
-        {/* Mobile backdrop */}
-        <div 
-          className="lg:hidden fixed inset-0 bg-black/50 backdrop-blur-sm"
-          onClick={() => setSelectedComponent(null)}
-        />
-        
-        {/* Modal content */}
-        <div className="relative h-full bg-black/90 backdrop-blur-xl text-white lg:rounded-2xl shadow-2xl border border-white/20 overflow-hidden flex flex-col">
-          {/* Header - fixed */}
-          <div className="p-4 lg:p-6 border-b border-white/10 flex-shrink-0">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center space-x-3">
-                {React.createElement(getComponentIcon(selectedComponent.id), { 
-                  size: 28, 
-                  className: "text-yellow-400" 
-                })}
-                <h2 className="text-lg lg:text-xl font-bold text-white truncate">
-                  {selectedComponent.name}
-                </h2>
-              </div>
-              <button
-                onClick={() => setSelectedComponent(null)}
-                className="text-gray-400 hover:text-white transition-colors p-2 hover:bg-white/10 rounded-lg flex-shrink-0"
-              >
-                <X size={20} />
-              </button>
-            </div>
-            
-            {'subtitle' in selectedComponent && selectedComponent.subtitle && (
-              <div className="text-sm lg:text-lg text-blue-300 mb-4 font-semibold">
-                {selectedComponent.subtitle}
-              </div>
-            )}
-            
-            {selectedComponent.description && (
-              <div className="text-gray-300 mb-4 leading-relaxed text-sm lg:text-base">
-                {selectedComponent.description}
-              </div>
-            )}
-          </div>
-
-          {/* Scrollable content */}
-          <div className="flex-1 overflow-y-auto">
-            <div className="p-4 lg:p-6 space-y-6">
-              {'role' in selectedComponent && selectedComponent.role && (
-                <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 p-4 rounded-xl border border-blue-500/20">
-                  <div className="text-blue-300 font-semibold mb-2 flex items-center text-sm lg:text-base">
-                    <Target size={16} className="mr-2" />
-                    System Role
-                  </div>
-                  <div className="text-white font-medium text-sm lg:text-base">{selectedComponent.role}</div>
-                </div>
-              )}
-
-              {'interplay' in selectedComponent && selectedComponent.interplay && (
-                <div className="bg-gradient-to-r from-green-500/10 to-emerald-500/10 p-4 rounded-xl border border-green-500/20">
-                  <div className="text-green-300 font-semibold mb-2 flex items-center text-sm lg:text-base">
-                    <Network size={16} className="mr-2" />
-                    System Interplay
-                  </div>
-                  <div className="space-y-2">
-                    {selectedComponent.interplay.map((interaction, index) => (
-                      <div key={index} className="text-gray-200 text-xs lg:text-sm flex items-start">
-                        <div className="w-1.5 h-1.5 bg-green-400 rounded-full mt-2 mr-2 flex-shrink-0"></div>
-                        {interaction}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-              
-              {'metrics' in selectedComponent && selectedComponent.metrics && (
-                <div className="bg-gradient-to-r from-yellow-500/10 to-orange-500/10 p-4 rounded-xl border border-yellow-500/20">
-                  <div className="text-yellow-300 font-semibold mb-2 flex items-center text-sm lg:text-base">
-                    <Zap size={16} className="mr-2" />
-                    Performance Metrics
-                  </div>
-                  <div className="text-white font-mono text-xs lg:text-sm break-words">{selectedComponent.metrics}</div>
-                </div>
-              )}
-              
-              {'performance' in selectedComponent && selectedComponent.performance && (
-                <div className="mb-6">
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm font-semibold text-gray-300">System Performance</span>
-                    <span className="text-lg font-bold text-white">{selectedComponent.performance}%</span>
-                  </div>
-                  <div className="w-full h-3 bg-gray-700 rounded-full overflow-hidden">
-                    <div 
-                      className="h-full transition-all duration-1000 rounded-full"
-                      style={{ 
-                        width: `${selectedComponent.performance}%`,
-                        background: `linear-gradient(to right, ${getStatusColor(selectedComponent.status || 'active')}, ${getStatusColor(selectedComponent.status || 'active')}80)`
-                      }}
-                    />
-                  </div>
-                </div>
-              )}
-              
-              <div className="space-y-4">
-                <h3 className="text-lg font-semibold text-green-400 flex items-center">
-                  <Brain size={18} className="mr-2" />
-                  Core Capabilities
-                </h3>
-                {selectedComponent.details.map((detail, index) => (
-                  <div
-                    key={index}
-                    className="group flex items-start space-x-3 p-4 bg-gradient-to-r from-gray-800/50 to-gray-700/30 rounded-xl border-l-4 border-blue-500 hover:border-blue-400 transition-all duration-200 hover:bg-gray-700/50"
-                  >
-                    <div className="w-2 h-2 bg-blue-400 rounded-full mt-2 flex-shrink-0 group-hover:bg-blue-300 transition-colors"></div>
-                    <div className="text-gray-200 group-hover:text-white transition-colors text-sm lg:text-base break-words">{detail}</div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
-        </div>
-      </div>
-    );
-  };
-
-  const ModernControlPanel = () => (
-    <div className={`fixed left-6 top-6 bg-black/80 backdrop-blur-xl text-white rounded-2xl shadow-2xl border border-white/20 z-40 overflow-hidden transition-all duration-300 ${
-      configPanelOpen ? 'max-w-sm' : 'max-w-12'
-    }`}>
-      <div className="flex items-center">
-        <button
-          onClick={() => setConfigPanelOpen(!configPanelOpen)}
-          className="p-3 text-yellow-400 hover:text-yellow-300 transition-colors border-r border-white/10"
-        >
-          {configPanelOpen ? <ChevronLeft size={20} /> : <ChevronRight size={20} />}
-        </button>
-        
-        {configPanelOpen && (
-          <div className="p-6">
-            <h3 className="text-xl font-bold text-yellow-400 mb-6 flex items-center">
-              <Settings size={24} className="mr-3" />
-              Swarm Control Center
-            </h3>
-
-            <div className="space-y-6">
-              <div>
-                <label className="text-sm font-semibold text-gray-300 block mb-3">System Focus</label>
-                <select
-                  value={activeRing}
-                  onChange={(e) => setActiveRing(e.target.value)}
-                  className="w-full bg-gray-800/80 backdrop-blur-sm text-white p-3 rounded-xl border border-gray-600/50 focus:border-blue-500 focus:outline-none transition-all"
-                >
-                  <option value="all">🌐 All Systems</option>
-                  <option value="core">🧠 Core Architecture</option>
-                  <option value="agents">🤖 Swarm Agents</option>
-                  <option value="specialized">⚡ Specialized Systems</option>
-                </select>
-              </div>
-
-              <div>
-                <label className="text-sm font-semibold text-gray-300 block mb-3">View Mode</label>
-                <div className="grid grid-cols-3 gap-2">
-                  {(['overview', 'detailed', 'performance'] as const).map((mode) => (
-                    <button
-                      key={mode}
-                      onClick={() => setViewMode(mode)}
-                      className={`p-2 rounded-lg text-xs font-medium transition-all ${
-                        viewMode === mode
-                          ? 'bg-blue-500 text-white'
-                          : 'bg-gray-700/50 text-gray-300 hover:bg-gray-600/50'
-                      }`}
-                    >
-                      {mode.charAt(0).toUpperCase() + mode.slice(1)}
-                    </button>
-                  ))}
-                </div>
-              </div>
-              
-              <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-xl">
-                <span className="text-sm font-medium text-gray-300">Neural Animation</span>
-                <button
-                  onClick={() => setIsAnimating(!isAnimating)}
-                  className={`p-2 rounded-lg transition-all ${
-                    isAnimating ? 'bg-green-500 text-white' : 'bg-gray-600 text-gray-300'
-                  }`}
-                >
-                  {isAnimating ? <Pause size={16} /> : <Play size={16} />}
-                </button>
-              </div>
-              
-              <button
-                onClick={() => setSelectedComponent(swarmSystem.nucleus)}
-                className="w-full bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-400 hover:to-orange-400 text-black font-semibold py-3 px-4 rounded-xl transition-all duration-200 transform hover:scale-105"
-              >
-                🎯 Access Harmony Core
-              </button>
-
-              <div className="bg-gradient-to-r from-purple-500/10 to-pink-500/10 p-4 rounded-xl border border-purple-500/20">
-                <div className="text-purple-300 font-semibold mb-2 text-sm">System Status</div>
-                <div className="space-y-2 text-xs">
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Core Architecture:</span>
-                    <span className="text-green-400">6 Active</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Swarm Agents:</span>
-                    <span className="text-green-400">6 Operational</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Specialized Systems:</span>
-                    <span className="text-green-400">4 Enhanced</span>
-                  </div>
-                  <div className="border-t border-purple-500/20 pt-2 mt-2">
-                    <div className="flex justify-between">
-                      <span className="text-gray-300">Total Systems:</span>
-                      <span className="text-yellow-400 font-bold">16 Active</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-300">Market Value:</span>
-                      <span className="text-green-400 font-bold">$115M</span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
-      </div>
-    </div>
-  );
-
   return (
-    <div className="w-full h-screen bg-gradient-to-br from-gray-900 via-black to-gray-800 relative overflow-hidden">
+    <div
+      className="w-full h-screen bg-gradient-to-br from-gray-900 via-black to-gray-800 relative overflow-hidden"
+      onDragOver={handleManifestDragOver}
+      onDragLeave={() => setIsDraggingManifest(false)}
+      onDrop={handleManifestDrop}
+    >
       {/* Enhanced background with animated particles */}
       <div className="absolute inset-0 opacity-20">
         <div className="w-full h-full" style={{
@@ -1240,38 +490,116 @@ const CognitiveArchitecture = () => {
       <div className="absolute inset-0 bg-gradient-to-r from-blue-500/5 via-purple-500/5 to-pink-500/5 animate-pulse" 
            style={{ animationDuration: '4s' }} />
 
-      {/* Connection lines */}
-      <ConnectionLines />
-      
-      {/* Central nucleus */}
-      <NucleusNode />
-      
-      {/* Component rings */}
-      {Object.entries(swarmSystem.rings).map(([ringKey, ring]) => (
-        (activeRing === 'all' || activeRing === ringKey) && 
-        ring.components.map(component => (
-          <ComponentNode
-            key={component.id}
-            component={component}
-            ring={ring}
+      {/* Swarm canvas, zoomed and panned as a whole */}
+      <div ref={canvasViewportRef} className="absolute inset-0 overflow-hidden touch-none cursor-grab active:cursor-grabbing" {...canvasHandlers}>
+        {renderer === 'canvas' && (
+          <CanvasRenderer
+            manifest={swarmSystem}
+            positions={nodePositions}
+            edges={interplayGraph.edges}
+            store={liveStore}
+            transform={canvasTransform}
+            viewport={canvasViewport}
+            canvas={canvasSize}
+            viewMode={viewMode}
+            activeRing={activeRing}
+            severityByComponent={severityByComponent}
+            selectedId={selectedComponent?.id}
+            hoveredId={hoveredComponent?.id}
+            isAnimating={isAnimating}
+            showSpokes={layoutKind === 'concentric'}
+            onSelect={setSelectedComponent}
+            onHover={setHoveredComponent}
           />
-        ))
-      ))}
+        )}
+        <div
+          className={`relative origin-top-left ${renderer === 'canvas' ? 'pointer-events-none' : ''}`}
+          style={{
+            width: canvasSize.width,
+            height: canvasSize.height,
+            transform: `translate(${canvasTransform.x}px, ${canvasTransform.y}px) scale(${canvasTransform.scale})`
+          }}
+        >
+          {/* Connection lines */}
+          {renderer === 'dom' && (
+            <ConnectionLines
+              manifest={swarmSystem}
+              positions={nodePositions}
+              edges={interplayGraph.edges}
+              activeRing={activeRing}
+              focusId={hoveredComponent?.id ?? selectedComponent?.id}
+              isAnimating={isAnimating}
+              showSpokes={layoutKind === 'concentric'}
+            />
+          )}
+          <CallPulses log={traceLog} positions={nodePositions} nucleusId={swarmSystem.nucleus.id} enabled={isAnimating} />
+          {renderer === 'dom' && isDetailed && (
+            <EdgeLabels
+              edges={interplayGraph.edges.filter(edge => [edge.source, edge.target].every(id => activeRing === 'all' || nodePositions.get(id)?.ringId === activeRing))}
+              positions={nodePositions}
+              focusId={hoveredComponent?.id ?? selectedComponent?.id}
+            />
+          )}
+
+          {/* Central nucleus */}
+          {renderer === 'dom' && nodePositions.has(swarmSystem.nucleus.id) && (
+            <NucleusNode
+              nucleus={swarmSystem.nucleus}
+              position={nodePositions.get(swarmSystem.nucleus.id)}
+              isSelected={selectedComponent?.id === swarmSystem.nucleus.id}
+              isAnimating={isAnimating}
+              onSelect={setSelectedComponent}
+              onHover={setHoveredComponent}
+            />
+          )}
+
+          {/* Component rings */}
+          {renderer === 'dom' && swarmSystem.rings.map(ring => (
+            (activeRing === 'all' || activeRing === ring.id) && 
+            ring.components.filter(component => nodePositions.has(component.id)).map(component => (
+              <ComponentNode
+                key={component.id}
+                component={component}
+                ring={ring}
+                position={nodePositions.get(component.id)}
+                store={liveStore}
+                history={metricsHistory}
+                viewMode={viewMode}
+                alertSeverity={severityByComponent[component.id]}
+                isAnimating={isAnimating}
+                isSelected={selectedComponent?.id === component.id}
+                isHovered={hoveredComponent?.id === component.id}
+                onSelect={setSelectedComponent}
+                onHover={setHoveredComponent}
+              />
+            ))
+          ))}
+        </div>
+      </div>
+      <Minimap
+        manifest={swarmSystem}
+        positions={nodePositions}
+        view={canvasView}
+        viewport={canvasViewport}
+        canvas={canvasSize}
+        onNavigate={(point) => setCanvasView(view => ({ ...view, cx: point.x, cy: point.y }))}
+        onZoomIn={() => zoomCanvasBy(1.25)}
+        onZoomOut={() => zoomCanvasBy(0.8)}
+        onFit={zoomToFit}
+        onFitSelection={selectedComponent ? zoomToSelection : undefined}
+      />
       
       {/* Real-time Claude Code Hooks & MCP Status - with auto-hide */}
-      {showStatusMessages && (
+      {(showStatusMessages || connectionState !== 'open') && (
         <div className="absolute top-4 right-4 flex flex-col gap-2 z-50">
           {/* Connection Status */}
-          <div className={`px-3 py-2 rounded-lg backdrop-blur-md border transition-all duration-300 ${
-            isConnected 
-              ? 'bg-green-500/20 border-green-400/50 text-green-100' 
-              : 'bg-red-500/20 border-red-400/50 text-red-100'
-          }`}>
-            <div className="flex items-center gap-2 text-sm">
-              {isConnected ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
-              <span>Claude Hooks: {isConnected ? 'Connected' : 'Disconnected'}</span>
-            </div>
-          </div>
+          <ConnectionBadge
+            state={connectionState}
+            stats={connectionStats}
+            transport={transport}
+            url={streamUrl}
+            onRetry={reconnect}
+          />
 
           {/* MCP Server Status */}
           <div className={`px-3 py-2 rounded-lg backdrop-blur-md border transition-all duration-300 ${
@@ -1283,7 +611,7 @@ const CognitiveArchitecture = () => {
           }`}>
             <div className="flex items-center gap-2 text-sm">
               <Network className="w-4 h-4" />
-              <span>MCP Server: {mcpStatus}</span>
+              <span>MCP Server: {mcpStatus} · {mcpServer.listTools().length} tools</span>
             </div>
           </div>
         </div>
@@ -1297,20 +625,36 @@ const CognitiveArchitecture = () => {
             <span>Live Metrics</span>
           </div>
           <div className="space-y-1 text-xs text-gray-300">
-            {realTimeData.tokens && (
-              <div>Tokens: {realTimeData.tokens.total?.toLocaleString()}</div>
+            {tokenTotals.calls > 0 && (
+              <button onClick={() => setCostPanelOpen(true)} className={`block hover:underline ${exceededBudgetCount > 0 ? 'text-red-300' : ''}`}>
+                Tokens: {(tokenTotals.input + tokenTotals.output + tokenTotals.cacheRead + tokenTotals.cacheWrite).toLocaleString()} · {formatCost(tokenTotals.cost, swarmSystem.costs.currency)}
+              </button>
+            )}
+            {fullestContext && (
+              <button
+                onClick={() => setContextInspectorOpen(true)}
+                className={`block hover:underline ${fullestContext.state === 'critical' ? 'text-red-300' : fullestContext.state === 'warning' ? 'text-yellow-300' : ''}`}
+              >
+                Context: {Math.round((fullestContext.used / fullestContext.limit) * 100)}% of {fullestContext.limit.toLocaleString()}
+              </button>
             )}
             {realTimeData.cognitive && (
               <div>Analysis: {realTimeData.cognitive.status}</div>
             )}
             <div>Updates: {streamingUpdates.length}</div>
+            <button
+              onClick={() => setStreamInspectorOpen(true)}
+              className={`hover:underline ${rejectedFrameCount > 0 ? 'text-red-300' : ''}`}
+            >
+              Rejected frames: {rejectedFrameCount}
+            </button>
           </div>
         </div>
       )}
 
       {/* Streaming Updates Feed */}
       {isConnected && streamingUpdates.length > 0 && (
-        <div className="absolute bottom-4 right-4 w-80 max-h-64 overflow-y-auto backdrop-blur-md bg-black/40 border border-white/20 rounded-lg p-3 z-40">
+        <div className="absolute bottom-4 right-60 w-80 max-h-64 overflow-y-auto backdrop-blur-md bg-black/40 border border-white/20 rounded-lg p-3 z-40">
           <div className="flex items-center gap-2 text-sm text-white mb-2">
             <Activity className="w-4 h-4 animate-pulse" />
             <span>Real-Time Updates</span>
@@ -1325,9 +669,154 @@ const CognitiveArchitecture = () => {
         </div>
       )}
 
+      {/* Session replay */}
+      <input
+        ref={sessionImportRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) importSession(file);
+          event.target.value = '';
+        }}
+      />
+      {replay.recording && (
+        <ReplayScrubber
+          recording={replay.recording}
+          position={replay.position}
+          playing={replay.playing}
+          speed={replay.speed}
+          onSeek={replay.seek}
+          onJumpToEvent={replay.jumpToEvent}
+          onTogglePlay={replay.togglePlay}
+          onSpeedChange={replay.setSpeed}
+          onExit={exitReplay}
+        />
+      )}
+
+      {/* Manifest drop target */}
+      {isDraggingManifest && (
+        <div className="absolute inset-4 z-50 rounded-2xl border-2 border-dashed border-yellow-400/70 bg-black/60 backdrop-blur-sm flex items-center justify-center pointer-events-none">
+          <div className="text-yellow-300 font-semibold text-lg">Drop a swarm manifest (.json / .yaml) to load it</div>
+        </div>
+      )}
+
       {/* Control panels */}
-      <ModernControlPanel />
-      <EnhancedDetailPanel />
+      <ControlPanel
+        open={configPanelOpen}
+        onToggle={() => setConfigPanelOpen(open => !open)}
+        manifest={swarmSystem}
+        manifestSource={manifestSource}
+        totalComponents={totalComponents}
+        activeRing={activeRing}
+        onActiveRingChange={setActiveRing}
+        viewMode={viewMode}
+        onViewModeChange={setViewMode}
+        layoutKind={layoutKind}
+        onLayoutChange={chooseLayout}
+        renderer={renderer}
+        onRendererChange={chooseRenderer}
+        isAnimating={isAnimating}
+        onToggleAnimation={() => setIsAnimating(animating => !animating)}
+        topologyReport={topologyReport}
+        firingAlertCount={firingAlertCount}
+        toolCallCount={toolCallCount}
+        tokenCost={tokenTotals.cost}
+        exceededBudgetCount={exceededBudgetCount}
+        fullestContext={fullestContext}
+        traceCount={traceCount}
+        pendingApprovalCount={pendingApprovalCount}
+        autoApproveRuleCount={toolPolicy.autoApprove.length}
+        connectedServerCount={connectedServerCount}
+        promptCount={promptCount}
+        recordedEventCount={recordedEventCount}
+        replaying={replay.recording !== null}
+        onOpenSheet={(sheet) => sheetSetters[sheet](true)}
+        onReplay={() => enterReplay(sessionRecorder.getSnapshot())}
+        onExportSession={exportSession}
+        onImportSession={() => sessionImportRef.current?.click()}
+        onSelectNucleus={() => setSelectedComponent(swarmSystem.nucleus)}
+      />
+      {selectedComponent && (
+        <DetailPanel
+          component={selectedComponent}
+          nucleusId={swarmSystem.nucleus.id}
+          graph={interplayGraph}
+          store={liveStore}
+          history={metricsHistory}
+          trendMetric={trendMetric}
+          trendWindow={trendWindow}
+          onTrendMetricChange={setTrendMetric}
+          onTrendWindowChange={setTrendWindow}
+          findComponent={findComponent}
+          onSelect={setSelectedComponent}
+          onClose={() => setSelectedComponent(null)}
+        />
+      )}
+      <StreamInspector open={streamInspectorOpen} onOpenChange={setStreamInspectorOpen} log={rejectedFrames} />
+      <ToolConsole open={toolConsoleOpen} onOpenChange={setToolConsoleOpen} server={mcpServer} log={toolCalls} callers={toolCallers} />
+      <CostPanel open={costPanelOpen} onOpenChange={setCostPanelOpen} ledger={tokenLedger} currency={swarmSystem.costs.currency} />
+      <ContextInspector
+        open={contextInspectorOpen}
+        onOpenChange={setContextInspectorOpen}
+        tracker={contextTracker}
+        config={swarmSystem.contextWindow}
+        onSelectComponent={(id) => {
+          setContextInspectorOpen(false);
+          setSelectedComponent(findComponent(id));
+        }}
+      />
+      <AuditLog
+        open={auditLogOpen}
+        onOpenChange={setAuditLogOpen}
+        log={traceLog}
+        onSelectComponent={(id) => {
+          setAuditLogOpen(false);
+          setSelectedComponent(findComponent(id));
+        }}
+      />
+      <ApprovalCenter
+        open={approvalCenterOpen}
+        onOpenChange={setApprovalCenterOpen}
+        gate={approvalGate}
+        policy={toolPolicy}
+        onPolicyChange={setToolPolicy}
+        tools={toolNames}
+      />
+      <ApprovalDialog
+        gate={approvalGate}
+        onAddRule={(rule) => setToolPolicy(policy => ({ ...policy, autoApprove: [...policy.autoApprove, rule] }))}
+      />
+      <AlertCenter
+        open={alertCenterOpen}
+        onOpenChange={setAlertCenterOpen}
+        engine={alertEngine}
+        rules={swarmSystem.alertRules}
+        onSelectComponent={(id) => {
+          setAlertCenterOpen(false);
+          setSelectedComponent(findComponent(id));
+        }}
+      />
+      <McpServersPanel
+        open={mcpServersOpen}
+        onOpenChange={setMcpServersOpen}
+        servers={externalServers}
+        onSelectComponent={(id) => {
+          setMcpServersOpen(false);
+          setSelectedComponent(findComponent(id));
+        }}
+      />
+      <TopologyHealthPanel
+        open={topologyPanelOpen}
+        onOpenChange={setTopologyPanelOpen}
+        report={topologyReport}
+        manifestSource={manifestSource}
+        onSelectComponent={(id) => {
+          setTopologyPanelOpen(false);
+          setSelectedComponent(findComponent(id));
+        }}
+      />
       
       {/* Animated title */}
       <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none z-0">
@@ -1337,7 +826,7 @@ const CognitiveArchitecture = () => {
       </div>
 
       {/* Footer branding */}
-      <div className="absolute bottom-6 right-6 text-gray-500 text-sm font-medium">
+      <div className="absolute bottom-6 right-60 text-gray-500 text-sm font-medium">
         Powered by <span className="text-yellow-400 font-bold">Skyward Prompted LLC</span> • <span className="text-blue-400 font-bold">ubiquity OS</span> by Prompted
         <div className="text-xs text-gray-600 mt-1">
           Special thanks to <span className="text-purple-400 font-semibold">ruvnet</span> 🙏
@@ -0,0 +1,156 @@
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  PROMPT_FIELDS,
+  PROMPT_GLOBALS,
+  promptArgumentKindSchema,
+  templateIssues,
+  type PromptArgument,
+  type PromptArgumentKind,
+  type PromptDefinition
+} from '@/lib/mcp/prompts';
+
+export interface PromptDraft extends PromptDefinition {
+  name: string;
+}
+
+interface PromptEditorProps {
+  draft: PromptDraft;
+  isNew: boolean;
+  nextVersion: number;
+  note: string;
+  onChange: (draft: PromptDraft) => void;
+  onNoteChange: (note: string) => void;
+  onSave: () => void;
+}
+
+const placeholdersFor = (argument: PromptArgument) => [
+  `{{${argument.name}}}`,
+  ...PROMPT_FIELDS[argument.kind].map(field => `{{${argument.name}.${field}}}`)
+];
+
+const PromptEditor = ({ draft, isNew, nextVersion, note, onChange, onNoteChange, onSave }: PromptEditorProps) => {
+  const args = draft.arguments ?? [];
+  const issues = templateIssues(draft);
+
+  const updateArgument = (index: number, patch: Partial<PromptArgument>) =>
+    onChange({ ...draft, arguments: args.map((argument, position) => (position === index ? { ...argument, ...patch } : argument)) });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="prompt-name">Name</Label>
+          <Input
+            id="prompt-name"
+            value={draft.name}
+            disabled={!isNew}
+            placeholder="diagnose-component"
+            onChange={event => onChange({ ...draft, name: event.target.value })}
+            className="font-mono"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="prompt-title">Title</Label>
+          <Input id="prompt-title" value={draft.title} onChange={event => onChange({ ...draft, title: event.target.value })} />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="prompt-description">Description</Label>
+        <Input
+          id="prompt-description"
+          value={draft.description ?? ''}
+          onChange={event => onChange({ ...draft, description: event.target.value || undefined })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Arguments</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...draft, arguments: [...args, { name: `arg${args.length + 1}`, kind: 'text', required: false }] })}
+          >
+            <Plus size={14} /> Add argument
+          </Button>
+        </div>
+        {args.length === 0 && <div className="text-xs text-gray-500">No arguments; the template can still use {PROMPT_GLOBALS.map(key => `{{${key}}}`).join(', ')}</div>}
+        {args.map((argument, index) => (
+          <div key={index} className="grid grid-cols-[8rem_8rem_auto_1fr_auto] items-center gap-2">
+            <Input
+              value={argument.name}
+              onChange={event => updateArgument(index, { name: event.target.value })}
+              className="font-mono text-xs"
+              aria-label="Argument name"
+            />
+            <Select value={argument.kind} onValueChange={value => updateArgument(index, { kind: value as PromptArgumentKind })}>
+              <SelectTrigger className="text-xs" aria-label="Argument kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="dark">
+                {promptArgumentKindSchema.options.map(kind => (
+                  <SelectItem key={kind} value={kind}>{kind}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-1 text-xs text-gray-400">
+              <Switch checked={argument.required ?? false} onCheckedChange={required => updateArgument(index, { required })} />
+              required
+            </label>
+            <Input
+              value={argument.description ?? ''}
+              placeholder="Description shown to MCP clients"
+              onChange={event => updateArgument(index, { description: event.target.value || undefined })}
+              className="text-xs"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange({ ...draft, arguments: args.filter((_, position) => position !== index) })}
+              aria-label={`Remove ${argument.name}`}
+            >
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="prompt-template">Template</Label>
+        <Textarea
+          id="prompt-template"
+          value={draft.template}
+          onChange={event => onChange({ ...draft, template: event.target.value })}
+          className="font-mono text-xs min-h-[16rem]"
+        />
+        <div className="text-[11px] text-gray-500 leading-relaxed">
+          Placeholders: {[...PROMPT_GLOBALS.map(key => `{{${key}}}`), ...args.flatMap(placeholdersFor)].join(' ')}
+        </div>
+        {issues.length > 0 && (
+          <ul className="text-xs text-red-400 space-y-0.5">
+            {issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex items-end gap-3">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="prompt-note">Change note</Label>
+          <Input id="prompt-note" value={note} placeholder="What changed in this version" onChange={event => onNoteChange(event.target.value)} />
+        </div>
+        <Button onClick={onSave} disabled={issues.length > 0 || !draft.name || !draft.title || !draft.template}>
+          <Save size={14} /> Save as v{nextVersion}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptEditor;
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { SwarmContext } from '@/lib/mcp/context';
+import { renderPrompt, templateIssues, type PromptDefinition, type RenderedPrompt } from '@/lib/mcp/prompts';
+
+interface PromptPreviewProps {
+  definition: PromptDefinition;
+  context: SwarmContext;
+}
+
+const render = (definition: PromptDefinition, values: Record<string, string>, context: SwarmContext): RenderedPrompt | string => {
+  if (templateIssues(definition).length > 0) return 'Fix the template issues to preview it';
+  try {
+    return renderPrompt(definition, values, context);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const PromptPreview = ({ definition, context }: PromptPreviewProps) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const args = definition.arguments ?? [];
+  const rendered = render(definition, values, context);
+
+  return (
+    <div className="space-y-3">
+      {args.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {args.map(argument => (
+            <div key={argument.name} className="space-y-1">
+              <Label className="text-xs">
+                {argument.name}
+                <span className="ml-1 text-gray-500">{argument.kind}{argument.required ? ', required' : ''}</span>
+              </Label>
+              <Input
+                value={values[argument.name] ?? ''}
+                placeholder={argument.required ? '' : 'filled from live state'}
+                onChange={event => setValues(previous => ({ ...previous, [argument.name]: event.target.value }))}
+                className="text-xs"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {typeof rendered === 'string' ? (
+        <div className="text-xs text-yellow-400">{rendered}</div>
+      ) : (
+        rendered.messages.map((message, index) => (
+          message.content.type === 'text' ? (
+            <pre key={index} className="whitespace-pre-wrap text-xs bg-black/40 border border-white/10 rounded-lg p-3 text-gray-200">
+              {message.content.text}
+            </pre>
+          ) : (
+            <div key={index} className="text-xs text-gray-400">
+              Attached resource <span className="font-mono text-blue-300">{message.content.resource.uri}</span>
+            </div>
+          )
+        ))
+      )}
+    </div>
+  );
+};
+
+export default PromptPreview;
@@ -0,0 +1,104 @@
+import { BellRing, CheckCheck, CheckCircle2, Trash2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useAlerts } from '@/hooks/use-alert-engine';
+import type { Alert, AlertEngine } from '@/lib/swarm/alerts';
+import type { AlertRule, AlertSeverity } from '@/lib/swarm/schema';
+
+interface AlertCenterProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  engine: AlertEngine;
+  rules: AlertRule[];
+  onSelectComponent: (id: string) => void;
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, { badge: string; row: string }> = {
+  info: { badge: 'bg-blue-500', row: 'bg-blue-500/10 border-blue-500/30' },
+  warning: { badge: 'bg-yellow-500', row: 'bg-yellow-500/10 border-yellow-500/30' },
+  critical: { badge: 'bg-red-500', row: 'bg-red-500/10 border-red-500/40' }
+};
+
+const AlertRow = ({ alert, onAcknowledge, onSelectComponent }: {
+  alert: Alert;
+  onAcknowledge: (id: string) => void;
+  onSelectComponent: (id: string) => void;
+}) => (
+  <div className={`p-3 rounded-xl border text-xs ${alert.status === 'resolved' ? 'bg-white/5 border-white/10 opacity-70' : SEVERITY_STYLES[alert.severity].row}`}>
+    <div className="flex items-center gap-2">
+      <span className={`w-2 h-2 rounded-full flex-shrink-0 ${SEVERITY_STYLES[alert.severity].badge}`} />
+      <span className="font-semibold text-gray-100">{alert.ruleName}</span>
+      <span className="ml-auto text-[10px] uppercase tracking-wide text-gray-400">{alert.status}</span>
+    </div>
+    <div className="mt-1 text-gray-300">
+      {alert.componentId}: {alert.value.toLocaleString()} vs threshold {alert.threshold.toLocaleString()}
+    </div>
+    <div className="mt-1 text-[10px] text-gray-500">
+      Fired {new Date(alert.firedAt).toLocaleTimeString()}
+      {alert.acknowledgedAt && ` · acknowledged ${new Date(alert.acknowledgedAt).toLocaleTimeString()}`}
+      {alert.resolvedAt && ` · resolved ${new Date(alert.resolvedAt).toLocaleTimeString()}`}
+    </div>
+    <div className="mt-2 flex gap-3">
+      <button onClick={() => onSelectComponent(alert.componentId)} className="text-blue-300 hover:text-blue-200 font-semibold">
+        Show {alert.componentId} →
+      </button>
+      {alert.status === 'firing' && (
+        <button onClick={() => onAcknowledge(alert.id)} className="flex items-center gap-1 text-green-300 hover:text-green-200 font-semibold">
+          <CheckCheck size={12} />
+          Acknowledge
+        </button>
+      )}
+    </div>
+  </div>
+);
+
+const AlertCenter = ({ open, onOpenChange, engine, rules, onSelectComponent }: AlertCenterProps) => {
+  const { alerts } = useAlerts(engine);
+  const unresolved = alerts.filter(alert => alert.status !== 'resolved');
+  const resolved = alerts.filter(alert => alert.status === 'resolved');
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="dark bg-black/95 text-white border-white/20 flex flex-col sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="text-yellow-400 flex items-center gap-2">
+            <BellRing size={18} />
+            Alert Center
+          </SheetTitle>
+          <SheetDescription className="text-gray-400">
+            {rules.length} rule{rules.length === 1 ? '' : 's'} from the manifest, evaluated on every live update
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {unresolved.length === 0 ? (
+            <div className="flex items-center gap-2 text-green-400 text-sm">
+              <CheckCircle2 size={16} />
+              No active alerts
+            </div>
+          ) : (
+            unresolved.map(alert => (
+              <AlertRow key={alert.id} alert={alert} onAcknowledge={engine.acknowledge} onSelectComponent={onSelectComponent} />
+            ))
+          )}
+
+          {resolved.length > 0 && (
+            <>
+              <div className="flex items-center justify-between pt-4 text-xs text-gray-400">
+                <span>Resolved</span>
+                <button onClick={engine.clearResolved} className="flex items-center gap-1 hover:text-white">
+                  <Trash2 size={12} />
+                  Clear
+                </button>
+              </div>
+              {resolved.map(alert => (
+                <AlertRow key={alert.id} alert={alert} onAcknowledge={engine.acknowledge} onSelectComponent={onSelectComponent} />
+              ))}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default AlertCenter;
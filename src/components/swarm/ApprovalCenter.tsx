@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Download, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useApprovals } from '@/hooks/use-approval-gate';
+import type { ApprovalDecision, ApprovalGate, ApprovalOutcome } from '@/lib/mcp/approvals';
+import { describeMatch, parseMatch, type AutoApproveRule, type ToolPolicy } from '@/lib/mcp/policy';
+import { getRiskBadgeClass } from './visuals';
+
+interface ApprovalCenterProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gate: ApprovalGate;
+  policy: ToolPolicy;
+  onPolicyChange: (policy: ToolPolicy) => void;
+  tools: string[];
+}
+
+const OUTCOME_STYLES: Record<ApprovalOutcome, string> = {
+  allowed: 'text-gray-400',
+  'auto-approved': 'text-blue-300',
+  approved: 'text-green-300',
+  modified: 'text-yellow-300',
+  denied: 'text-red-400'
+};
+
+const ANY_TOOL = '*';
+
+const RuleForm = ({ tools, onAdd }: { tools: string[]; onAdd: (rule: AutoApproveRule) => void }) => {
+  const [tool, setTool] = useState(ANY_TOOL);
+  const [match, setMatch] = useState('');
+  const [upTo, setUpTo] = useState<AutoApproveRule['upTo']>('mutating');
+  const [note, setNote] = useState('');
+  const when = parseMatch(match);
+
+  const add = () => {
+    if (!when) return;
+    onAdd({ id: `${tool === ANY_TOOL ? 'any' : tool}-${Date.now().toString(36)}`, tool, when, upTo, note: note.trim() || undefined });
+    setMatch('');
+    setNote('');
+  };
+
+  return (
+    <div className="p-3 rounded-xl border border-white/10 bg-white/5 space-y-2 text-xs">
+      <div className="flex gap-2">
+        <Select value={tool} onValueChange={setTool}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_TOOL}>Any tool</SelectItem>
+            {tools.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={upTo} onValueChange={value => setUpTo(value as AutoApproveRule['upTo'])}>
+          <SelectTrigger className="h-8 text-xs w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="mutating">Up to mutating</SelectItem>
+            <SelectItem value="destructive">Up to destructive</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <Input
+        value={match}
+        onChange={event => setMatch(event.target.value)}
+        placeholder="Arguments, e.g. action = connect | status"
+        className="h-8 text-xs font-mono"
+      />
+      {!when && <div className="text-red-400">Write clauses as name = value | value, separated by commas</div>}
+      <Input value={note} onChange={event => setNote(event.target.value)} placeholder="Note (optional)" className="h-8 text-xs" />
+      <button onClick={add} disabled={!when} className="flex items-center gap-1 text-green-300 hover:text-green-200 font-semibold disabled:opacity-40">
+        <Plus size={12} />
+        Add rule
+      </button>
+    </div>
+  );
+};
+
+const DecisionRow = ({ decision }: { decision: ApprovalDecision }) => (
+  <div className="p-3 rounded-xl border border-white/10 bg-white/5 text-xs">
+    <div className="flex items-center gap-2">
+      <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${getRiskBadgeClass(decision.risk)}`}>{decision.risk}</span>
+      <span className="font-semibold text-gray-100">{decision.tool}</span>
+      <span className={`ml-auto text-[10px] uppercase tracking-wide ${OUTCOME_STYLES[decision.outcome]}`}>{decision.outcome}</span>
+    </div>
+    <div className="mt-1 font-mono text-gray-300 break-all">{JSON.stringify(decision.arguments)}</div>
+    {decision.approvedArguments && (
+      <div className="mt-1 font-mono text-yellow-200 break-all">→ {JSON.stringify(decision.approvedArguments)}</div>
+    )}
+    <div className="mt-1 text-[10px] text-gray-500">
+      {new Date(decision.decidedAt).toLocaleTimeString()} · {decision.decidedBy}
+      {decision.decidedAt - decision.requestedAt >= 1000 && ` after ${Math.round((decision.decidedAt - decision.requestedAt) / 1000)}s`}
+      {decision.reason && ` · ${decision.reason}`}
+    </div>
+  </div>
+);
+
+const ApprovalCenter = ({ open, onOpenChange, gate, policy, onPolicyChange, tools }: ApprovalCenterProps) => {
+  const { pending, decisions } = useApprovals(gate);
+  const setAutoApprove = (autoApprove: AutoApproveRule[]) => onPolicyChange({ ...policy, autoApprove });
+
+  // The same file `npm run mcp -- --policy` reads
+  const exportPolicy = () => {
+    const blob = new Blob([`${JSON.stringify(policy, null, 2)}\n`], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'swarm.tool-policy.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="dark bg-black/95 text-white border-white/20 flex flex-col sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="text-yellow-400 flex items-center gap-2">
+            <ShieldCheck size={18} />
+            Approvals
+          </SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Mutating and destructive tool calls wait here for a decision unless a rule approves them
+            {pending.length > 0 && ` · ${pending.length} waiting`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span>Auto-approve rules</span>
+            <button onClick={exportPolicy} className="flex items-center gap-1 hover:text-white">
+              <Download size={12} />
+              Export policy
+            </button>
+          </div>
+          {policy.autoApprove.length === 0 && <div className="text-xs text-gray-500">Every state-changing call asks first.</div>}
+          {policy.autoApprove.map(rule => (
+            <div key={rule.id} className="p-3 rounded-xl border border-white/10 bg-white/5 text-xs">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-gray-100">{rule.tool === ANY_TOOL ? 'Any tool' : rule.tool}</span>
+                <span className="text-gray-400">up to {rule.upTo}</span>
+                <button
+                  onClick={() => setAutoApprove(policy.autoApprove.filter(candidate => candidate.id !== rule.id))}
+                  className="ml-auto text-gray-400 hover:text-red-300"
+                  aria-label={`Remove ${rule.id}`}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              <div className="mt-1 font-mono text-gray-300">{describeMatch(rule.when) || 'any arguments'}</div>
+              {rule.note && <div className="mt-1 text-[10px] text-gray-500">{rule.note}</div>}
+            </div>
+          ))}
+          <RuleForm tools={tools} onAdd={rule => setAutoApprove([...policy.autoApprove, rule])} />
+
+          <div className="pt-4 text-xs text-gray-400">Classification rules</div>
+          {policy.rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2 text-xs">
+              <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${getRiskBadgeClass(rule.risk)}`}>{rule.risk}</span>
+              <span className="text-gray-100">{rule.tool}</span>
+              <span className="font-mono text-gray-400 truncate">{describeMatch(rule.when)}</span>
+            </div>
+          ))}
+          <div className="text-[10px] text-gray-500">Other calls are classified by their tool's annotations.</div>
+
+          <div className="flex items-center justify-between pt-4 text-xs text-gray-400">
+            <span>Decisions</span>
+            <span>{decisions.length}</span>
+          </div>
+          {decisions.map(decision => <DecisionRow key={decision.id} decision={decision} />)}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ApprovalCenter;
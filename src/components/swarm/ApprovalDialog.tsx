@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { useApprovals } from '@/hooks/use-approval-gate';
+import type { ApprovalGate, ApprovalRequest } from '@/lib/mcp/approvals';
+import type { AutoApproveRule } from '@/lib/mcp/policy';
+import { getRiskBadgeClass } from './visuals';
+
+interface ApprovalDialogProps {
+  gate: ApprovalGate;
+  onAddRule: (rule: AutoApproveRule) => void;
+}
+
+const parseArguments = (text: string): Record<string, unknown> | string => {
+  try {
+    const value = JSON.parse(text) as unknown;
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : 'Arguments must be a JSON object';
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+// An auto-approve rule for calls like this one: same tool, same scalar argument values
+const ruleFor = (request: ApprovalRequest, args: Record<string, unknown>): AutoApproveRule => ({
+  id: `${request.tool}-${Date.now().toString(36)}`,
+  tool: request.tool,
+  when: Object.fromEntries(Object.entries(args)
+    .filter(([, value]) => value !== null && typeof value !== 'object')
+    .map(([name, value]) => [name, [String(value)]])),
+  upTo: request.risk === 'destructive' ? 'destructive' : 'mutating',
+  note: `Added from the approval dialog on ${new Date().toLocaleString()}`
+});
+
+const RequestReview = ({ request, waiting, gate, onAddRule }: ApprovalDialogProps & { request: ApprovalRequest; waiting: number }) => {
+  const original = JSON.stringify(request.arguments, null, 2);
+  const [text, setText] = useState(original);
+  const [remember, setRemember] = useState(false);
+  const parsed = parseArguments(text);
+  const edited = text.trim() !== original.trim();
+
+  const approve = () => {
+    if (typeof parsed === 'string') return;
+    if (remember) onAddRule(ruleFor(request, parsed));
+    gate.approve(request.id, edited ? parsed : undefined);
+  };
+
+  return (
+    <>
+      <AlertDialogHeader>
+        <AlertDialogTitle className="flex items-center gap-2">
+          <ShieldAlert size={18} className={request.risk === 'destructive' ? 'text-red-400' : 'text-yellow-400'} />
+          Run {request.title}?
+          <span className={`ml-auto px-2 py-0.5 rounded-md text-[10px] font-bold uppercase ${getRiskBadgeClass(request.risk)}`}>{request.risk}</span>
+        </AlertDialogTitle>
+        <AlertDialogDescription>
+          An MCP client wants to call <code>{request.tool}</code>. {request.reason}.
+          {waiting > 1 && ` ${waiting - 1} more call${waiting > 2 ? 's' : ''} waiting.`}
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+
+      <div className="space-y-2">
+        <Textarea
+          value={text}
+          onChange={event => setText(event.target.value)}
+          className="font-mono text-xs min-h-[8rem]"
+          aria-label="Arguments"
+        />
+        {typeof parsed === 'string' && <div className="text-xs text-red-400">{parsed}</div>}
+        <label className="flex items-center gap-2 text-xs text-gray-300">
+          <Checkbox checked={remember} onCheckedChange={checked => setRemember(checked === true)} />
+          Auto-approve {request.tool} with these arguments from now on
+        </label>
+      </div>
+
+      <AlertDialogFooter>
+        <AlertDialogCancel onClick={() => gate.deny(request.id)}>Deny</AlertDialogCancel>
+        <AlertDialogAction onClick={approve} disabled={typeof parsed === 'string'}>
+          {edited ? 'Approve with changes' : 'Approve'}
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </>
+  );
+};
+
+// Shows the oldest waiting call; the next one follows as soon as it is decided
+const ApprovalDialog = ({ gate, onAddRule }: ApprovalDialogProps) => {
+  const { pending } = useApprovals(gate);
+  const request = pending[0];
+
+  return (
+    <AlertDialog open={request !== undefined}>
+      <AlertDialogContent className="dark text-white">
+        {request && <RequestReview key={request.id} request={request} waiting={pending.length} gate={gate} onAddRule={onAddRule} />}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ApprovalDialog;
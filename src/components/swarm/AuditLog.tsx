@@ -0,0 +1,145 @@
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import { CheckCircle2, ClipboardList, Download, Trash2, XCircle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { searchTraces, toJsonLines, traceFailed, type ToolTrace, type TraceLog } from '@/lib/mcp/trace';
+import { formatDuration } from './visuals';
+
+interface AuditLogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  log: TraceLog;
+  onSelectComponent: (id: string) => void;
+}
+
+const TraceDetails = ({ trace, onSearch, onSelectComponent }: {
+  trace: ToolTrace;
+  onSearch: (query: string) => void;
+  onSelectComponent: (id: string) => void;
+}) => (
+  <div className="mt-2 space-y-2">
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1 text-[10px]">
+      <dt className="text-gray-500">Trace</dt>
+      <dd className="font-mono text-gray-300">{trace.id}</dd>
+      {trace.parentId && (
+        <>
+          <dt className="text-gray-500">Parent</dt>
+          <dd>
+            <button onClick={() => onSearch(trace.parentId)} className="font-mono text-blue-300 hover:text-blue-200">{trace.parentId}</button>
+          </dd>
+        </>
+      )}
+      {trace.client && (
+        <>
+          <dt className="text-gray-500">Client</dt>
+          <dd className="text-gray-300">{trace.client}</dd>
+        </>
+      )}
+      <dt className="text-gray-500">Started</dt>
+      <dd className="text-gray-300">{new Date(trace.startedAt).toLocaleString()}</dd>
+    </dl>
+    <pre className="p-2 rounded-lg bg-black/60 text-gray-300 overflow-auto max-h-40 text-[10px] whitespace-pre-wrap">
+      {JSON.stringify(trace.arguments, null, 2)}
+    </pre>
+    {trace.error && <div className="text-red-300">JSON-RPC {trace.error.code}: {trace.error.message}</div>}
+    {trace.result?.content.map((content, index) => (
+      <pre key={index} className="p-2 rounded-lg bg-black/60 text-gray-400 overflow-auto max-h-40 text-[10px] whitespace-pre-wrap">
+        {content.text}
+      </pre>
+    ))}
+    <div className="flex gap-3">
+      <button onClick={() => onSearch(trace.id)} className="text-blue-300 hover:text-blue-200 font-semibold">
+        Show follow-up calls
+      </button>
+      {trace.subject && (
+        <button onClick={() => onSelectComponent(trace.subject)} className="text-blue-300 hover:text-blue-200 font-semibold">
+          Show {trace.subject} →
+        </button>
+      )}
+    </div>
+  </div>
+);
+
+// Every tool call through the dashboard's MCP server: who called what, with which arguments,
+// how it ended and how long it took.
+const AuditLog = ({ open, onOpenChange, log, onSelectComponent }: AuditLogProps) => {
+  const traces = useSyncExternalStore(log.subscribe, log.getSnapshot);
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const shown = useMemo(() => searchTraces(traces, query), [traces, query]);
+
+  const exportTraces = () => {
+    const blob = new Blob([toJsonLines(shown)], { type: 'application/x-ndjson' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `swarm-tool-calls-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="dark bg-black/95 text-white border-white/20 flex flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="text-blue-300 flex items-center gap-2">
+            <ClipboardList size={18} />
+            Audit Log
+          </SheetTitle>
+          <SheetDescription className="text-gray-400">
+            {query ? `${shown.length} of ${traces.length}` : traces.length} traced tool call{traces.length === 1 ? '' : 's'}, newest first
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2">
+          <Input
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            placeholder="Search tool, caller, arguments, trace id, failed…"
+            className="h-8 text-xs"
+          />
+          <button
+            onClick={exportTraces}
+            disabled={shown.length === 0}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-40 transition-colors"
+          >
+            <Download size={12} />
+            JSONL
+          </button>
+          <button
+            onClick={log.clear}
+            disabled={traces.length === 0}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-40 transition-colors"
+          >
+            <Trash2 size={12} />
+            Clear
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {shown.length === 0 && <div className="text-xs text-gray-500">{traces.length === 0 ? 'No tool calls yet.' : 'Nothing matches.'}</div>}
+          {shown.map(trace => (
+            <div
+              key={trace.id}
+              className={`p-3 rounded-xl border text-xs ${traceFailed(trace) ? 'border-red-500/40 bg-red-500/10' : 'border-white/10 bg-white/5'}`}
+            >
+              <button onClick={() => setExpandedId(expandedId === trace.id ? null : trace.id)} className="w-full flex items-center gap-2 text-left">
+                {traceFailed(trace) ? <XCircle size={12} className="text-red-400" /> : <CheckCircle2 size={12} className="text-green-400" />}
+                <span className="font-mono text-gray-100">{trace.tool}</span>
+                <span className="text-gray-400 truncate">
+                  {trace.caller}{trace.subject && ` → ${trace.subject}`}
+                </span>
+                <span className="ml-auto text-gray-400">{formatDuration(trace.durationMs)}</span>
+                <span className="text-gray-500">{new Date(trace.startedAt).toLocaleTimeString()}</span>
+              </button>
+              {expandedId === trace.id && (
+                <TraceDetails trace={trace} onSearch={setQuery} onSelectComponent={onSelectComponent} />
+              )}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default AuditLog;
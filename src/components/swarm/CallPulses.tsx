@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react';
+import { traceFailed, type ToolTrace, type TraceLog } from '@/lib/mcp/trace';
+import { curvePath } from './visuals';
+
+interface CallPulsesProps {
+  log: TraceLog;
+  positions: Map<string, { x: number; y: number }>;
+  nucleusId: string;
+  enabled: boolean;
+}
+
+interface Pulse {
+  id: string;
+  path: string;
+  failed: boolean;
+}
+
+// Matches the call-pulse animation in tailwind.config.ts
+const PULSE_MS = 1200;
+
+// Calls without a known caller start at the nucleus; calls about the whole swarm end there.
+// Component-to-component pulses follow the same curve as the interplay edges.
+const pulseFor = (trace: ToolTrace, positions: CallPulsesProps['positions'], nucleusId: string): Pulse | null => {
+  const fromId = trace.source ?? nucleusId;
+  const toId = trace.subject ?? nucleusId;
+  const from = positions.get(fromId);
+  const to = positions.get(toId);
+  if (!from || !to || fromId === toId) return null;
+  const path = fromId === nucleusId || toId === nucleusId
+    ? `M ${from.x} ${from.y} L ${to.x} ${to.y}`
+    : curvePath(from, to);
+  return { id: trace.id, path, failed: traceFailed(trace) };
+};
+
+// Draws each traced tool call as a short pulse along the edge between caller and subject.
+const CallPulses = ({ log, positions, nucleusId, enabled }: CallPulsesProps) => {
+  const [pulses, setPulses] = useState<Pulse[]>([]);
+  const positionsRef = useRef(positions);
+  positionsRef.current = positions;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let latest = log.getSnapshot()[0];
+    const timers = new Set<number>();
+
+    const unsubscribe = log.subscribe(() => {
+      const traces = log.getSnapshot();
+      const seen = latest ? traces.indexOf(latest) : -1;
+      const added = traces.slice(0, seen === -1 ? traces.length : seen)
+        .map(trace => pulseFor(trace, positionsRef.current, nucleusId))
+        .filter((pulse): pulse is Pulse => pulse !== null);
+      latest = traces[0];
+      if (added.length === 0) return;
+
+      setPulses(current => [...current, ...added]);
+      const timer = window.setTimeout(() => {
+        timers.delete(timer);
+        setPulses(current => current.filter(pulse => !added.includes(pulse)));
+      }, PULSE_MS);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(timer => window.clearTimeout(timer));
+      setPulses([]);
+    };
+  }, [log, nucleusId, enabled]);
+
+  if (pulses.length === 0) return null;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+      style={{ zIndex: 2 }}
+    >
+      {pulses.map(pulse => (
+        <path
+          key={pulse.id}
+          d={pulse.path}
+          pathLength={1}
+          fill="none"
+          stroke={pulse.failed ? '#f87171' : '#67e8f9'}
+          strokeWidth={4}
+          strokeLinecap="round"
+          strokeDasharray="0.12 1"
+          vectorEffect="non-scaling-stroke"
+          className="animate-call-pulse"
+          style={{ filter: `drop-shadow(0 0 4px ${pulse.failed ? '#f87171' : '#67e8f9'})` }}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default CallPulses;
@@ -0,0 +1,382 @@
+import { memo, useEffect, useMemo, useRef, type MouseEvent as ReactMouseEvent } from 'react';
+import { createHitIndex, hitTest, type HitTarget } from '@/lib/swarm/hit-test';
+import type { InterplayEdge } from '@/lib/swarm/interplay';
+import { NUCLEUS_RING, type NodePosition } from '@/lib/swarm/layout';
+import type { LiveStore } from '@/lib/swarm/live-store';
+import type { AlertSeverity, ComponentData, NucleusData, RingData, SwarmManifest } from '@/lib/swarm/schema';
+import type { Point, Size } from '@/lib/swarm/viewport';
+import type { ViewMode } from './ComponentNode';
+import { curveControl, curveMidpoint, getRelationColor, getSeverityColor, getStatusColor } from './visuals';
+
+interface CanvasRendererProps {
+  manifest: SwarmManifest;
+  positions: Map<string, NodePosition>;
+  edges: InterplayEdge[];
+  store: LiveStore;
+  // Screen transform of the canvas, as produced by useViewTransform
+  transform: { x: number; y: number; scale: number };
+  viewport: Size;
+  canvas: Size;
+  viewMode: ViewMode;
+  activeRing: string;
+  severityByComponent: Record<string, AlertSeverity>;
+  selectedId?: string;
+  hoveredId?: string;
+  isAnimating: boolean;
+  // Lines from the nucleus to every component; only meaningful around rings
+  showSpokes?: boolean;
+  onSelect: (component: ComponentData | NucleusData) => void;
+  onHover: (component: ComponentData | NucleusData | null) => void;
+  // Draw time of every frame, for benchmarks
+  onFrame?: (drawMs: number) => void;
+  // Redraw on every animation frame even when nothing changed
+  continuous?: boolean;
+}
+
+interface CanvasNode extends Placed {
+  component: ComponentData;
+  ring: RingData;
+}
+
+// Where a node sits in canvas percent, which the curve helpers work in
+interface Placed extends HitTarget {
+  percent: Point;
+  ringId: string;
+}
+
+// Same sizes as the DOM nodes, shrunk when rings are too crowded for them
+const NODE_RADIUS_PX = 32;
+const MIN_NODE_RADIUS_PX = 3;
+const NUCLEUS_RADIUS_PX = 72;
+// Above this many nodes the pulses and flowing edges stop, so the canvas only redraws on change
+const ANIMATION_NODE_LIMIT = 500;
+// Text smaller than this on screen is not drawn
+const MIN_TEXT_PX = 6;
+
+const withAlpha = (hex: string, alpha: number) => `${hex}${Math.round(alpha * 255).toString(16).padStart(2, '0')}`;
+
+const truncate = (context: CanvasRenderingContext2D, text: string, width: number) => {
+  if (context.measureText(text).width <= width) return text;
+  let end = text.length;
+  while (end > 1 && context.measureText(`${text.slice(0, end)}…`).width > width) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+// Shrinks nodes until most of them clear their nearest neighbour, whatever the layout. Only
+// neighbours closer than full size are looked for, through a grid of that cell size.
+const nodeRadiusFor = (points: Point[]) => {
+  const cellSize = NODE_RADIUS_PX * 2.4;
+  const cells = new Map<number, Point[]>();
+  const keyOf = (column: number, row: number) => column * 65536 + row;
+  points.forEach(point => {
+    const key = keyOf(Math.floor(point.x / cellSize), Math.floor(point.y / cellSize));
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+  });
+  const nearest = points.map(point => {
+    const column = Math.floor(point.x / cellSize);
+    const row = Math.floor(point.y / cellSize);
+    let best = cellSize;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        cells.get(keyOf(column + dx, row + dy))?.forEach(other => {
+          if (other !== point) best = Math.min(best, Math.hypot(point.x - other.x, point.y - other.y));
+        });
+      }
+    }
+    return best;
+  }).sort((a, b) => a - b);
+  // The tenth percentile, so a few crowded spots do not shrink everything
+  const spacing = nearest.length ? nearest[Math.floor(nearest.length * 0.1)] : cellSize;
+  return Math.max(MIN_NODE_RADIUS_PX, Math.min(NODE_RADIUS_PX, spacing / 2.4));
+};
+
+// Draws the whole swarm into one canvas at screen resolution, applying the zoom/pan transform
+// itself, so hundreds or thousands of nodes cost one element instead of one subtree each.
+// Hover, selection and the ring filter behave like the DOM renderer.
+const CanvasRenderer = (props: CanvasRendererProps) => {
+  const { manifest, positions, canvas, viewport, store, activeRing } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const latest = useRef(props);
+  latest.current = props;
+  const dirty = useRef(true);
+  const hovered = useRef<string | null>(null);
+
+  const nodes = useMemo<CanvasNode[]>(() => {
+    // Components without a position yet are left out until the layout places them
+    const placed = manifest.rings.flatMap(ring => ring.components.flatMap(component => {
+      const position = positions.get(component.id);
+      if (!position) return [];
+      return [{
+        id: component.id,
+        component,
+        ring,
+        ringId: ring.id,
+        percent: { x: position.x, y: position.y },
+        x: (position.x / 100) * canvas.width,
+        y: (position.y / 100) * canvas.height,
+        radius: 0
+      }];
+    }));
+    const radius = nodeRadiusFor(placed);
+    placed.forEach(node => {
+      node.radius = radius;
+    });
+    return placed;
+  }, [manifest, positions, canvas]);
+  const radius = nodes[0]?.radius ?? NODE_RADIUS_PX;
+  const nucleus = useMemo<Placed>(() => {
+    const { x, y } = positions.get(manifest.nucleus.id) ?? manifest.nucleus.position;
+    return {
+      id: manifest.nucleus.id,
+      percent: { x, y },
+      ringId: NUCLEUS_RING,
+      x: (x / 100) * canvas.width,
+      y: (y / 100) * canvas.height,
+      radius: NUCLEUS_RADIUS_PX
+    };
+  }, [manifest, positions, canvas]);
+  const hitIndex = useMemo(() => createHitIndex([...nodes, nucleus], Math.max(64, radius * 4)), [nodes, nucleus, radius]);
+  const nodeById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+
+  // Any prop change, and any live update, needs a redraw
+  useEffect(() => {
+    dirty.current = true;
+  });
+  useEffect(() => store.subscribe(() => {
+    dirty.current = true;
+  }), [store]);
+
+  useEffect(() => {
+    const element = canvasRef.current;
+    const context = element?.getContext('2d');
+    if (!element || !context) return;
+    let frame = 0;
+
+    const draw = (now: number) => {
+      const { transform, viewport: screen, viewMode, selectedId, hoveredId, severityByComponent, isAnimating, edges, showSpokes = true } = latest.current;
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(screen.width * ratio);
+      const height = Math.round(screen.height * ratio);
+      if (element.width !== width || element.height !== height) {
+        element.width = width;
+        element.height = height;
+      }
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.clearRect(0, 0, width, height);
+      context.setTransform(ratio * transform.scale, 0, 0, ratio * transform.scale, ratio * transform.x, ratio * transform.y);
+
+      const scale = transform.scale;
+      const view = {
+        left: -transform.x / scale,
+        top: -transform.y / scale,
+        right: (screen.width - transform.x) / scale,
+        bottom: (screen.height - transform.y) / scale
+      };
+      const onScreen = (x: number, y: number, margin: number) =>
+        x + margin >= view.left && x - margin <= view.right && y + margin >= view.top && y - margin <= view.bottom;
+      const isRingVisible = (ringId: string) => activeRing === 'all' || activeRing === ringId;
+      const focusId = hoveredId ?? selectedId;
+      const toPixels = (point: Point) => ({ x: (point.x / 100) * canvas.width, y: (point.y / 100) * canvas.height });
+      const hairline = 1 / scale;
+
+      // Nucleus spokes, one path per ring
+      if (showSpokes) manifest.rings.forEach(ring => {
+        context.beginPath();
+        ring.components.forEach(component => {
+          const node = nodeById.get(component.id);
+          context.moveTo(nucleus.x, nucleus.y);
+          context.lineTo(node.x, node.y);
+        });
+        context.strokeStyle = ring.color;
+        context.globalAlpha = isRingVisible(ring.id) ? 0.15 : 0.05;
+        context.lineWidth = hairline;
+        context.stroke();
+      });
+
+      // Interplay edges
+      const dash = 6 / scale;
+      const animated = isAnimating && nodes.length <= ANIMATION_NODE_LIMIT;
+      context.lineDashOffset = animated ? -((now / 40) % 10) / scale : 0;
+      edges.forEach(edge => {
+        const from: Placed = nodeById.get(edge.source) ?? (edge.source === nucleus.id ? nucleus : null);
+        const to: Placed = nodeById.get(edge.target) ?? (edge.target === nucleus.id ? nucleus : null);
+        if (!from || !to) return;
+        const control = toPixels(curveControl(from.percent, to.percent));
+        if (
+          Math.max(from.x, to.x, control.x) < view.left || Math.min(from.x, to.x, control.x) > view.right
+          || Math.max(from.y, to.y, control.y) < view.top || Math.min(from.y, to.y, control.y) > view.bottom
+        ) return;
+        const visible = isRingVisible(from.ringId) && isRingVisible(to.ringId);
+        const focused = focusId !== undefined && (edge.source === focusId || edge.target === focusId);
+        context.globalAlpha = !visible ? 0.05 : focused ? 0.9 : focusId ? 0.15 : 0.45;
+        context.strokeStyle = getRelationColor(edge.relation);
+        context.lineWidth = (focused ? 2.5 : 1.5) / scale;
+        context.setLineDash(edge.direction === 'directed' ? [dash, dash * 0.66] : []);
+        context.beginPath();
+        context.moveTo(from.x, from.y);
+        context.quadraticCurveTo(control.x, control.y, to.x, to.y);
+        context.stroke();
+
+        if (viewMode === 'detailed' && visible && 9 * scale >= MIN_TEXT_PX) {
+          const mid = toPixels(curveMidpoint(from.percent, to.percent));
+          context.setLineDash([]);
+          context.globalAlpha = focused ? 1 : focusId ? 0.2 : 0.8;
+          context.font = '500 9px sans-serif';
+          context.textAlign = 'center';
+          context.textBaseline = 'middle';
+          context.fillStyle = getRelationColor(edge.relation);
+          context.fillText(edge.protocol ?? edge.relation, mid.x, mid.y);
+        }
+      });
+      context.setLineDash([]);
+      context.globalAlpha = 1;
+
+      // Ring components
+      const live = store.getSnapshot();
+      const pulse = animated ? (now % 1500) / 1500 : null;
+      const screenRadius = radius * scale;
+      nodes.forEach(node => {
+        if (!isRingVisible(node.ring.id) || !onScreen(node.x, node.y, node.radius * 2)) return;
+        const state = live[node.id];
+        const status = state?.status ?? node.component.status ?? 'active';
+        const performance = state?.performance ?? node.component.performance;
+        const isSelected = node.id === selectedId;
+        const isHovered = node.id === hoveredId;
+
+        if (pulse !== null && status === 'active') {
+          context.beginPath();
+          context.arc(node.x, node.y, node.radius * (1 + pulse * 0.6), 0, Math.PI * 2);
+          context.fillStyle = withAlpha(node.ring.color, 0.2 * (1 - pulse));
+          context.fill();
+        }
+
+        context.beginPath();
+        context.arc(node.x, node.y, node.radius * (isSelected ? 1.25 : isHovered ? 1.1 : 1), 0, Math.PI * 2);
+        context.fillStyle = isSelected ? withAlpha(node.ring.color, 0.25) : isHovered ? withAlpha(node.ring.color, 0.13) : 'rgba(0,0,0,0.4)';
+        context.fill();
+        context.lineWidth = Math.min(2, node.radius / 4);
+        context.strokeStyle = isSelected || isHovered ? '#ffffff' : node.ring.color;
+        context.stroke();
+
+        if (screenRadius >= 10) {
+          context.fillStyle = isSelected || isHovered ? '#ffffff' : node.ring.color;
+          context.font = `bold ${Math.round(node.radius * 0.42)}px sans-serif`;
+          context.textAlign = 'center';
+          context.textBaseline = 'middle';
+          context.fillText(truncate(context, node.id, node.radius * 1.6), node.x, node.y);
+        }
+
+        const badge = node.radius * 0.28;
+        if (viewMode === 'performance' && performance !== undefined && screenRadius >= 12) {
+          context.beginPath();
+          context.arc(node.x + node.radius * 0.75, node.y - node.radius * 0.75, badge, 0, Math.PI * 2);
+          context.fillStyle = getStatusColor(status);
+          context.fill();
+          context.fillStyle = '#ffffff';
+          context.font = `bold ${Math.round(badge * 1.1)}px sans-serif`;
+          context.fillText(String(Math.round(performance)), node.x + node.radius * 0.75, node.y - node.radius * 0.75);
+        }
+
+        const severity = severityByComponent[node.id];
+        if (severity) {
+          context.beginPath();
+          context.arc(node.x - node.radius * 0.75, node.y - node.radius * 0.75, Math.max(badge, 2 / scale), 0, Math.PI * 2);
+          context.fillStyle = getSeverityColor(severity);
+          context.fill();
+        }
+
+        // Labels: always in the detailed view, otherwise for the hovered or selected node
+        const labelled = viewMode === 'detailed' || isSelected || isHovered;
+        if (labelled && 11 * scale >= MIN_TEXT_PX) {
+          const lines: [string, string, string][] = [[node.component.name, 'bold 11px sans-serif', '#ffffff']];
+          if (node.component.subtitle) lines.push([node.component.subtitle, '9px sans-serif', '#d1d5db']);
+          if (viewMode === 'detailed' || isSelected) {
+            if (node.component.role) lines.push([`🎯 ${node.component.role}`, '9px sans-serif', '#93c5fd']);
+            if (node.component.metrics) lines.push([`📊 ${node.component.metrics}`, '9px sans-serif', '#fde047']);
+          }
+          if (performance !== undefined) lines.push([`${Math.round(performance)}% · ${status}`, '9px sans-serif', '#d1d5db']);
+          context.textAlign = 'center';
+          context.textBaseline = 'top';
+          lines.reduce((y, [text, font, color]) => {
+            context.font = font;
+            context.fillStyle = color;
+            context.fillText(truncate(context, text, 160), node.x, y);
+            return y + (font.startsWith('bold') ? 14 : 12);
+          }, node.y + node.radius * 1.25 + 6);
+        }
+      });
+
+      // Nucleus
+      const nucleusSelected = selectedId === nucleus.id;
+      context.beginPath();
+      context.arc(nucleus.x, nucleus.y, nucleus.radius, 0, Math.PI * 2);
+      context.fillStyle = nucleusSelected ? withAlpha(manifest.nucleus.color, 0.19) : 'rgba(0,0,0,0.5)';
+      context.fill();
+      context.lineWidth = 4;
+      context.strokeStyle = nucleusSelected ? '#ffffff' : manifest.nucleus.color;
+      context.stroke();
+      context.fillStyle = nucleusSelected ? '#ffffff' : manifest.nucleus.color;
+      context.font = 'bold 12px sans-serif';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(truncate(context, manifest.nucleus.name, nucleus.radius * 1.7), nucleus.x, nucleus.y);
+    };
+
+    const loop = (now: number) => {
+      const { continuous, isAnimating, onFrame } = latest.current;
+      if (dirty.current || continuous || (isAnimating && nodes.length <= ANIMATION_NODE_LIMIT)) {
+        dirty.current = false;
+        const started = performance.now();
+        draw(now);
+        onFrame?.(performance.now() - started);
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, [manifest, nodes, nodeById, nucleus, radius, store, activeRing, canvas]);
+
+  // Pointer events are mouse events too, so hover and click share this
+  const targetAt = (event: ReactMouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const { transform } = latest.current;
+    const point = {
+      x: (event.clientX - rect.left - transform.x) / transform.scale,
+      y: (event.clientY - rect.top - transform.y) / transform.scale
+    };
+    const hit = hitTest(hitIndex, point, target => {
+      const node = nodeById.get(target.id);
+      return !node || activeRing === 'all' || node.ring.id === activeRing;
+    });
+    if (!hit) return null;
+    return hit.id === manifest.nucleus.id ? manifest.nucleus : nodeById.get(hit.id).component;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0"
+      style={{ width: viewport.width, height: viewport.height, zIndex: 1 }}
+      onPointerMove={(event) => {
+        const target = targetAt(event);
+        event.currentTarget.style.cursor = target ? 'pointer' : '';
+        if ((target?.id ?? null) === hovered.current) return;
+        hovered.current = target?.id ?? null;
+        props.onHover(target);
+      }}
+      onPointerLeave={() => {
+        if (hovered.current === null) return;
+        hovered.current = null;
+        props.onHover(null);
+      }}
+      onClick={(event) => {
+        const target = targetAt(event);
+        if (target) props.onSelect(target);
+      }}
+    />
+  );
+};
+
+export default memo(CanvasRenderer);
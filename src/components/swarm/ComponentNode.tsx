@@ -0,0 +1,217 @@
+import { memo, useEffect, useRef, useState } from 'react';
+import { useLiveComponent } from '@/hooks/use-live-store';
+import { useMetricSeries } from '@/hooks/use-metrics-history';
+import type { LiveStore } from '@/lib/swarm/live-store';
+import { METRIC_WINDOWS, type MetricsHistory } from '@/lib/swarm/metrics-history';
+import type { AlertSeverity, ComponentData, RingData } from '@/lib/swarm/schema';
+import Sparkline from './Sparkline';
+import { getComponentIcon, getSeverityColor, getStatusColor } from './visuals';
+
+export type ViewMode = 'overview' | 'detailed' | 'performance';
+
+interface ComponentNodeProps {
+  component: ComponentData;
+  ring: RingData;
+  position: { x: number; y: number };
+  store: LiveStore;
+  history: MetricsHistory;
+  viewMode: ViewMode;
+  // Highest severity among the component's unresolved alerts
+  alertSeverity?: AlertSeverity;
+  isAnimating: boolean;
+  isSelected: boolean;
+  isHovered: boolean;
+  onSelect: (component: ComponentData) => void;
+  onHover: (component: ComponentData | null) => void;
+}
+
+const FLASH_DURATION_MS = 900;
+
+// Only mounted in the performance view, so other modes never read the history
+const PerformanceSparkline = ({ history, id, color }: { history: MetricsHistory; id: string; color: string }) => {
+  const points = useMetricSeries(history, id, 'performance', METRIC_WINDOWS['15m']);
+  return (
+    <div className="absolute top-full left-1/2 -translate-x-1/2 mt-1 pointer-events-none">
+      <Sparkline points={points} color={color} />
+    </div>
+  );
+};
+
+// The detailed view's inline label: everything the hover tooltip shows, always visible
+const DetailedLabel = ({ component, performance, status }: { component: ComponentData; performance?: number; status: string }) => (
+  <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2 w-40 text-center pointer-events-none">
+    <div className="text-[11px] font-bold text-white truncate">{component.name}</div>
+    {component.subtitle && <div className="text-[9px] text-gray-300 leading-tight line-clamp-2">{component.subtitle}</div>}
+    {component.role && <div className="text-[9px] text-blue-300 leading-tight mt-0.5 line-clamp-2">🎯 {component.role}</div>}
+    {component.metrics && <div className="text-[9px] text-yellow-300 leading-tight mt-0.5 line-clamp-2">📊 {component.metrics}</div>}
+    {performance !== undefined && (
+      <div className="flex items-center justify-center gap-1.5 mt-1">
+        <div className="w-10 h-1 bg-gray-600 rounded-full overflow-hidden">
+          <div className="h-full rounded-full transition-all duration-300" style={{ width: `${performance}%`, backgroundColor: getStatusColor(status) }} />
+        </div>
+        <span className="text-[9px] text-gray-300">{Math.round(performance)}% · {status}</span>
+      </div>
+    )}
+  </div>
+);
+
+const ComponentNode = ({
+  component,
+  ring,
+  position,
+  store,
+  history,
+  viewMode,
+  alertSeverity,
+  isAnimating,
+  isSelected,
+  isHovered,
+  onSelect,
+  onHover
+}: ComponentNodeProps) => {
+  const live = useLiveComponent(store, component.id);
+  const performance = live?.performance ?? component.performance;
+  const status = live?.status ?? component.status ?? 'active';
+  const Icon = getComponentIcon(component.id);
+
+  // Flash the node whenever the stream moves its performance or status
+  const [flash, setFlash] = useState<'up' | 'down' | 'status' | null>(null);
+  const previous = useRef({ performance, status });
+  useEffect(() => {
+    const before = previous.current;
+    previous.current = { performance, status };
+    if (before.status !== status) {
+      setFlash('status');
+    } else if (before.performance !== performance && performance !== undefined && before.performance !== undefined) {
+      setFlash(performance >= before.performance ? 'up' : 'down');
+    } else {
+      return;
+    }
+    const timer = setTimeout(() => setFlash(null), FLASH_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [performance, status]);
+
+  const flashColor = flash === 'up' ? '#10b981' : flash === 'down' ? '#ef4444' : flash === 'status' ? getStatusColor(status) : null;
+
+  return (
+    <div
+      className={`absolute transform -translate-x-1/2 -translate-y-1/2 cursor-pointer transition-[transform,filter] duration-500 ${
+        isSelected ? 'scale-125 z-30' : isHovered ? 'scale-110 z-20' : flash ? 'scale-110 z-10' : 'z-10'
+      }`}
+      style={{
+        left: `${position.x}%`,
+        top: `${position.y}%`,
+        filter: isSelected || isHovered
+          ? 'drop-shadow(0 0 20px rgba(59, 130, 246, 0.6))'
+          : flashColor
+          ? `drop-shadow(0 0 16px ${flashColor})`
+          : 'none'
+      }}
+      onClick={() => onSelect(component)}
+      onMouseEnter={() => onHover(component)}
+      onMouseLeave={() => onHover(null)}
+    >
+      <div
+        className={`relative w-16 h-16 rounded-full border-2 flex items-center justify-center backdrop-blur-md transition-all duration-300 ${
+          isSelected
+            ? 'border-white bg-white/20 text-white shadow-2xl'
+            : isHovered
+            ? 'border-white/80 bg-white/10 text-white shadow-xl'
+            : 'border-current bg-black/40 text-current'
+        }`}
+        style={{
+          borderColor: isSelected || isHovered ? '#fff' : flashColor ?? ring.color,
+          backgroundColor: isSelected 
+            ? `${ring.color}40` 
+            : isHovered 
+            ? `${ring.color}20` 
+            : 'rgba(0,0,0,0.4)'
+        }}
+      >
+        <Icon size={20} />
+        
+        {/* Performance indicator */}
+        {viewMode === 'performance' && performance !== undefined && (
+          <div 
+            className={`absolute -top-1 -right-1 min-w-4 h-4 px-0.5 rounded-full border-2 border-white text-[9px] flex items-center justify-center font-bold transition-colors duration-500 ${
+              flash ? 'animate-bounce' : ''
+            }`}
+            style={{ backgroundColor: getStatusColor(status) }}
+          >
+            {Math.round(performance)}
+          </div>
+        )}
+
+        {/* Alert badge */}
+        {alertSeverity && (
+          <div
+            className={`absolute -top-1 -left-1 w-4 h-4 rounded-full border-2 border-white text-[9px] font-bold flex items-center justify-center text-white ${
+              alertSeverity === 'critical' ? 'animate-pulse' : ''
+            }`}
+            style={{ backgroundColor: getSeverityColor(alertSeverity) }}
+            title={`${alertSeverity} alert`}
+          >
+            !
+          </div>
+        )}
+
+        {/* Status pulse animation */}
+        {isAnimating && status === 'active' && (
+          <div 
+            className="absolute inset-0 rounded-full animate-ping opacity-20"
+            style={{ backgroundColor: ring.color }}
+          />
+        )}
+      </div>
+
+      {viewMode === 'performance' && !(isHovered || isSelected) && (
+        <PerformanceSparkline history={history} id={component.id} color={ring.color} />
+      )}
+
+      {viewMode === 'detailed' && !(isHovered || isSelected) && (
+        <DetailedLabel component={component} performance={performance} status={status} />
+      )}
+
+      {/* Enhanced tooltip */}
+      {(isHovered || isSelected) && (
+        <div
+          className="absolute top-full mt-3 bg-black/90 backdrop-blur-md text-white p-3 rounded-xl text-xs font-medium whitespace-nowrap shadow-2xl border border-white/20 z-40"
+          style={{ 
+            borderColor: ring.color,
+            boxShadow: `0 0 20px ${ring.color}40`
+          }}
+        >
+          <div className="font-bold text-sm">{component.name}</div>
+          <div className="text-gray-300 mt-1">{component.subtitle}</div>
+          {component.role && (
+            <div className="text-blue-300 text-xs mt-2 font-semibold">
+              🎯 {component.role}
+            </div>
+          )}
+          {component.metrics && (
+            <div className="text-yellow-300 text-xs mt-2 font-semibold">
+              📊 {component.metrics}
+            </div>
+          )}
+          {performance !== undefined && (
+            <div className="flex items-center space-x-2 mt-2">
+              <div className="w-12 h-1 bg-gray-600 rounded-full overflow-hidden">
+                <div 
+                  className="h-full transition-all duration-300 rounded-full"
+                  style={{ 
+                    width: `${performance}%`,
+                    backgroundColor: getStatusColor(status)
+                  }}
+                />
+              </div>
+              <span className="text-xs">{Math.round(performance)}%</span>
+              <span className="text-xs text-gray-400">{status}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(ComponentNode);
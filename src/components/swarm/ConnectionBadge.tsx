@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw, Wifi, WifiOff } from 'lucide-react';
+import type { ConnectionState, ConnectionStats } from '@/lib/stream/connection';
+import type { TransportKind } from '@/lib/stream/transports';
+
+interface ConnectionBadgeProps {
+  state: ConnectionState;
+  stats: ConnectionStats | null;
+  transport: TransportKind;
+  url: string;
+  onRetry: () => void;
+}
+
+const STATE_STYLES: Record<ConnectionState, string> = {
+  idle: 'bg-gray-500/20 border-gray-400/50 text-gray-100',
+  connecting: 'bg-yellow-500/20 border-yellow-400/50 text-yellow-100',
+  open: 'bg-green-500/20 border-green-400/50 text-green-100',
+  stale: 'bg-orange-500/20 border-orange-400/50 text-orange-100',
+  reconnecting: 'bg-yellow-500/20 border-yellow-400/50 text-yellow-100',
+  failed: 'bg-red-500/20 border-red-400/50 text-red-100'
+};
+
+const STATE_LABELS: Record<ConnectionState, string> = {
+  idle: 'Disconnected',
+  connecting: 'Connecting…',
+  open: 'Connected',
+  stale: 'Stale (no heartbeat)',
+  reconnecting: 'Reconnecting',
+  failed: 'Connection failed'
+};
+
+// Re-renders once a second while a retry is scheduled so the countdown stays current
+const useRetryCountdown = (nextRetryAt: number | null) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (nextRetryAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [nextRetryAt]);
+
+  return nextRetryAt === null ? null : Math.max(0, Math.ceil((nextRetryAt - now) / 1000));
+};
+
+const ConnectionBadge = ({ state, stats, transport, url, onRetry }: ConnectionBadgeProps) => {
+  const retryIn = useRetryCountdown(stats?.nextRetryAt ?? null);
+  const Icon = state === 'open' || state === 'stale' ? Wifi : WifiOff;
+
+  return (
+    <div className={`px-3 py-2 rounded-lg backdrop-blur-md border transition-all duration-300 ${STATE_STYLES[state]}`}>
+      <div className="flex items-center gap-2 text-sm">
+        <Icon className="w-4 h-4" />
+        <span>Claude Hooks: {STATE_LABELS[state]}</span>
+        {state === 'reconnecting' && retryIn !== null && (
+          <span className="text-xs opacity-80">in {retryIn}s</span>
+        )}
+        {(state === 'failed' || state === 'reconnecting') && (
+          <button onClick={onRetry} className="ml-1 flex items-center gap-1 text-xs font-semibold hover:underline">
+            <RefreshCw className="w-3 h-3" />
+            Retry now
+          </button>
+        )}
+      </div>
+      <div className="mt-1 text-[10px] font-mono opacity-70 truncate max-w-xs" title={url}>
+        {transport} · {url}
+      </div>
+      {stats && (stats.lastSeq !== null || stats.attempts > 0) && (
+        <div className="text-[10px] font-mono opacity-70">
+          {stats.attempts > 0 && <span>attempt {stats.attempts} · </span>}
+          seq {stats.lastSeq ?? '—'} · gaps {stats.gaps} · dupes {stats.duplicates}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionBadge;
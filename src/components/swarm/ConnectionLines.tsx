@@ -0,0 +1,80 @@
+import { memo } from 'react';
+import type { InterplayEdge } from '@/lib/swarm/interplay';
+import type { NodePosition } from '@/lib/swarm/layout';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+import { curvePath, getRelationColor } from './visuals';
+
+interface ConnectionLinesProps {
+  manifest: SwarmManifest;
+  positions: Map<string, NodePosition>;
+  edges: InterplayEdge[];
+  activeRing: string;
+  // Edges touching this component stay bright; the rest fade
+  focusId?: string;
+  isAnimating: boolean;
+  // Lines from the nucleus to every component; only meaningful around rings
+  showSpokes?: boolean;
+}
+
+// Nucleus spokes and interplay edges in one SVG stretched over the canvas
+const ConnectionLines = ({ manifest, positions, edges, activeRing, focusId, isAnimating, showSpokes = true }: ConnectionLinesProps) => {
+  const isRingVisible = (ringId: string) => activeRing === 'all' || activeRing === ringId;
+  const nucleus = positions.get(manifest.nucleus.id);
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+      style={{ zIndex: 1 }}
+    >
+      {/* Nucleus spokes */}
+      {showSpokes && nucleus && manifest.rings.flatMap(ring => ring.components.map((component) => {
+        const componentPos = positions.get(component.id);
+        if (!componentPos) return null;
+
+        return (
+          <line
+            key={component.id}
+            x1={nucleus.x}
+            y1={nucleus.y}
+            x2={componentPos.x}
+            y2={componentPos.y}
+            stroke={ring.color}
+            strokeWidth="1"
+            vectorEffect="non-scaling-stroke"
+            opacity={isRingVisible(ring.id) ? 0.15 : 0.05}
+            className="transition-all duration-500"
+          />
+        );
+      }))}
+
+      {/* Component-to-component interplay edges */}
+      {edges.map(edge => {
+        const from = positions.get(edge.source);
+        const to = positions.get(edge.target);
+        if (!from || !to) return null;
+
+        const visible = isRingVisible(from.ringId) && isRingVisible(to.ringId);
+        const focused = focusId !== undefined && (edge.source === focusId || edge.target === focusId);
+        const opacity = !visible ? 0.05 : focused ? 0.9 : focusId ? 0.15 : 0.45;
+
+        return (
+          <path
+            key={edge.id}
+            d={curvePath(from, to)}
+            fill="none"
+            stroke={getRelationColor(edge.relation)}
+            strokeWidth={focused ? 2.5 : 1.5}
+            strokeDasharray={edge.direction === 'directed' ? '6 4' : undefined}
+            vectorEffect="non-scaling-stroke"
+            opacity={opacity}
+            className={`transition-all duration-500 ${edge.direction === 'directed' && isAnimating ? 'animate-edge-flow' : ''}`}
+          />
+        );
+      })}
+    </svg>
+  );
+};
+
+export default memo(ConnectionLines);
@@ -0,0 +1,247 @@
+import { useMemo, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, Layers } from 'lucide-react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useContextWindow } from '@/hooks/use-context-window';
+import {
+  CONTEXT_SLICE_KINDS,
+  SHARED_WINDOW,
+  sliceKey,
+  tokensByKind,
+  type ContextState,
+  type ContextTracker
+} from '@/lib/swarm/context-window';
+import type { ContextWindowConfig } from '@/lib/swarm/schema';
+
+interface ContextInspectorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tracker: ContextTracker;
+  config: ContextWindowConfig;
+  onSelectComponent: (id: string) => void;
+}
+
+const KIND_LABELS = { system: 'System', tools: 'Tools', history: 'History', resources: 'Resources' };
+
+const CHART_CONFIG: ChartConfig = {
+  system: { label: KIND_LABELS.system, color: '#a78bfa' },
+  tools: { label: KIND_LABELS.tools, color: '#38bdf8' },
+  history: { label: KIND_LABELS.history, color: '#34d399' },
+  resources: { label: KIND_LABELS.resources, color: '#f59e0b' }
+};
+
+const STATE_STYLES: Record<ContextState, string> = {
+  ok: 'text-green-300',
+  warning: 'text-yellow-300',
+  critical: 'text-red-300'
+};
+
+const MAX_CHART_POINTS = 300;
+
+const formatTime = (t: number) => new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatTokens = (count: number) => count >= 10_000 ? `${Math.round(count / 1000)}k` : count.toLocaleString();
+
+const ownerLabel = (owner: string) => owner === SHARED_WINDOW ? 'Shared' : owner;
+
+// What each context window holds, who put it there, how that changed, and what got dropped.
+const ContextInspector = ({ open, onOpenChange, tracker, config, onSelectComponent }: ContextInspectorProps) => {
+  const { samples, losses, latest } = useContextWindow(tracker);
+  const [chosenOwner, setChosenOwner] = useState<string | null>(null);
+  const owners = useMemo(() => Object.values(latest).sort((a, b) => b.t - a.t).map(sample => sample.owner), [latest]);
+  const owner = chosenOwner && latest[chosenOwner] ? chosenOwner : owners[0] ?? null;
+  const current = owner ? latest[owner] : null;
+
+  const ownerSamples = useMemo(() => samples.filter(sample => sample.owner === owner), [samples, owner]);
+  const ownerLosses = useMemo(() => losses.filter(loss => loss.owner === owner).reverse(), [losses, owner]);
+
+  const previousTokens = useMemo(() => {
+    const previous = ownerSamples.length > 1 ? ownerSamples[ownerSamples.length - 2] : null;
+    const tokens = new Map<string, number>();
+    if (previous?.sessionId === current?.sessionId) {
+      previous?.slices.forEach(slice => tokens.set(sliceKey(slice), (tokens.get(sliceKey(slice)) ?? 0) + slice.tokens));
+    }
+    return tokens;
+  }, [ownerSamples, current]);
+
+  const history = useMemo(() => {
+    const points = ownerSamples.map(sample => ({ t: sample.t, ...tokensByKind(sample.slices) }));
+    const step = Math.ceil(points.length / MAX_CHART_POINTS);
+    return step <= 1 ? points : points.filter((_, index) => index % step === 0 || index === points.length - 1);
+  }, [ownerSamples]);
+
+  const kindTotals = current ? tokensByKind(current.slices) : null;
+  const orderedSlices = current
+    ? [...current.slices].sort((a, b) => CONTEXT_SLICE_KINDS.indexOf(a.kind) - CONTEXT_SLICE_KINDS.indexOf(b.kind) || b.tokens - a.tokens)
+    : [];
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="dark bg-black/95 text-white border-white/20 flex flex-col sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle className="text-purple-300 flex items-center gap-2">
+            <Layers size={18} />
+            Context Window
+          </SheetTitle>
+          <SheetDescription className="text-gray-400">
+            System prompt, tools, history and retrieved resources against the model's window, by contributing component
+          </SheetDescription>
+        </SheetHeader>
+
+        {owners.length > 1 && (
+          <div className="flex flex-wrap gap-1">
+            {owners.map(option => (
+              <button
+                key={option}
+                onClick={() => setChosenOwner(option)}
+                className={`px-2 py-1 rounded-md text-[11px] font-mono font-semibold transition-all ${
+                  option === owner ? 'bg-white/20 text-white' : 'text-gray-400 hover:text-gray-200'
+                } ${latest[option].state === 'ok' ? '' : STATE_STYLES[latest[option].state]}`}
+              >
+                {ownerLabel(option)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {!current && <div className="text-xs text-gray-500">No context updates yet.</div>}
+
+          {current && kindTotals && (
+            <>
+              <div className="bg-gray-800/50 p-4 rounded-xl space-y-2">
+                <div className="flex items-baseline gap-2 text-xs">
+                  <span className="font-mono text-gray-200">{ownerLabel(current.owner)}</span>
+                  {current.model && <span className="text-gray-500">{current.model}</span>}
+                  <span className={`ml-auto font-semibold ${STATE_STYLES[current.state]}`}>
+                    {current.used.toLocaleString()} / {current.limit.toLocaleString()} tokens · {Math.round((current.used / current.limit) * 100)}%
+                  </span>
+                </div>
+                <div className="relative h-5 rounded-md bg-white/10 overflow-hidden flex">
+                  {orderedSlices.map((slice, index) => (
+                    <div
+                      key={`${sliceKey(slice)}:${index}`}
+                      className="h-full border-r border-black/40 last:border-r-0"
+                      style={{ width: `${(slice.tokens / current.limit) * 100}%`, backgroundColor: CHART_CONFIG[slice.kind].color }}
+                      title={`${KIND_LABELS[slice.kind]} · ${slice.componentId ?? 'unattributed'}${slice.label ? ` · ${slice.label}` : ''}: ${slice.tokens.toLocaleString()} tokens`}
+                    />
+                  ))}
+                  {[config.warnAt, config.criticalAt].map(level => (
+                    <div key={level} className="absolute top-0 h-full w-px bg-white/70" style={{ left: `${level * 100}%` }} />
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-3 text-[10px] text-gray-400">
+                  {CONTEXT_SLICE_KINDS.map(kind => (
+                    <span key={kind} className="flex items-center gap-1">
+                      <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: CHART_CONFIG[kind].color }} />
+                      {KIND_LABELS[kind]} {formatTokens(kindTotals[kind])}
+                    </span>
+                  ))}
+                  <span className="ml-auto">{formatTokens(Math.max(0, current.limit - current.used))} free</span>
+                </div>
+              </div>
+
+              {current.state !== 'ok' && (
+                <div className={`flex items-start gap-2 p-3 rounded-xl border text-xs ${
+                  current.state === 'critical' ? 'border-red-500/40 bg-red-500/10 text-red-200' : 'border-yellow-500/30 bg-yellow-500/10 text-yellow-200'
+                }`}>
+                  <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                  <span>
+                    Past {Math.round((current.state === 'critical' ? config.criticalAt : config.warnAt) * 100)}% of the window.
+                    The next turns are likely to be truncated or compacted; anything dropped will show up below.
+                  </span>
+                </div>
+              )}
+
+              <table className="w-full text-xs">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className="text-left font-medium pb-1">Slice</th>
+                    <th className="text-left font-medium pb-1">Component</th>
+                    <th className="text-right font-medium pb-1">Tokens</th>
+                    <th className="text-right font-medium pb-1">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orderedSlices.map((slice, index) => {
+                    const change = slice.tokens - (previousTokens.get(sliceKey(slice)) ?? 0);
+                    return (
+                      <tr key={`${sliceKey(slice)}:${index}`} className="border-t border-white/5">
+                        <td className="py-1 text-gray-200">
+                          <span className="inline-block w-2 h-2 rounded-sm mr-1.5" style={{ backgroundColor: CHART_CONFIG[slice.kind].color }} />
+                          {KIND_LABELS[slice.kind]}{slice.label && <span className="text-gray-500"> · {slice.label}</span>}
+                        </td>
+                        <td className="py-1">
+                          {slice.componentId ? (
+                            <button onClick={() => onSelectComponent(slice.componentId)} className="font-mono text-blue-300 hover:text-blue-200">
+                              {slice.componentId}
+                            </button>
+                          ) : (
+                            <span className="text-gray-500">—</span>
+                          )}
+                        </td>
+                        <td className="py-1 text-right text-gray-300">{slice.tokens.toLocaleString()}</td>
+                        <td className={`py-1 text-right ${change > 0 ? 'text-green-300' : change < 0 ? 'text-red-300' : 'text-gray-500'}`}>
+                          {change > 0 ? `+${change.toLocaleString()}` : change < 0 ? change.toLocaleString() : '–'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="bg-gray-800/50 p-4 rounded-xl">
+                <div className="text-xs text-gray-400 mb-2">Composition over time</div>
+                {history.length < 2 ? (
+                  <div className="h-36 flex items-center justify-center text-xs text-gray-500">Waiting for more context updates…</div>
+                ) : (
+                  <ChartContainer config={CHART_CONFIG} className="aspect-auto h-36 w-full">
+                    <AreaChart data={history} margin={{ top: 4, right: 4, bottom: 0, left: -8 }}>
+                      <CartesianGrid vertical={false} strokeOpacity={0.15} />
+                      <XAxis dataKey="t" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} tickLine={false} axisLine={false} minTickGap={40} />
+                      <YAxis domain={[0, current.limit]} tickFormatter={formatTokens} tickLine={false} axisLine={false} width={48} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload[0]?.payload.t)} />} />
+                      <ReferenceLine y={current.limit * config.warnAt} stroke="#facc15" strokeDasharray="4 4" />
+                      {CONTEXT_SLICE_KINDS.map(kind => (
+                        <Area
+                          key={kind}
+                          dataKey={kind}
+                          stackId="context"
+                          type="stepAfter"
+                          stroke={`var(--color-${kind})`}
+                          fill={`var(--color-${kind})`}
+                          fillOpacity={0.35}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </AreaChart>
+                  </ChartContainer>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-xs text-gray-400">Dropped context ({ownerLosses.length})</div>
+                {ownerLosses.length === 0 && (
+                  <div className="text-xs text-gray-500">No slice of this window has shrunk since it was first seen.</div>
+                )}
+                {ownerLosses.slice(0, 50).map((loss, index) => (
+                  <div key={`${loss.t}:${index}`} className="flex items-center gap-2 p-2 rounded-lg bg-red-500/10 border border-red-500/20 text-xs">
+                    <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: CHART_CONFIG[loss.kind].color }} />
+                    <span className="text-gray-200">{KIND_LABELS[loss.kind]}</span>
+                    {loss.componentId && <span className="font-mono text-gray-400">{loss.componentId}</span>}
+                    {loss.label && <span className="text-gray-500 truncate">{loss.label}</span>}
+                    <span className="ml-auto text-red-300">−{(loss.before - loss.after).toLocaleString()}</span>
+                    <span className="text-gray-500">{formatTime(loss.t)}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ContextInspector;
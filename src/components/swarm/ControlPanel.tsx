@@ -0,0 +1,384 @@
+import { BellRing, ChevronLeft, ChevronRight, ClipboardList, Coins, Download, History, Layers, Pause, Play, ScrollText, Server, Settings, ShieldCheck, Terminal, Upload } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import type { ContextSample } from '@/lib/swarm/context-window';
+import { formatCost } from '@/lib/swarm/costs';
+import { LAYOUT_KINDS, type LayoutKind } from '@/lib/swarm/graph-layout';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+import type { TopologyReport } from '@/lib/swarm/topology-lint';
+import type { ViewMode } from './ComponentNode';
+
+export type Renderer = 'dom' | 'canvas';
+
+// The side sheets the panel's summary rows open
+export type ControlPanelSheet = 'topology' | 'alerts' | 'tools' | 'costs' | 'context' | 'audit' | 'approvals' | 'mcp-servers';
+
+const LAYOUT_LABELS: Record<LayoutKind, string> = { concentric: 'Rings', force: 'Force', layered: 'Layered' };
+
+interface ControlPanelProps {
+  open: boolean;
+  onToggle: () => void;
+  manifest: SwarmManifest;
+  // Where the manifest was loaded from
+  manifestSource: string;
+  totalComponents: number;
+  activeRing: string;
+  onActiveRingChange: (ringId: string) => void;
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
+  layoutKind: LayoutKind;
+  onLayoutChange: (kind: LayoutKind) => void;
+  renderer: Renderer;
+  onRendererChange: (renderer: Renderer) => void;
+  isAnimating: boolean;
+  onToggleAnimation: () => void;
+  topologyReport: TopologyReport;
+  firingAlertCount: number;
+  toolCallCount: number;
+  // Spend across every session, in the manifest's currency
+  tokenCost: number;
+  exceededBudgetCount: number;
+  // The context window closest to its limit, if any has reported
+  fullestContext: ContextSample | null;
+  traceCount: number;
+  pendingApprovalCount: number;
+  autoApproveRuleCount: number;
+  connectedServerCount: number;
+  promptCount: number;
+  recordedEventCount: number;
+  replaying: boolean;
+  onOpenSheet: (sheet: ControlPanelSheet) => void;
+  onReplay: () => void;
+  onExportSession: () => void;
+  onImportSession: () => void;
+  onSelectNucleus: () => void;
+}
+
+// The dashboard's left-hand panel: focus, view and layout settings, and a summary row per side sheet
+const ControlPanel = ({
+  open,
+  onToggle,
+  manifest,
+  manifestSource,
+  totalComponents,
+  activeRing,
+  onActiveRingChange,
+  viewMode,
+  onViewModeChange,
+  layoutKind,
+  onLayoutChange,
+  renderer,
+  onRendererChange,
+  isAnimating,
+  onToggleAnimation,
+  topologyReport,
+  firingAlertCount,
+  toolCallCount,
+  tokenCost,
+  exceededBudgetCount,
+  fullestContext,
+  traceCount,
+  pendingApprovalCount,
+  autoApproveRuleCount,
+  connectedServerCount,
+  promptCount,
+  recordedEventCount,
+  replaying,
+  onOpenSheet,
+  onReplay,
+  onExportSession,
+  onImportSession,
+  onSelectNucleus
+}: ControlPanelProps) => (
+  <div className={`fixed left-6 top-6 bg-black/80 backdrop-blur-xl text-white rounded-2xl shadow-2xl border border-white/20 z-40 overflow-hidden transition-all duration-300 ${
+    open ? 'max-w-sm' : 'max-w-12'
+  }`}>
+    <div className="flex items-center">
+      <button
+        onClick={onToggle}
+        className="p-3 text-yellow-400 hover:text-yellow-300 transition-colors border-r border-white/10"
+      >
+        {open ? <ChevronLeft size={20} /> : <ChevronRight size={20} />}
+      </button>
+      
+      {open && (
+        <div className="p-6">
+          <h3 className="text-xl font-bold text-yellow-400 mb-6 flex items-center">
+            <Settings size={24} className="mr-3" />
+            Swarm Control Center
+          </h3>
+
+          <div className="space-y-6">
+            <div>
+              <label className="text-sm font-semibold text-gray-300 block mb-3">System Focus</label>
+              <select
+                value={activeRing}
+                onChange={(e) => onActiveRingChange(e.target.value)}
+                className="w-full bg-gray-800/80 backdrop-blur-sm text-white p-3 rounded-xl border border-gray-600/50 focus:border-blue-500 focus:outline-none transition-all"
+              >
+                <option value="all">🌐 All Systems</option>
+                {manifest.rings.map(ring => (
+                  <option key={ring.id} value={ring.id}>
+                    {ring.emoji ? `${ring.emoji} ` : ''}{ring.label ?? ring.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-sm font-semibold text-gray-300 block mb-3">View Mode</label>
+              <div className="grid grid-cols-3 gap-2">
+                {(['overview', 'detailed', 'performance'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => onViewModeChange(mode)}
+                    className={`p-2 rounded-lg text-xs font-medium transition-all ${
+                      viewMode === mode
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-700/50 text-gray-300 hover:bg-gray-600/50'
+                    }`}
+                  >
+                    {mode.charAt(0).toUpperCase() + mode.slice(1)}
+                  </button>
+                ))}
+              </div>
+            </div>
+            
+            <div>
+              <label className="text-sm font-semibold text-gray-300 block mb-3">Layout</label>
+              <div className="grid grid-cols-3 gap-2">
+                {LAYOUT_KINDS.map((kind) => (
+                  <button
+                    key={kind}
+                    onClick={() => onLayoutChange(kind)}
+                    className={`p-2 rounded-lg text-xs font-medium transition-all ${
+                      layoutKind === kind
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-700/50 text-gray-300 hover:bg-gray-600/50'
+                    }`}
+                  >
+                    {LAYOUT_LABELS[kind]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-semibold text-gray-300 block mb-3">Renderer</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['dom', 'canvas'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => onRendererChange(option)}
+                    className={`p-2 rounded-lg text-xs font-medium transition-all ${
+                      renderer === option
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-700/50 text-gray-300 hover:bg-gray-600/50'
+                    }`}
+                  >
+                    {option === 'dom' ? 'DOM' : 'Canvas'}
+                  </button>
+                ))}
+              </div>
+              <Link to="/benchmark" className="block mt-2 text-xs text-blue-400 hover:text-blue-300">
+                Renderer benchmark →
+              </Link>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-xl">
+              <span className="text-sm font-medium text-gray-300">Neural Animation</span>
+              <button
+                onClick={onToggleAnimation}
+                className={`p-2 rounded-lg transition-all ${
+                  isAnimating ? 'bg-green-500 text-white' : 'bg-gray-600 text-gray-300'
+                }`}
+              >
+                {isAnimating ? <Pause size={16} /> : <Play size={16} />}
+              </button>
+            </div>
+            
+            <button
+              onClick={() => onOpenSheet('topology')}
+              className="w-full flex items-center justify-between p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-xl transition-all text-sm"
+            >
+              <span className="font-medium text-gray-300">Topology Health</span>
+              <span className="flex gap-2 text-xs font-semibold">
+                <span className={topologyReport.errorCount ? 'text-red-400' : 'text-gray-500'}>{topologyReport.errorCount} errors</span>
+                <span className={topologyReport.warningCount ? 'text-yellow-400' : 'text-gray-500'}>{topologyReport.warningCount} warnings</span>
+              </span>
+            </button>
+
+            <button
+              onClick={() => onOpenSheet('alerts')}
+              className="w-full flex items-center justify-between p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-xl transition-all text-sm"
+            >
+              <span className="flex items-center gap-2 font-medium text-gray-300">
+                <BellRing size={14} className={firingAlertCount ? 'text-red-400' : ''} />
+                Alerts
+              </span>
+              <span className="flex gap-2 text-xs font-semibold">
+                <span className={firingAlertCount ? 'text-red-400' : 'text-gray-500'}>{firingAlertCount} firing</span>
+                <span className="text-gray-500">{manifest.alertRules.length} rules</span>
+              </span>
+            </button>
+
+            <button
+              onClick={() => onOpenSheet('tools')}
+              className="w-full flex items-center justify-between p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-xl transition-all text-sm"
+            >
+              <span className="flex items-center gap-2 font-medium text-gray-300">
+                <Terminal size={14} />
+                Tool Console
+              </span>
+              <span className="text-xs font-semibold text-gray-500">{toolCallCount} calls</span>
+            </button>
+
+            <button
+              onClick={() => onOpenSheet('costs')}
+              className="w-full flex items-center justify-between p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-xl transition-all text-sm"
+            >
+              <span className="flex items-center gap-2 font-medium text-gray-300">
+                <Coins size={14} />
+                Token Costs
+              </span>
+              <span className="flex gap-2 text-xs font-semibold">
+                <span className="text-gray-500">{formatCost(tokenCost, manifest.costs.currency)}</span>
+                {exceededBudgetCount > 0 && <span className="text-red-400">{exceededBudgetCount} over budget</span>}
+              </span>
+            </button>
+
+            <button
+              onClick={() => onOpenSheet('context')}
+              className="w-full flex items-center justify-between p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-xl transition-all text-sm"
+            >
+              <span className="flex items-center gap-2 font-medium text-gray-300">
+                <Layers size={14} />
+                Context Window
+              </span>
+              <span className="flex gap-2 text-xs font-semibold">
+                <span className="text-gray-500">
+                  {fullestContext ? `${Math.round((fullestContext.used / fullestContext.limit) * 100)}% full` : 'no updates'}
+                </span>
+                {fullestContext && fullestContext.state !== 'ok' && (
+                  <span className={fullestContext.state === 'critical' ? 'text-red-400' : 'text-yellow-400'}>{fullestContext.state}</span>
+                )}
+              </span>
+            </button>
+
+            <button
+              onClick={() => onOpenSheet('audit')}
+              className="w-full flex items-center justify-between p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-xl transition-all text-sm"
+            >
+              <span className="flex items-center gap-2 font-medium text-gray-300">
+                <ClipboardList size={14} />
+                Audit Log
+              </span>
+              <span className="text-xs font-semibold text-gray-500">{traceCount} traces</span>
+            </button>
+
+            <button
+              onClick={() => onOpenSheet('approvals')}
+              className="w-full flex items-center justify-between p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-xl transition-all text-sm"
+            >
+              <span className="flex items-center gap-2 font-medium text-gray-300">
+                <ShieldCheck size={14} />
+                Approvals
+              </span>
+              <span className="flex gap-2 text-xs font-semibold">
+                <span className={pendingApprovalCount ? 'text-yellow-400' : 'text-gray-500'}>{pendingApprovalCount} waiting</span>
+                <span className="text-gray-500">{autoApproveRuleCount} rules</span>
+              </span>
+            </button>
+
+            <button
+              onClick={() => onOpenSheet('mcp-servers')}
+              className="w-full flex items-center justify-between p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-xl transition-all text-sm"
+            >
+              <span className="flex items-center gap-2 font-medium text-gray-300">
+                <Server size={14} />
+                MCP Servers
+              </span>
+              <span className="text-xs font-semibold text-gray-500">
+                {connectedServerCount}/{manifest.mcpServers.length} connected
+              </span>
+            </button>
+
+            <Link
+              to="/prompts"
+              className="w-full flex items-center justify-between p-3 bg-gray-800/50 hover:bg-gray-700/50 rounded-xl transition-all text-sm"
+            >
+              <span className="flex items-center gap-2 font-medium text-gray-300">
+                <ScrollText size={14} />
+                Prompt Library
+              </span>
+              <span className="text-xs font-semibold text-gray-500">{promptCount} prompts</span>
+            </Link>
+
+            <div className="p-3 bg-gray-800/50 rounded-xl text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-gray-300">Session Recording</span>
+                <span className="text-xs text-gray-500">{recordedEventCount} events</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                <button
+                  onClick={onReplay}
+                  disabled={recordedEventCount === 0 || replaying}
+                  className="flex items-center justify-center gap-1 p-2 rounded-lg bg-purple-500/30 hover:bg-purple-500/50 disabled:opacity-40 transition-all"
+                >
+                  <History size={12} /> Replay
+                </button>
+                <button
+                  onClick={onExportSession}
+                  disabled={recordedEventCount === 0}
+                  className="flex items-center justify-center gap-1 p-2 rounded-lg bg-gray-700/50 hover:bg-gray-600/50 disabled:opacity-40 transition-all"
+                >
+                  <Download size={12} /> Export
+                </button>
+                <button
+                  onClick={onImportSession}
+                  className="flex items-center justify-center gap-1 p-2 rounded-lg bg-gray-700/50 hover:bg-gray-600/50 transition-all"
+                >
+                  <Upload size={12} /> Import
+                </button>
+              </div>
+            </div>
+
+            <button
+              onClick={onSelectNucleus}
+              className="w-full bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-400 hover:to-orange-400 text-black font-semibold py-3 px-4 rounded-xl transition-all duration-200 transform hover:scale-105"
+            >
+              🎯 Access Harmony Core
+            </button>
+
+            <div className="bg-gradient-to-r from-purple-500/10 to-pink-500/10 p-4 rounded-xl border border-purple-500/20">
+              <div className="text-purple-300 font-semibold mb-2 text-sm">System Status</div>
+              <div className="space-y-2 text-xs">
+                {manifest.rings.map(ring => (
+                  <div key={ring.id} className="flex justify-between">
+                    <span className="text-gray-300">{ring.label ?? ring.name}:</span>
+                    <span className="text-green-400">{ring.components.length} {ring.statusLabel ?? 'Active'}</span>
+                  </div>
+                ))}
+                <div className="border-t border-purple-500/20 pt-2 mt-2">
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Total Systems:</span>
+                    <span className="text-yellow-400 font-bold">{totalComponents} Active</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Market Value:</span>
+                    <span className="text-green-400 font-bold">$115M</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Manifest:</span>
+                    <span className="text-blue-300 truncate ml-2" title={manifestSource}>{manifestSource}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default ControlPanel;
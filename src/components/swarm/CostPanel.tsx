@@ -0,0 +1,256 @@
+import { useMemo, useState } from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, Coins, Download, RotateCcw } from 'lucide-react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useTokenUsage } from '@/hooks/use-token-ledger';
+import {
+  formatCost,
+  summarizeUsage,
+  totalTokens,
+  totalUsage,
+  usageToCsv,
+  type BudgetState,
+  type TokenLedger,
+  type UsageGrouping
+} from '@/lib/swarm/costs';
+
+interface CostPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ledger: TokenLedger;
+  currency: string;
+}
+
+const GROUPINGS: { key: UsageGrouping; label: string }[] = [
+  { key: 'component', label: 'Component' },
+  { key: 'session', label: 'Session' },
+  { key: 'model', label: 'Model' }
+];
+
+const BUDGET_STYLES: Record<BudgetState, { bar: string; text: string }> = {
+  ok: { bar: 'bg-green-500', text: 'text-green-300' },
+  warning: { bar: 'bg-yellow-500', text: 'text-yellow-300' },
+  exceeded: { bar: 'bg-red-500', text: 'text-red-300' }
+};
+
+const CHART_CONFIG: ChartConfig = {
+  cost: { label: 'Cost', color: '#f59e0b' }
+};
+
+// Enough points for a smooth line without handing recharts every call
+const MAX_CHART_POINTS = 300;
+
+const formatTime = (t: number) => new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatTokens = (count: number) =>
+  count >= 1_000_000 ? `${(count / 1_000_000).toFixed(2)}M` : count >= 10_000 ? `${Math.round(count / 1000)}k` : count.toLocaleString();
+
+const CostPanel = ({ open, onOpenChange, ledger, currency }: CostPanelProps) => {
+  const { sessionId, entries, tallies, budgets } = useTokenUsage(ledger);
+  const [grouping, setGrouping] = useState<UsageGrouping>('component');
+  const total = useMemo(() => totalUsage(tallies), [tallies]);
+  const groups = useMemo(() => summarizeUsage(tallies, grouping), [tallies, grouping]);
+  const unpricedModels = useMemo(
+    () => [...new Set(tallies.filter(tally => tally.cost === null).map(tally => tally.model ?? 'no model'))],
+    [tallies]
+  );
+
+  // Running total, thinned to at most MAX_CHART_POINTS while keeping the last point exact. The
+  // ledger only keeps recent calls, so the line starts from the spend that came before them.
+  const cumulative = useMemo(() => {
+    let running = Math.max(0, total.cost - entries.reduce((sum, entry) => sum + (entry.cost ?? 0), 0));
+    const points = entries.map(entry => {
+      running += entry.cost ?? 0;
+      return { t: entry.t, cost: running };
+    });
+    const step = Math.ceil(points.length / MAX_CHART_POINTS);
+    return step <= 1 ? points : points.filter((_, index) => index % step === 0 || index === points.length - 1);
+  }, [entries, total]);
+
+  const exportCsv = () => {
+    const blob = new Blob([usageToCsv(entries, currency)], { type: 'text/csv' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `swarm-token-usage-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="dark bg-black/95 text-white border-white/20 flex flex-col sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle className="text-yellow-400 flex items-center gap-2">
+            <Coins size={18} />
+            Token Costs
+          </SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Current session <span className="font-mono">{sessionId}</span> · prices from the manifest's <code>costs</code> table
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2">
+          <button
+            onClick={exportCsv}
+            disabled={entries.length === 0}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-40 transition-colors"
+          >
+            <Download size={12} />
+            Export CSV
+          </button>
+          <button
+            onClick={() => ledger.startSession()}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+          >
+            <RotateCcw size={12} />
+            New session
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          <div className="grid grid-cols-5 gap-2">
+            {[
+              { label: 'Cost', value: formatCost(total.cost, currency), accent: 'text-yellow-300' },
+              { label: 'Input', value: formatTokens(total.input), accent: 'text-blue-300' },
+              { label: 'Output', value: formatTokens(total.output), accent: 'text-green-300' },
+              { label: 'Cache read', value: formatTokens(total.cacheRead), accent: 'text-purple-300' },
+              { label: 'Cache write', value: formatTokens(total.cacheWrite), accent: 'text-pink-300' }
+            ].map(tile => (
+              <div key={tile.label} className="bg-gray-800/50 p-3 rounded-xl">
+                <div className="text-[10px] text-gray-400">{tile.label}</div>
+                <div className={`text-sm font-bold ${tile.accent}`}>{tile.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {total.unpricedTokens > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-xl border border-yellow-500/30 bg-yellow-500/10 text-xs text-yellow-200">
+              <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+              <span>
+                {total.unpricedTokens.toLocaleString()} tokens from {unpricedModels.join(', ')} have no price and are not in the cost.
+                Add the model to <code>costs.pricing</code> or set <code>costs.defaultModel</code>.
+              </span>
+            </div>
+          )}
+
+          {budgets.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs text-gray-400">Budgets</div>
+              {budgets.map(status => (
+                <div key={`${status.budget.id}:${status.key}`} className="p-3 rounded-xl bg-white/5 border border-white/10 text-xs">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-100">{status.budget.name}</span>
+                    {status.key !== 'total' && <span className="font-mono text-gray-400">{status.key}</span>}
+                    <span className={`ml-auto font-semibold ${BUDGET_STYLES[status.state].text}`}>
+                      {formatCost(status.spent, currency)} / {formatCost(status.budget.limit, currency)}
+                    </span>
+                  </div>
+                  <div className="relative mt-2 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                      className={`h-full ${BUDGET_STYLES[status.state].bar}`}
+                      style={{ width: `${Math.min(100, (status.spent / status.budget.limit) * 100)}%` }}
+                    />
+                    {status.budget.warnAt !== undefined && (
+                      <div className="absolute top-0 h-full w-px bg-white/60" style={{ left: `${(status.budget.warnAt / status.budget.limit) * 100}%` }} />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-gray-800/50 p-4 rounded-xl">
+            <div className="text-xs text-gray-400 mb-2">Cumulative cost</div>
+            {cumulative.length < 2 ? (
+              <div className="h-32 flex items-center justify-center text-xs text-gray-500">Waiting for token updates…</div>
+            ) : (
+              <ChartContainer config={CHART_CONFIG} className="aspect-auto h-32 w-full">
+                <AreaChart data={cumulative} margin={{ top: 4, right: 4, bottom: 0, left: -8 }}>
+                  <CartesianGrid vertical={false} strokeOpacity={0.15} />
+                  <XAxis dataKey="t" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} tickLine={false} axisLine={false} minTickGap={40} />
+                  <YAxis tickFormatter={value => formatCost(value, currency)} tickLine={false} axisLine={false} width={64} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => formatTime(payload[0]?.payload.t)}
+                        formatter={value => formatCost(Number(value), currency)}
+                        hideIndicator
+                      />
+                    }
+                  />
+                  <Area dataKey="cost" type="stepAfter" stroke="var(--color-cost)" fill="var(--color-cost)" fillOpacity={0.2} isAnimationActive={false} />
+                </AreaChart>
+              </ChartContainer>
+            )}
+          </div>
+
+          <div className="bg-gray-800/50 p-4 rounded-xl space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400">Cost by {grouping}</span>
+              <div className="flex gap-1">
+                {GROUPINGS.map(option => (
+                  <button
+                    key={option.key}
+                    onClick={() => setGrouping(option.key)}
+                    className={`px-2 py-1 rounded-md text-[11px] font-semibold transition-all ${
+                      option.key === grouping ? 'bg-white/20 text-white' : 'text-gray-400 hover:text-gray-200'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {groups.length > 0 && (
+              <ChartContainer config={CHART_CONFIG} className="aspect-auto h-32 w-full">
+                <BarChart data={groups.slice(0, 12)} margin={{ top: 4, right: 4, bottom: 0, left: -8 }}>
+                  <CartesianGrid vertical={false} strokeOpacity={0.15} />
+                  <XAxis dataKey="key" tickLine={false} axisLine={false} interval={0} tick={{ fontSize: 9 }} />
+                  <YAxis tickFormatter={value => formatCost(value, currency)} tickLine={false} axisLine={false} width={64} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={value => formatCost(Number(value), currency)} hideIndicator />} />
+                  <Bar dataKey="cost" fill="var(--color-cost)" radius={[4, 4, 0, 0]} isAnimationActive={false} />
+                </BarChart>
+              </ChartContainer>
+            )}
+
+            <table className="w-full text-xs">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="text-left font-medium pb-1">{GROUPINGS.find(option => option.key === grouping)?.label}</th>
+                  <th className="text-right font-medium pb-1">Calls</th>
+                  <th className="text-right font-medium pb-1">Input</th>
+                  <th className="text-right font-medium pb-1">Output</th>
+                  <th className="text-right font-medium pb-1">Cache</th>
+                  <th className="text-right font-medium pb-1">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.length === 0 && (
+                  <tr><td colSpan={6} className="text-gray-500 pt-1">No token updates yet.</td></tr>
+                )}
+                {groups.map(group => (
+                  <tr key={group.key} className="border-t border-white/5">
+                    <td className="py-1 font-mono text-gray-200 truncate max-w-[10rem]">{group.key}</td>
+                    <td className="py-1 text-right text-gray-300">{group.calls}</td>
+                    <td className="py-1 text-right text-gray-300">{formatTokens(group.input)}</td>
+                    <td className="py-1 text-right text-gray-300">{formatTokens(group.output)}</td>
+                    <td className="py-1 text-right text-gray-300">{formatTokens(group.cacheRead + group.cacheWrite)}</td>
+                    <td className="py-1 text-right font-semibold text-yellow-300">
+                      {formatCost(group.cost, currency)}
+                      {group.unpricedTokens > 0 && <span className="text-gray-500" title={`${group.unpricedTokens.toLocaleString()} unpriced tokens`}>*</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-[10px] text-gray-500">{formatTokens(totalTokens(total))} tokens over {total.calls} model calls</div>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CostPanel;
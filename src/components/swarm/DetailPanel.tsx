@@ -0,0 +1,229 @@
+import React from 'react';
+import { Brain, Network, Target, X, Zap } from 'lucide-react';
+import { useLiveComponent } from '@/hooks/use-live-store';
+import { edgesForComponent, type InterplayGraph } from '@/lib/swarm/interplay';
+import type { LiveStore } from '@/lib/swarm/live-store';
+import type { MetricKey, MetricsHistory, MetricWindow } from '@/lib/swarm/metrics-history';
+import type { ComponentData, NucleusData } from '@/lib/swarm/schema';
+import MetricTrendChart from './MetricTrendChart';
+import { getComponentIcon, getRelationColor, getStatusColor } from './visuals';
+
+interface DetailPanelProps {
+  component: ComponentData | NucleusData;
+  nucleusId: string;
+  graph: InterplayGraph;
+  store: LiveStore;
+  history: MetricsHistory;
+  trendMetric: MetricKey;
+  trendWindow: MetricWindow;
+  onTrendMetricChange: (metric: MetricKey) => void;
+  onTrendWindowChange: (window: MetricWindow) => void;
+  // Looks up interplay peers by id, for their names and to select them
+  findComponent: (id: string) => ComponentData | NucleusData | null;
+  onSelect: (component: ComponentData | NucleusData | null) => void;
+  onClose: () => void;
+}
+
+// Everything known about the selected component: its role, interplay, live metrics and trends
+const DetailPanel = ({
+  component,
+  nucleusId,
+  graph,
+  store,
+  history,
+  trendMetric,
+  trendWindow,
+  onTrendMetricChange,
+  onTrendWindowChange,
+  findComponent,
+  onSelect,
+  onClose
+}: DetailPanelProps) => {
+  const live = useLiveComponent(store, component.id);
+  const performance = live?.performance ?? ('performance' in component ? component.performance : undefined);
+  const status = live?.status ?? ('status' in component ? component.status : undefined) ?? 'active';
+  const selectedEdges = edgesForComponent(graph, component.id);
+  const selectedNotes = graph.notes[component.id] ?? [];
+
+  return (
+    <div className="fixed inset-0 z-40 lg:inset-auto lg:right-6 lg:top-6 lg:bottom-6 lg:w-96">
+      {/* Mobile backdrop */}
+      <div 
+        className="lg:hidden fixed inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+      
+      {/* Modal content */}
+      <div className="relative h-full bg-black/90 backdrop-blur-xl text-white lg:rounded-2xl shadow-2xl border border-white/20 overflow-hidden flex flex-col">
+        {/* Header - fixed */}
+        <div className="p-4 lg:p-6 border-b border-white/10 flex-shrink-0">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              {React.createElement(getComponentIcon(component.id), { 
+                size: 28, 
+                className: "text-yellow-400" 
+              })}
+              <h2 className="text-lg lg:text-xl font-bold text-white truncate">
+                {component.name}
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors p-2 hover:bg-white/10 rounded-lg flex-shrink-0"
+            >
+              <X size={20} />
+            </button>
+          </div>
+          
+          {'subtitle' in component && component.subtitle && (
+            <div className="text-sm lg:text-lg text-blue-300 mb-4 font-semibold">
+              {component.subtitle}
+            </div>
+          )}
+          
+          {component.description && (
+            <div className="text-gray-300 mb-4 leading-relaxed text-sm lg:text-base">
+              {component.description}
+            </div>
+          )}
+        </div>
+
+        {/* Scrollable content */}
+        <div className="flex-1 overflow-y-auto">
+          <div className="p-4 lg:p-6 space-y-6">
+            {'role' in component && component.role && (
+              <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 p-4 rounded-xl border border-blue-500/20">
+                <div className="text-blue-300 font-semibold mb-2 flex items-center text-sm lg:text-base">
+                  <Target size={16} className="mr-2" />
+                  System Role
+                </div>
+                <div className="text-white font-medium text-sm lg:text-base">{component.role}</div>
+              </div>
+            )}
+
+            {(selectedEdges.length > 0 || selectedNotes.length > 0) && (
+              <div className="bg-gradient-to-r from-green-500/10 to-emerald-500/10 p-4 rounded-xl border border-green-500/20">
+                <div className="text-green-300 font-semibold mb-2 flex items-center text-sm lg:text-base">
+                  <Network size={16} className="mr-2" />
+                  System Interplay
+                </div>
+                <div className="space-y-3">
+                  {selectedEdges.map(({ edge, peer, outbound }) => (
+                    <button
+                      key={edge.id}
+                      onClick={() => onSelect(findComponent(peer))}
+                      className="w-full text-left text-xs lg:text-sm p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+                    >
+                      <div className="flex items-center gap-2 font-semibold text-white">
+                        <span
+                          className="w-2 h-2 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: getRelationColor(edge.relation) }}
+                        />
+                        <span>{edge.direction === 'bidirectional' ? '↔' : outbound ? '→' : '←'}</span>
+                        <span className="truncate">{findComponent(peer)?.name ?? peer}</span>
+                        <span className="ml-auto text-[10px] uppercase tracking-wide text-gray-400">{edge.relation}</span>
+                      </div>
+                      {edge.protocol && (
+                        <div className="text-green-300/80 text-xs mt-1">via {edge.protocol}</div>
+                      )}
+                      {edge.description && (
+                        <div className="text-gray-400 text-xs mt-1">{edge.description}</div>
+                      )}
+                    </button>
+                  ))}
+                  {selectedNotes.map((interaction, index) => (
+                    <div key={index} className="text-gray-200 text-xs lg:text-sm flex items-start">
+                      <div className="w-1.5 h-1.5 bg-green-400 rounded-full mt-2 mr-2 flex-shrink-0"></div>
+                      {interaction}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
+            {'metrics' in component && component.metrics && (
+              <div className="bg-gradient-to-r from-yellow-500/10 to-orange-500/10 p-4 rounded-xl border border-yellow-500/20">
+                <div className="text-yellow-300 font-semibold mb-2 flex items-center text-sm lg:text-base">
+                  <Zap size={16} className="mr-2" />
+                  Performance Metrics
+                </div>
+                <div className="text-white font-mono text-xs lg:text-sm break-words">{component.metrics}</div>
+              </div>
+            )}
+            
+            {performance !== undefined && (
+              <div className="mb-6">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm font-semibold text-gray-300">System Performance</span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-xs font-semibold uppercase" style={{ color: getStatusColor(status) }}>{status}</span>
+                    <span className="text-lg font-bold text-white">{Math.round(performance)}%</span>
+                  </span>
+                </div>
+                <div className="w-full h-3 bg-gray-700 rounded-full overflow-hidden">
+                  <div 
+                    className="h-full transition-all duration-1000 rounded-full"
+                    style={{ 
+                      width: `${performance}%`,
+                      background: `linear-gradient(to right, ${getStatusColor(status)}, ${getStatusColor(status)}80)`
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {live?.lastUpdated && (
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {[
+                  // Attached MCP servers report call latency instead of efficiency
+                  live.latencyMs !== undefined
+                    ? { label: 'Latency', value: `${Math.round(live.latencyMs)} ms` }
+                    : { label: 'Efficiency', value: live.efficiency !== undefined ? `${Math.round(live.efficiency)}%` : '—' },
+                  { label: 'Throughput', value: live.throughput !== undefined ? `${Math.round(live.throughput).toLocaleString()}/s` : '—' },
+                  { label: 'Error Rate', value: live.errorRate !== undefined ? `${(live.errorRate * 100).toFixed(2)}%` : '—' }
+                ].map(({ label, value }) => (
+                  <div key={label} className="bg-white/5 rounded-xl p-3 border border-white/10">
+                    <div className="text-[10px] uppercase tracking-wide text-gray-400">{label}</div>
+                    <div className="text-sm font-bold text-white mt-1">{value}</div>
+                  </div>
+                ))}
+                <div className="col-span-3 text-[10px] text-gray-500">
+                  Live since {new Date(live.lastUpdated).toLocaleTimeString()}
+                </div>
+              </div>
+            )}
+
+            {component.id !== nucleusId && (
+              <MetricTrendChart
+                history={history}
+                componentId={component.id}
+                metric={trendMetric}
+                window={trendWindow}
+                onMetricChange={onTrendMetricChange}
+                onWindowChange={onTrendWindowChange}
+              />
+            )}
+            
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-green-400 flex items-center">
+                <Brain size={18} className="mr-2" />
+                Core Capabilities
+              </h3>
+              {component.details.map((detail, index) => (
+                <div
+                  key={index}
+                  className="group flex items-start space-x-3 p-4 bg-gradient-to-r from-gray-800/50 to-gray-700/30 rounded-xl border-l-4 border-blue-500 hover:border-blue-400 transition-all duration-200 hover:bg-gray-700/50"
+                >
+                  <div className="w-2 h-2 bg-blue-400 rounded-full mt-2 flex-shrink-0 group-hover:bg-blue-300 transition-colors"></div>
+                  <div className="text-gray-200 group-hover:text-white transition-colors text-sm lg:text-base break-words">{detail}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DetailPanel;
@@ -0,0 +1,43 @@
+import type { InterplayEdge } from '@/lib/swarm/interplay';
+import type { NodePosition } from '@/lib/swarm/layout';
+import { curveMidpoint, getRelationColor } from './visuals';
+
+interface EdgeLabelsProps {
+  edges: InterplayEdge[];
+  positions: Map<string, NodePosition>;
+  // Labels of edges touching this component stay bright; the rest fade
+  focusId?: string;
+}
+
+// Protocol (or relation) of each interplay edge, at the middle of its curve. Kept out of the
+// edge SVG because that one stretches to the canvas and would distort text.
+const EdgeLabels = ({ edges, positions, focusId }: EdgeLabelsProps) => (
+  <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 2 }}>
+    {edges.map(edge => {
+      const from = positions.get(edge.source);
+      const to = positions.get(edge.target);
+      if (!from || !to) return null;
+      const mid = curveMidpoint(from, to);
+      const color = getRelationColor(edge.relation);
+      const focused = focusId !== undefined && (edge.source === focusId || edge.target === focusId);
+
+      return (
+        <div
+          key={edge.id}
+          className="absolute -translate-x-1/2 -translate-y-1/2 max-w-[11rem] truncate px-1.5 py-0.5 rounded-md border bg-black/70 text-[9px] font-medium transition-opacity duration-500"
+          style={{
+            left: `${mid.x}%`,
+            top: `${mid.y}%`,
+            color,
+            borderColor: `${color}66`,
+            opacity: focused ? 1 : focusId ? 0.2 : 0.8
+          }}
+        >
+          {edge.protocol ?? edge.relation}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default EdgeLabels;
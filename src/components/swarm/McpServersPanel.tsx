@@ -0,0 +1,119 @@
+import { Plug, PlugZap, RefreshCw, Server } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useExternalServerSnapshots } from '@/hooks/use-external-servers';
+import type { ExternalServers, ExternalServerSnapshot, ExternalServerState } from '@/lib/mcp/external';
+
+interface McpServersPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  servers: ExternalServers;
+  onSelectComponent: (id: string) => void;
+}
+
+const STATE_STYLES: Record<ExternalServerState, string> = {
+  idle: 'bg-gray-500',
+  connecting: 'bg-yellow-500 animate-pulse',
+  connected: 'bg-green-500',
+  failed: 'bg-red-500'
+};
+
+const Catalog = ({ label, items }: { label: string; items: { key: string; name: string; description?: string }[] }) => (
+  <details className="group">
+    <summary className="cursor-pointer text-gray-300 font-semibold">
+      {label} <span className="text-gray-500 font-normal">({items.length})</span>
+    </summary>
+    <ul className="mt-1 space-y-1 pl-3">
+      {items.length === 0 && <li className="text-gray-500">none</li>}
+      {items.map(item => (
+        <li key={item.key}>
+          <span className="font-mono text-gray-100">{item.name}</span>
+          {item.description && <span className="text-gray-500"> — {item.description}</span>}
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+const ServerCard = ({ server, servers, onSelectComponent }: {
+  server: ExternalServerSnapshot;
+  servers: ExternalServers;
+  onSelectComponent: (id: string) => void;
+}) => (
+  <div className="p-3 rounded-xl border border-white/10 bg-white/5 text-xs space-y-2">
+    <div className="flex items-center gap-2">
+      <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATE_STYLES[server.state]}`} />
+      <span className="font-semibold text-gray-100">{server.name}</span>
+      <span className="text-[10px] uppercase tracking-wide text-gray-400">{server.state}</span>
+      <div className="ml-auto flex gap-2">
+        {server.state === 'connected' && (
+          <button onClick={() => servers.refresh(server.id)} aria-label={`Refresh ${server.name}`} className="text-gray-400 hover:text-white">
+            <RefreshCw size={12} />
+          </button>
+        )}
+        {server.state === 'idle' ? (
+          <button onClick={() => servers.connect(server.id)} className="flex items-center gap-1 text-green-300 hover:text-green-200 font-semibold">
+            <PlugZap size={12} /> Connect
+          </button>
+        ) : (
+          <button onClick={() => servers.disconnect(server.id)} className="flex items-center gap-1 text-gray-300 hover:text-white font-semibold">
+            <Plug size={12} /> Disconnect
+          </button>
+        )}
+      </div>
+    </div>
+
+    <div className="font-mono text-gray-400 break-all">{server.transport} · {server.endpoint}</div>
+    {server.info && (
+      <div className="text-gray-300">
+        {server.info.serverInfo.title ?? server.info.serverInfo.name} {server.info.serverInfo.version} · protocol {server.info.protocolVersion}
+      </div>
+    )}
+    <div className="flex gap-4 text-gray-300">
+      <span>Latency {server.latencyMs === null ? '—' : `${Math.round(server.latencyMs)} ms`}</span>
+      <span>Health {server.health === null ? '—' : `${server.health}%`}</span>
+      {server.lastCheckedAt && <span className="text-gray-500">checked {new Date(server.lastCheckedAt).toLocaleTimeString()}</span>}
+    </div>
+    {server.lastError && <div className="text-red-300 break-words">{server.lastError}</div>}
+
+    <Catalog label="Tools" items={server.tools.map(tool => ({ key: tool.name, name: tool.name, description: tool.title ?? tool.description }))} />
+    <Catalog label="Resources" items={server.resources.map(resource => ({ key: resource.uri, name: resource.uri, description: resource.title ?? resource.name }))} />
+    <Catalog label="Prompts" items={server.prompts.map(prompt => ({ key: prompt.name, name: prompt.name, description: prompt.title ?? prompt.description }))} />
+
+    <button onClick={() => onSelectComponent(server.id)} className="text-blue-300 hover:text-blue-200 font-semibold">
+      Show {server.id} →
+    </button>
+  </div>
+);
+
+const McpServersPanel = ({ open, onOpenChange, servers, onSelectComponent }: McpServersPanelProps) => {
+  const snapshots = useExternalServerSnapshots(servers);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="dark bg-black/95 text-white border-white/20 flex flex-col sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="text-blue-300 flex items-center gap-2">
+            <Server size={18} />
+            MCP Servers
+          </SheetTitle>
+          <SheetDescription className="text-gray-400">
+            External servers from the manifest's <code>mcpServers</code>, probed with <code>ping</code>; health and latency feed their nodes.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {snapshots.length === 0 && (
+            <div className="text-sm text-gray-400">
+              No servers configured. Add an <code>mcpServers</code> entry to the manifest to attach one.
+            </div>
+          )}
+          {snapshots.map(server => (
+            <ServerCard key={server.id} server={server} servers={servers} onSelectComponent={onSelectComponent} />
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default McpServersPanel;
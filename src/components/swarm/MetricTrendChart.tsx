@@ -0,0 +1,116 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useMetricSeries } from '@/hooks/use-metrics-history';
+import { METRIC_KEYS, METRIC_WINDOWS, type MetricKey, type MetricsHistory, type MetricWindow } from '@/lib/swarm/metrics-history';
+
+interface MetricTrendChartProps {
+  history: MetricsHistory;
+  componentId: string;
+  metric: MetricKey;
+  window: MetricWindow;
+  onMetricChange: (metric: MetricKey) => void;
+  onWindowChange: (window: MetricWindow) => void;
+}
+
+const METRIC_CONFIG: ChartConfig = {
+  performance: { label: 'Performance', color: '#10b981' },
+  efficiency: { label: 'Efficiency', color: '#3b82f6' },
+  throughput: { label: 'Throughput', color: '#f59e0b' },
+  errorRate: { label: 'Error rate', color: '#ef4444' },
+  latencyMs: { label: 'Latency', color: '#a855f7' }
+};
+
+// Pads percentage series a little but never past 0–100
+const PERCENT_DOMAIN: [(min: number) => number, (max: number) => number] = [
+  min => Math.max(0, Math.floor(min) - 5),
+  max => Math.min(100, Math.ceil(max) + 5)
+];
+
+const formatValue = (metric: MetricKey, value: number) =>
+  metric === 'errorRate'
+    ? `${(value * 100).toFixed(1)}%`
+    : metric === 'throughput'
+    ? Math.round(value).toLocaleString()
+    : metric === 'latencyMs'
+    ? `${Math.round(value)} ms`
+    : `${Math.round(value)}%`;
+
+const formatTime = (t: number) => new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const MetricTrendChart = ({ history, componentId, metric, window, onMetricChange, onWindowChange }: MetricTrendChartProps) => {
+  const points = useMetricSeries(history, componentId, metric, METRIC_WINDOWS[window]);
+  const color = METRIC_CONFIG[metric].color;
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-xl">
+      <div className="flex items-center justify-between mb-3 gap-2">
+        <div className="flex gap-1">
+          {METRIC_KEYS.map(key => (
+            <button
+              key={key}
+              onClick={() => onMetricChange(key)}
+              className={`px-2 py-1 rounded-md text-[11px] font-semibold transition-all ${
+                key === metric ? 'bg-white/20 text-white' : 'text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {METRIC_CONFIG[key].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(METRIC_WINDOWS) as MetricWindow[]).map(key => (
+            <button
+              key={key}
+              onClick={() => onWindowChange(key)}
+              className={`px-2 py-1 rounded-md text-[11px] font-semibold transition-all ${
+                key === window ? 'bg-blue-500 text-white' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-600/50'
+              }`}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {points.length < 2 ? (
+        <div className="h-32 flex items-center justify-center text-xs text-gray-500">
+          Waiting for {METRIC_CONFIG[metric].label?.toString().toLowerCase()} samples…
+        </div>
+      ) : (
+        <ChartContainer config={METRIC_CONFIG} className="aspect-auto h-32 w-full">
+          <AreaChart data={points} margin={{ top: 4, right: 4, bottom: 0, left: -20 }}>
+            <CartesianGrid vertical={false} strokeOpacity={0.15} />
+            <XAxis
+              dataKey="t"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={formatTime}
+              tickLine={false}
+              axisLine={false}
+              minTickGap={40}
+            />
+            <YAxis
+              tickFormatter={value => formatValue(metric, value)}
+              tickLine={false}
+              axisLine={false}
+              width={48}
+              domain={metric === 'performance' || metric === 'efficiency' ? PERCENT_DOMAIN : ['auto', 'auto']}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => formatTime(payload[0]?.payload.t)}
+                  formatter={value => formatValue(metric, Number(value))}
+                  hideIndicator
+                />
+              }
+            />
+            <Area dataKey="v" name={metric} type="monotone" stroke={color} fill={color} fillOpacity={0.2} isAnimationActive={false} />
+          </AreaChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+};
+
+export default MetricTrendChart;
@@ -0,0 +1,95 @@
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { Focus, Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import type { NodePosition } from '@/lib/swarm/layout';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+import { screenToCanvas, type Point, type Size, type ViewTransform } from '@/lib/swarm/viewport';
+
+interface MinimapProps {
+  manifest: SwarmManifest;
+  positions: Map<string, NodePosition>;
+  view: ViewTransform;
+  viewport: Size;
+  canvas: Size;
+  // Centres the view on a canvas point, in percent
+  onNavigate: (point: Point) => void;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFit: () => void;
+  // Missing when nothing is selected
+  onFitSelection?: () => void;
+}
+
+const MAP_WIDTH_PX = 176;
+const MAX_MAP_HEIGHT_PX = 176;
+
+const controlClass = 'p-1.5 rounded-lg bg-black/60 border border-white/20 text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-30 transition-colors';
+
+// The whole canvas in miniature with the visible region outlined; click or drag to move the view.
+const Minimap = ({ manifest, positions, view, viewport, canvas, onNavigate, onZoomIn, onZoomOut, onFit, onFitSelection }: MinimapProps) => {
+  const height = Math.min(MAX_MAP_HEIGHT_PX, MAP_WIDTH_PX * (canvas.height / canvas.width));
+  const topLeft = screenToCanvas({ x: 0, y: 0 }, view, viewport, canvas);
+  const bottomRight = screenToCanvas({ x: viewport.width, y: viewport.height }, view, viewport, canvas);
+  const ringColors = new Map(manifest.rings.map(ring => [ring.id, ring.color]));
+
+  const navigate = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onNavigate({ x: ((event.clientX - rect.left) / rect.width) * 100, y: ((event.clientY - rect.top) / rect.height) * 100 });
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 z-40 flex items-end gap-2">
+      <div className="flex flex-col items-center gap-1">
+        <button onClick={onZoomIn} className={controlClass} title="Zoom in">
+          <ZoomIn size={14} />
+        </button>
+        <button onClick={onZoomOut} className={controlClass} title="Zoom out">
+          <ZoomOut size={14} />
+        </button>
+        <button onClick={onFit} className={controlClass} title="Zoom to fit">
+          <Maximize2 size={14} />
+        </button>
+        <button onClick={onFitSelection} disabled={!onFitSelection} className={controlClass} title="Zoom to selection">
+          <Focus size={14} />
+        </button>
+        <span className="text-[10px] text-gray-400 tabular-nums">{Math.round(view.scale * 100)}%</span>
+      </div>
+
+      <div
+        className="relative overflow-hidden rounded-xl bg-black/70 border border-white/20 backdrop-blur-md cursor-crosshair touch-none"
+        style={{ width: MAP_WIDTH_PX, height }}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          navigate(event);
+        }}
+        onPointerMove={(event) => {
+          if (event.buttons !== 0) navigate(event);
+        }}
+      >
+        {[...positions].map(([id, position]) => (
+          <div
+            key={id}
+            className="absolute rounded-full -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+            style={{
+              left: `${position.x}%`,
+              top: `${position.y}%`,
+              width: id === manifest.nucleus.id ? 8 : 4,
+              height: id === manifest.nucleus.id ? 8 : 4,
+              backgroundColor: id === manifest.nucleus.id ? manifest.nucleus.color : ringColors.get(position.ringId) ?? '#9ca3af'
+            }}
+          />
+        ))}
+        <div
+          className="absolute border border-white/80 bg-white/10 rounded-sm pointer-events-none"
+          style={{
+            left: `${topLeft.x}%`,
+            top: `${topLeft.y}%`,
+            width: `${bottomRight.x - topLeft.x}%`,
+            height: `${bottomRight.y - topLeft.y}%`
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Minimap;
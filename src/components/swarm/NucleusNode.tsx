@@ -0,0 +1,53 @@
+import { memo } from 'react';
+import { Brain } from 'lucide-react';
+import type { NucleusData } from '@/lib/swarm/schema';
+
+interface NucleusNodeProps {
+  nucleus: NucleusData;
+  position: { x: number; y: number };
+  isSelected: boolean;
+  isAnimating: boolean;
+  onSelect: (nucleus: NucleusData) => void;
+  onHover: (nucleus: NucleusData | null) => void;
+}
+
+const NucleusNode = ({ nucleus, position, isSelected, isAnimating, onSelect, onHover }: NucleusNodeProps) => (
+  <div
+    className={`absolute transform -translate-x-1/2 -translate-y-1/2 cursor-pointer transition-[transform,filter] duration-700 ${
+      isSelected ? 'scale-110' : 'scale-100'
+    }`}
+    onClick={() => onSelect(nucleus)}
+    onMouseEnter={() => onHover(nucleus)}
+    onMouseLeave={() => onHover(null)}
+    style={{
+      left: `${position.x}%`,
+      top: `${position.y}%`,
+      filter: isSelected ? 'drop-shadow(0 0 40px rgba(251, 191, 36, 0.8))' : 'drop-shadow(0 0 20px rgba(251, 191, 36, 0.4))'
+    }}
+  >
+    <div
+      className={`relative w-36 h-36 rounded-full border-4 flex items-center justify-center backdrop-blur-md transition-all duration-500 ${
+        isSelected ? 'bg-yellow-400/30 text-white border-white' : 'bg-black/50 border-yellow-400 text-yellow-400'
+      }`}
+      style={{
+        borderColor: isSelected ? '#fff' : nucleus.color,
+        backgroundColor: isSelected ? `${nucleus.color}30` : 'rgba(0,0,0,0.5)'
+      }}
+    >
+      <div className="text-center">
+        <Brain size={36} className="mx-auto mb-2" />
+        <div className="text-xs font-bold leading-tight">
+          {nucleus.name}
+        </div>
+      </div>
+
+      {/* Rotating outer ring */}
+      {isAnimating && (
+        <div className="absolute inset-0 rounded-full border-2 border-dashed border-yellow-400/30 animate-spin"
+             style={{ animationDuration: '10s' }} />
+      )}
+    </div>
+  </div>
+);
+
+export default memo(NucleusNode);
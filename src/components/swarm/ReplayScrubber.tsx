@@ -0,0 +1,167 @@
+import { History, ListOrdered, Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { REPLAY_SPEEDS } from '@/hooks/use-session-replay';
+import { eventIndexAt, recordingDuration, type RecordedEvent, type SessionRecording } from '@/lib/stream/recording';
+
+interface ReplayScrubberProps {
+  recording: SessionRecording;
+  position: number;
+  playing: boolean;
+  speed: number;
+  onSeek: (position: number) => void;
+  onJumpToEvent: (index: number) => void;
+  onTogglePlay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const MARKER_COLORS: Partial<Record<RecordedEvent['message']['type'], string>> = {
+  alert: 'bg-red-400',
+  status_change: 'bg-yellow-400',
+  edge_traffic: 'bg-sky-400'
+};
+
+const formatOffset = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const describeEvent = ({ message }: RecordedEvent) => {
+  if (message.message) return message.message;
+  switch (message.type) {
+    case 'alert':
+      return message.title;
+    case 'performance_update':
+      return `${message.componentId} performance ${message.performance}%`;
+    case 'status_change':
+      return `${message.componentId} → ${message.status}`;
+    case 'edge_traffic':
+      return `${message.source} → ${message.target} ×${message.count}`;
+    default:
+      return message.type;
+  }
+};
+
+const ReplayScrubber = ({
+  recording,
+  position,
+  playing,
+  speed,
+  onSeek,
+  onJumpToEvent,
+  onTogglePlay,
+  onSpeedChange,
+  onExit
+}: ReplayScrubberProps) => {
+  const duration = recordingDuration(recording);
+  const nextIndex = eventIndexAt(recording, position);
+  // Markers are only drawn for the event types worth spotting on the timeline
+  const markers = recording.events
+    .map((event, index) => ({ event, index }))
+    .filter(({ event }) => MARKER_COLORS[event.message.type]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 w-[min(90vw,48rem)] bg-black/85 backdrop-blur-xl text-white rounded-2xl border border-purple-500/40 shadow-2xl z-50 px-5 py-4">
+      <div className="flex items-center justify-between mb-3 text-xs">
+        <span className="flex items-center gap-2 text-purple-300 font-semibold">
+          <History size={14} />
+          Replay · {recording.manifest} · {new Date(recording.startedAt + position).toLocaleTimeString()}
+        </span>
+        <button onClick={onExit} className="flex items-center gap-1 text-gray-400 hover:text-white">
+          <X size={14} />
+          Back to live
+        </button>
+      </div>
+
+      <div className="relative mb-3">
+        <div className="absolute -top-2 left-0 right-0 h-1.5 pointer-events-none">
+          {duration > 0 && markers.map(({ event, index }) => (
+            <span
+              key={index}
+              className={`absolute w-0.5 h-1.5 ${MARKER_COLORS[event.message.type]}`}
+              style={{ left: `${(event.at / duration) * 100}%` }}
+            />
+          ))}
+        </div>
+        <Slider
+          value={[position]}
+          max={Math.max(duration, 1)}
+          step={100}
+          onValueChange={([value]) => onSeek(value)}
+        />
+      </div>
+
+      <div className="flex items-center gap-3 text-xs">
+        <button
+          onClick={() => onJumpToEvent(Math.max(0, nextIndex - 2))}
+          className="p-2 rounded-lg bg-gray-700/50 hover:bg-gray-600/50"
+          title="Previous event"
+        >
+          <SkipBack size={14} />
+        </button>
+        <button onClick={onTogglePlay} className="p-2 rounded-lg bg-purple-500 hover:bg-purple-400" title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button
+          onClick={() => onJumpToEvent(nextIndex)}
+          disabled={nextIndex >= recording.events.length}
+          className="p-2 rounded-lg bg-gray-700/50 hover:bg-gray-600/50 disabled:opacity-40"
+          title="Next event"
+        >
+          <SkipForward size={14} />
+        </button>
+
+        <span className="font-mono text-gray-300">
+          {formatOffset(position)} / {formatOffset(duration)}
+        </span>
+        <span className="text-gray-500">
+          {nextIndex}/{recording.events.length} events
+        </span>
+
+        <div className="ml-auto flex items-center gap-1">
+          {REPLAY_SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => onSpeedChange(option)}
+              className={`px-2 py-1 rounded-md font-semibold ${
+                speed === option ? 'bg-purple-500 text-white' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-600/50'
+              }`}
+            >
+              {option}×
+            </button>
+          ))}
+        </div>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <button className="p-2 rounded-lg bg-gray-700/50 hover:bg-gray-600/50" title="Jump to event">
+              <ListOrdered size={14} />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent side="top" align="end" className="dark w-80 max-h-80 overflow-y-auto bg-black/95 text-white border-white/20 p-2">
+            {recording.events.length === 0 ? (
+              <div className="text-xs text-gray-400 p-2">No events recorded</div>
+            ) : (
+              recording.events.map((event, index) => (
+                <button
+                  key={index}
+                  onClick={() => onJumpToEvent(index)}
+                  className={`w-full text-left text-xs px-2 py-1.5 rounded-md flex gap-2 hover:bg-white/10 ${
+                    index === nextIndex - 1 ? 'bg-purple-500/20' : ''
+                  }`}
+                >
+                  <span className="font-mono text-gray-500">{formatOffset(event.at)}</span>
+                  <span className="text-gray-400">{event.message.type}</span>
+                  <span className="truncate text-gray-200">{describeEvent(event)}</span>
+                </button>
+              ))
+            )}
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayScrubber;
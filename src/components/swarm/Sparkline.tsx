@@ -0,0 +1,30 @@
+import type { MetricPoint } from '@/lib/swarm/metrics-history';
+
+interface SparklineProps {
+  points: MetricPoint[];
+  color: string;
+  width?: number;
+  height?: number;
+  // Fixed value range; defaults to the range of the points
+  domain?: [number, number];
+}
+
+const Sparkline = ({ points, color, width = 48, height = 14, domain }: SparklineProps) => {
+  if (points.length < 2) return null;
+
+  const [min, max] = domain ?? [Math.min(...points.map(p => p.v)), Math.max(...points.map(p => p.v))];
+  const start = points[0].t;
+  const span = Math.max(points[points.length - 1].t - start, 1);
+  const range = Math.max(max - min, 1e-6);
+  const path = points
+    .map(p => `${(((p.t - start) / span) * width).toFixed(1)},${(height - ((p.v - min) / range) * height).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+      <polyline points={path} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+    </svg>
+  );
+};
+
+export default Sparkline;
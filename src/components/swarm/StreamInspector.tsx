@@ -0,0 +1,74 @@
+import { useSyncExternalStore } from 'react';
+import { ShieldAlert, Trash2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { PROTOCOL_VERSION } from '@/lib/stream/protocol';
+import type { RejectedFrameLog } from '@/lib/stream/rejected-frames';
+
+interface StreamInspectorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  log: RejectedFrameLog;
+}
+
+const prettyFrame = (raw: string) => {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+};
+
+const StreamInspector = ({ open, onOpenChange, log }: StreamInspectorProps) => {
+  const { total, frames } = useSyncExternalStore(log.subscribe, log.getSnapshot);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="dark bg-black/95 text-white border-white/20 flex flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="text-yellow-400 flex items-center gap-2">
+            <ShieldAlert size={18} />
+            Stream Inspector
+          </SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Frames rejected by protocol v{PROTOCOL_VERSION} validation. Showing the latest {frames.length} of {total}.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex justify-end">
+          <button
+            onClick={log.clear}
+            disabled={total === 0}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-40 transition-colors"
+          >
+            <Trash2 size={12} />
+            Clear
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+          {frames.length === 0 && (
+            <div className="text-sm text-gray-400">No invalid frames received.</div>
+          )}
+          {frames.map(frame => (
+            <div key={frame.id} className="p-3 rounded-xl border border-red-500/30 bg-red-500/10 text-xs">
+              <div className="flex justify-between font-semibold">
+                <span className="text-red-300">{frame.reason}</span>
+                <span className="text-gray-400">{new Date(frame.receivedAt).toLocaleTimeString()}</span>
+              </div>
+              <ul className="mt-2 space-y-1 text-gray-200">
+                {frame.issues.map((issue, index) => (
+                  <li key={index} className="font-mono break-all">• {issue}</li>
+                ))}
+              </ul>
+              <pre className="mt-2 p-2 rounded-lg bg-black/60 text-gray-300 overflow-x-auto max-h-40 text-[10px]">
+                {prettyFrame(frame.raw)}
+              </pre>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default StreamInspector;
@@ -0,0 +1,239 @@
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import { CheckCircle2, RotateCcw, Terminal, Trash2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import ToolForm from '@/components/swarm/ToolForm';
+import { timedToolCall, type ToolCall, type ToolCallLog } from '@/lib/mcp/call-log';
+import type { McpServer } from '@/lib/mcp/server';
+import { formatDuration } from './visuals';
+
+interface ToolConsoleProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  server: McpServer;
+  log: ToolCallLog;
+  // Components the console can call on behalf of, so traces and pulses start from them
+  callers: { id: string; name: string }[];
+}
+
+// Select values cannot be empty, so the dashboard itself gets a sentinel
+const AS_DASHBOARD = '__dashboard__';
+
+const isFailure = (call: ToolCall) => call.error !== undefined || call.result?.isError === true;
+
+// Renders structuredContent as nested key/value rows instead of a wall of JSON
+const StructuredValue = ({ value }: { value: unknown }) => {
+  if (value === null || value === undefined) return <span className="text-gray-500">—</span>;
+  if (typeof value === 'number') return <span className="text-cyan-300">{value.toLocaleString()}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-300">{String(value)}</span>;
+  if (typeof value === 'string') return <span className="text-gray-200 break-words">{value}</span>;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return <span className="text-gray-500">none</span>;
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      return <span className="text-gray-200 break-words">{value.map(String).join(', ')}</span>;
+    }
+    return (
+      <ol className="space-y-1">
+        {value.map((item, index) => (
+          <li key={index} className="pl-2 border-l border-white/10">
+            <StructuredValue value={item} />
+          </li>
+        ))}
+      </ol>
+    );
+  }
+
+  return (
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1">
+      {Object.entries(value as Record<string, unknown>).map(([key, item]) => (
+        <div key={key} className="contents">
+          <dt className="text-gray-400 font-mono">{key}</dt>
+          <dd className={item !== null && typeof item === 'object' ? 'pl-2 border-l border-white/10' : ''}>
+            <StructuredValue value={item} />
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+const CallResult = ({ call }: { call: ToolCall }) => {
+  const [raw, setRaw] = useState(false);
+  const failed = isFailure(call);
+
+  return (
+    <div className={`p-3 rounded-xl border text-xs space-y-2 ${failed ? 'border-red-500/40 bg-red-500/10' : 'border-white/10 bg-white/5'}`}>
+      <div className="flex items-center gap-2">
+        {failed ? <XCircle size={14} className="text-red-400" /> : <CheckCircle2 size={14} className="text-green-400" />}
+        <span className="font-semibold text-gray-100">{call.tool}</span>
+        <Badge variant="secondary" className="text-[10px]">{formatDuration(call.durationMs)}</Badge>
+        <span className="text-gray-500">{new Date(call.startedAt).toLocaleTimeString()}</span>
+        {call.result?.structuredContent && (
+          <button onClick={() => setRaw(!raw)} className="ml-auto text-blue-300 hover:text-blue-200 font-semibold">
+            {raw ? 'Structured' : 'JSON'}
+          </button>
+        )}
+      </div>
+
+      {call.error && (
+        <div className="space-y-1">
+          <div className="text-red-300">JSON-RPC {call.error.code}: {call.error.message}</div>
+          {Array.isArray(call.error.data) && (
+            <ul className="font-mono text-red-200">
+              {call.error.data.map((issue, index) => <li key={index}>• {String(issue)}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {call.result && (call.result.structuredContent && !raw ? (
+        <div className="max-h-96 overflow-y-auto">
+          <StructuredValue value={call.result.structuredContent} />
+        </div>
+      ) : (
+        call.result.content.map((content, index) => (
+          <pre key={index} className="p-2 rounded-lg bg-black/60 text-gray-300 overflow-auto max-h-96 text-[10px] whitespace-pre-wrap">
+            {content.text}
+          </pre>
+        ))
+      ))}
+    </div>
+  );
+};
+
+// Runs the dashboard's MCP tools by hand, with forms generated from each tool's inputSchema.
+const ToolConsole = ({ open, onOpenChange, server, log, callers }: ToolConsoleProps) => {
+  const tools = useMemo(() => server.listTools(), [server]);
+  const calls = useSyncExternalStore(log.subscribe, log.getSnapshot);
+  const [toolName, setToolName] = useState(tools[0]?.name);
+  const [shownCallId, setShownCallId] = useState<number | null>(null);
+  // Bumped to remount the form with another call's arguments
+  const [seed, setSeed] = useState<{ key: number; args?: Record<string, unknown> }>({ key: 0 });
+  const [running, setRunning] = useState(false);
+  const [callAs, setCallAs] = useState(AS_DASHBOARD);
+
+  const tool = tools.find(candidate => candidate.name === toolName) ?? tools[0];
+  const shownCall = calls.find(call => call.id === shownCallId);
+
+  const run = async (name: string, args: Record<string, unknown>) => {
+    setRunning(true);
+    const call = await timedToolCall(server, log, name, args, { caller: callAs === AS_DASHBOARD ? undefined : callAs });
+    setShownCallId(call.id);
+    setRunning(false);
+  };
+
+  const selectTool = (name: string) => {
+    setToolName(name);
+    setSeed(previous => ({ key: previous.key + 1 }));
+  };
+
+  const loadCall = (call: ToolCall) => {
+    setToolName(call.tool);
+    setShownCallId(call.id);
+    setSeed(previous => ({ key: previous.key + 1, args: call.arguments }));
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="dark bg-black/95 text-white border-white/20 flex flex-col sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle className="text-blue-300 flex items-center gap-2">
+            <Terminal size={18} />
+            Tool Console
+          </SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Calls go through the dashboard's MCP server, exactly as a client's <code>tools/call</code> would.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          <div className="flex flex-wrap gap-2">
+            {tools.map(candidate => (
+              <button
+                key={candidate.name}
+                onClick={() => selectTool(candidate.name)}
+                className={`px-3 py-2 rounded-xl text-left text-xs transition-all ${
+                  candidate.name === tool?.name ? 'bg-blue-500/30 border border-blue-400/50' : 'bg-gray-800/50 border border-transparent hover:bg-gray-700/50'
+                }`}
+              >
+                <div className="font-semibold text-gray-100">{candidate.title}</div>
+                <div className="font-mono text-gray-400">{candidate.name}</div>
+              </button>
+            ))}
+          </div>
+
+          {tool && (
+            <div className="p-3 rounded-xl bg-gray-800/50 space-y-3">
+              <div className="text-xs text-gray-300">{tool.description}</div>
+              <div className="flex gap-1">
+                {tool.annotations.readOnlyHint && <Badge variant="secondary" className="text-[10px]">read-only</Badge>}
+                {tool.annotations.destructiveHint && <Badge variant="destructive" className="text-[10px]">destructive</Badge>}
+                {tool.annotations.idempotentHint && <Badge variant="outline" className="text-[10px] text-gray-300">idempotent</Badge>}
+              </div>
+              <div className="flex items-center gap-2 text-xs text-gray-400">
+                <span>Call as</span>
+                <Select value={callAs} onValueChange={setCallAs}>
+                  <SelectTrigger className="h-8 text-xs w-56"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AS_DASHBOARD}>The dashboard</SelectItem>
+                    {callers.map(caller => <SelectItem key={caller.id} value={caller.id}>{caller.id} · {caller.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ToolForm
+                key={`${tool.name}:${seed.key}`}
+                tool={tool}
+                initialArguments={seed.args}
+                running={running}
+                onRun={args => run(tool.name, args)}
+              />
+            </div>
+          )}
+
+          {shownCall && <CallResult key={shownCall.id} call={shownCall} />}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-300">History</span>
+              <button
+                onClick={log.clear}
+                disabled={calls.length === 0}
+                className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-40 transition-colors"
+              >
+                <Trash2 size={12} />
+                Clear
+              </button>
+            </div>
+            {calls.length === 0 && <div className="text-xs text-gray-500">No calls yet.</div>}
+            {calls.map(call => (
+              <div
+                key={call.id}
+                className={`flex items-center gap-2 p-2 rounded-lg text-xs ${call.id === shownCallId ? 'bg-blue-500/20' : 'bg-gray-800/50'}`}
+              >
+                {isFailure(call) ? <XCircle size={12} className="text-red-400" /> : <CheckCircle2 size={12} className="text-green-400" />}
+                <button onClick={() => loadCall(call)} className="flex-1 min-w-0 text-left hover:text-blue-200">
+                  <span className="font-mono text-gray-100">{call.tool}</span>
+                  <span className="ml-2 text-gray-500 truncate">{JSON.stringify(call.arguments)}</span>
+                </button>
+                <span className="text-gray-400">{formatDuration(call.durationMs)}</span>
+                <span className="text-gray-500">{new Date(call.startedAt).toLocaleTimeString()}</span>
+                <button
+                  onClick={() => run(call.tool, call.arguments)}
+                  disabled={running}
+                  aria-label={`Run ${call.tool} again`}
+                  className="text-gray-400 hover:text-white disabled:opacity-40"
+                >
+                  <RotateCcw size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ToolConsole;
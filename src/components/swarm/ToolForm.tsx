@@ -0,0 +1,123 @@
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Loader2, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  schemaFields,
+  schemaFormValidator,
+  schemaFormValues,
+  toToolArguments,
+  type SchemaField,
+  type SchemaFormValues
+} from '@/lib/mcp/schema-form';
+import type { ToolDescriptor } from '@/lib/mcp/tools';
+
+interface ToolFormProps {
+  tool: ToolDescriptor;
+  // Pre-fills the form, e.g. when a history entry is loaded; remount with a new key to apply
+  initialArguments?: Record<string, unknown>;
+  running: boolean;
+  onRun: (args: Record<string, unknown>) => void;
+}
+
+// Optional enums get an explicit "unset" entry since Radix selects cannot hold an empty value
+const UNSET = '__unset__';
+
+// Each input sits in its own FormControl so labels and messages attach to the real control
+const FieldInput = ({ field, value, onChange }: {
+  field: SchemaField;
+  value: string | boolean;
+  onChange: (value: string | boolean) => void;
+}) => {
+  if (field.kind === 'boolean') {
+    return (
+      <FormControl>
+        <Switch checked={value === true} onCheckedChange={onChange} />
+      </FormControl>
+    );
+  }
+  if (field.kind === 'enum') {
+    return (
+      <Select value={value === '' ? UNSET : String(value)} onValueChange={next => onChange(next === UNSET ? '' : next)}>
+        <FormControl>
+          <SelectTrigger className="text-xs">
+            <SelectValue />
+          </SelectTrigger>
+        </FormControl>
+        <SelectContent className="dark">
+          {!field.required && <SelectItem value={UNSET}>(server default)</SelectItem>}
+          {field.options.map(option => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+  if (field.kind === 'json') {
+    return (
+      <FormControl>
+        <Textarea value={String(value)} onChange={event => onChange(event.target.value)} className="font-mono text-xs" placeholder="JSON" />
+      </FormControl>
+    );
+  }
+  return (
+    <FormControl>
+      <Input
+        value={String(value)}
+        onChange={event => onChange(event.target.value)}
+        inputMode={field.kind === 'string' ? 'text' : 'decimal'}
+        placeholder={field.required ? '' : 'optional'}
+        className="text-xs"
+      />
+    </FormControl>
+  );
+};
+
+const ToolForm = ({ tool, initialArguments, running, onRun }: ToolFormProps) => {
+  const fields = useMemo(() => schemaFields(tool.inputSchema), [tool.inputSchema]);
+  const form = useForm<SchemaFormValues>({
+    resolver: zodResolver(schemaFormValidator(fields)),
+    defaultValues: schemaFormValues(fields, initialArguments)
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => onRun(toToolArguments(fields, values)))} className="space-y-3">
+        {fields.length === 0 && <div className="text-xs text-gray-400">This tool takes no arguments.</div>}
+        {fields.map(field => (
+          <FormField
+            key={field.name}
+            control={form.control}
+            name={field.name}
+            render={({ field: control }) => (
+              <FormItem>
+                <FormLabel className="text-xs">
+                  {field.label}
+                  <span className="ml-1 font-normal text-gray-500">
+                    {field.kind === 'enum' ? field.options.join(' | ') : field.kind}
+                    {field.required ? ', required' : ''}
+                  </span>
+                </FormLabel>
+                <FieldInput field={field} value={control.value} onChange={control.onChange} />
+                {field.description && <FormDescription className="text-[11px]">{field.description}</FormDescription>}
+                <FormMessage className="text-xs" />
+              </FormItem>
+            )}
+          />
+        ))}
+        <Button type="submit" size="sm" disabled={running}>
+          {running ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+          Run {tool.name}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ToolForm;
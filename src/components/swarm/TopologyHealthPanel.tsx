@@ -0,0 +1,72 @@
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { TopologyIssue, TopologyReport } from '@/lib/swarm/topology-lint';
+
+interface TopologyHealthPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: TopologyReport;
+  manifestSource: string;
+  onSelectComponent: (id: string) => void;
+}
+
+const IssueRow = ({ issue, onSelectComponent }: { issue: TopologyIssue; onSelectComponent: (id: string) => void }) => {
+  const Icon = issue.severity === 'error' ? XCircle : AlertTriangle;
+
+  return (
+    <div className={`p-3 rounded-xl border text-xs ${
+      issue.severity === 'error' ? 'bg-red-500/10 border-red-500/30' : 'bg-yellow-500/10 border-yellow-500/20'
+    }`}>
+      <div className="flex items-start gap-2">
+        <Icon size={14} className={`mt-0.5 flex-shrink-0 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`} />
+        <div className="min-w-0">
+          <div className="text-gray-100">{issue.message}</div>
+          <div className="mt-1 font-mono text-[10px] text-gray-400 break-all">
+            {issue.path} · {issue.code}
+          </div>
+          {issue.componentId && (
+            <button
+              onClick={() => onSelectComponent(issue.componentId)}
+              className="mt-2 text-blue-300 hover:text-blue-200 font-semibold"
+            >
+              Show {issue.componentId} →
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TopologyHealthPanel = ({ open, onOpenChange, report, manifestSource, onSelectComponent }: TopologyHealthPanelProps) => (
+  <Sheet open={open} onOpenChange={onOpenChange}>
+    <SheetContent side="left" className="dark bg-black/95 text-white border-white/20 flex flex-col sm:max-w-md">
+      <SheetHeader>
+        <SheetTitle className="text-yellow-400">Topology Health</SheetTitle>
+        <SheetDescription className="text-gray-400 break-all">{manifestSource}</SheetDescription>
+      </SheetHeader>
+
+      <div className="flex gap-2 text-xs font-semibold">
+        <span className="px-2 py-1 rounded-lg bg-red-500/20 text-red-300">{report.errorCount} errors</span>
+        <span className="px-2 py-1 rounded-lg bg-yellow-500/20 text-yellow-300">{report.warningCount} warnings</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+        {report.issues.length === 0 ? (
+          <div className="flex items-center gap-2 text-green-400 text-sm">
+            <CheckCircle2 size={16} />
+            No topology issues found
+          </div>
+        ) : (
+          [...report.issues]
+            .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+            .map((issue, index) => (
+              <IssueRow key={`${issue.path}-${index}`} issue={issue} onSelectComponent={onSelectComponent} />
+            ))
+        )}
+      </div>
+    </SheetContent>
+  </Sheet>
+);
+
+export default TopologyHealthPanel;
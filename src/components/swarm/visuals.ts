@@ -0,0 +1,73 @@
+import { Brain, Database, Lightbulb, Search, Settings, Shield, Target, Zap } from 'lucide-react';
+
+export const getComponentIcon = (id: string) => {
+  if (id.startsWith('CSA')) return Brain;
+  if (id.startsWith('SA')) return Settings;
+  if (id.startsWith('SS')) return Target;
+  if (id.startsWith('BA')) return Search;
+  if (id.startsWith('PI')) return Database;
+  if (id.startsWith('LE')) return Lightbulb;
+  if (id.startsWith('FP')) return Shield;
+  if (id.startsWith('RG')) return Zap;
+  return Brain;
+};
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'active': return '#10b981';
+    case 'optimizing': return '#f59e0b';
+    case 'idle': return '#6b7280';
+    default: return '#10b981';
+  }
+};
+
+export const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'critical': return '#ef4444';
+    case 'warning': return '#f59e0b';
+    default: return '#3b82f6';
+  }
+};
+
+export const getRelationColor = (relation: string) => {
+  switch (relation) {
+    case 'feeds': return '#38bdf8';
+    case 'validates': return '#a78bfa';
+    case 'coordinates': return '#34d399';
+    case 'reports': return '#fbbf24';
+    case 'optimizes': return '#f472b6';
+    case 'learns': return '#f97316';
+    default: return '#9ca3af';
+  }
+};
+
+export const getRiskBadgeClass = (risk: string) => {
+  switch (risk) {
+    case 'destructive': return 'bg-red-600 text-white';
+    case 'mutating': return 'bg-yellow-500 text-black';
+    default: return 'bg-gray-600 text-gray-100';
+  }
+};
+
+export const formatDuration = (ms: number) => (ms < 1 ? '<1 ms' : ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`);
+
+// Control point of the curve between two nodes, bowed toward the nucleus so links stay inside the rings
+export const curveControl = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+  const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+  const towardCenter = { x: 50 - mid.x, y: 50 - mid.y };
+  const offset = Math.hypot(towardCenter.x, towardCenter.y) < 1
+    ? { x: -(to.y - from.y) * 0.25, y: (to.x - from.x) * 0.25 }
+    : { x: towardCenter.x * 0.35, y: towardCenter.y * 0.35 };
+  return { x: mid.x + offset.x, y: mid.y + offset.y };
+};
+
+export const curvePath = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+  const control = curveControl(from, to);
+  return `M ${from.x} ${from.y} Q ${control.x} ${control.y} ${to.x} ${to.y}`;
+};
+
+// Halfway along the curve, where edge labels go
+export const curveMidpoint = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+  const control = curveControl(from, to);
+  return { x: (from.x + 2 * control.x + to.x) / 4, y: (from.y + 2 * control.y + to.y) / 4 };
+};
@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { createAlertEngine, followLiveStore, type AlertEngine } from '@/lib/swarm/alerts';
+import type { LiveStore } from '@/lib/swarm/live-store';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+
+const TICK_MS = 1000;
+
+interface UseAlertEngineOptions {
+  // Suppresses toasts, e.g. while a recording is being replayed
+  silent?: boolean;
+  // Event time while a recording is replayed; duration windows then follow the recording
+  // instead of the wall clock. Left out for live data.
+  now?: number;
+}
+
+// Evaluates the manifest's alert rules against every live store change and raises toasts
+// when alerts fire or resolve. Rules are re-bound whenever the manifest changes.
+export function useAlertEngine(manifest: SwarmManifest, store: LiveStore, { silent = false, now }: UseAlertEngineOptions = {}) {
+  const [engine] = useState(() => createAlertEngine(manifest));
+  const silentRef = useRef(silent);
+  const nowRef = useRef(now);
+
+  useEffect(() => {
+    silentRef.current = silent;
+  }, [silent]);
+
+  // Replayed time only moves when the replay does, so breaches are promoted as it moves
+  useEffect(() => {
+    nowRef.current = now;
+    if (now !== undefined) engine.tick(now);
+  }, [engine, now]);
+
+  useEffect(() => {
+    engine.reset(manifest);
+  }, [engine, manifest]);
+
+  useEffect(() => {
+    // A re-seeded store (manifest change or replay rewind) resets the engine
+    const unsubscribeStore = followLiveStore(engine, store, manifest);
+
+    const unsubscribeEngine = engine.subscribe((_, transitions) => {
+      if (silentRef.current) return;
+      transitions.forEach(({ alert, from }) => {
+        if (from === null) {
+          toast({
+            variant: alert.severity === 'critical' ? 'destructive' : 'default',
+            title: `${alert.severity === 'info' ? 'ℹ️' : '🚨'} ${alert.ruleName}`,
+            description: `${alert.componentId}: ${alert.value.toLocaleString()} (threshold ${alert.threshold.toLocaleString()})`
+          });
+        } else if (alert.status === 'resolved') {
+          toast({ title: `✅ Resolved: ${alert.ruleName}`, description: alert.componentId });
+        }
+      });
+    });
+
+    const timer = setInterval(() => {
+      if (nowRef.current === undefined) engine.tick();
+    }, TICK_MS);
+
+    return () => {
+      unsubscribeStore();
+      unsubscribeEngine();
+      clearInterval(timer);
+    };
+  }, [engine, store, manifest]);
+
+  return engine;
+}
+
+export function useAlerts(engine: AlertEngine) {
+  return useSyncExternalStore(engine.subscribe, engine.getSnapshot);
+}
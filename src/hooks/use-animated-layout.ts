@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { interpolateLayout, type NodePosition } from '@/lib/swarm/layout';
+import type { Point } from '@/lib/swarm/viewport';
+
+interface UseAnimatedLayoutOptions {
+  // Where nodes that were not laid out before start from
+  origin: Point;
+  durationMs?: number;
+}
+
+// Re-rendering every node each frame stops being smooth past this, so larger layouts jump
+const ANIMATED_NODE_LIMIT = 1000;
+
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+// Follows `target`, moving nodes to their new places over `durationMs` whenever the layout
+// changes (components added or removed, view mode, canvas size). A change mid-move starts
+// from wherever the nodes are. Every id in `target` has a position from the first render
+// that sees it: ids new to the layout start at `origin` until the move begins.
+export function useAnimatedLayout(target: Map<string, NodePosition>, { origin, durationMs = 600 }: UseAnimatedLayoutOptions) {
+  const [shown, setShown] = useState(target);
+  const current = useRef(target);
+  const originRef = useRef(origin);
+  originRef.current = origin;
+
+  useEffect(() => {
+    const from = current.current;
+    if (from === target) return;
+    const reduceMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+    if (reduceMotion || target.size > ANIMATED_NODE_LIMIT) {
+      current.current = target;
+      setShown(target);
+      return;
+    }
+
+    let frame = 0;
+    const started = performance.now();
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - started) / durationMs);
+      const next = progress >= 1 ? target : interpolateLayout(from, target, easeInOut(progress), originRef.current);
+      current.current = next;
+      setShown(next);
+      if (progress < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [target, durationMs]);
+
+  // `shown` only catches up in the next animation frame, so fill in the ids it has not seen yet
+  return useMemo(
+    () => ([...target.keys()].every(id => shown.has(id)) ? shown : interpolateLayout(shown, target, 0, originRef.current)),
+    [shown, target]
+  );
+}
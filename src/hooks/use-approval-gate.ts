@@ -0,0 +1,31 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { createApprovalGate, type ApprovalGate } from '@/lib/mcp/approvals';
+import { DEFAULT_TOOL_POLICY, parseToolPolicy, type ToolPolicy } from '@/lib/mcp/policy';
+
+export const TOOL_POLICY_STORAGE_KEY = 'swarm.tool-policy';
+
+const loadSavedPolicy = (): ToolPolicy => {
+  const saved = window.localStorage.getItem(TOOL_POLICY_STORAGE_KEY);
+  return (saved && parseToolPolicy(saved)) || DEFAULT_TOOL_POLICY;
+};
+
+// The approval gate for the dashboard's MCP server, with its policy persisted to localStorage.
+// Calls still waiting when the page goes away are denied rather than left hanging.
+export function useApprovalGate() {
+  const [policy, setPolicy] = useState(loadSavedPolicy);
+  const policyRef = useRef(policy);
+  policyRef.current = policy;
+  const [gate] = useState(() => createApprovalGate(() => policyRef.current));
+
+  useEffect(() => {
+    window.localStorage.setItem(TOOL_POLICY_STORAGE_KEY, JSON.stringify(policy));
+  }, [policy]);
+
+  useEffect(() => () => gate.denyAll('The dashboard was closed'), [gate]);
+
+  return { gate, policy, setPolicy };
+}
+
+export function useApprovals(gate: ApprovalGate) {
+  return useSyncExternalStore(gate.subscribe, gate.getSnapshot);
+}
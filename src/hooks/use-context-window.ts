@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { createContextTracker, SHARED_WINDOW, type ContextState, type ContextTracker } from '@/lib/swarm/context-window';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+
+// Tracks context window updates; samples are resized and re-graded when the manifest changes.
+export function useContextTracker(manifest: SwarmManifest) {
+  const [tracker] = useState(() => createContextTracker(manifest.contextWindow));
+
+  useEffect(() => {
+    tracker.configure(manifest.contextWindow);
+  }, [tracker, manifest.contextWindow]);
+
+  return tracker;
+}
+
+interface UseContextWarningsOptions {
+  // Suppresses toasts, e.g. while a recording is being replayed
+  silent?: boolean;
+}
+
+const SEVERITY: Record<ContextState, number> = { ok: 0, warning: 1, critical: 2 };
+
+// Raises a toast whenever a context window fills past the manifest's warning or critical level.
+export function useContextWarnings(tracker: ContextTracker, { silent = false }: UseContextWarningsOptions = {}) {
+  const silentRef = useRef(silent);
+
+  useEffect(() => {
+    silentRef.current = silent;
+  }, [silent]);
+
+  useEffect(() => {
+    let previous = new Map(Object.values(tracker.getSnapshot().latest).map(sample => [sample.owner, sample.state]));
+
+    return tracker.subscribe(() => {
+      const { latest } = tracker.getSnapshot();
+      Object.values(latest).forEach(sample => {
+        const before = previous.get(sample.owner) ?? 'ok';
+        if (silentRef.current || SEVERITY[sample.state] <= SEVERITY[before]) return;
+        const owner = sample.owner === SHARED_WINDOW ? 'Shared context' : `${sample.owner} context`;
+        toast({
+          variant: sample.state === 'critical' ? 'destructive' : 'default',
+          title: sample.state === 'critical' ? `🧠 ${owner} is nearly full` : `🧠 ${owner} is filling up`,
+          description: `${sample.used.toLocaleString()} of ${sample.limit.toLocaleString()} tokens (${Math.round((sample.used / sample.limit) * 100)}%)`
+        });
+      });
+      previous = new Map(Object.values(latest).map(sample => [sample.owner, sample.state]));
+    });
+  }, [tracker]);
+}
+
+export function useContextWindow(tracker: ContextTracker) {
+  return useSyncExternalStore(tracker.subscribe, tracker.getSnapshot);
+}
@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { createExternalServers, type ExternalServers } from '@/lib/mcp/external';
+import type { LiveStores } from '@/lib/stream/apply';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+
+interface UseExternalServersOptions {
+  // Stops probing, e.g. while a recording is being replayed into the same stores
+  paused?: boolean;
+}
+
+// Connects to the manifest's MCP servers for as long as the manifest is loaded
+export function useExternalServers(manifest: SwarmManifest, { live, history }: LiveStores, { paused = false }: UseExternalServersOptions = {}) {
+  const servers = useMemo(
+    () => createExternalServers({ servers: manifest.mcpServers, stores: { live, history } }),
+    [manifest.mcpServers, live, history]
+  );
+
+  useEffect(() => {
+    if (paused) return;
+    servers.start();
+    return () => servers.stop();
+  }, [servers, paused]);
+
+  return servers;
+}
+
+export function useExternalServerSnapshots(servers: ExternalServers) {
+  return useSyncExternalStore(servers.subscribe, servers.getSnapshot);
+}
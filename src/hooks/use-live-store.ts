@@ -0,0 +1,22 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { createLiveStore, type LiveStore } from '@/lib/swarm/live-store';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+
+// Owns the live component store for the page; it is re-seeded whenever the manifest changes.
+export function useLiveStore(manifest: SwarmManifest) {
+  const [store] = useState(() => createLiveStore(manifest));
+
+  useEffect(() => {
+    store.reset(manifest);
+  }, [store, manifest]);
+
+  return store;
+}
+
+export function useLiveComponent(store: LiveStore, id: string) {
+  return useSyncExternalStore(store.subscribe, () => store.get(id));
+}
+
+export function useLiveState(store: LiveStore) {
+  return useSyncExternalStore(store.subscribe, store.getSnapshot);
+}
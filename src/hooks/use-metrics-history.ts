@@ -0,0 +1,28 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { createMetricsHistory, type MetricKey, type MetricPoint, type MetricsHistory } from '@/lib/swarm/metrics-history';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+
+// Owns the per-component metric history for the page; it is cleared whenever the manifest changes.
+export function useMetricsHistory(manifest: SwarmManifest) {
+  const [history] = useState(() => createMetricsHistory());
+
+  useEffect(() => {
+    history.clear();
+  }, [history, manifest]);
+
+  return history;
+}
+
+export function useMetricSeries(history: MetricsHistory, id: string, metric: MetricKey, windowMs: number) {
+  // The series is only rebuilt when its key changes, so the snapshot keeps its identity
+  // between updates that leave these points alone
+  const getSnapshot = useMemo(() => {
+    let cached: { key: string; points: MetricPoint[] } | null = null;
+    return () => {
+      const key = history.getSeriesKey(id, metric, windowMs);
+      if (cached?.key !== key) cached = { key, points: history.series(id, metric, windowMs) };
+      return cached.points;
+    };
+  }, [history, id, metric, windowMs]);
+  return useSyncExternalStore(history.subscribe, getSnapshot);
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { bundledPromptLibrary } from '@/lib/mcp/bundled';
+import {
+  createPromptRegistry,
+  parsePromptLibrary,
+  serializePromptLibrary,
+  type PromptLibrary,
+  type PromptRegistry
+} from '@/lib/mcp/prompts';
+
+export const PROMPT_STORAGE_KEY = 'swarm.prompts';
+
+// Saved edits win over the bundled library; a corrupt entry falls back to the bundled one
+const loadSavedLibrary = (): PromptLibrary => {
+  const saved = window.localStorage.getItem(PROMPT_STORAGE_KEY);
+  if (!saved) return bundledPromptLibrary;
+  try {
+    return parsePromptLibrary(saved, 'saved prompts');
+  } catch (error) {
+    console.warn(error);
+    return bundledPromptLibrary;
+  }
+};
+
+// The prompt registry for this tab, persisted to localStorage and kept in sync with other tabs,
+// so the prompt page and the dashboard's MCP server always serve the same revisions.
+export function usePromptLibrary() {
+  const [registry] = useState(() => createPromptRegistry(loadSavedLibrary()));
+
+  useEffect(() => {
+    const unsubscribe = registry.subscribe(library => {
+      window.localStorage.setItem(PROMPT_STORAGE_KEY, serializePromptLibrary(library));
+    });
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === PROMPT_STORAGE_KEY) registry.replace(loadSavedLibrary());
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [registry]);
+
+  return registry;
+}
+
+export function usePrompts(registry: PromptRegistry) {
+  return useSyncExternalStore(registry.subscribe, registry.getSnapshot);
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { eventIndexAt, recordingDuration, type RecordedEvent, type SessionRecording } from '@/lib/stream/recording';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8] as const;
+
+const TICK_MS = 100;
+
+interface UseSessionReplayOptions {
+  // Returns dashboard state to the manifest baseline before rewinding
+  reset: () => void;
+  apply: (event: RecordedEvent) => void;
+}
+
+// Drives a recording through the dashboard. Seeking forward applies only the events in
+// between; seeking backward resets and fast-forwards from the start.
+export function useSessionReplay({ reset, apply }: UseSessionReplayOptions) {
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(1);
+  const appliedRef = useRef(0);
+  const positionRef = useRef(0);
+  const handlersRef = useRef({ reset, apply });
+
+  useEffect(() => {
+    handlersRef.current = { reset, apply };
+  }, [reset, apply]);
+
+  const seekIn = useCallback((target: SessionRecording, to: number) => {
+    const clamped = Math.min(Math.max(0, to), recordingDuration(target));
+    const index = eventIndexAt(target, clamped);
+    if (index < appliedRef.current) {
+      handlersRef.current.reset();
+      appliedRef.current = 0;
+    }
+    target.events.slice(appliedRef.current, index).forEach(event => handlersRef.current.apply(event));
+    appliedRef.current = index;
+    positionRef.current = clamped;
+    setPosition(clamped);
+  }, []);
+
+  const seek = useCallback((to: number) => {
+    if (recording) seekIn(recording, to);
+  }, [recording, seekIn]);
+
+  const jumpToEvent = useCallback((index: number) => {
+    const event = recording?.events[index];
+    if (event) seek(event.at);
+  }, [recording, seek]);
+
+  const enter = useCallback((next: SessionRecording) => {
+    handlersRef.current.reset();
+    appliedRef.current = 0;
+    setRecording(next);
+    setPlaying(false);
+    seekIn(next, 0);
+  }, [seekIn]);
+
+  const exit = useCallback(() => {
+    setRecording(null);
+    setPlaying(false);
+    appliedRef.current = 0;
+    positionRef.current = 0;
+    setPosition(0);
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    if (!recording) return;
+    // Playing from the end restarts the recording
+    if (!playing && positionRef.current >= recordingDuration(recording)) seekIn(recording, 0);
+    setPlaying(!playing);
+  }, [playing, recording, seekIn]);
+
+  useEffect(() => {
+    if (!playing || !recording) return;
+    const duration = recordingDuration(recording);
+    const timer = setInterval(() => {
+      seekIn(recording, positionRef.current + TICK_MS * speed);
+      if (positionRef.current >= duration) setPlaying(false);
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, recording, speed, seekIn]);
+
+  return { recording, position, playing, speed, setSpeed, seek, jumpToEvent, enter, exit, togglePlay };
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { resolveStreamConfig, type StreamConfig } from '@/lib/stream/config';
+import {
+  createStreamConnection,
+  type ConnectionState,
+  type ConnectionStats,
+  type StreamConnection
+} from '@/lib/stream/connection';
+import { transportFor } from '@/lib/stream/transports';
+
+interface UseStreamConnectionOptions {
+  // Overrides the config resolved from URL params and env
+  config?: Partial<StreamConfig>;
+  onFrame: (frame: unknown) => void;
+}
+
+// Runs a resilient stream connection for the lifetime of the component.
+export function useStreamConnection({ config: override, onFrame }: UseStreamConnectionOptions) {
+  const [state, setState] = useState<ConnectionState>('idle');
+  const [stats, setStats] = useState<ConnectionStats | null>(null);
+  const connectionRef = useRef<StreamConnection | null>(null);
+  const onFrameRef = useRef(onFrame);
+
+  const resolved = useMemo(() => resolveStreamConfig(window.location.search, import.meta.env), []);
+  const transport = override?.transport ?? resolved.transport;
+  const url = override?.url ?? resolved.url;
+
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  }, [onFrame]);
+
+  useEffect(() => {
+    const connection = createStreamConnection({
+      url,
+      transport: transportFor(transport),
+      onFrame: (frame) => onFrameRef.current(frame),
+      onStateChange: (nextState, nextStats) => {
+        setState(nextState);
+        setStats(nextStats);
+      }
+    });
+    connectionRef.current = connection;
+    connection.start();
+
+    // Coming back online should not wait out the current backoff delay
+    const handleOnline = () => {
+      if (connection.getState() === 'reconnecting' || connection.getState() === 'failed') {
+        connection.reconnectNow();
+      }
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      connection.stop();
+      connectionRef.current = null;
+    };
+  }, [transport, url]);
+
+  const reconnect = useCallback(() => connectionRef.current?.reconnectNow(), []);
+  // A stopped connection stays idle until `connect`, which also retries a failed one
+  const connect = useCallback(() => {
+    const connection = connectionRef.current;
+    if (connection?.getState() === 'idle') connection.start();
+    else connection?.reconnectNow();
+  }, []);
+  const disconnect = useCallback(() => connectionRef.current?.stop(), []);
+
+  return { state, stats, reconnect, connect, disconnect, transport, url };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { bundledManifest } from '@/lib/swarm/bundled';
+import { loadManifestFromFile, loadManifestFromUrl, ManifestError } from '@/lib/swarm/manifest';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+
+export const MANIFEST_QUERY_PARAM = 'manifest';
+
+const reportManifestError = (error: unknown) => {
+  const issues = error instanceof ManifestError ? error.issues : [String(error)];
+  console.error(error);
+  toast({
+    variant: 'destructive',
+    title: error instanceof ManifestError ? `Could not load manifest from ${error.source}` : 'Could not load manifest',
+    description: issues.slice(0, 5).join('\n') + (issues.length > 5 ? `\n…and ${issues.length - 5} more` : '')
+  });
+};
+
+// Resolves the active swarm manifest: the bundled file, overridden by a
+// `?manifest=<url>` query param or a file dropped onto the dashboard.
+export function useSwarmManifest() {
+  const [manifest, setManifest] = useState<SwarmManifest>(bundledManifest);
+  const [source, setSource] = useState('bundled');
+
+  const loadUrl = useCallback(async (url: string) => {
+    try {
+      setManifest(await loadManifestFromUrl(url));
+      setSource(url);
+    } catch (error) {
+      reportManifestError(error);
+    }
+  }, []);
+
+  const loadFile = useCallback(async (file: File) => {
+    try {
+      setManifest(await loadManifestFromFile(file));
+      setSource(file.name);
+      toast({ title: 'Swarm manifest loaded', description: file.name });
+    } catch (error) {
+      reportManifestError(error);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setManifest(bundledManifest);
+    setSource('bundled');
+  }, []);
+
+  useEffect(() => {
+    const url = new URLSearchParams(window.location.search).get(MANIFEST_QUERY_PARAM);
+    if (url) loadUrl(url);
+  }, [loadUrl]);
+
+  return { manifest, source, loadUrl, loadFile, reset };
+}
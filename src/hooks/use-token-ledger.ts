@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { budgetStatusKey, createTokenLedger, formatCost, type BudgetState, type TokenLedger } from '@/lib/swarm/costs';
+import type { SwarmManifest } from '@/lib/swarm/schema';
+
+// Books token updates against the manifest's pricing table; entries are repriced when the
+// manifest changes.
+export function useTokenLedger(manifest: SwarmManifest) {
+  const [ledger] = useState(() => createTokenLedger(manifest.costs));
+
+  useEffect(() => {
+    ledger.configure(manifest.costs);
+  }, [ledger, manifest.costs]);
+
+  return ledger;
+}
+
+interface UseBudgetToastsOptions {
+  // Suppresses toasts, e.g. while a recording is being replayed
+  silent?: boolean;
+}
+
+const SEVERITY: Record<BudgetState, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+// Raises a toast whenever a budget crosses its warning or hard limit.
+export function useBudgetToasts(ledger: TokenLedger, currency: string, { silent = false }: UseBudgetToastsOptions = {}) {
+  const silentRef = useRef(silent);
+
+  useEffect(() => {
+    silentRef.current = silent;
+  }, [silent]);
+
+  useEffect(() => {
+    let previous = new Map(ledger.getSnapshot().budgets.map(status => [budgetStatusKey(status), status.state]));
+
+    return ledger.subscribe(() => {
+      const { budgets } = ledger.getSnapshot();
+      budgets.forEach(status => {
+        const before = previous.get(budgetStatusKey(status)) ?? 'ok';
+        if (silentRef.current || SEVERITY[status.state] <= SEVERITY[before]) return;
+        const spent = `${formatCost(status.spent, currency)} of ${formatCost(status.budget.limit, currency)}`;
+        toast({
+          variant: status.state === 'exceeded' ? 'destructive' : 'default',
+          title: status.state === 'exceeded' ? `💸 Budget exceeded: ${status.budget.name}` : `⚠️ Budget warning: ${status.budget.name}`,
+          description: status.key === 'total' ? spent : `${status.key}: ${spent}`
+        });
+      });
+      previous = new Map(budgets.map(status => [budgetStatusKey(status), status.state]));
+    });
+  }, [ledger, currency]);
+}
+
+export function useTokenUsage(ledger: TokenLedger) {
+  return useSyncExternalStore(ledger.subscribe, ledger.getSnapshot);
+}
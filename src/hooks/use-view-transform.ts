@@ -0,0 +1,172 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type MouseEvent as ReactMouseEvent,
+  type PointerEvent as ReactPointerEvent,
+  type RefObject
+} from 'react';
+import {
+  clampView,
+  DEFAULT_VIEW,
+  fitBounds,
+  formatView,
+  isDefaultView,
+  panBy,
+  parseView,
+  screenTransform,
+  VIEW_QUERY_PARAM,
+  zoomAround,
+  type Bounds,
+  type Point,
+  type Size,
+  type ViewTransform
+} from '@/lib/swarm/viewport';
+
+interface UseViewTransformOptions {
+  // The canvas is at least this large and at least as large as the viewport
+  minCanvas?: Size;
+}
+
+// Pointer travel before a press becomes a pan instead of a click
+const DRAG_THRESHOLD_PX = 4;
+const URL_WRITE_DELAY_MS = 250;
+
+// Wheel/pinch zoom and drag panning for the element behind `viewportRef`. The view starts from
+// `?view=` and is written back to it, so a zoomed-in link opens on the same region.
+export function useViewTransform(viewportRef: RefObject<HTMLElement>, { minCanvas }: UseViewTransformOptions = {}) {
+  const [view, setViewState] = useState<ViewTransform>(
+    () => parseView(new URLSearchParams(window.location.search).get(VIEW_QUERY_PARAM)) ?? DEFAULT_VIEW
+  );
+  const [viewport, setViewport] = useState<Size>({ width: window.innerWidth, height: window.innerHeight });
+  const canvas = useMemo<Size>(() => ({
+    width: Math.max(viewport.width, minCanvas?.width ?? 0),
+    height: Math.max(viewport.height, minCanvas?.height ?? 0)
+  }), [viewport, minCanvas?.width, minCanvas?.height]);
+
+  // Event listeners outlive renders, so they read sizes through a ref
+  const sizes = useRef({ viewport, canvas });
+  sizes.current = { viewport, canvas };
+
+  const setView = useCallback((next: ViewTransform | ((previous: ViewTransform) => ViewTransform)) => {
+    setViewState(previous => clampView(typeof next === 'function' ? next(previous) : next));
+  }, []);
+
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [viewportRef]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const url = new URL(window.location.href);
+      if (isDefaultView(view)) url.searchParams.delete(VIEW_QUERY_PARAM);
+      else url.searchParams.set(VIEW_QUERY_PARAM, formatView(view));
+      window.history.replaceState(window.history.state, '', url);
+    }, URL_WRITE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [view]);
+
+  // React registers wheel listeners as passive, which cannot stop the page from scrolling
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const factor = Math.exp(-event.deltaY * (event.ctrlKey ? 0.01 : 0.0015));
+      const anchor = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+      setViewState(previous => zoomAround(previous, factor, anchor, sizes.current.viewport, sizes.current.canvas));
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => element.removeEventListener('wheel', onWheel);
+  }, [viewportRef]);
+
+  const gesture = useRef({ pointers: new Map<number, Point>(), travel: 0, panned: false });
+
+  const handlers = useMemo(() => {
+    const localPoint = (event: ReactPointerEvent<HTMLElement>): Point => {
+      const rect = event.currentTarget.getBoundingClientRect();
+      return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+    const release = (event: ReactPointerEvent<HTMLElement>) => {
+      gesture.current.pointers.delete(event.pointerId);
+    };
+
+    return {
+      onPointerDown: (event: ReactPointerEvent<HTMLElement>) => {
+        if (event.pointerType === 'mouse' && event.button !== 0) return;
+        if (gesture.current.pointers.size === 0) {
+          gesture.current.travel = 0;
+          gesture.current.panned = false;
+        }
+        gesture.current.pointers.set(event.pointerId, localPoint(event));
+      },
+      onPointerMove: (event: ReactPointerEvent<HTMLElement>) => {
+        const { pointers } = gesture.current;
+        const previous = pointers.get(event.pointerId);
+        if (!previous) return;
+        const point = localPoint(event);
+        const { viewport: viewportSize, canvas: canvasSize } = sizes.current;
+
+        if (pointers.size >= 2) {
+          // Pinch: scale by the change in finger distance around their midpoint, and follow it
+          const other = [...pointers.entries()].find(([id]) => id !== event.pointerId)[1];
+          const before = { x: (previous.x + other.x) / 2, y: (previous.y + other.y) / 2 };
+          const after = { x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 };
+          const factor = Math.hypot(point.x - other.x, point.y - other.y) / Math.max(Math.hypot(previous.x - other.x, previous.y - other.y), 1);
+          setViewState(current => panBy(zoomAround(current, factor, before, viewportSize, canvasSize), { x: after.x - before.x, y: after.y - before.y }, canvasSize));
+          gesture.current.panned = true;
+        } else {
+          const delta = { x: point.x - previous.x, y: point.y - previous.y };
+          gesture.current.travel += Math.hypot(delta.x, delta.y);
+          if (gesture.current.travel < DRAG_THRESHOLD_PX) {
+            pointers.set(event.pointerId, point);
+            return;
+          }
+          if (!gesture.current.panned) event.currentTarget.setPointerCapture(event.pointerId);
+          gesture.current.panned = true;
+          setViewState(current => panBy(current, delta, canvasSize));
+        }
+        pointers.set(event.pointerId, point);
+      },
+      onPointerUp: release,
+      onPointerCancel: release,
+      // A drag that ends over a node must not also select it
+      onClickCapture: (event: ReactMouseEvent) => {
+        if (!gesture.current.panned) return;
+        event.stopPropagation();
+        gesture.current.panned = false;
+      }
+    };
+  }, []);
+
+  const zoomBy = useCallback((factor: number) => {
+    const { viewport: viewportSize, canvas: canvasSize } = sizes.current;
+    setViewState(previous => zoomAround(previous, factor, { x: viewportSize.width / 2, y: viewportSize.height / 2 }, viewportSize, canvasSize));
+  }, []);
+
+  const fit = useCallback((bounds: Bounds | null, options?: { padding?: number; maxScale?: number }) => {
+    if (!bounds) return;
+    setViewState(fitBounds(bounds, sizes.current.viewport, sizes.current.canvas, options));
+  }, []);
+
+  return {
+    view,
+    setView,
+    viewport,
+    canvas,
+    transform: screenTransform(view, viewport, canvas),
+    zoomBy,
+    fit,
+    handlers
+  };
+}
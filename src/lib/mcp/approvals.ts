@@ -0,0 +1,134 @@
+import { classifyToolCall, findAutoApproveRule, type ToolPolicy, type ToolRisk } from './policy';
+import type { ToolDescriptor } from './tools';
+
+export type ApprovalVerdict =
+  | { status: 'approved'; arguments: Record<string, unknown> }
+  | { status: 'denied'; reason: string };
+
+export interface ApprovalRequest {
+  id: number;
+  tool: string;
+  title: string;
+  arguments: Record<string, unknown>;
+  risk: ToolRisk;
+  reason: string;
+  requestedAt: number;
+}
+
+export type ApprovalOutcome = 'allowed' | 'auto-approved' | 'approved' | 'modified' | 'denied';
+
+export interface ApprovalDecision {
+  id: number;
+  tool: string;
+  risk: ToolRisk;
+  outcome: ApprovalOutcome;
+  // `policy` for read-only calls, `rule:<id>` for auto-approvals, `operator` for everything decided by
+  // hand, or whatever a headless caller passes to `deny`
+  decidedBy: string;
+  arguments: Record<string, unknown>;
+  // Only set when the operator changed the arguments
+  approvedArguments?: Record<string, unknown>;
+  reason?: string;
+  requestedAt: number;
+  decidedAt: number;
+}
+
+type DecisionDetails = Pick<ApprovalDecision, 'outcome' | 'decidedBy' | 'approvedArguments' | 'reason'>;
+
+export interface ApprovalSnapshot {
+  pending: ApprovalRequest[];
+  // Newest first
+  decisions: ApprovalDecision[];
+}
+
+export interface ApprovalGate {
+  getSnapshot: () => ApprovalSnapshot;
+  subscribe: (listener: () => void) => () => void;
+  // Resolves once the call may run (possibly with changed arguments) or has been denied
+  review: (tool: ToolDescriptor, args: Record<string, unknown>) => Promise<ApprovalVerdict>;
+  approve: (id: number, args?: Record<string, unknown>) => void;
+  deny: (id: number, reason?: string, decidedBy?: string) => void;
+  // Denies everything still waiting, e.g. when the page goes away
+  denyAll: (reason: string) => void;
+}
+
+// Holds state-changing tool calls until an operator or an auto-approve rule lets them through,
+// and records every decision, including the read-only calls that pass straight through.
+export const createApprovalGate = (policy: () => ToolPolicy, limit = 200): ApprovalGate => {
+  let snapshot: ApprovalSnapshot = { pending: [], decisions: [] };
+  const waiting = new Map<number, (verdict: ApprovalVerdict) => void>();
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  const decide = (request: Omit<ApprovalRequest, 'title'>, decision: DecisionDetails) => {
+    snapshot = {
+      pending: snapshot.pending.filter(candidate => candidate.id !== request.id),
+      decisions: [{
+        id: request.id,
+        tool: request.tool,
+        risk: request.risk,
+        arguments: request.arguments,
+        requestedAt: request.requestedAt,
+        decidedAt: Date.now(),
+        ...decision
+      }, ...snapshot.decisions].slice(0, limit)
+    };
+    emit();
+  };
+
+  const settle = (id: number, verdict: ApprovalVerdict, decision: DecisionDetails) => {
+    const request = snapshot.pending.find(candidate => candidate.id === id);
+    const resolve = waiting.get(id);
+    if (!request || !resolve) return;
+    waiting.delete(id);
+    decide(request, decision);
+    resolve(verdict);
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    review: (tool, args) => {
+      const { risk, reason } = classifyToolCall(policy(), tool, args);
+      const request: ApprovalRequest = { id: nextId++, tool: tool.name, title: tool.title, arguments: args, risk, reason, requestedAt: Date.now() };
+
+      if (risk === 'read-only') {
+        decide(request, { outcome: 'allowed', decidedBy: 'policy', reason });
+        return Promise.resolve({ status: 'approved', arguments: args });
+      }
+      const rule = findAutoApproveRule(policy(), tool.name, risk, args);
+      if (rule) {
+        decide(request, { outcome: 'auto-approved', decidedBy: `rule:${rule.id}`, reason: rule.note });
+        return Promise.resolve({ status: 'approved', arguments: args });
+      }
+
+      return new Promise(resolve => {
+        waiting.set(request.id, resolve);
+        snapshot = { ...snapshot, pending: [...snapshot.pending, request] };
+        emit();
+      });
+    },
+    approve: (id, args) => {
+      const request = snapshot.pending.find(candidate => candidate.id === id);
+      const modified = args !== undefined && JSON.stringify(args) !== JSON.stringify(request?.arguments);
+      settle(
+        id,
+        { status: 'approved', arguments: args ?? request?.arguments ?? {} },
+        modified ? { outcome: 'modified', decidedBy: 'operator', approvedArguments: args } : { outcome: 'approved', decidedBy: 'operator' }
+      );
+    },
+    deny: (id, reason = 'Denied by the operator', decidedBy = 'operator') => {
+      settle(id, { status: 'denied', reason }, { outcome: 'denied', decidedBy, reason });
+    },
+    denyAll: (reason) => {
+      snapshot.pending.forEach(request => settle(request.id, { status: 'denied', reason }, { outcome: 'denied', decidedBy: 'operator', reason }));
+    }
+  };
+};
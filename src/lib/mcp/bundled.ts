@@ -0,0 +1,4 @@
+import bundledPromptsJson from '../../data/swarm.prompts.json';
+import { validatePromptLibrary } from './prompts';
+
+export const bundledPromptLibrary = validatePromptLibrary(bundledPromptsJson, 'bundled swarm.prompts.json');
@@ -0,0 +1,62 @@
+import type { CallToolResult, McpServer } from './server';
+import { describeFailure, type ToolCallMeta, type TraceFailure } from './trace';
+
+export interface ToolCall {
+  id: number;
+  tool: string;
+  arguments: Record<string, unknown>;
+  startedAt: number;
+  durationMs: number;
+  // Exactly one of these is set: the tool's result (which may itself be `isError`) or a protocol error
+  result?: CallToolResult;
+  error?: TraceFailure;
+}
+
+export interface ToolCallLog {
+  // Newest first
+  getSnapshot: () => ToolCall[];
+  subscribe: (listener: () => void) => () => void;
+  record: (call: Omit<ToolCall, 'id'>) => ToolCall;
+  clear: () => void;
+}
+
+// Keeps the most recent tool calls made from the dashboard for the tool console's history.
+export const createToolCallLog = (limit = 100): ToolCallLog => {
+  let calls: ToolCall[] = [];
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  return {
+    getSnapshot: () => calls,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    record: (call) => {
+      const entry = { ...call, id: nextId++ };
+      calls = [entry, ...calls].slice(0, limit);
+      emit();
+      return entry;
+    },
+    clear: () => {
+      calls = [];
+      emit();
+    }
+  };
+};
+
+// Calls a tool through the in-process server and records the outcome with its wall-clock time.
+export const timedToolCall = async (server: McpServer, log: ToolCallLog, tool: string, args: Record<string, unknown>, meta?: ToolCallMeta) => {
+  const startedAt = Date.now();
+  const started = performance.now();
+  try {
+    const result = await server.callTool(tool, args, meta);
+    return log.record({ tool, arguments: args, startedAt, durationMs: performance.now() - started, result });
+  } catch (error) {
+    return log.record({ tool, arguments: args, startedAt, durationMs: performance.now() - started, error: describeFailure(error) });
+  }
+};
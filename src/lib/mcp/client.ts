@@ -0,0 +1,205 @@
+import { JSONRPC_VERSION, JsonRpcError, JsonRpcErrorCode, type JsonRpcErrorObject, type JsonRpcId } from './jsonrpc';
+import { MCP_PROTOCOL_VERSIONS, SERVER_INFO, type CallToolResult } from './server';
+
+// A streamable HTTP client for other MCP servers. stdio servers are reached the same way,
+// through the bridge (`npm run mcp:bridge`) that spawns them and serves them over HTTP.
+
+const SESSION_HEADER = 'Mcp-Session-Id';
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// The request never produced a JSON-RPC answer: network failure, timeout or an HTTP error status
+export class McpTransportError extends Error {
+  readonly url: string;
+  readonly status?: number;
+
+  constructor(url: string, message: string, status?: number) {
+    super(`${url}: ${message}`);
+    this.name = 'McpTransportError';
+    this.url = url;
+    this.status = status;
+  }
+}
+
+export interface RemoteServerInfo {
+  protocolVersion: string;
+  serverInfo: { name: string; title?: string; version: string };
+  capabilities: Record<string, unknown>;
+  instructions?: string;
+}
+
+export interface RemoteTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+export interface RemoteResource {
+  uri: string;
+  name: string;
+  title?: string;
+  mimeType?: string;
+}
+
+export interface RemotePrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+export interface McpClientOptions {
+  url: string;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface McpClient {
+  // Runs the initialize handshake; requests reconnect on their own if the session expires
+  connect: () => Promise<RemoteServerInfo>;
+  request: <T = unknown>(method: string, params?: Record<string, unknown>) => Promise<T>;
+  ping: () => Promise<void>;
+  listTools: () => Promise<RemoteTool[]>;
+  listResources: () => Promise<RemoteResource[]>;
+  listPrompts: () => Promise<RemotePrompt[]>;
+  callTool: (name: string, args?: Record<string, unknown>) => Promise<CallToolResult>;
+  info: () => RemoteServerInfo | null;
+  // Ends the server-side session; the client can connect again afterwards
+  close: () => Promise<void>;
+}
+
+interface RawResponse {
+  id?: JsonRpcId | null;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+// A POST may be answered with plain JSON or with an event stream that carries the response
+const parseBody = (contentType: string, text: string): unknown[] => {
+  if (!contentType.includes('text/event-stream')) {
+    const body = JSON.parse(text) as unknown;
+    return Array.isArray(body) ? body : [body];
+  }
+  return text.split(/\r?\n\r?\n/).flatMap(event => {
+    const data = event.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5).trimStart()).join('\n');
+    return data ? [JSON.parse(data) as unknown] : [];
+  });
+};
+
+export const createMcpClient = ({ url, timeoutMs = DEFAULT_TIMEOUT_MS, fetch: fetchImpl = fetch }: McpClientOptions): McpClient => {
+  let sessionId: string | null = null;
+  let info: RemoteServerInfo | null = null;
+  let nextId = 1;
+
+  const post = async (message: Record<string, unknown>): Promise<RawResponse | null> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+    if (sessionId) headers[SESSION_HEADER] = sessionId;
+    if (info) headers['MCP-Protocol-Version'] = info.protocolVersion;
+
+    let response: Response;
+    try {
+      response = await fetchImpl(url, { method: 'POST', headers, body: JSON.stringify(message), signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error) {
+      throw new McpTransportError(url, error instanceof Error ? error.message : String(error));
+    }
+
+    if (response.status === 404 && sessionId) {
+      sessionId = null;
+      info = null;
+      throw new McpTransportError(url, 'Session expired', 404);
+    }
+    if (!response.ok) throw new McpTransportError(url, `HTTP ${response.status} ${response.statusText}`.trim(), response.status);
+
+    const issued = response.headers.get(SESSION_HEADER);
+    if (issued) sessionId = issued;
+    if (response.status === 202 || !('id' in message)) return null;
+
+    let messages: unknown[];
+    try {
+      messages = parseBody(response.headers.get('content-type') ?? '', await response.text());
+    } catch (error) {
+      throw new McpTransportError(url, `Unreadable response: ${error instanceof Error ? error.message : String(error)}`, response.status);
+    }
+    const answer = messages.find((candidate): candidate is RawResponse =>
+      candidate !== null && typeof candidate === 'object' && (candidate as RawResponse).id === message.id);
+    if (!answer) throw new McpTransportError(url, `No response to request ${String(message.id)}`, response.status);
+    return answer;
+  };
+
+  const send = async <T>(method: string, params?: Record<string, unknown>): Promise<T> => {
+    const answer = await post({ jsonrpc: JSONRPC_VERSION, id: nextId++, method, ...(params ? { params } : {}) });
+    if (!answer) throw new McpTransportError(url, `No response to ${method}`);
+    if (answer.error) throw new JsonRpcError(answer.error.code, answer.error.message, answer.error.data);
+    return answer.result as T;
+  };
+
+  const endSession = async (id: string) => {
+    try {
+      await fetchImpl(url, { method: 'DELETE', headers: { [SESSION_HEADER]: id }, signal: AbortSignal.timeout(timeoutMs) });
+    } catch {
+      // The swarm's own servers also end sessions that go idle
+    }
+  };
+
+  const connect = async () => {
+    // Reconnecting abandons the previous session, which behind the bridge is a running process
+    const previous = sessionId;
+    sessionId = null;
+    info = null;
+    if (previous) void endSession(previous);
+    const result = await send<RemoteServerInfo>('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSIONS[0],
+      capabilities: {},
+      clientInfo: { name: `${SERVER_INFO.name}-client`, version: SERVER_INFO.version }
+    });
+    if (!result || typeof result.protocolVersion !== 'string' || !result.serverInfo) {
+      throw new JsonRpcError(JsonRpcErrorCode.InvalidRequest, 'Malformed initialize result');
+    }
+    info = result;
+    await post({ jsonrpc: JSONRPC_VERSION, method: 'notifications/initialized' });
+    return result;
+  };
+
+  const request = async <T>(method: string, params?: Record<string, unknown>): Promise<T> => {
+    if (!info) await connect();
+    try {
+      return await send<T>(method, params);
+    } catch (error) {
+      // One retry on a fresh session; anything else is the caller's to handle
+      if (!(error instanceof McpTransportError && error.status === 404)) throw error;
+      await connect();
+      return send<T>(method, params);
+    }
+  };
+
+  // Follows `nextCursor` until the server has listed everything
+  const listAll = async <T>(method: string, key: string): Promise<T[]> => {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await request<Record<string, unknown>>(method, cursor ? { cursor } : undefined);
+      items.push(...((page[key] as T[] | undefined) ?? []));
+      cursor = typeof page.nextCursor === 'string' ? page.nextCursor : undefined;
+    } while (cursor);
+    return items;
+  };
+
+  return {
+    connect,
+    request,
+    ping: async () => {
+      await request('ping');
+    },
+    listTools: () => listAll<RemoteTool>('tools/list', 'tools'),
+    listResources: () => listAll<RemoteResource>('resources/list', 'resources'),
+    listPrompts: () => listAll<RemotePrompt>('prompts/list', 'prompts'),
+    callTool: (name, args = {}) => request<CallToolResult>('tools/call', { name, arguments: args }),
+    info: () => info,
+    close: async () => {
+      const id = sessionId;
+      sessionId = null;
+      info = null;
+      if (id) await endSession(id);
+    }
+  };
+};
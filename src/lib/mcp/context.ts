@@ -0,0 +1,28 @@
+import type { AlertEngine } from '../swarm/alerts';
+import type { LiveStore } from '../swarm/live-store';
+import type { MetricsHistory } from '../swarm/metrics-history';
+import type { SwarmManifest } from '../swarm/schema';
+
+export interface IntegrationStatus {
+  name: string;
+  kind: string;
+  state: string;
+  detail?: string;
+}
+
+// Something outside the swarm the tools can report on and, where supported, (dis)connect
+export interface Integration {
+  status: () => IntegrationStatus;
+  connect?: () => void;
+  disconnect?: () => void;
+}
+
+// Everything the MCP tools read from. The dashboard and the standalone server each build one
+// around their own stores, so both answer from the same live state the UI renders.
+export interface SwarmContext {
+  manifest: () => SwarmManifest;
+  live: LiveStore;
+  history: MetricsHistory;
+  alerts: AlertEngine;
+  integrations: () => Integration[];
+}
@@ -0,0 +1,224 @@
+import type { LiveStores } from '../stream/apply';
+import { mcpServerEndpoint } from '../swarm/mcp-servers';
+import type { McpServerConfig } from '../swarm/schema';
+import { createMcpClient, type McpClient, type RemotePrompt, type RemoteResource, type RemoteServerInfo, type RemoteTool } from './client';
+import type { Integration } from './context';
+import type { CallToolResult } from './server';
+
+// Supervises the MCP servers configured in the manifest: connects to each, lists what it offers,
+// probes it with `ping` and reports health and call latency into the live store under the
+// server's component id, next to the native components.
+
+export type ExternalServerState = 'idle' | 'connecting' | 'connected' | 'failed';
+
+export interface ExternalServerSnapshot {
+  id: string;
+  name: string;
+  transport: McpServerConfig['transport'];
+  endpoint: string;
+  state: ExternalServerState;
+  info: RemoteServerInfo | null;
+  tools: RemoteTool[];
+  resources: RemoteResource[];
+  prompts: RemotePrompt[];
+  latencyMs: number | null;
+  // Successful share of the recent probes and calls, 0–100
+  health: number | null;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+export interface ExternalServers {
+  getSnapshot: () => ExternalServerSnapshot[];
+  subscribe: (listener: () => void) => () => void;
+  start: () => void;
+  stop: () => void;
+  connect: (id: string) => void;
+  disconnect: (id: string) => void;
+  // Re-lists tools, resources and prompts
+  refresh: (id: string) => Promise<void>;
+  callTool: (id: string, name: string, args?: Record<string, unknown>) => Promise<CallToolResult>;
+  // One integration per server for `integration_manager`
+  integrations: () => Integration[];
+}
+
+export interface ExternalServersOptions {
+  servers: McpServerConfig[];
+  stores: LiveStores;
+  createClient?: (url: string) => McpClient;
+}
+
+// Probes and calls counted towards health, error rate and latency
+const HEALTH_WINDOW = 20;
+
+interface Outcome {
+  ok: boolean;
+  latencyMs: number;
+}
+
+interface Entry {
+  config: McpServerConfig;
+  client: McpClient;
+  snapshot: ExternalServerSnapshot;
+  outcomes: Outcome[];
+  timer: ReturnType<typeof setInterval> | null;
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export const createExternalServers = ({ servers, stores, createClient = url => createMcpClient({ url }) }: ExternalServersOptions): ExternalServers => {
+  const entries = new Map<string, Entry>(servers.map(config => {
+    const endpoint = mcpServerEndpoint(config);
+    return [config.id, {
+      config,
+      client: createClient(endpoint),
+      outcomes: [],
+      timer: null,
+      snapshot: {
+        id: config.id,
+        name: config.name,
+        transport: config.transport,
+        endpoint,
+        state: 'idle',
+        info: null,
+        tools: [],
+        resources: [],
+        prompts: [],
+        latencyMs: null,
+        health: null,
+        lastError: null,
+        lastCheckedAt: null
+      }
+    }];
+  }));
+  let snapshot = [...entries.values()].map(entry => entry.snapshot);
+  const listeners = new Set<() => void>();
+
+  const update = (entry: Entry, patch: Partial<ExternalServerSnapshot>) => {
+    entry.snapshot = { ...entry.snapshot, ...patch };
+    snapshot = [...entries.values()].map(candidate => candidate.snapshot);
+    listeners.forEach(listener => listener());
+  };
+
+  // Health, error rate and latency over the recent window go to the live store and history
+  const record = (entry: Entry, outcome: Outcome) => {
+    entry.outcomes = [...entry.outcomes, outcome].slice(-HEALTH_WINDOW);
+    const failures = entry.outcomes.filter(candidate => !candidate.ok).length;
+    const health = Math.round(((entry.outcomes.length - failures) / entry.outcomes.length) * 100);
+    const metrics = {
+      performance: health,
+      errorRate: failures / entry.outcomes.length,
+      ...(outcome.ok ? { latencyMs: outcome.latencyMs } : {})
+    };
+    const at = Date.now();
+    stores.live.update(entry.config.id, { ...metrics, status: outcome.ok ? 'active' : 'idle' });
+    stores.history.record(entry.config.id, metrics, at);
+    update(entry, { health, lastCheckedAt: at, ...(outcome.ok ? { latencyMs: outcome.latencyMs } : {}) });
+  };
+
+  // Times a request against the server and counts it towards its health
+  const measure = async <T>(entry: Entry, run: () => Promise<T>): Promise<T> => {
+    const started = performance.now();
+    try {
+      const result = await run();
+      record(entry, { ok: true, latencyMs: performance.now() - started });
+      return result;
+    } catch (error) {
+      record(entry, { ok: false, latencyMs: performance.now() - started });
+      throw error;
+    }
+  };
+
+  const list = async <T>(supported: boolean, run: () => Promise<T[]>): Promise<T[]> => (supported ? run() : []);
+
+  const refresh = async (entry: Entry) => {
+    const capabilities = entry.client.info()?.capabilities ?? {};
+    const [tools, resources, prompts] = await Promise.all([
+      list('tools' in capabilities, entry.client.listTools),
+      list('resources' in capabilities, entry.client.listResources),
+      list('prompts' in capabilities, entry.client.listPrompts)
+    ]);
+    update(entry, { tools, resources, prompts });
+  };
+
+  const connect = async (entry: Entry) => {
+    update(entry, { state: 'connecting', lastError: null });
+    try {
+      const info = await measure(entry, entry.client.connect);
+      await refresh(entry);
+      // Disconnected while the handshake was in flight
+      if (entry.timer) update(entry, { state: 'connected', info });
+    } catch (error) {
+      if (entry.timer) update(entry, { state: 'failed', lastError: describeError(error) });
+    }
+  };
+
+  // Failed servers are retried on the next probe; connected ones are pinged
+  const probe = async (entry: Entry) => {
+    if (entry.snapshot.state === 'connecting') return;
+    if (entry.snapshot.state !== 'connected') {
+      await connect(entry);
+      return;
+    }
+    try {
+      await measure(entry, entry.client.ping);
+      if (entry.snapshot.lastError) update(entry, { lastError: null });
+    } catch (error) {
+      update(entry, { state: 'failed', lastError: describeError(error) });
+    }
+  };
+
+  const watch = (entry: Entry) => {
+    if (entry.timer) return;
+    entry.timer = setInterval(() => void probe(entry), entry.config.probeIntervalMs);
+    void connect(entry);
+  };
+
+  const unwatch = (entry: Entry) => {
+    if (entry.timer) clearInterval(entry.timer);
+    entry.timer = null;
+    void entry.client.close();
+    stores.live.update(entry.config.id, { status: 'idle' });
+    update(entry, { state: 'idle' });
+  };
+
+  const entryFor = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) throw new Error(`Unknown MCP server "${id}"`);
+    return entry;
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    start: () => entries.forEach(watch),
+    stop: () => entries.forEach(unwatch),
+    connect: (id) => watch(entryFor(id)),
+    disconnect: (id) => unwatch(entryFor(id)),
+    refresh: (id) => refresh(entryFor(id)),
+    callTool: (id, name, args = {}) => {
+      const entry = entryFor(id);
+      return measure(entry, () => entry.client.callTool(name, args));
+    },
+    integrations: () => [...entries.values()].map(entry => ({
+      status: () => ({
+        name: entry.config.id,
+        kind: `mcp-${entry.config.transport}`,
+        state: entry.snapshot.state,
+        detail: [
+          entry.snapshot.endpoint,
+          entry.snapshot.info && `${entry.snapshot.info.serverInfo.name} ${entry.snapshot.info.serverInfo.version}`,
+          entry.snapshot.latencyMs !== null && `${Math.round(entry.snapshot.latencyMs)} ms`,
+          entry.snapshot.lastError
+        ].filter(Boolean).join(' · ')
+      }),
+      connect: () => watch(entry),
+      disconnect: () => unwatch(entry)
+    }))
+  };
+};
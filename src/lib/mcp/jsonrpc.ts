@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+export const JSONRPC_VERSION = '2.0';
+
+export const JsonRpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603
+} as const;
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: typeof JSONRPC_VERSION;
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: typeof JSONRPC_VERSION;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: typeof JSONRPC_VERSION; id: JsonRpcId; result: unknown }
+  | { jsonrpc: typeof JSONRPC_VERSION; id: JsonRpcId | null; error: JsonRpcErrorObject };
+
+// Thrown by method handlers; the server turns it into an error response with the same code
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+const idSchema = z.union([z.string(), z.number()]);
+
+// Requests and notifications differ only by the presence of `id`
+export const jsonRpcCallSchema = z.object({
+  jsonrpc: z.literal(JSONRPC_VERSION),
+  id: idSchema.optional(),
+  method: z.string().min(1),
+  params: z.record(z.unknown()).optional()
+});
+
+export const jsonRpcResponseSchema = z.union([
+  z.object({ jsonrpc: z.literal(JSONRPC_VERSION), id: idSchema, result: z.unknown() }),
+  z.object({
+    jsonrpc: z.literal(JSONRPC_VERSION),
+    id: idSchema.nullable(),
+    error: z.object({ code: z.number().int(), message: z.string(), data: z.unknown().optional() })
+  })
+]);
+
+export const isRequest = (call: JsonRpcRequest | JsonRpcNotification): call is JsonRpcRequest => 'id' in call;
+
+export const success = (id: JsonRpcId, result: unknown): JsonRpcResponse => ({ jsonrpc: JSONRPC_VERSION, id, result });
+
+export const failure = (id: JsonRpcId | null, code: number, message: string, data?: unknown): JsonRpcResponse => ({
+  jsonrpc: JSONRPC_VERSION,
+  id,
+  error: data === undefined ? { code, message } : { code, message, data }
+});
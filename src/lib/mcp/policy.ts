@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import type { ToolDescriptor } from './tools';
+
+// Which tool calls may run unattended. Calls are classified by the first matching rule, or by
+// the tool's annotations when none matches; anything that is not read-only waits for an
+// operator unless an auto-approve rule covers it.
+
+export const TOOL_POLICY_VERSION = 1;
+
+export const toolRiskSchema = z.enum(['read-only', 'mutating', 'destructive']);
+
+// Argument values a rule applies to; every listed argument must match one of its values
+const argumentMatchSchema = z.record(z.array(z.string()).min(1)).default({});
+
+export const classificationRuleSchema = z.object({
+  tool: z.string().min(1),
+  when: argumentMatchSchema,
+  risk: toolRiskSchema,
+  description: z.string().optional()
+});
+
+export const autoApproveRuleSchema = z.object({
+  id: z.string().min(1),
+  // A tool name, or `*` for every tool
+  tool: z.string().min(1),
+  when: argumentMatchSchema,
+  // Destructive calls are only auto-approved when a rule says so explicitly
+  upTo: toolRiskSchema.exclude(['read-only']).default('mutating'),
+  note: z.string().optional()
+});
+
+export const toolPolicySchema = z.object({
+  version: z.literal(TOOL_POLICY_VERSION),
+  rules: z.array(classificationRuleSchema).default([]),
+  autoApprove: z.array(autoApproveRuleSchema).default([])
+});
+
+export type ToolRisk = z.infer<typeof toolRiskSchema>;
+export type ClassificationRule = z.infer<typeof classificationRuleSchema>;
+export type AutoApproveRule = z.infer<typeof autoApproveRuleSchema>;
+export type ToolPolicy = z.infer<typeof toolPolicySchema>;
+
+export const TOOL_RISKS = toolRiskSchema.options;
+
+export const DEFAULT_TOOL_POLICY: ToolPolicy = {
+  version: TOOL_POLICY_VERSION,
+  rules: [
+    { tool: 'integration_manager', when: { action: ['status'] }, risk: 'read-only', description: 'Listing integrations changes nothing' },
+    { tool: 'integration_manager', when: { action: ['connect'] }, risk: 'mutating', description: 'Opens a connection to an outside system' },
+    { tool: 'integration_manager', when: { action: ['disconnect'] }, risk: 'destructive', description: 'Cuts the swarm off from live data' }
+  ],
+  autoApprove: []
+};
+
+export interface ToolClassification {
+  risk: ToolRisk;
+  // Why the call got its class, for the approval dialog
+  reason: string;
+}
+
+const matches = (when: Record<string, string[]>, args: Record<string, unknown>) =>
+  Object.entries(when).every(([name, values]) => args[name] !== undefined && values.includes(String(args[name])));
+
+export const describeMatch = (when: Record<string, string[]>) =>
+  Object.entries(when).map(([name, values]) => `${name} = ${values.join(' | ')}`).join(', ');
+
+// The inverse of describeMatch, for rules typed into the approval center; null when malformed
+export const parseMatch = (text: string): Record<string, string[]> | null => {
+  const when: Record<string, string[]> = {};
+  for (const clause of text.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, values, ...rest] = clause.split('=').map(part => part.trim());
+    const options = values?.split('|').map(value => value.trim()).filter(Boolean) ?? [];
+    if (!name || rest.length > 0 || options.length === 0) return null;
+    when[name] = options;
+  }
+  return when;
+};
+
+export const classifyToolCall = (policy: ToolPolicy, tool: ToolDescriptor, args: Record<string, unknown>): ToolClassification => {
+  const rule = policy.rules.find(candidate => candidate.tool === tool.name && matches(candidate.when, args));
+  if (rule) {
+    const pattern = describeMatch(rule.when);
+    return { risk: rule.risk, reason: rule.description ?? `Policy rule for ${tool.name}${pattern ? ` when ${pattern}` : ''}` };
+  }
+  if (tool.annotations.readOnlyHint) return { risk: 'read-only', reason: `${tool.name} is annotated read-only` };
+  if (tool.annotations.destructiveHint !== false) {
+    // Per the MCP spec a tool that is not read-only is assumed destructive unless it says otherwise
+    return { risk: 'destructive', reason: `${tool.name} is not annotated as non-destructive` };
+  }
+  return { risk: 'mutating', reason: `${tool.name} changes state` };
+};
+
+export const findAutoApproveRule = (policy: ToolPolicy, tool: string, risk: ToolRisk, args: Record<string, unknown>) =>
+  policy.autoApprove.find(rule =>
+    (rule.tool === '*' || rule.tool === tool)
+    && TOOL_RISKS.indexOf(risk) <= TOOL_RISKS.indexOf(rule.upTo)
+    && matches(rule.when, args));
+
+// Stored policies that no longer validate fall back to the defaults
+export const parseToolPolicy = (text: string): ToolPolicy | null => {
+  try {
+    const result = toolPolicySchema.safeParse(JSON.parse(text));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,404 @@
+import { z } from 'zod';
+import { buildInterplayGraph, buildNameIndex, resolveComponentRef } from '../swarm/interplay';
+import { METRIC_KEYS } from '../swarm/metrics-history';
+import type { ComponentData, RingData, SwarmManifest } from '../swarm/schema';
+import type { SwarmContext } from './context';
+import { JsonRpcError, JsonRpcErrorCode } from './jsonrpc';
+import { readResource, type ResourceContents } from './resources';
+import { activeAlerts, componentInterplay, componentSnapshot, locate, round, seriesStats } from './views';
+
+export const PROMPT_LIBRARY_VERSION = 1;
+
+// How an argument is filled: `component` and `ring` resolve against the topology and expose
+// live fields to the template, `minutes` sets the window for `trend` fields.
+export const promptArgumentKindSchema = z.enum(['component', 'ring', 'minutes', 'text']);
+
+export const promptArgumentSchema = z.object({
+  name: z.string().regex(/^[a-z][A-Za-z0-9_]*$/, 'Use a camelCase or snake_case identifier'),
+  description: z.string().optional(),
+  kind: promptArgumentKindSchema.default('text'),
+  required: z.boolean().default(false)
+});
+
+export const promptDefinitionSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional(),
+  arguments: z.array(promptArgumentSchema).default([]),
+  template: z.string().min(1)
+});
+
+export const promptRevisionSchema = promptDefinitionSchema.extend({
+  version: z.number().int().positive(),
+  savedAt: z.number(),
+  note: z.string().optional()
+});
+
+// Revisions are append-only; `activeVersion` picks the one served, defaulting to the newest
+export const promptEntrySchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes'),
+  activeVersion: z.number().int().positive().optional(),
+  revisions: z.array(promptRevisionSchema).min(1)
+});
+
+export const promptLibrarySchema = z.object({
+  version: z.literal(PROMPT_LIBRARY_VERSION),
+  prompts: z.array(promptEntrySchema)
+});
+
+export type PromptArgumentKind = z.infer<typeof promptArgumentKindSchema>;
+export type PromptArgument = z.infer<typeof promptArgumentSchema>;
+export type PromptDefinition = z.infer<typeof promptDefinitionSchema>;
+export type PromptRevision = z.infer<typeof promptRevisionSchema>;
+export type PromptEntry = z.infer<typeof promptEntrySchema>;
+export type PromptLibrary = z.infer<typeof promptLibrarySchema>;
+
+export class PromptLibraryError extends Error {
+  readonly source: string;
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid prompt library (${source}):\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'PromptLibraryError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+// Fields a template may read from each argument kind, as `{{arg.field}}`
+export const PROMPT_FIELDS: Record<PromptArgumentKind, string[]> = {
+  component: ['name', 'role', 'ring', 'status', 'performance', 'claimedPerformance', 'efficiency', 'throughput', 'errorRate', 'latencyMs', 'details', 'interplay', 'alerts', 'trend'],
+  ring: ['name', 'label', 'components', 'alerts', 'trend'],
+  minutes: [],
+  text: []
+};
+
+// Placeholders that need no argument
+export const PROMPT_GLOBALS = ['swarm.name', 'swarm.nucleus', 'now'];
+
+const DEFAULT_MINUTES = 15;
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)(?:\.([A-Za-z]+))?\s*\}\}/g;
+
+export const templateIssues = (definition: PromptDefinition): string[] => {
+  const issues: string[] = [];
+  const args = new Map<string, PromptArgument>();
+  (definition.arguments ?? []).forEach(argument => {
+    if (args.has(argument.name)) issues.push(`Argument "${argument.name}" is declared twice`);
+    args.set(argument.name, argument);
+  });
+
+  for (const [placeholder, name, field] of definition.template.matchAll(PLACEHOLDER)) {
+    if (PROMPT_GLOBALS.includes(field ? `${name}.${field}` : name)) continue;
+    const argument = args.get(name);
+    if (!argument) {
+      issues.push(`${placeholder} does not name a declared argument`);
+    } else if (field && !PROMPT_FIELDS[argument.kind].includes(field)) {
+      const fields = PROMPT_FIELDS[argument.kind];
+      issues.push(`${placeholder}: ${argument.kind} arguments have ${fields.length > 0 ? `no "${field}" field (try ${fields.join(', ')})` : 'no fields'}`);
+    }
+  }
+  return issues;
+};
+
+export const activeRevision = (entry: PromptEntry) =>
+  entry.revisions.find(revision => revision.version === entry.activeVersion) ?? entry.revisions[entry.revisions.length - 1];
+
+export const validatePromptLibrary = (data: unknown, source = 'prompt library'): PromptLibrary => {
+  const result = promptLibrarySchema.safeParse(data);
+  if (!result.success) {
+    throw new PromptLibraryError(source, result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`));
+  }
+
+  const issues: string[] = [];
+  const names = new Set<string>();
+  result.data.prompts.forEach(entry => {
+    if (names.has(entry.name)) issues.push(`${entry.name}: declared twice`);
+    names.add(entry.name);
+    if (entry.activeVersion !== undefined && !entry.revisions.some(revision => revision.version === entry.activeVersion)) {
+      issues.push(`${entry.name}: active version ${entry.activeVersion} does not exist`);
+    }
+    entry.revisions.forEach(revision => issues.push(...templateIssues(revision).map(issue => `${entry.name} v${revision.version}: ${issue}`)));
+  });
+  if (issues.length > 0) throw new PromptLibraryError(source, issues);
+  return result.data;
+};
+
+export const parsePromptLibrary = (text: string, source = 'prompt library') => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new PromptLibraryError(source, [error instanceof Error ? error.message : String(error)]);
+  }
+  return validatePromptLibrary(data, source);
+};
+
+export const serializePromptLibrary = (library: PromptLibrary) => JSON.stringify(library, null, 2);
+
+// ---- Rendering ----
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string } | { type: 'resource'; resource: ResourceContents };
+}
+
+export interface RenderedPrompt {
+  description?: string;
+  messages: PromptMessage[];
+}
+
+type Resolved =
+  | { kind: 'component'; component: ComponentData; ring: RingData }
+  | { kind: 'ring'; ring: RingData }
+  | { kind: 'minutes'; minutes: number }
+  | { kind: 'text'; text: string };
+
+const invalid = (message: string) => new JsonRpcError(JsonRpcErrorCode.InvalidParams, message);
+
+// The component most worth talking about right now: the most severe active alert, else the
+// largest shortfall against its claimed performance
+const focusComponent = (context: SwarmContext, manifest: SwarmManifest) => {
+  const [alert] = activeAlerts(context);
+  const alerted = alert ? locate(manifest, alert.componentId) : null;
+  if (alerted) return alerted;
+  const candidates = manifest.rings.flatMap(ring => ring.components.map(component => ({ component, ring })));
+  const shortfall = ({ component, ring }: { component: ComponentData; ring: RingData }) => {
+    const { performance, claimedPerformance } = componentSnapshot(context, component, ring);
+    return performance === null || claimedPerformance === null ? 0 : claimedPerformance - performance;
+  };
+  return candidates.reduce((worst, candidate) => (shortfall(candidate) > shortfall(worst) ? candidate : worst), candidates[0]);
+};
+
+const resolveArguments = (definition: PromptDefinition, values: Record<string, string>, context: SwarmContext) => {
+  const manifest = context.manifest();
+  const index = buildNameIndex(manifest);
+  const resolved = new Map<string, Resolved>();
+  const declared = definition.arguments ?? [];
+
+  declared.forEach(argument => {
+    const value = values[argument.name]?.trim();
+    if (!value && argument.required) throw invalid(`Missing required argument "${argument.name}"`);
+    if (argument.kind === 'text') {
+      resolved.set(argument.name, { kind: 'text', text: value ?? '' });
+    } else if (argument.kind === 'minutes') {
+      const minutes = value ? Number(value) : DEFAULT_MINUTES;
+      if (!Number.isFinite(minutes) || minutes <= 0) throw invalid(`"${argument.name}" must be a positive number of minutes`);
+      resolved.set(argument.name, { kind: 'minutes', minutes });
+    } else if (argument.kind === 'component') {
+      const id = value ? resolveComponentRef(value, index) : null;
+      const located = value ? (id ? locate(manifest, id) : null) : focusComponent(context, manifest);
+      if (!located) throw invalid(`"${argument.name}": unknown component "${value}"`);
+      resolved.set(argument.name, { kind: 'component', ...located });
+    }
+  });
+
+  // Rings go last so an omitted one can follow a component argument
+  declared.filter(argument => argument.kind === 'ring').forEach(argument => {
+    const value = values[argument.name]?.trim();
+    const fallback = [...resolved.values()].find((entry): entry is Extract<Resolved, { kind: 'component' }> => entry.kind === 'component')?.ring
+      ?? focusComponent(context, manifest).ring;
+    const ring = value ? manifest.rings.find(candidate => candidate.id === value || candidate.name === value) : fallback;
+    if (!ring) throw invalid(`"${argument.name}": unknown ring "${value}"`);
+    resolved.set(argument.name, { kind: 'ring', ring });
+  });
+
+  return resolved;
+};
+
+const lines = (items: string[]) => (items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- none');
+
+const percent = (value: number | null) => (value === null ? 'unknown' : `${round(value, 1)}%`);
+
+const formatAlerts = (alerts: ReturnType<typeof activeAlerts>) =>
+  lines(alerts.map(alert => `[${alert.severity}] ${alert.rule} on ${alert.componentId}: ${alert.value} vs threshold ${alert.threshold} (${alert.status})`));
+
+const formatTrend = (context: SwarmContext, id: string, minutes: number) => {
+  const trends = METRIC_KEYS.flatMap(metric => {
+    const stats = seriesStats(context, id, metric, minutes * 60_000);
+    return stats ? [`${metric}: mean ${stats.mean}, min ${stats.min}, max ${stats.max}, change ${stats.change >= 0 ? '+' : ''}${stats.change} over ${stats.samples} samples`] : [];
+  });
+  return trends.length > 0 ? lines(trends) : `- no samples in the last ${minutes} minutes`;
+};
+
+const componentField = (context: SwarmContext, { component, ring }: Extract<Resolved, { kind: 'component' }>, field: string, minutes: number) => {
+  const snapshot = componentSnapshot(context, component, ring);
+  switch (field) {
+    case 'name':
+      return component.name;
+    case 'role':
+      return component.role ?? 'unspecified';
+    case 'ring':
+      return `${ring.name} (${ring.id})`;
+    case 'status':
+      return snapshot.status ?? 'unknown';
+    case 'performance':
+    case 'claimedPerformance':
+    case 'efficiency':
+      return percent(snapshot[field]);
+    case 'throughput':
+      return snapshot.throughput === null ? 'unknown' : String(snapshot.throughput);
+    case 'errorRate':
+      return snapshot.errorRate === null ? 'unknown' : percent(snapshot.errorRate * 100);
+    case 'latencyMs':
+      return snapshot.latencyMs === null ? 'unknown' : `${round(snapshot.latencyMs, 1)} ms`;
+    case 'details':
+      return lines(component.details);
+    case 'interplay':
+      return lines(componentInterplay(buildInterplayGraph(context.manifest()), component.id).map(edge =>
+        `${edge.direction} ${edge.relation} ${edge.peer}${edge.protocol ? ` via ${edge.protocol}` : ''}`));
+    case 'alerts':
+      return formatAlerts(activeAlerts(context, component.id));
+    case 'trend':
+      return formatTrend(context, component.id, minutes);
+    default:
+      return component.id;
+  }
+};
+
+const ringField = (context: SwarmContext, ring: RingData, field: string, minutes: number) => {
+  switch (field) {
+    case 'name':
+      return ring.name;
+    case 'label':
+      return ring.label ?? ring.name;
+    case 'components':
+      return lines(ring.components.map(component => {
+        const snapshot = componentSnapshot(context, component, ring);
+        return `${component.id} ${component.name}: ${snapshot.status ?? 'unknown'}, performance ${percent(snapshot.performance)} (claimed ${percent(snapshot.claimedPerformance)})`;
+      }));
+    case 'alerts':
+      return formatAlerts(activeAlerts(context).filter(alert => ring.components.some(component => component.id === alert.componentId)));
+    case 'trend':
+      return lines(ring.components.map(component => {
+        const stats = seriesStats(context, component.id, 'performance', minutes * 60_000);
+        return stats
+          ? `${component.id}: performance mean ${stats.mean}%, ${stats.change >= 0 ? '+' : ''}${stats.change} over ${stats.samples} samples`
+          : `${component.id}: no samples`;
+      }));
+    default:
+      return ring.id;
+  }
+};
+
+// Fills a prompt from live state; component and ring arguments are also attached as embedded
+// resources so the client gets the full JSON next to the prose.
+export const renderPrompt = (
+  definition: PromptDefinition,
+  values: Record<string, string>,
+  context: SwarmContext,
+  now = Date.now()
+): RenderedPrompt => {
+  const manifest = context.manifest();
+  const resolved = resolveArguments(definition, values, context);
+  const window = [...resolved.values()].find((entry): entry is Extract<Resolved, { kind: 'minutes' }> => entry.kind === 'minutes');
+  const minutes = window?.minutes ?? DEFAULT_MINUTES;
+
+  const text = definition.template.replace(PLACEHOLDER, (placeholder, name: string, field?: string) => {
+    const key = field ? `${name}.${field}` : name;
+    if (key === 'swarm.name') return manifest.name;
+    if (key === 'swarm.nucleus') return manifest.nucleus.name;
+    if (key === 'now') return new Date(now).toISOString();
+    const entry = resolved.get(name);
+    if (!entry) return placeholder;
+    switch (entry.kind) {
+      case 'component':
+        return componentField(context, entry, field ?? '', minutes);
+      case 'ring':
+        return ringField(context, entry.ring, field ?? '', minutes);
+      case 'minutes':
+        return String(entry.minutes);
+      default:
+        return entry.text;
+    }
+  });
+
+  const attachments = [...resolved.values()].flatMap(entry => {
+    if (entry.kind === 'component') return [`swarm://component/${entry.component.id}`];
+    if (entry.kind === 'ring') return [`swarm://ring/${entry.ring.id}`];
+    return [];
+  });
+
+  return {
+    description: definition.description,
+    messages: [
+      { role: 'user', content: { type: 'text', text } },
+      ...[...new Set(attachments)].map((uri): PromptMessage => ({ role: 'user', content: { type: 'resource', resource: readResource(context, uri) } }))
+    ]
+  };
+};
+
+// Suggestions for `completion/complete`, drawn from the topology
+export const completePromptArgument = (argument: PromptArgument, value: string, manifest: SwarmManifest) => {
+  const prefix = value.toLowerCase();
+  const candidates = (() => {
+    switch (argument.kind) {
+      case 'component':
+        return manifest.rings.flatMap(ring => ring.components.flatMap(component => [component.id, component.name]));
+      case 'ring':
+        return manifest.rings.map(ring => ring.id);
+      case 'minutes':
+        return ['5', '15', '30', '60'];
+      default:
+        return [];
+    }
+  })();
+  return candidates.filter(candidate => candidate.toLowerCase().startsWith(prefix));
+};
+
+// ---- Registry ----
+
+type Listener = (library: PromptLibrary) => void;
+
+export interface PromptRegistry {
+  getSnapshot: () => PromptLibrary;
+  subscribe: (listener: Listener) => () => void;
+  find: (name: string) => PromptEntry | undefined;
+  // Appends a revision (creating the prompt if needed) and makes it active
+  save: (name: string, definition: PromptDefinition, note?: string) => PromptRevision;
+  activate: (name: string, version: number) => void;
+  remove: (name: string) => void;
+  replace: (library: PromptLibrary) => void;
+}
+
+export const createPromptRegistry = (initial: PromptLibrary): PromptRegistry => {
+  let library = initial;
+  const listeners = new Set<Listener>();
+
+  const commit = (prompts: PromptEntry[]) => {
+    library = { version: PROMPT_LIBRARY_VERSION, prompts };
+    listeners.forEach(listener => listener(library));
+  };
+
+  return {
+    getSnapshot: () => library,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    find: (name) => library.prompts.find(entry => entry.name === name),
+    save: (name, definition, note) => {
+      const parsed = promptDefinitionSchema.safeParse(definition);
+      const issues = parsed.success
+        ? templateIssues(parsed.data)
+        : parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      const nameCheck = promptEntrySchema.shape.name.safeParse(name);
+      if (!nameCheck.success) issues.unshift(`name: ${nameCheck.error.issues[0].message}`);
+      if (!parsed.success || issues.length > 0) throw new PromptLibraryError(name || 'new prompt', issues);
+
+      const existing = library.prompts.find(entry => entry.name === name);
+      const version = existing ? Math.max(...existing.revisions.map(revision => revision.version)) + 1 : 1;
+      const revision: PromptRevision = { ...parsed.data, version, savedAt: Date.now(), note: note?.trim() || undefined };
+      const entry: PromptEntry = { name, activeVersion: version, revisions: [...(existing?.revisions ?? []), revision] };
+      commit(existing ? library.prompts.map(candidate => (candidate === existing ? entry : candidate)) : [...library.prompts, entry]);
+      return revision;
+    },
+    activate: (name, version) => {
+      commit(library.prompts.map(entry => (
+        entry.name === name && entry.revisions.some(revision => revision.version === version) ? { ...entry, activeVersion: version } : entry
+      )));
+    },
+    remove: (name) => commit(library.prompts.filter(entry => entry.name !== name)),
+    replace: (next) => commit(next.prompts)
+  };
+};
@@ -0,0 +1,126 @@
+import { buildInterplayGraph } from '../swarm/interplay';
+import type { SwarmManifest } from '../swarm/schema';
+import type { SwarmContext } from './context';
+import { JsonRpcError } from './jsonrpc';
+import { activeAlerts, componentInterplay, componentSnapshot, locate } from './views';
+
+// MCP's code for reads of a URI the server does not know
+export const RESOURCE_NOT_FOUND = -32002;
+
+const MIME_TYPE = 'application/json';
+
+export const nucleusUri = (id: string) => `swarm://nucleus/${id}`;
+export const ringUri = (id: string) => `swarm://ring/${id}`;
+export const componentUri = (id: string) => `swarm://component/${id}`;
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  title: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export const RESOURCE_TEMPLATES = [
+  { uriTemplate: 'swarm://component/{id}', name: 'component', title: 'Swarm component', description: 'A ring component by id', mimeType: MIME_TYPE },
+  { uriTemplate: 'swarm://ring/{id}', name: 'ring', title: 'Swarm ring', description: 'A ring and its components by ring id', mimeType: MIME_TYPE }
+];
+
+export const listResources = (manifest: SwarmManifest): ResourceDescriptor[] => [
+  {
+    uri: nucleusUri(manifest.nucleus.id),
+    name: manifest.nucleus.id,
+    title: manifest.nucleus.name,
+    description: manifest.nucleus.description,
+    mimeType: MIME_TYPE
+  },
+  ...manifest.rings.flatMap(ring => [
+    { uri: ringUri(ring.id), name: ring.id, title: ring.name, description: ring.label, mimeType: MIME_TYPE },
+    ...ring.components.map(component => ({
+      uri: componentUri(component.id),
+      name: component.id,
+      title: component.name,
+      description: component.role ?? component.subtitle,
+      mimeType: MIME_TYPE
+    }))
+  ])
+];
+
+// URIs whose bodies change when a component's live state or alerts change; `null` means all of them
+export const resourcesAffectedBy = (manifest: SwarmManifest, componentId: string | null) => {
+  if (componentId === null) return listResources(manifest).map(resource => resource.uri);
+  const located = locate(manifest, componentId);
+  return located ? [componentUri(componentId), ringUri(located.ring.id)] : [];
+};
+
+const readBody = (context: SwarmContext, uri: string): unknown => {
+  const manifest = context.manifest();
+  const match = /^swarm:\/\/(nucleus|ring|component)\/([^/?#]+)$/.exec(uri);
+  const [, kind, id] = match ?? [];
+  const graph = buildInterplayGraph(manifest);
+
+  if (kind === 'nucleus' && id === manifest.nucleus.id) {
+    const { nucleus } = manifest;
+    return {
+      id: nucleus.id,
+      name: nucleus.name,
+      role: nucleus.role ?? null,
+      description: nucleus.description,
+      details: nucleus.details,
+      interplay: componentInterplay(graph, nucleus.id),
+      notes: graph.notes[nucleus.id] ?? [],
+      rings: manifest.rings.map(ring => ringUri(ring.id))
+    };
+  }
+
+  const ring = kind === 'ring' ? manifest.rings.find(candidate => candidate.id === id) : undefined;
+  if (ring) {
+    const components = ring.components.map(component => ({ uri: componentUri(component.id), ...componentSnapshot(context, component, ring) }));
+    const performances = components.flatMap(component => component.performance ?? []);
+    return {
+      id: ring.id,
+      name: ring.name,
+      label: ring.label ?? null,
+      statusLabel: ring.statusLabel ?? null,
+      color: ring.color,
+      averagePerformance: performances.length === 0
+        ? null
+        : Number((performances.reduce((sum, value) => sum + value, 0) / performances.length).toFixed(1)),
+      components,
+      alerts: activeAlerts(context).filter(alert => components.some(component => component.id === alert.componentId))
+    };
+  }
+
+  const located = kind === 'component' && id ? locate(manifest, id) : null;
+  if (located) {
+    const { component } = located;
+    const { id: _id, name: _name, ring: _ring, role: _role, ...metrics } = componentSnapshot(context, component, located.ring);
+    return {
+      id: component.id,
+      name: component.name,
+      subtitle: component.subtitle ?? null,
+      description: component.description ?? null,
+      role: component.role ?? null,
+      ring: { id: located.ring.id, name: located.ring.name, uri: ringUri(located.ring.id) },
+      details: component.details,
+      interplay: componentInterplay(graph, component.id),
+      notes: graph.notes[component.id] ?? [],
+      metrics,
+      alerts: activeAlerts(context, component.id)
+    };
+  }
+
+  throw new JsonRpcError(RESOURCE_NOT_FOUND, 'Resource not found', { uri });
+};
+
+export const readResource = (context: SwarmContext, uri: string): ResourceContents => ({
+  uri,
+  mimeType: MIME_TYPE,
+  text: JSON.stringify(readBody(context, uri), null, 2)
+});
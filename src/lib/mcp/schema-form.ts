@@ -0,0 +1,115 @@
+import { z } from 'zod';
+
+// Form fields for a tool's JSON Schema `inputSchema`. Only flat object schemas get one input
+// per property; nested objects and arrays are edited as JSON so any server's tools stay callable.
+
+export type SchemaFieldKind = 'enum' | 'string' | 'number' | 'integer' | 'boolean' | 'json';
+
+export interface SchemaField {
+  name: string;
+  label: string;
+  description?: string;
+  kind: SchemaFieldKind;
+  options: string[];
+  required: boolean;
+  defaultValue?: unknown;
+  minimum?: number;
+  maximum?: number;
+}
+
+// What the inputs hold: text for everything except switches
+export type SchemaFormValues = Record<string, string | boolean>;
+
+type JsonSchema = Record<string, unknown>;
+
+const asObject = (value: unknown): JsonSchema =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as JsonSchema) : {};
+
+const kindOf = (property: JsonSchema): SchemaFieldKind => {
+  if (Array.isArray(property.enum) && property.enum.every(option => typeof option === 'string')) return 'enum';
+  const type = Array.isArray(property.type) ? property.type.find(candidate => candidate !== 'null') : property.type;
+  if (type === 'string' || type === 'number' || type === 'integer' || type === 'boolean') return type;
+  return 'json';
+};
+
+export const schemaFields = (inputSchema: Record<string, unknown>): SchemaField[] => {
+  const required = new Set(Array.isArray(inputSchema.required) ? inputSchema.required : []);
+  return Object.entries(asObject(inputSchema.properties)).map(([name, value]) => {
+    const property = asObject(value);
+    const kind = kindOf(property);
+    return {
+      name,
+      label: typeof property.title === 'string' ? property.title : name,
+      description: typeof property.description === 'string' ? property.description : undefined,
+      kind,
+      options: kind === 'enum' ? (property.enum as string[]) : [],
+      // A default means the server fills it in, so the field can be left alone
+      required: required.has(name) && property.default === undefined,
+      defaultValue: property.default,
+      minimum: typeof property.minimum === 'number' ? property.minimum : undefined,
+      maximum: typeof property.maximum === 'number' ? property.maximum : undefined
+    };
+  });
+};
+
+const textOf = (field: SchemaField, value: unknown) => {
+  if (value === undefined) return '';
+  return field.kind === 'json' ? JSON.stringify(value, null, 2) : String(value);
+};
+
+// Form values for a call, from earlier arguments (e.g. a history entry) or the schema defaults
+export const schemaFormValues = (fields: SchemaField[], args: Record<string, unknown> = {}): SchemaFormValues =>
+  Object.fromEntries(fields.map(field => {
+    const value = args[field.name] ?? field.defaultValue;
+    return [field.name, field.kind === 'boolean' ? value === true : textOf(field, value)];
+  }));
+
+const parseJson = (text: string) => {
+  try {
+    return { ok: true as const, value: JSON.parse(text) as unknown };
+  } catch (error) {
+    return { ok: false as const, message: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const fieldValidator = (field: SchemaField): z.ZodTypeAny => {
+  if (field.kind === 'boolean') return z.boolean();
+
+  return z.string().superRefine((text, ctx) => {
+    const value = text.trim();
+    if (value === '') {
+      if (field.required) ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Required' });
+      return;
+    }
+    if (field.kind === 'enum' && !field.options.includes(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected one of ${field.options.join(', ')}` });
+    }
+    if (field.kind === 'number' || field.kind === 'integer') {
+      const number = Number(value);
+      if (!Number.isFinite(number)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected a number' });
+      else if (field.kind === 'integer' && !Number.isInteger(number)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected a whole number' });
+      else if (field.minimum !== undefined && number < field.minimum) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `At least ${field.minimum}` });
+      else if (field.maximum !== undefined && number > field.maximum) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `At most ${field.maximum}` });
+    }
+    if (field.kind === 'json') {
+      const parsed = parseJson(value);
+      if (!parsed.ok) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid JSON: ${parsed.message}` });
+    }
+  });
+};
+
+// Validates the raw form values; the server validates the arguments again against its own schema
+export const schemaFormValidator = (fields: SchemaField[]) =>
+  z.object(Object.fromEntries(fields.map(field => [field.name, fieldValidator(field)])));
+
+// Arguments for `tools/call`; blank optional fields are left out so server defaults apply
+export const toToolArguments = (fields: SchemaField[], values: SchemaFormValues): Record<string, unknown> =>
+  Object.fromEntries(fields.flatMap(field => {
+    const value = values[field.name];
+    if (typeof value === 'boolean') return [[field.name, value]];
+    const text = (value ?? '').trim();
+    if (text === '') return [];
+    if (field.kind === 'number' || field.kind === 'integer') return [[field.name, Number(text)]];
+    if (field.kind === 'json') return [[field.name, JSON.parse(text)]];
+    return [[field.name, text]];
+  }));
@@ -0,0 +1,356 @@
+import { z } from 'zod';
+import type { ApprovalGate } from './approvals';
+import type { SwarmContext } from './context';
+import {
+  failure,
+  isRequest,
+  JsonRpcError,
+  JsonRpcErrorCode,
+  jsonRpcCallSchema,
+  jsonRpcResponseSchema,
+  JSONRPC_VERSION,
+  success,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type JsonRpcResponse
+} from './jsonrpc';
+import { activeRevision, completePromptArgument, renderPrompt, type PromptRegistry } from './prompts';
+import { listResources, readResource, RESOURCE_NOT_FOUND, RESOURCE_TEMPLATES, resourcesAffectedBy } from './resources';
+import { describeTool, findTool, SWARM_TOOLS, ToolError, type ToolDefinition, type ToolDescriptor } from './tools';
+import { describeFailure, newTraceId, TRACE_META, traceEndpoints, type ToolCallMeta, type ToolTrace } from './trace';
+
+// Newest first; a client asking for anything else is answered with the newest
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'] as const;
+
+export const SERVER_INFO = { name: 'cognitive-architecture-server', title: 'Cognitive Architecture', version: '1.0.0' };
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface CallToolResult {
+  content: TextContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  _meta?: Record<string, unknown>;
+}
+
+export interface McpSession {
+  protocolVersion: string;
+  clientInfo: { name: string; version: string } | null;
+}
+
+export interface McpServerOptions {
+  context: SwarmContext;
+  tools?: ToolDefinition[];
+  // Served through `prompts/*`; the capability is only advertised when a registry is given
+  prompts?: PromptRegistry;
+  // Outbound channel for server notifications; without one, subscriptions are accepted but silent
+  notify?: (notification: JsonRpcNotification) => void;
+  // Holds state-changing calls for approval; without one every valid call runs
+  approvals?: ApprovalGate;
+  // Receives a trace for every tool call once it has finished, failed calls included
+  trace?: (trace: ToolTrace) => void;
+}
+
+export interface McpServer {
+  // One JSON-RPC message or batch in, the response(s) out; null when nothing needs answering
+  handle: (message: unknown) => Promise<JsonRpcResponse | JsonRpcResponse[] | null>;
+  // Same as `handle` on serialized text, including parse errors; for line and HTTP transports
+  handleText: (text: string) => Promise<string | null>;
+  listTools: () => ToolDescriptor[];
+  // In-process shortcut for the dashboard. Failures inside a tool and denied approvals come
+  // back as `isError` results; unknown tools and invalid arguments throw a JsonRpcError (-32602).
+  callTool: (name: string, args?: Record<string, unknown>, meta?: ToolCallMeta) => Promise<CallToolResult>;
+  getSession: () => McpSession | null;
+  // Stops watching the swarm; call when the client session ends
+  close: () => void;
+}
+
+const initializeParamsSchema = z.object({
+  protocolVersion: z.string(),
+  capabilities: z.record(z.unknown()).default({}),
+  clientInfo: z.object({ name: z.string(), version: z.string() }).passthrough().optional()
+});
+
+const resourceParamsSchema = z.object({ uri: z.string().min(1) });
+
+const getPromptParamsSchema = z.object({
+  name: z.string().min(1),
+  arguments: z.record(z.string()).optional()
+});
+
+const completeParamsSchema = z.object({
+  ref: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('ref/prompt'), name: z.string() }),
+    z.object({ type: z.literal('ref/resource'), uri: z.string() })
+  ]),
+  argument: z.object({ name: z.string(), value: z.string() })
+});
+
+// `completion/complete` returns at most this many values per the spec
+const MAX_COMPLETIONS = 100;
+
+const callToolParamsSchema = z.object({
+  name: z.string().min(1),
+  arguments: z.record(z.unknown()).optional(),
+  _meta: z.record(z.unknown()).optional()
+});
+
+const metaString = (meta: Record<string, unknown> | undefined, key: string) =>
+  typeof meta?.[key] === 'string' ? meta[key] as string : undefined;
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+const parseParams = <S extends z.ZodTypeAny>(schema: S, params: unknown): z.infer<S> => {
+  const result = schema.safeParse(params ?? {});
+  if (!result.success) throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, 'Invalid params', formatIssues(result.error));
+  return result.data;
+};
+
+// Transport-agnostic MCP server; one instance per client session, sharing the swarm context.
+export const createMcpServer = ({ context, tools = SWARM_TOOLS, prompts, notify, approvals, trace }: McpServerOptions): McpServer => {
+  let session: McpSession | null = null;
+  const subscriptions = new Set<string>();
+
+  // Live updates arrive in bursts (replay seeks, batched frames), so changed URIs are
+  // collected and announced once per microtask
+  const pending = new Set<string>();
+  let manifest = context.manifest();
+  let listChanged = false;
+  let scheduled = false;
+
+  const flush = () => {
+    scheduled = false;
+    if (listChanged) notify?.({ jsonrpc: JSONRPC_VERSION, method: 'notifications/resources/list_changed' });
+    pending.forEach(uri => notify?.({ jsonrpc: JSONRPC_VERSION, method: 'notifications/resources/updated', params: { uri } }));
+    pending.clear();
+    listChanged = false;
+  };
+
+  const queue = (componentId: string | null) => {
+    if (componentId === null && context.manifest() !== manifest) {
+      manifest = context.manifest();
+      listChanged = true;
+    }
+    resourcesAffectedBy(context.manifest(), componentId).forEach(uri => {
+      if (subscriptions.has(uri)) pending.add(uri);
+    });
+    if (!scheduled && (listChanged || pending.size > 0)) {
+      scheduled = true;
+      queueMicrotask(flush);
+    }
+  };
+
+  const unwatch = notify
+    ? [
+      context.live.subscribe((_, changedId) => queue(changedId)),
+      context.alerts.subscribe((_, transitions) => transitions.forEach(({ alert }) => queue(alert.componentId))),
+      ...(prompts ? [prompts.subscribe(() => notify({ jsonrpc: JSONRPC_VERSION, method: 'notifications/prompts/list_changed' }))] : [])
+    ]
+    : [];
+
+  const findPrompt = (name: string) => {
+    const entry = prompts?.find(name);
+    if (!entry) throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    return activeRevision(entry);
+  };
+
+  const complete = (ref: z.infer<typeof completeParamsSchema>['ref'], argument: { name: string; value: string }) => {
+    const manifest = context.manifest();
+    if (ref.type === 'ref/resource') {
+      // Only the `{id}` of the component and ring templates can be completed
+      const ids = ref.uri === 'swarm://ring/{id}'
+        ? manifest.rings.map(ring => ring.id)
+        : ref.uri === 'swarm://component/{id}' ? manifest.rings.flatMap(ring => ring.components.map(component => component.id)) : [];
+      return ids.filter(id => id.toLowerCase().startsWith(argument.value.toLowerCase()));
+    }
+    const declared = (findPrompt(ref.name).arguments ?? []).find(candidate => candidate.name === argument.name);
+    return declared ? completePromptArgument(declared, argument.value, manifest) : [];
+  };
+
+  const requireResource = (uri: string) => {
+    if (!listResources(context.manifest()).some(resource => resource.uri === uri)) {
+      throw new JsonRpcError(RESOURCE_NOT_FOUND, 'Resource not found', { uri });
+    }
+  };
+
+  const runTool = async (name: string, args: Record<string, unknown>): Promise<CallToolResult> => {
+    const tool = findTool(name, tools);
+    if (!tool) throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    let input = tool.input.safeParse(args);
+    if (!input.success) {
+      throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, `Invalid arguments for ${name}`, formatIssues(input.error));
+    }
+
+    if (approvals) {
+      const verdict = await approvals.review(describeTool(tool), input.data);
+      // A denial is the model's to read and work around, like any other tool failure
+      if (verdict.status === 'denied') return { content: [{ type: 'text', text: `Call to ${name} was not approved: ${verdict.reason}` }], isError: true };
+      input = tool.input.safeParse(verdict.arguments);
+      if (!input.success) {
+        throw new JsonRpcError(JsonRpcErrorCode.InvalidParams, `Invalid arguments for ${name} after review`, formatIssues(input.error));
+      }
+    }
+
+    try {
+      const result = await tool.run(input.data, context);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        structuredContent: result as Record<string, unknown>
+      };
+    } catch (error) {
+      if (error instanceof ToolError) return { content: [{ type: 'text', text: error.message }], isError: true };
+      throw error;
+    }
+  };
+
+  const callTool = async (name: string, args: Record<string, unknown> = {}, meta: ToolCallMeta = {}): Promise<CallToolResult> => {
+    if (!trace) return runTool(name, args);
+    const client = session?.clientInfo ? `${session.clientInfo.name}/${session.clientInfo.version}` : undefined;
+    const caller = meta.caller ?? session?.clientInfo?.name ?? 'dashboard';
+    const id = newTraceId();
+    const startedAt = Date.now();
+    const started = performance.now();
+    const record = (outcome: Pick<ToolTrace, 'result' | 'error'>) => trace({
+      id,
+      parentId: meta.parentId,
+      caller,
+      client,
+      tool: name,
+      arguments: args,
+      ...traceEndpoints(context.manifest(), caller, args),
+      startedAt,
+      durationMs: performance.now() - started,
+      ...outcome
+    });
+
+    try {
+      const result = await runTool(name, args);
+      record({ result });
+      return { ...result, _meta: { [TRACE_META.trace]: id } };
+    } catch (error) {
+      record({ error: describeFailure(error) });
+      throw error;
+    }
+  };
+
+  const methods: Record<string, (params: Record<string, unknown> | undefined) => unknown> = {
+    initialize: (params) => {
+      const { protocolVersion, clientInfo } = parseParams(initializeParamsSchema, params);
+      const supported = (MCP_PROTOCOL_VERSIONS as readonly string[]).includes(protocolVersion);
+      session = {
+        protocolVersion: supported ? protocolVersion : MCP_PROTOCOL_VERSIONS[0],
+        clientInfo: clientInfo ? { name: clientInfo.name, version: clientInfo.version } : null
+      };
+      return {
+        protocolVersion: session.protocolVersion,
+        capabilities: {
+          tools: { listChanged: false },
+          resources: { subscribe: true, listChanged: true },
+          completions: {},
+          ...(prompts ? { prompts: { listChanged: true } } : {})
+        },
+        serverInfo: SERVER_INFO,
+        instructions: `Tools answer from the live state of the "${context.manifest().name}" swarm as the dashboard sees it.`
+      };
+    },
+    ping: () => ({}),
+    'tools/list': () => ({ tools: tools.map(describeTool) }),
+    'tools/call': (params) => {
+      const { name, arguments: args, _meta: meta } = parseParams(callToolParamsSchema, params);
+      return callTool(name, args, { caller: metaString(meta, TRACE_META.caller), parentId: metaString(meta, TRACE_META.parent) });
+    },
+    'resources/list': () => ({ resources: listResources(context.manifest()) }),
+    'resources/templates/list': () => ({ resourceTemplates: RESOURCE_TEMPLATES }),
+    'resources/read': (params) => ({ contents: [readResource(context, parseParams(resourceParamsSchema, params).uri)] }),
+    'resources/subscribe': (params) => {
+      const { uri } = parseParams(resourceParamsSchema, params);
+      requireResource(uri);
+      subscriptions.add(uri);
+      return {};
+    },
+    'resources/unsubscribe': (params) => {
+      subscriptions.delete(parseParams(resourceParamsSchema, params).uri);
+      return {};
+    },
+    'prompts/list': () => ({
+      prompts: (prompts?.getSnapshot().prompts ?? []).map(entry => {
+        const revision = activeRevision(entry);
+        return {
+          name: entry.name,
+          title: revision.title,
+          description: revision.description,
+          arguments: (revision.arguments ?? []).map(({ name, description, required }) => ({ name, description, required }))
+        };
+      })
+    }),
+    'prompts/get': (params) => {
+      const { name, arguments: values = {} } = parseParams(getPromptParamsSchema, params);
+      return renderPrompt(findPrompt(name), values, context);
+    },
+    'completion/complete': (params) => {
+      const { ref, argument } = parseParams(completeParamsSchema, params);
+      const values = complete(ref, { name: argument.name, value: argument.value });
+      return { completion: { values: values.slice(0, MAX_COMPLETIONS), total: values.length, hasMore: values.length > MAX_COMPLETIONS } };
+    }
+  };
+
+  const dispatch = async (call: JsonRpcRequest | JsonRpcNotification): Promise<JsonRpcResponse | null> => {
+    // Own properties only, so `toString` and friends are not callable methods
+    const method = Object.prototype.hasOwnProperty.call(methods, call.method) ? methods[call.method] : undefined;
+    // Notifications (initialized, cancelled, ...) need no answer; unknown ones are ignored per spec
+    if (!isRequest(call)) return null;
+    if (!method) return failure(call.id, JsonRpcErrorCode.MethodNotFound, `Method not found: ${call.method}`);
+
+    try {
+      return success(call.id, await method(call.params));
+    } catch (error) {
+      if (error instanceof JsonRpcError) return failure(call.id, error.code, error.message, error.data);
+      console.error(`MCP ${call.method} failed:`, error);
+      return failure(call.id, JsonRpcErrorCode.InternalError, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleOne = async (message: unknown): Promise<JsonRpcResponse | null> => {
+    const parsed = jsonRpcCallSchema.safeParse(message);
+    if (!parsed.success) {
+      // Responses to server-initiated requests are not an error; there is nothing to do with them yet
+      if (jsonRpcResponseSchema.safeParse(message).success) return null;
+      const id = (message as { id?: unknown } | null)?.id;
+      return failure(typeof id === 'string' || typeof id === 'number' ? id : null, JsonRpcErrorCode.InvalidRequest, 'Invalid request', formatIssues(parsed.error));
+    }
+    const { id, method, params } = parsed.data;
+    return dispatch(id === undefined ? { jsonrpc: JSONRPC_VERSION, method, params } : { jsonrpc: JSONRPC_VERSION, id, method, params });
+  };
+
+  const handle = async (message: unknown) => {
+    if (!Array.isArray(message)) return handleOne(message);
+    if (message.length === 0) return failure(null, JsonRpcErrorCode.InvalidRequest, 'Empty batch');
+    const responses = (await Promise.all(message.map(handleOne))).filter((response): response is JsonRpcResponse => response !== null);
+    return responses.length > 0 ? responses : null;
+  };
+
+  return {
+    handle,
+    handleText: async (text) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(text);
+      } catch (error) {
+        return JSON.stringify(failure(null, JsonRpcErrorCode.ParseError, error instanceof Error ? error.message : 'Parse error'));
+      }
+      const response = await handle(message);
+      return response === null ? null : JSON.stringify(response);
+    },
+    listTools: () => tools.map(describeTool),
+    callTool,
+    getSession: () => session,
+    close: () => {
+      unwatch.forEach(stop => stop());
+      subscriptions.clear();
+    }
+  };
+};
@@ -0,0 +1,260 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { buildInterplayGraph, buildNameIndex, resolveComponentRef } from '../swarm/interplay';
+import { METRIC_KEYS, METRIC_WINDOWS } from '../swarm/metrics-history';
+import type { ComponentData, RingData, SwarmManifest } from '../swarm/schema';
+import type { SwarmContext } from './context';
+import { activeAlerts, componentInterplay, componentSnapshot, locate, round, seriesStats, type ComponentSnapshot } from './views';
+
+// MCP tool annotations; hints for clients, never enforced by the server
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface ToolDefinition {
+  name: string;
+  title: string;
+  description: string;
+  input: z.ZodTypeAny;
+  annotations: ToolAnnotations;
+  run: (input: unknown, context: SwarmContext) => unknown;
+}
+
+// The shape `tools/list` returns for each tool
+export interface ToolDescriptor {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  annotations: ToolAnnotations;
+}
+
+// A failure the caller can act on (unknown component, unsupported action). It is reported as
+// a tool result with `isError` rather than a protocol error, so the model gets to see it.
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+const defineTool = <S extends z.ZodTypeAny>(tool: Omit<ToolDefinition, 'input' | 'run'> & {
+  input: S;
+  run: (input: z.infer<S>, context: SwarmContext) => unknown;
+}): ToolDefinition => tool as ToolDefinition;
+
+// Points below the claimed performance before a component counts as underperforming
+const UNDERPERFORMANCE_MARGIN = 5;
+const ELEVATED_ERROR_RATE = 0.05;
+
+type Target =
+  | { kind: 'swarm' }
+  | { kind: 'ring'; ring: RingData }
+  | { kind: 'component'; component: ComponentData; ring: RingData };
+
+// Accepts component ids, names and aliases, ring ids and names, or nothing for the whole swarm
+const resolveTarget = (manifest: SwarmManifest, ref: string | undefined): Target => {
+  if (!ref || ref === 'all') return { kind: 'swarm' };
+  const ring = manifest.rings.find(candidate => candidate.id === ref || candidate.name === ref);
+  if (ring) return { kind: 'ring', ring };
+  const id = resolveComponentRef(ref, buildNameIndex(manifest));
+  if (id === manifest.nucleus.id) return { kind: 'swarm' };
+  const located = id ? locate(manifest, id) : null;
+  if (!located) throw new ToolError(`Unknown component or ring "${ref}"`);
+  return { kind: 'component', ...located };
+};
+
+const metricTrends = (context: SwarmContext, id: string, windowMs: number) =>
+  Object.fromEntries(METRIC_KEYS.map(metric => [metric, seriesStats(context, id, metric, windowMs)]));
+
+// Points the live performance trails the manifest claim by; 0 when either is unknown
+const shortfall = (entry: ComponentSnapshot) =>
+  entry.performance === null || entry.claimedPerformance === null ? 0 : entry.claimedPerformance - entry.performance;
+
+const isUnderperforming = (entry: ComponentSnapshot) => shortfall(entry) > UNDERPERFORMANCE_MARGIN;
+
+const componentInsights = (entry: ComponentSnapshot, alertCount: number) => {
+  const insights: string[] = [];
+  if (!entry.lastUpdated) insights.push(`${entry.name} has not reported since the manifest was loaded; values are its manifest claims`);
+  if (isUnderperforming(entry)) {
+    insights.push(`${entry.name} runs at ${entry.performance}%, ${round(shortfall(entry), 1)} points below its claimed ${entry.claimedPerformance}%`);
+  }
+  if (entry.errorRate !== null && entry.errorRate > ELEVATED_ERROR_RATE) {
+    insights.push(`Error rate is elevated at ${round(entry.errorRate * 100, 1)}%`);
+  }
+  if (entry.status === 'idle') insights.push(`${entry.name} is idle`);
+  if (alertCount > 0) insights.push(`${alertCount} active alert${alertCount === 1 ? '' : 's'}`);
+  if (insights.length === 0) insights.push(`${entry.name} is operating within its claims`);
+  return insights;
+};
+
+const componentsIn = (manifest: SwarmManifest, target: Target) => {
+  const rings = target.kind === 'ring' ? [target.ring] : manifest.rings;
+  return rings.flatMap(ring => ring.components.map(component => ({ component, ring })));
+};
+
+const average = (values: number[]) =>
+  values.length === 0 ? null : round(values.reduce((sum, value) => sum + value, 0) / values.length, 1);
+
+const cognitiveAnalyzer = defineTool({
+  name: 'cognitive_analyzer',
+  title: 'Cognitive analyzer',
+  description: 'Analyzes a component, a ring or the whole swarm from live state: status, performance against manifest claims, active alerts and, at greater depth, interplay and metric trends.',
+  input: z.object({
+    target: z.string().optional().describe('Component id, name or alias, or a ring id; omit for the whole swarm'),
+    depth: z.enum(['surface', 'deep', 'comprehensive']).default('surface')
+      .describe('surface: current state; deep: adds interplay or per-component detail; comprehensive: adds metric trends over the last hour')
+  }).strict(),
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  run: ({ target, depth }, context) => {
+    const manifest = context.manifest();
+    const resolved = resolveTarget(manifest, target);
+
+    if (resolved.kind === 'component') {
+      const entry = componentSnapshot(context, resolved.component, resolved.ring);
+      const alerts = activeAlerts(context, entry.id);
+      const analysis: Record<string, unknown> = { target: entry.id, depth, component: entry, alerts, insights: componentInsights(entry, alerts.length) };
+      if (depth !== 'surface') {
+        analysis.interplay = componentInterplay(buildInterplayGraph(manifest), entry.id);
+      }
+      if (depth === 'comprehensive') analysis.trends = metricTrends(context, entry.id, METRIC_WINDOWS['1h']);
+      return analysis;
+    }
+
+    const entries = componentsIn(manifest, resolved).map(({ component, ring }) => componentSnapshot(context, component, ring));
+    const alerts = activeAlerts(context).filter(alert => entries.some(entry => entry.id === alert.componentId));
+    const underperforming = entries.filter(isUnderperforming).map(entry => entry.id);
+    const byStatus: Record<string, number> = {};
+    entries.forEach(entry => {
+      const key = entry.status ?? 'unknown';
+      byStatus[key] = (byStatus[key] ?? 0) + 1;
+    });
+    const reporting = entries.filter(entry => entry.lastUpdated).length;
+
+    const insights = [
+      `${reporting} of ${entries.length} components have reported live metrics`,
+      underperforming.length > 0
+        ? `${underperforming.length} underperforming against their claims: ${underperforming.join(', ')}`
+        : `No component is more than ${UNDERPERFORMANCE_MARGIN} points below its claimed performance`,
+      alerts.length > 0 ? `${alerts.length} active alert${alerts.length === 1 ? '' : 's'}` : 'No active alerts'
+    ];
+    const analysis: Record<string, unknown> = {
+      target: resolved.kind === 'ring' ? resolved.ring.id : manifest.name,
+      depth,
+      summary: {
+        components: entries.length,
+        byStatus,
+        averagePerformance: average(entries.flatMap(entry => entry.performance ?? [])),
+        underperforming
+      },
+      alerts,
+      insights
+    };
+    if (depth !== 'surface') analysis.components = entries;
+    if (depth === 'comprehensive') {
+      analysis.trends = Object.fromEntries(entries.map(entry => [entry.id, seriesStats(context, entry.id, 'performance', METRIC_WINDOWS['1h'])]));
+    }
+    return analysis;
+  }
+});
+
+const performanceMonitor = defineTool({
+  name: 'performance_monitor',
+  title: 'Performance monitor',
+  description: 'Reports live metrics (performance, efficiency, throughput, error rate) with min/max/mean over a time window, for one component or ranked across the swarm.',
+  input: z.object({
+    component: z.string().optional().describe('Component id, name or alias, or a ring id; omit for every component'),
+    timeframe: z.enum(Object.keys(METRIC_WINDOWS) as [keyof typeof METRIC_WINDOWS, ...(keyof typeof METRIC_WINDOWS)[]]).default('15m')
+      .describe('Window of recorded history to summarize')
+  }).strict(),
+  annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+  run: ({ component, timeframe }, context) => {
+    const manifest = context.manifest();
+    const resolved = resolveTarget(manifest, component);
+    const windowMs = METRIC_WINDOWS[timeframe];
+
+    if (resolved.kind === 'component') {
+      const entry = componentSnapshot(context, resolved.component, resolved.ring);
+      return { timeframe, component: entry, metrics: metricTrends(context, entry.id, windowMs), alerts: activeAlerts(context, entry.id) };
+    }
+
+    const ranked = componentsIn(manifest, resolved)
+      .map(({ component: data, ring }) => {
+        const entry = componentSnapshot(context, data, ring);
+        return {
+          id: entry.id,
+          ring: entry.ring,
+          status: entry.status,
+          performance: entry.performance,
+          claimedPerformance: entry.claimedPerformance,
+          errorRate: entry.errorRate,
+          trend: seriesStats(context, entry.id, 'performance', windowMs)
+        };
+      })
+      .sort((a, b) => (a.performance ?? Infinity) - (b.performance ?? Infinity));
+
+    return {
+      timeframe,
+      scope: resolved.kind === 'ring' ? resolved.ring.id : manifest.name,
+      averagePerformance: average(ranked.flatMap(entry => entry.performance ?? [])),
+      components: ranked,
+      alerts: activeAlerts(context).filter(alert => ranked.some(entry => entry.id === alert.componentId))
+    };
+  }
+});
+
+const integrationManager = defineTool({
+  name: 'integration_manager',
+  title: 'Integration manager',
+  description: 'Lists the integrations the swarm depends on (such as the live stream) with their state, and connects or disconnects one by name.',
+  input: z.object({
+    action: z.enum(['status', 'connect', 'disconnect']).default('status'),
+    platform: z.string().optional().describe('Integration name; required for connect and disconnect')
+  }).strict(),
+  // `disconnect` cuts the swarm off from live data; the default policy narrows `status` and `connect`
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  run: ({ action, platform }, context) => {
+    const integrations = context.integrations();
+    const find = (name: string) => {
+      const integration = integrations.find(candidate => candidate.status().name === name);
+      if (!integration) {
+        const known = integrations.map(candidate => candidate.status().name);
+        throw new ToolError(`Unknown integration "${name}"${known.length > 0 ? `; available: ${known.join(', ')}` : ''}`);
+      }
+      return integration;
+    };
+
+    if (action === 'status') {
+      return { integrations: (platform ? [find(platform)] : integrations).map(integration => integration.status()) };
+    }
+
+    if (!platform) throw new ToolError(`"platform" is required to ${action}`);
+    const integration = find(platform);
+    const perform = action === 'connect' ? integration.connect : integration.disconnect;
+    if (!perform) throw new ToolError(`${platform} does not support ${action}`);
+    perform();
+    return { action, integration: integration.status() };
+  }
+});
+
+export const SWARM_TOOLS: ToolDefinition[] = [cognitiveAnalyzer, performanceMonitor, integrationManager];
+
+export const findTool = (name: string, tools: ToolDefinition[] = SWARM_TOOLS) => tools.find(tool => tool.name === name);
+
+// JSON Schema for `tools/list`, inlined so clients need no $ref resolution
+export const toolInputSchema = (tool: ToolDefinition): Record<string, unknown> => {
+  const { $schema: _schema, ...schema } = zodToJsonSchema(tool.input, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return schema;
+};
+
+export const describeTool = (tool: ToolDefinition): ToolDescriptor => ({
+  name: tool.name,
+  title: tool.title,
+  description: tool.description,
+  inputSchema: toolInputSchema(tool),
+  annotations: tool.annotations
+});
@@ -0,0 +1,122 @@
+import { buildNameIndex, resolveComponentRef } from '../swarm/interplay';
+import type { SwarmManifest } from '../swarm/schema';
+import { JsonRpcError, JsonRpcErrorCode } from './jsonrpc';
+import type { CallToolResult } from './server';
+
+// `_meta` keys on `tools/call`: callers name themselves and the call that led to this one, and
+// results carry the new trace's id so it can be passed on as the next call's parent
+export const TRACE_META = {
+  caller: 'swarm/caller',
+  parent: 'swarm/parentTraceId',
+  trace: 'swarm/traceId'
+} as const;
+
+export interface ToolCallMeta {
+  // Agent or client making the call; a component id, name or alias puts it on the map
+  caller?: string;
+  parentId?: string;
+}
+
+export interface TraceFailure {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface ToolTrace {
+  id: string;
+  parentId?: string;
+  caller: string;
+  // MCP client that carried the call, as `name/version`
+  client?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  // Components the call came from and is about, when they resolve against the manifest
+  source?: string;
+  subject?: string;
+  startedAt: number;
+  durationMs: number;
+  // Exactly one of these is set, as in the tool console's history
+  result?: CallToolResult;
+  error?: TraceFailure;
+}
+
+export const newTraceId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const describeFailure = (error: unknown): TraceFailure =>
+  error instanceof JsonRpcError
+    ? { code: error.code, message: error.message, data: error.data }
+    : { code: JsonRpcErrorCode.InternalError, message: error instanceof Error ? error.message : String(error) };
+
+// The first argument naming a component (or the nucleus) is what the call is about
+export const traceEndpoints = (manifest: SwarmManifest, caller: string, args: Record<string, unknown>) => {
+  const index = buildNameIndex(manifest);
+  const subject = Object.values(args)
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => resolveComponentRef(value, index))
+    .find(id => id !== null);
+  return { source: resolveComponentRef(caller, index) ?? undefined, subject: subject ?? undefined };
+};
+
+export const traceFailed = (trace: ToolTrace) => trace.error !== undefined || trace.result?.isError === true;
+
+export interface TraceLog {
+  // Newest first
+  getSnapshot: () => ToolTrace[];
+  subscribe: (listener: () => void) => () => void;
+  record: (trace: ToolTrace) => void;
+  clear: () => void;
+}
+
+// Keeps the most recent traces for the audit log and the call pulses on the map.
+export const createTraceLog = (limit = 1000): TraceLog => {
+  let traces: ToolTrace[] = [];
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  return {
+    getSnapshot: () => traces,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    record: (trace) => {
+      traces = [trace, ...traces].slice(0, limit);
+      emit();
+    },
+    clear: () => {
+      traces = [];
+      emit();
+    }
+  };
+};
+
+// Whitespace-separated terms, all of which must appear in the trace's ids, caller, tool,
+// components, arguments or outcome
+export const searchTraces = (traces: ToolTrace[], query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return traces;
+  return traces.filter(trace => {
+    const haystack = [
+      trace.id,
+      trace.parentId,
+      trace.caller,
+      trace.client,
+      trace.tool,
+      trace.source,
+      trace.subject,
+      JSON.stringify(trace.arguments),
+      trace.error?.message,
+      trace.result?.content.map(item => item.text).join('\n'),
+      traceFailed(trace) ? 'failed' : 'ok'
+    ].filter(Boolean).join('\n').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+// Oldest first, one trace per line
+export const toJsonLines = (traces: ToolTrace[]) =>
+  traces.slice().reverse().map(trace => `${JSON.stringify(trace)}\n`).join('');
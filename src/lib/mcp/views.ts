@@ -0,0 +1,73 @@
+import type { Alert } from '../swarm/alerts';
+import { edgesForComponent, type InterplayGraph } from '../swarm/interplay';
+import type { MetricKey } from '../swarm/metrics-history';
+import type { ComponentData, RingData, SwarmManifest } from '../swarm/schema';
+import type { SwarmContext } from './context';
+
+// Read-only views of the swarm shared by tools and resources
+
+export const locate = (manifest: SwarmManifest, id: string) => {
+  for (const ring of manifest.rings) {
+    const component = ring.components.find(candidate => candidate.id === id);
+    if (component) return { component, ring };
+  }
+  return null;
+};
+
+export const activeAlerts = (context: SwarmContext, componentId?: string) =>
+  context.alerts.getSnapshot().alerts
+    .filter(alert => alert.status !== 'resolved' && (!componentId || alert.componentId === componentId))
+    .map(({ ruleName, componentId: id, severity, status, value, threshold, firedAt }: Alert) => ({
+      rule: ruleName,
+      componentId: id,
+      severity,
+      status,
+      value,
+      threshold,
+      firedAt: new Date(firedAt).toISOString()
+    }));
+
+export const componentSnapshot = (context: SwarmContext, component: ComponentData, ring: RingData) => {
+  const live = context.live.get(component.id) ?? {};
+  return {
+    id: component.id,
+    name: component.name,
+    ring: ring.id,
+    role: component.role ?? null,
+    status: live.status ?? component.status ?? null,
+    performance: live.performance ?? null,
+    claimedPerformance: component.performance ?? null,
+    efficiency: live.efficiency ?? null,
+    throughput: live.throughput ?? null,
+    errorRate: live.errorRate ?? null,
+    latencyMs: live.latencyMs ?? null,
+    lastUpdated: live.lastUpdated ? new Date(live.lastUpdated).toISOString() : null
+  };
+};
+
+export type ComponentSnapshot = ReturnType<typeof componentSnapshot>;
+
+export const componentInterplay = (graph: InterplayGraph, id: string) =>
+  edgesForComponent(graph, id).map(({ edge, peer, outbound }) => ({
+    peer,
+    relation: edge.relation,
+    direction: edge.direction === 'bidirectional' ? 'both' : outbound ? 'outbound' : 'inbound',
+    protocol: edge.protocol ?? null,
+    description: edge.description ?? null
+  }));
+
+export const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+export const seriesStats = (context: SwarmContext, id: string, metric: MetricKey, windowMs: number) => {
+  const points = context.history.series(id, metric, windowMs);
+  if (points.length === 0) return null;
+  const values = points.map(point => point.v);
+  return {
+    samples: points.length,
+    min: round(Math.min(...values)),
+    max: round(Math.max(...values)),
+    mean: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+    latest: round(values[values.length - 1]),
+    change: round(values[values.length - 1] - values[0])
+  };
+};
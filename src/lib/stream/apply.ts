@@ -0,0 +1,24 @@
+import type { LiveStore } from '../swarm/live-store';
+import type { MetricsHistory } from '../swarm/metrics-history';
+import type { StreamMessage } from './protocol';
+
+export interface LiveStores {
+  live: LiveStore;
+  history: MetricsHistory;
+}
+
+// Applies the parts of a message that describe component state; shared by the dashboard
+// and headless consumers such as the MCP server. Returns whether the stores were touched.
+export const applyStreamMessage = (message: StreamMessage, { live, history }: LiveStores, receivedAt = Date.now()) => {
+  switch (message.type) {
+    case 'performance_update':
+      live.update(message.componentId, { performance: message.performance, ...message.updates }, receivedAt);
+      history.record(message.componentId, { performance: message.performance, ...message.updates }, receivedAt);
+      return true;
+    case 'status_change':
+      live.update(message.componentId, { status: message.status }, receivedAt);
+      return true;
+    default:
+      return false;
+  }
+};
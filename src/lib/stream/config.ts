@@ -0,0 +1,41 @@
+import { isTransportKind, type TransportKind } from './transports';
+
+export const DEFAULT_STREAM_URL = 'wss://api.lovable.dev/cognitive-stream';
+export const DEFAULT_TRANSPORT: TransportKind = 'websocket';
+
+export const STREAM_URL_PARAM = 'stream';
+export const STREAM_TRANSPORT_PARAM = 'transport';
+
+export interface StreamConfig {
+  transport: TransportKind;
+  url: string;
+  // Where each value came from, for the connection badge and debugging
+  source: 'default' | 'env' | 'url';
+}
+
+interface StreamEnv {
+  VITE_STREAM_URL?: string;
+  VITE_STREAM_TRANSPORT?: string;
+}
+
+const readTransport = (value: string | null | undefined, origin: string) => {
+  if (!value) return null;
+  if (isTransportKind(value)) return value;
+  console.warn(`Ignoring unknown stream transport "${value}" from ${origin}`);
+  return null;
+};
+
+// Precedence: `?transport=` / `?stream=` query params, then VITE_STREAM_* env vars, then defaults.
+export const resolveStreamConfig = (search: string, env: StreamEnv): StreamConfig => {
+  const params = new URLSearchParams(search);
+  const urlTransport = readTransport(params.get(STREAM_TRANSPORT_PARAM), 'URL');
+  const urlEndpoint = params.get(STREAM_URL_PARAM);
+  const envTransport = readTransport(env.VITE_STREAM_TRANSPORT, 'VITE_STREAM_TRANSPORT');
+  const envEndpoint = env.VITE_STREAM_URL;
+
+  return {
+    transport: urlTransport ?? envTransport ?? DEFAULT_TRANSPORT,
+    url: urlEndpoint || envEndpoint || DEFAULT_STREAM_URL,
+    source: urlTransport || urlEndpoint ? 'url' : envTransport || envEndpoint ? 'env' : 'default'
+  };
+};
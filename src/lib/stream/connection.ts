@@ -0,0 +1,259 @@
+import { PROTOCOL_VERSION, type ClientMessage } from './protocol';
+import type { StreamTransport, TransportFactory } from './transports/types';
+import { createWebSocketTransport } from './transports/websocket';
+
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'stale' | 'reconnecting' | 'failed';
+
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Fraction of the delay randomly added or removed so clients do not reconnect in lockstep
+  jitter: number;
+  // Consecutive failed attempts before giving up and entering `failed`
+  maxAttempts: number;
+}
+
+export interface HeartbeatOptions {
+  intervalMs: number;
+  // No inbound frame for this long marks the connection `stale`
+  staleAfterMs: number;
+  // No inbound frame for this long treats the socket as half-open and reconnects
+  timeoutMs: number;
+}
+
+export interface ConnectionStats {
+  attempts: number;
+  lastSeq: number | null;
+  // The server's stream that `lastSeq` belongs to, when it says
+  streamId: string | null;
+  // Times the server started its sequence over, after which `lastSeq` was reset
+  restarts: number;
+  gaps: number;
+  duplicates: number;
+  lastFrameAt: number | null;
+  nextRetryAt: number | null;
+}
+
+export interface StreamConnectionOptions {
+  url: string;
+  onFrame: (frame: unknown) => void;
+  onStateChange?: (state: ConnectionState, stats: ConnectionStats) => void;
+  backoff?: Partial<BackoffOptions>;
+  heartbeat?: Partial<HeartbeatOptions>;
+  // Defaults to WebSocket; see `./transports` for SSE and long-poll
+  transport?: TransportFactory;
+}
+
+export interface StreamConnection {
+  start: () => void;
+  stop: () => void;
+  reconnectNow: () => void;
+  getState: () => ConnectionState;
+  getStats: () => ConnectionStats;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.3,
+  maxAttempts: 10
+};
+
+export const DEFAULT_HEARTBEAT: HeartbeatOptions = {
+  intervalMs: 10000,
+  staleAfterMs: 20000,
+  timeoutMs: 45000
+};
+
+export const backoffDelay = (attempt: number, options: BackoffOptions, random = Math.random) => {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * options.multiplier ** attempt);
+  const spread = base * options.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+};
+
+const readSeq = (frame: unknown) =>
+  frame && typeof frame === 'object' && 'seq' in frame && typeof frame.seq === 'number' ? frame.seq : null;
+
+const readStreamId = (frame: unknown) =>
+  frame && typeof frame === 'object' && 'streamId' in frame && typeof frame.streamId === 'string' ? frame.streamId : null;
+
+export const createStreamConnection = (options: StreamConnectionOptions): StreamConnection => {
+  const backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
+  const heartbeat = { ...DEFAULT_HEARTBEAT, ...options.heartbeat };
+  const createTransport = options.transport ?? createWebSocketTransport();
+
+  let state: ConnectionState = 'idle';
+  let transport: StreamTransport | null = null;
+  let transportOpen = false;
+  let stopped = true;
+  let hasOpened = false;
+  // Until the first sequenced frame on a new transport arrives
+  let awaitingSeq = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  const stats: ConnectionStats = {
+    attempts: 0,
+    lastSeq: null,
+    streamId: null,
+    restarts: 0,
+    gaps: 0,
+    duplicates: 0,
+    lastFrameAt: null,
+    nextRetryAt: null
+  };
+
+  const setState = (next: ConnectionState) => {
+    if (next === state) return;
+    state = next;
+    options.onStateChange?.(state, { ...stats });
+  };
+
+  const send = (message: ClientMessage) => {
+    if (transportOpen) transport?.send(message);
+  };
+
+  const clearTimers = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    retryTimer = null;
+    heartbeatTimer = null;
+  };
+
+  const dropTransport = () => {
+    transportOpen = false;
+    transport?.close();
+    transport = null;
+  };
+
+  const scheduleReconnect = () => {
+    clearTimers();
+    dropTransport();
+    if (stopped) return;
+
+    if (stats.attempts >= backoff.maxAttempts) {
+      stats.nextRetryAt = null;
+      setState('failed');
+      return;
+    }
+
+    const delay = backoffDelay(stats.attempts, backoff);
+    stats.nextRetryAt = Date.now() + delay;
+    setState('reconnecting');
+    retryTimer = setTimeout(connect, delay);
+  };
+
+  // Pings keep intermediaries from idling the socket out; silence beyond the timeout means half-open
+  const checkHeartbeat = () => {
+    const silentFor = Date.now() - (stats.lastFrameAt ?? 0);
+    if (silentFor >= heartbeat.timeoutMs) {
+      scheduleReconnect();
+      return;
+    }
+    if (silentFor >= heartbeat.staleAfterMs) setState('stale');
+    send({ v: PROTOCOL_VERSION, type: 'ping', ts: Date.now() });
+  };
+
+  const restart = () => {
+    stats.lastSeq = null;
+    stats.restarts += 1;
+  };
+
+  const handleFrame = (data: unknown) => {
+    stats.lastFrameAt = Date.now();
+    if (state === 'stale') setState('open');
+
+    let frame: unknown = data;
+    if (typeof data === 'string') {
+      try {
+        frame = JSON.parse(data);
+      } catch {
+        // Leave malformed frames as text so the protocol layer can reject them
+      }
+    }
+
+    const seq = readSeq(frame);
+    const streamId = readStreamId(frame);
+    if (streamId !== null && streamId !== stats.streamId) {
+      // A new stream numbers its frames from the start; the old lastSeq would drop them all
+      if (stats.streamId !== null) restart();
+      stats.streamId = streamId;
+    } else if (streamId === null && seq !== null && awaitingSeq && stats.lastSeq !== null && seq < stats.lastSeq) {
+      // Servers that do not name their stream answer a resume with frames after lastSeq, so a
+      // lower first frame means the server started over
+      restart();
+    }
+    if (seq !== null) {
+      awaitingSeq = false;
+      if (stats.lastSeq !== null && seq <= stats.lastSeq) {
+        // Already applied, typically overlap from a server replay after resume
+        stats.duplicates += 1;
+        return;
+      }
+      if (stats.lastSeq !== null && seq > stats.lastSeq + 1) stats.gaps += 1;
+      stats.lastSeq = seq;
+    }
+
+    options.onFrame(frame);
+  };
+
+  function connect() {
+    clearTimers();
+    dropTransport();
+    stats.attempts += 1;
+    stats.nextRetryAt = null;
+    setState(hasOpened ? 'reconnecting' : 'connecting');
+
+    const current = createTransport(options.url);
+    transport = current;
+    // Handlers check identity so late events from a replaced transport are ignored
+    try {
+      current.connect({
+        onOpen: () => {
+          if (transport !== current) return;
+          hasOpened = true;
+          transportOpen = true;
+          stats.attempts = 0;
+          stats.lastFrameAt = Date.now();
+          awaitingSeq = true;
+          send({ v: PROTOCOL_VERSION, type: 'resume', lastSeq: stats.lastSeq, streamId: stats.streamId });
+          heartbeatTimer = setInterval(checkHeartbeat, heartbeat.intervalMs);
+          setState('open');
+        },
+        onFrame: (data) => {
+          if (transport === current) handleFrame(data);
+        },
+        onClose: () => {
+          if (transport === current) scheduleReconnect();
+        }
+      });
+    } catch (error) {
+      console.error('Stream connection failed:', error);
+      scheduleReconnect();
+    }
+  }
+
+  return {
+    start: () => {
+      if (!stopped) return;
+      stopped = false;
+      stats.attempts = 0;
+      connect();
+    },
+    stop: () => {
+      stopped = true;
+      clearTimers();
+      dropTransport();
+      stats.nextRetryAt = null;
+      setState('idle');
+    },
+    reconnectNow: () => {
+      if (stopped) return;
+      stats.attempts = 0;
+      connect();
+    },
+    getState: () => state,
+    getStats: () => ({ ...stats })
+  };
+};
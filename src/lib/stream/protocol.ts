@@ -0,0 +1,230 @@
+import { z } from 'zod';
+import { alertSeveritySchema, componentStatusSchema, interplayRelationSchema } from '../swarm/schema';
+
+export const PROTOCOL_VERSION = 1;
+
+// Fields every frame may carry; `v` defaults to the current protocol version
+const envelope = {
+  v: z.literal(PROTOCOL_VERSION).default(PROTOCOL_VERSION),
+  seq: z.number().int().nonnegative().optional(),
+  // One run of the server's sequence; `seq` starts over whenever it changes (a server restart)
+  streamId: z.string().min(1).optional(),
+  ts: z.number().optional(),
+  message: z.string().optional()
+};
+
+export const performanceUpdateSchema = z.object({
+  ...envelope,
+  type: z.literal('performance_update'),
+  componentId: z.string().min(1),
+  performance: z.number().min(0).max(100),
+  updates: z.object({
+    efficiency: z.number().min(0).max(100).optional(),
+    throughput: z.number().nonnegative().optional(),
+    errorRate: z.number().min(0).max(1).optional()
+  }).optional()
+});
+
+export const statusChangeSchema = z.object({
+  ...envelope,
+  type: z.literal('status_change'),
+  componentId: z.string().min(1),
+  status: componentStatusSchema
+});
+
+export const cognitiveAnalysisSchema = z.object({
+  ...envelope,
+  type: z.literal('cognitive_analysis'),
+  analysis: z.object({
+    status: z.string(),
+    insights: z.array(z.string()).optional()
+  }).passthrough()
+});
+
+// Usage of one model call, as the Messages API reports it; the cache fields are counted
+// separately from `input_tokens`. Frames without `sessionId` belong to the dashboard's session.
+export const tokenUpdateSchema = z.object({
+  ...envelope,
+  type: z.literal('token_update'),
+  componentId: z.string().min(1).optional(),
+  model: z.string().optional(),
+  sessionId: z.string().min(1).optional(),
+  input_tokens: z.number().int().nonnegative(),
+  output_tokens: z.number().int().nonnegative(),
+  cache_read_input_tokens: z.number().int().nonnegative().default(0),
+  cache_creation_input_tokens: z.number().int().nonnegative().default(0)
+});
+
+export const contextSliceKindSchema = z.enum(['system', 'tools', 'history', 'resources']);
+
+// One part of a context window and the component that put it there
+export const contextSliceSchema = z.object({
+  kind: contextSliceKindSchema,
+  componentId: z.string().min(1).optional(),
+  label: z.string().optional(),
+  tokens: z.number().int().nonnegative()
+});
+
+// The full composition of one context window, sent whenever it changes. `componentId` owns the
+// window; `limit` overrides the manifest's window size for `model`.
+export const contextUpdateSchema = z.object({
+  ...envelope,
+  type: z.literal('context_update'),
+  componentId: z.string().min(1).optional(),
+  model: z.string().optional(),
+  sessionId: z.string().min(1).optional(),
+  limit: z.number().int().positive().optional(),
+  slices: z.array(contextSliceSchema)
+});
+
+export const heartbeatSchema = z.object({
+  ...envelope,
+  type: z.literal('heartbeat')
+});
+
+export const edgeTrafficSchema = z.object({
+  ...envelope,
+  type: z.literal('edge_traffic'),
+  source: z.string().min(1),
+  target: z.string().min(1),
+  relation: interplayRelationSchema.optional(),
+  count: z.number().int().nonnegative().default(1),
+  latencyMs: z.number().nonnegative().optional()
+});
+
+export const alertSchema = z.object({
+  ...envelope,
+  type: z.literal('alert'),
+  severity: alertSeveritySchema,
+  title: z.string().min(1),
+  componentId: z.string().min(1).optional()
+});
+
+export const streamMessageSchema = z.discriminatedUnion('type', [
+  performanceUpdateSchema,
+  statusChangeSchema,
+  cognitiveAnalysisSchema,
+  tokenUpdateSchema,
+  contextUpdateSchema,
+  heartbeatSchema,
+  edgeTrafficSchema,
+  alertSchema
+]);
+
+export type PerformanceUpdateMessage = z.infer<typeof performanceUpdateSchema>;
+export type StatusChangeMessage = z.infer<typeof statusChangeSchema>;
+export type CognitiveAnalysisMessage = z.infer<typeof cognitiveAnalysisSchema>;
+export type TokenUpdateMessage = z.infer<typeof tokenUpdateSchema>;
+export type ContextSliceKind = z.infer<typeof contextSliceKindSchema>;
+export type ContextSlice = z.infer<typeof contextSliceSchema>;
+export type ContextUpdateMessage = z.infer<typeof contextUpdateSchema>;
+export type HeartbeatMessage = z.infer<typeof heartbeatSchema>;
+export type EdgeTrafficMessage = z.infer<typeof edgeTrafficSchema>;
+export type AlertMessage = z.infer<typeof alertSchema>;
+export type StreamMessage = z.infer<typeof streamMessageSchema>;
+export type StreamMessageType = StreamMessage['type'];
+// What producers send: envelope fields with defaults may be omitted
+export type StreamMessageInput = z.input<typeof streamMessageSchema>;
+
+// Client → server control frames. `resume` carries the last sequence number the client
+// applied so the server can replay anything sent while the socket was down, and the stream
+// it belongs to; a server on another stream replays everything it has instead.
+export const resumeSchema = z.object({
+  v: z.literal(PROTOCOL_VERSION),
+  type: z.literal('resume'),
+  lastSeq: z.number().int().nonnegative().nullable(),
+  streamId: z.string().min(1).nullable().optional()
+});
+
+export const pingSchema = z.object({
+  v: z.literal(PROTOCOL_VERSION),
+  type: z.literal('ping'),
+  ts: z.number()
+});
+
+export const clientMessageSchema = z.discriminatedUnion('type', [resumeSchema, pingSchema]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export type DecodeResult =
+  | { ok: true; message: StreamMessage }
+  | { ok: false; reason: string; issues: string[]; raw: string };
+
+const stringifyFrame = (frame: unknown) => {
+  if (typeof frame === 'string') return frame;
+  try {
+    return JSON.stringify(frame);
+  } catch {
+    return String(frame);
+  }
+};
+
+// Component ids referenced by a message, so they can be checked against the manifest
+const referencedComponents = (message: StreamMessage): string[] => {
+  switch (message.type) {
+    case 'performance_update':
+    case 'status_change':
+      return [message.componentId];
+    case 'token_update':
+    case 'alert':
+      return message.componentId ? [message.componentId] : [];
+    case 'context_update':
+      return [message.componentId, ...message.slices.map(slice => slice.componentId)].filter((id): id is string => Boolean(id));
+    case 'edge_traffic':
+      return [message.source, message.target];
+    default:
+      return [];
+  }
+};
+
+// Parses and validates one inbound frame. `isKnownComponent` rejects messages about
+// ids that are not in the active manifest instead of letting them create state.
+export const decodeStreamMessage = (
+  frame: unknown,
+  isKnownComponent?: (id: string) => boolean
+): DecodeResult => {
+  const raw = stringifyFrame(frame);
+  let data: unknown = frame;
+
+  if (typeof frame === 'string') {
+    try {
+      data = JSON.parse(frame);
+    } catch (error) {
+      return { ok: false, reason: 'Malformed JSON', issues: [error instanceof Error ? error.message : String(error)], raw };
+    }
+  }
+
+  if (data && typeof data === 'object' && 'v' in data && data.v !== PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      reason: 'Unsupported protocol version',
+      issues: [`v: expected ${PROTOCOL_VERSION}, received ${JSON.stringify(data.v)}`],
+      raw
+    };
+  }
+
+  const result = streamMessageSchema.safeParse(data);
+  if (!result.success) {
+    const typeIssue = result.error.issues.find(issue => issue.code === 'invalid_union_discriminator');
+    return {
+      ok: false,
+      reason: typeIssue ? 'Unknown message type' : 'Schema validation failed',
+      issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+      raw
+    };
+  }
+
+  if (isKnownComponent) {
+    const unknown = referencedComponents(result.data).filter(id => !isKnownComponent(id));
+    if (unknown.length > 0) {
+      return {
+        ok: false,
+        reason: 'Unknown component',
+        issues: unknown.map(id => `componentId: "${id}" is not in the active manifest`),
+        raw
+      };
+    }
+  }
+
+  return { ok: true, message: result.data };
+};
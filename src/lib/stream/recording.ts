@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { decodeStreamMessage, type StreamMessage } from './protocol';
+
+export const RECORDING_VERSION = 1;
+
+export interface RecordedEvent {
+  // Milliseconds since the recording started
+  at: number;
+  receivedAt: number;
+  message: StreamMessage;
+}
+
+export interface SessionRecording {
+  version: typeof RECORDING_VERSION;
+  manifest: string;
+  startedAt: number;
+  events: RecordedEvent[];
+}
+
+export class RecordingError extends Error {
+  readonly source: string;
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid session recording (${source}):\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'RecordingError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const recordingFileSchema = z.object({
+  version: z.literal(RECORDING_VERSION),
+  manifest: z.string(),
+  startedAt: z.number(),
+  events: z.array(z.object({
+    at: z.number().nonnegative(),
+    receivedAt: z.number(),
+    message: z.unknown()
+  }))
+});
+
+export const recordingDuration = (recording: SessionRecording) =>
+  recording.events.length === 0 ? 0 : recording.events[recording.events.length - 1].at;
+
+// Index of the first event after `position`; events before it make up the state at that moment
+export const eventIndexAt = (recording: SessionRecording, position: number) => {
+  let low = 0;
+  let high = recording.events.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (recording.events[mid].at <= position) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+export const serializeRecording = (recording: SessionRecording) => JSON.stringify(recording);
+
+// Messages are re-validated on import, so a hand-edited or older file cannot inject bad state
+export const parseRecording = (text: string, source: string, isKnownComponent?: (id: string) => boolean): SessionRecording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new RecordingError(source, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const result = recordingFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new RecordingError(source, result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`));
+  }
+
+  const issues: string[] = [];
+  const events: RecordedEvent[] = [];
+  result.data.events.forEach((event, index) => {
+    const decoded = decodeStreamMessage(event.message, isKnownComponent);
+    if (decoded.ok === false) {
+      issues.push(...decoded.issues.map(issue => `events[${index}]: ${decoded.reason}: ${issue}`));
+    } else {
+      events.push({ at: event.at, receivedAt: event.receivedAt, message: decoded.message });
+    }
+  });
+  if (issues.length > 0) throw new RecordingError(source, issues.slice(0, 20));
+
+  const { manifest, startedAt } = result.data;
+  return { version: RECORDING_VERSION, manifest, startedAt, events: events.sort((a, b) => a.at - b.at) };
+};
+
+export interface SessionRecorder {
+  getSnapshot: () => SessionRecording;
+  subscribe: (listener: () => void) => () => void;
+  record: (message: StreamMessage) => void;
+  clear: (manifest?: string) => void;
+}
+
+// Records every accepted inbound message; the oldest events are dropped past `limit`.
+export const createSessionRecorder = (manifest: string, limit = 50000): SessionRecorder => {
+  let recording: SessionRecording = { version: RECORDING_VERSION, manifest, startedAt: Date.now(), events: [] };
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  return {
+    getSnapshot: () => recording,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    record: (message) => {
+      const receivedAt = Date.now();
+      const events = [...recording.events, { at: receivedAt - recording.startedAt, receivedAt, message }];
+      recording = { ...recording, events: events.length > limit ? events.slice(-limit) : events };
+      emit();
+    },
+    clear: (nextManifest = recording.manifest) => {
+      recording = { version: RECORDING_VERSION, manifest: nextManifest, startedAt: Date.now(), events: [] };
+      emit();
+    }
+  };
+};
@@ -0,0 +1,49 @@
+export interface RejectedFrame {
+  id: number;
+  receivedAt: number;
+  reason: string;
+  issues: string[];
+  raw: string;
+}
+
+export interface RejectedFrameSnapshot {
+  total: number;
+  frames: RejectedFrame[];
+}
+
+export interface RejectedFrameLog {
+  getSnapshot: () => RejectedFrameSnapshot;
+  subscribe: (listener: () => void) => () => void;
+  record: (frame: Omit<RejectedFrame, 'id' | 'receivedAt'>) => void;
+  clear: () => void;
+}
+
+// Keeps a running count of rejected frames plus the most recent ones for inspection.
+export const createRejectedFrameLog = (limit = 50): RejectedFrameLog => {
+  let snapshot: RejectedFrameSnapshot = { total: 0, frames: [] };
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    record: (frame) => {
+      snapshot = {
+        total: snapshot.total + 1,
+        frames: [{ ...frame, id: nextId++, receivedAt: Date.now() }, ...snapshot.frames].slice(0, limit)
+      };
+      emit();
+    },
+    clear: () => {
+      snapshot = { total: 0, frames: [] };
+      emit();
+    }
+  };
+};
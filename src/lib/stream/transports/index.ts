@@ -0,0 +1,23 @@
+import { createLongPollTransport } from './long-poll';
+import { createSseTransport } from './sse';
+import type { TransportFactory, TransportKind } from './types';
+import { createWebSocketTransport } from './websocket';
+
+export type { StreamTransport, TransportFactory, TransportHandlers, TransportKind } from './types';
+export { createLongPollTransport, createSseTransport, createWebSocketTransport };
+
+export const TRANSPORT_KINDS: TransportKind[] = ['websocket', 'sse', 'long-poll'];
+
+export const isTransportKind = (value: string): value is TransportKind =>
+  (TRANSPORT_KINDS as string[]).includes(value);
+
+export const transportFor = (kind: TransportKind): TransportFactory => {
+  switch (kind) {
+    case 'sse':
+      return createSseTransport();
+    case 'long-poll':
+      return createLongPollTransport();
+    default:
+      return createWebSocketTransport();
+  }
+};
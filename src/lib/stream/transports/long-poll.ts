@@ -0,0 +1,88 @@
+import type { StreamTransport, TransportFactory } from './types';
+import { withParams } from './url';
+
+export interface LongPollOptions {
+  // How long the server may hold a poll open; kept below the heartbeat stale threshold
+  waitMs: number;
+}
+
+const DEFAULT_LONG_POLL: LongPollOptions = { waitMs: 15000 };
+
+const readSeq = (frame: unknown) =>
+  frame && typeof frame === 'object' && 'seq' in frame && typeof frame.seq === 'number' ? frame.seq : null;
+
+const readStreamId = (frame: unknown) =>
+  frame && typeof frame === 'object' && 'streamId' in frame && typeof frame.streamId === 'string' ? frame.streamId : null;
+
+// Repeated `GET ?after=<seq>&stream=<id>&wait=<ms>` requests, each answered with a JSON array
+// of frames (a heartbeat when nothing happened). The cursor comes from the `resume` message and
+// advances with every frame, so the server can stay stateless; pings are unnecessary. Frames
+// from a new stream (a restarted server) move the cursor back to their own seq.
+export const createLongPollTransport = (options: Partial<LongPollOptions> = {}): TransportFactory =>
+  (url): StreamTransport => {
+    const { waitMs } = { ...DEFAULT_LONG_POLL, ...options };
+    let cursor: number | null = null;
+    let streamId: string | null = null;
+    let controller: AbortController | null = null;
+    let closed = false;
+
+    const poll = async (handlers: Parameters<StreamTransport['connect']>[0]) => {
+      while (!closed) {
+        controller = new AbortController();
+        let frames: unknown;
+        try {
+          const response = await fetch(
+            withParams(url, {
+              after: cursor === null ? '' : String(cursor),
+              ...(streamId === null ? {} : { stream: streamId }),
+              wait: String(waitMs)
+            }),
+            { headers: { Accept: 'application/json' }, signal: controller.signal }
+          );
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          frames = await response.json();
+        } catch (error) {
+          if (closed) return;
+          closed = true;
+          handlers.onClose(error instanceof Error ? error.message : String(error));
+          return;
+        }
+
+        if (closed) return;
+        (Array.isArray(frames) ? frames : [frames]).forEach(frame => {
+          const seq = readSeq(frame);
+          const frameStream = readStreamId(frame);
+          if (frameStream !== null && frameStream !== streamId) {
+            streamId = frameStream;
+            cursor = seq;
+          } else if (seq !== null && (cursor === null || seq > cursor)) {
+            cursor = seq;
+          }
+          handlers.onFrame(frame);
+        });
+      }
+    };
+
+    return {
+      kind: 'long-poll',
+      connect: (handlers) => {
+        // Open immediately so the connection's `resume` sets the cursor before the first poll
+        queueMicrotask(() => {
+          if (closed) return;
+          handlers.onOpen();
+          poll(handlers);
+        });
+      },
+      send: (message) => {
+        if (message.type === 'resume') {
+          cursor = message.lastSeq;
+          streamId = message.streamId ?? null;
+        }
+      },
+      close: () => {
+        closed = true;
+        controller?.abort();
+        controller = null;
+      }
+    };
+  };
@@ -0,0 +1,46 @@
+import type { StreamTransport, TransportFactory } from './types';
+import { withParams } from './url';
+
+const newSessionId = () =>
+  globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Server → client frames arrive as SSE `message` events. EventSource cannot send, so client
+// messages (resume, ping) are POSTed to the same endpoint, tied to the stream by `session`.
+export const createSseTransport = (EventSourceImpl: typeof EventSource = globalThis.EventSource): TransportFactory =>
+  (url): StreamTransport => {
+    const session = newSessionId();
+    let source: EventSource | null = null;
+    let closed = false;
+
+    const close = () => {
+      closed = true;
+      if (!source) return;
+      source.onopen = source.onmessage = source.onerror = null;
+      source.close();
+      source = null;
+    };
+
+    return {
+      kind: 'sse',
+      connect: (handlers) => {
+        const es = new EventSourceImpl(withParams(url, { session }));
+        source = es;
+        es.onopen = () => handlers.onOpen();
+        es.onmessage = (event) => handlers.onFrame(event.data);
+        // EventSource retries on its own; close it so the stream connection's backoff stays in charge
+        es.onerror = () => {
+          close();
+          handlers.onClose('event stream error');
+        };
+      },
+      send: (message) => {
+        if (closed || !source) return;
+        fetch(withParams(url, { session }), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(message)
+        }).catch(error => console.warn('SSE control message failed:', error));
+      },
+      close
+    };
+  };
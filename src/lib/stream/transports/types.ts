@@ -0,0 +1,21 @@
+import type { ClientMessage } from '../protocol';
+
+export type TransportKind = 'websocket' | 'sse' | 'long-poll';
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  // Raw frame as received; strings are parsed and validated further up the stack
+  onFrame: (data: unknown) => void;
+  onClose: (reason?: string) => void;
+}
+
+// One physical connection attempt. The stream connection creates a fresh transport for
+// every (re)connect, so implementations never reconnect on their own.
+export interface StreamTransport {
+  readonly kind: TransportKind;
+  connect: (handlers: TransportHandlers) => void;
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+export type TransportFactory = (url: string) => StreamTransport;
@@ -0,0 +1,9 @@
+export const toWebSocketUrl = (url: string) => url.replace(/^http(s?):\/\//, 'ws$1://');
+
+export const toHttpUrl = (url: string) => url.replace(/^ws(s?):\/\//, 'http$1://');
+
+export const withParams = (url: string, params: Record<string, string>) => {
+  const target = new URL(toHttpUrl(url), (globalThis as { location?: { href: string } }).location?.href);
+  Object.entries(params).forEach(([key, value]) => target.searchParams.set(key, value));
+  return target.toString();
+};
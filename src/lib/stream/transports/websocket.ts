@@ -0,0 +1,35 @@
+import type { StreamTransport, TransportFactory } from './types';
+import { toWebSocketUrl } from './url';
+
+export const createWebSocketTransport = (WebSocketImpl: typeof WebSocket = globalThis.WebSocket): TransportFactory =>
+  (url): StreamTransport => {
+    let socket: WebSocket | null = null;
+
+    const close = () => {
+      if (!socket) return;
+      socket.onopen = socket.onmessage = socket.onclose = socket.onerror = null;
+      if (socket.readyState === WebSocketImpl.OPEN || socket.readyState === WebSocketImpl.CONNECTING) socket.close();
+      socket = null;
+    };
+
+    return {
+      kind: 'websocket',
+      connect: (handlers) => {
+        const ws = new WebSocketImpl(toWebSocketUrl(url));
+        socket = ws;
+        ws.onopen = () => handlers.onOpen();
+        ws.onmessage = (event) => handlers.onFrame(event.data);
+        ws.onclose = (event) => {
+          socket = null;
+          handlers.onClose(event.reason || `code ${event.code}`);
+        };
+        ws.onerror = () => {
+          // `close` always follows `error`; reconnecting is handled there
+        };
+      },
+      send: (message) => {
+        if (socket?.readyState === WebSocketImpl.OPEN) socket.send(JSON.stringify(message));
+      },
+      close
+    };
+  };
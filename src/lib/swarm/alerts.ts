@@ -0,0 +1,216 @@
+import type { LiveComponentState, LiveStore } from './live-store';
+import type { AlertComparator, AlertRule, AlertSeverity, ComponentData, SwarmManifest } from './schema';
+
+export type AlertStatus = 'firing' | 'acknowledged' | 'resolved';
+
+export interface Alert {
+  // `<ruleId>:<componentId>:<n>`; every new breach after a resolve gets a fresh instance
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  componentId: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  value: number;
+  threshold: number;
+  firedAt: number;
+  acknowledgedAt?: number;
+  resolvedAt?: number;
+}
+
+export interface AlertTransition {
+  alert: Alert;
+  from: AlertStatus | null;
+}
+
+export interface AlertSnapshot {
+  alerts: Alert[];
+  // Highest severity among unresolved alerts, per component
+  severityByComponent: Record<string, AlertSeverity>;
+}
+
+type Listener = (snapshot: AlertSnapshot, transitions: AlertTransition[]) => void;
+
+export interface AlertEngine {
+  getSnapshot: () => AlertSnapshot;
+  subscribe: (listener: Listener) => () => void;
+  // Re-checks one component's rules after its live state changed
+  evaluate: (componentId: string, state: LiveComponentState, now?: number) => void;
+  // Promotes pending breaches whose duration has elapsed without a new update
+  tick: (now?: number) => void;
+  acknowledge: (alertId: string) => void;
+  clearResolved: () => void;
+  reset: (manifest: SwarmManifest) => void;
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export const RESOLVED_HISTORY_LIMIT = 100;
+
+const compare = (value: number, comparator: AlertComparator, threshold: number) => {
+  switch (comparator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    default:
+      return value <= threshold;
+  }
+};
+
+export const ruleAppliesTo = (rule: AlertRule, component: ComponentData, ringId: string) => {
+  const { components = [], rings = [] } = rule.scope ?? {};
+  if (components.length === 0 && rings.length === 0) return true;
+  return components.includes(component.id) || rings.includes(ringId);
+};
+
+// `claimed` thresholds only exist for components that declare the metric in the manifest
+export const resolveThreshold = (rule: AlertRule, component: ComponentData): number | null => {
+  if (rule.threshold !== 'claimed') return rule.threshold + (rule.offset ?? 0);
+  const claimed = rule.metric === 'performance' ? component.performance : undefined;
+  return claimed === undefined ? null : claimed + (rule.offset ?? 0);
+};
+
+interface Binding {
+  rule: AlertRule;
+  threshold: number;
+}
+
+const bindRules = (manifest: SwarmManifest) => {
+  const bindings = new Map<string, Binding[]>();
+  manifest.rings.forEach(ring => ring.components.forEach(component => {
+    const applicable = manifest.alertRules
+      .filter(rule => ruleAppliesTo(rule, component, ring.id))
+      .map(rule => ({ rule, threshold: resolveThreshold(rule, component) }))
+      .filter((binding): binding is Binding => binding.threshold !== null);
+    bindings.set(component.id, applicable);
+  }));
+  return bindings;
+};
+
+export const createAlertEngine = (manifest: SwarmManifest): AlertEngine => {
+  let bindings = bindRules(manifest);
+  // Breach start per `<ruleId>:<componentId>`, with the latest offending value
+  let pending = new Map<string, { since: number; value: number; binding: Binding; componentId: string }>();
+  let active = new Map<string, Alert>();
+  let resolved: Alert[] = [];
+  let counter = 0;
+  let snapshot: AlertSnapshot = { alerts: [], severityByComponent: {} };
+  const listeners = new Set<Listener>();
+
+  const publish = (transitions: AlertTransition[]) => {
+    const open = [...active.values()];
+    const severityByComponent: Record<string, AlertSeverity> = {};
+    open.forEach(alert => {
+      const current = severityByComponent[alert.componentId];
+      if (!current || SEVERITY_RANK[alert.severity] > SEVERITY_RANK[current]) severityByComponent[alert.componentId] = alert.severity;
+    });
+    snapshot = {
+      alerts: [...open.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.firedAt - a.firedAt), ...resolved],
+      severityByComponent
+    };
+    listeners.forEach(listener => listener(snapshot, transitions));
+  };
+
+  const fire = (key: string, now: number, transitions: AlertTransition[]) => {
+    const breach = pending.get(key);
+    const duration = breach?.binding.rule.durationMs ?? 0;
+    if (!breach || active.has(key) || now - breach.since < duration) return;
+    const { rule, threshold } = breach.binding;
+    counter += 1;
+    const alert: Alert = {
+      id: `${key}:${counter}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      componentId: breach.componentId,
+      severity: rule.severity,
+      status: 'firing',
+      value: breach.value,
+      threshold,
+      // When the condition had held long enough, not when a tick noticed: ticks are coarse and
+      // a seeked replay can skip well past that moment
+      firedAt: breach.since + duration
+    };
+    active.set(key, alert);
+    transitions.push({ alert, from: null });
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    evaluate: (componentId, state, now = Date.now()) => {
+      const transitions: AlertTransition[] = [];
+      let changed = false;
+
+      (bindings.get(componentId) ?? []).forEach(binding => {
+        const value = state[binding.rule.metric];
+        if (value === undefined) return;
+        const key = `${binding.rule.id}:${componentId}`;
+
+        if (compare(value, binding.rule.comparator, binding.threshold)) {
+          const breach = pending.get(key);
+          pending.set(key, { since: breach?.since ?? now, value, binding, componentId });
+          const alert = active.get(key);
+          if (alert && alert.value !== value) {
+            active.set(key, { ...alert, value });
+            changed = true;
+          }
+          fire(key, now, transitions);
+        } else {
+          pending.delete(key);
+          const alert = active.get(key);
+          if (alert) {
+            const resolvedAlert: Alert = { ...alert, status: 'resolved', value, resolvedAt: now };
+            active.delete(key);
+            resolved = [resolvedAlert, ...resolved].slice(0, RESOLVED_HISTORY_LIMIT);
+            transitions.push({ alert: resolvedAlert, from: alert.status });
+          }
+        }
+      });
+
+      if (transitions.length > 0 || changed) publish(transitions);
+    },
+    tick: (now = Date.now()) => {
+      const transitions: AlertTransition[] = [];
+      pending.forEach((_, key) => fire(key, now, transitions));
+      if (transitions.length > 0) publish(transitions);
+    },
+    acknowledge: (alertId) => {
+      const entry = [...active.entries()].find(([, alert]) => alert.id === alertId);
+      if (!entry || entry[1].status !== 'firing') return;
+      const [key, alert] = entry;
+      const acknowledged: Alert = { ...alert, status: 'acknowledged', acknowledgedAt: Date.now() };
+      active.set(key, acknowledged);
+      publish([{ alert: acknowledged, from: 'firing' }]);
+    },
+    clearResolved: () => {
+      resolved = [];
+      publish([]);
+    },
+    // Nothing fires from manifest values alone; they are claims, not observations
+    reset: (nextManifest) => {
+      bindings = bindRules(nextManifest);
+      pending = new Map();
+      active = new Map();
+      resolved = [];
+      publish([]);
+    }
+  };
+};
+
+// Feeds every live store change into the engine; a re-seeded store starts the engine over
+export const followLiveStore = (engine: AlertEngine, store: LiveStore, manifest: SwarmManifest) =>
+  store.subscribe((state, changedId) => {
+    if (changedId === null) {
+      engine.reset(manifest);
+      return;
+    }
+    engine.evaluate(changedId, state[changedId], state[changedId]?.lastUpdated);
+  });
@@ -0,0 +1,30 @@
+// Frame-time statistics for the renderer benchmark.
+
+export const BENCHMARK_SIZES = [100, 1000, 5000];
+
+export interface FrameStats {
+  frames: number;
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+  // Frames per second implied by the mean
+  fps: number;
+}
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+
+export const summarizeFrameTimes = (times: number[]): FrameStats | null => {
+  if (times.length === 0) return null;
+  const sorted = [...times].sort((a, b) => a - b);
+  const meanMs = times.reduce((sum, time) => sum + time, 0) / times.length;
+  return {
+    frames: times.length,
+    meanMs,
+    p50Ms: percentile(sorted, 0.5),
+    p95Ms: percentile(sorted, 0.95),
+    maxMs: sorted[sorted.length - 1],
+    fps: meanMs > 0 ? 1000 / meanMs : Infinity
+  };
+};
@@ -0,0 +1,4 @@
+import bundledManifestJson from '../../data/swarm.manifest.json';
+import { validateManifest } from './manifest';
+
+export const bundledManifest = validateManifest(bundledManifestJson, 'bundled swarm.manifest.json');
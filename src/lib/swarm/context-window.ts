@@ -0,0 +1,157 @@
+import type { ContextSlice, ContextSliceKind, ContextUpdateMessage } from '../stream/protocol';
+import { findModelEntry } from './costs';
+import type { ContextWindowConfig } from './schema';
+
+// Context window composition over time, per window owner, with the slices that shrank between
+// two updates of the same window recorded as losses.
+
+export type ContextState = 'ok' | 'warning' | 'critical';
+
+export const CONTEXT_SLICE_KINDS: ContextSliceKind[] = ['system', 'tools', 'history', 'resources'];
+
+// Windows without an owning component
+export const SHARED_WINDOW = 'shared';
+
+export interface ContextSample {
+  id: number;
+  t: number;
+  // The component whose window this is, or SHARED_WINDOW
+  owner: string;
+  sessionId: string | null;
+  model: string | null;
+  // Size the frame declared, if any; otherwise `limit` comes from the manifest
+  declaredLimit: number | null;
+  limit: number;
+  slices: ContextSlice[];
+  used: number;
+  state: ContextState;
+}
+
+// A slice that got smaller or disappeared between two updates of the same window
+export interface ContextLoss {
+  t: number;
+  owner: string;
+  kind: ContextSliceKind;
+  componentId: string | null;
+  label: string | null;
+  before: number;
+  after: number;
+}
+
+export const contextWindowSize = (config: ContextWindowConfig, model: string | null) =>
+  (model ? findModelEntry(config.windows, model)?.tokens : undefined) ?? config.defaultTokens;
+
+export const contextState = (config: ContextWindowConfig, used: number, limit: number): ContextState =>
+  used >= limit * config.criticalAt ? 'critical' : used >= limit * config.warnAt ? 'warning' : 'ok';
+
+export const sliceKey = (slice: ContextSlice) => `${slice.kind}:${slice.componentId ?? ''}:${slice.label ?? ''}`;
+
+export const tokensByKind = (slices: ContextSlice[]): Record<ContextSliceKind, number> => {
+  const totals: Record<ContextSliceKind, number> = { system: 0, tools: 0, history: 0, resources: 0 };
+  slices.forEach(slice => {
+    totals[slice.kind] += slice.tokens;
+  });
+  return totals;
+};
+
+// Slices of `previous` that `next` holds fewer tokens of. A new session starts from scratch,
+// so nothing is lost across a session change.
+export const findContextLosses = (previous: ContextSample, next: ContextSample): ContextLoss[] => {
+  if (previous.sessionId !== next.sessionId) return [];
+  const after = new Map<string, number>();
+  next.slices.forEach(slice => after.set(sliceKey(slice), (after.get(sliceKey(slice)) ?? 0) + slice.tokens));
+  const before = new Map<string, { slice: ContextSlice; tokens: number }>();
+  previous.slices.forEach(slice => {
+    const key = sliceKey(slice);
+    before.set(key, { slice, tokens: (before.get(key)?.tokens ?? 0) + slice.tokens });
+  });
+  return [...before.entries()]
+    .filter(([key, { tokens }]) => (after.get(key) ?? 0) < tokens)
+    .map(([key, { slice, tokens }]) => ({
+      t: next.t,
+      owner: next.owner,
+      kind: slice.kind,
+      componentId: slice.componentId ?? null,
+      label: slice.label ?? null,
+      before: tokens,
+      after: after.get(key) ?? 0
+    }));
+};
+
+export interface ContextTrackerSnapshot {
+  // Oldest first
+  samples: ContextSample[];
+  // Oldest first
+  losses: ContextLoss[];
+  // Most recent sample per owner
+  latest: Record<string, ContextSample>;
+}
+
+export interface ContextTracker {
+  getSnapshot: () => ContextTrackerSnapshot;
+  subscribe: (listener: () => void) => () => void;
+  record: (message: ContextUpdateMessage, t?: number) => void;
+  // Resizes and re-grades every sample, e.g. after the manifest's window table changed
+  configure: (config: ContextWindowConfig) => void;
+  clear: () => void;
+}
+
+const EMPTY_SNAPSHOT: ContextTrackerSnapshot = { samples: [], losses: [], latest: {} };
+
+export const createContextTracker = (initialConfig: ContextWindowConfig, limit = 500): ContextTracker => {
+  let config = initialConfig;
+  let nextId = 1;
+  let snapshot = EMPTY_SNAPSHOT;
+  const listeners = new Set<() => void>();
+
+  const grade = (sample: Omit<ContextSample, 'limit' | 'state'>): ContextSample => {
+    const size = sample.declaredLimit ?? contextWindowSize(config, sample.model);
+    return { ...sample, limit: size, state: contextState(config, sample.used, size) };
+  };
+
+  const emit = (next: ContextTrackerSnapshot) => {
+    snapshot = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    record: (message, t = Date.now()) => {
+      const sample = grade({
+        id: nextId++,
+        t,
+        owner: message.componentId ?? SHARED_WINDOW,
+        sessionId: message.sessionId ?? null,
+        model: message.model ?? null,
+        declaredLimit: message.limit ?? null,
+        slices: message.slices,
+        used: message.slices.reduce((sum, slice) => sum + slice.tokens, 0)
+      });
+      const previous = snapshot.latest[sample.owner];
+      const losses = previous ? findContextLosses(previous, sample) : [];
+      emit({
+        samples: [...snapshot.samples, sample].slice(-limit),
+        losses: losses.length > 0 ? [...snapshot.losses, ...losses].slice(-limit) : snapshot.losses,
+        latest: { ...snapshot.latest, [sample.owner]: sample }
+      });
+    },
+    configure: (next) => {
+      config = next;
+      const samples = snapshot.samples.map(grade);
+      const byId = new Map(samples.map(sample => [sample.id, sample]));
+      const latest = Object.fromEntries(
+        Object.entries(snapshot.latest).map(([owner, sample]) => [owner, byId.get(sample.id) ?? grade(sample)])
+      );
+      emit({ ...snapshot, samples, latest });
+    },
+    clear: () => {
+      emit(EMPTY_SNAPSHOT);
+    }
+  };
+};
@@ -0,0 +1,264 @@
+import type { TokenUpdateMessage } from '../stream/protocol';
+import type { Budget, CostConfig, ModelPricing } from './schema';
+
+// Token usage per component, session and model, priced with the manifest's `costs` table.
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export interface UsageEntry extends TokenUsage {
+  id: number;
+  t: number;
+  sessionId: string;
+  componentId: string | null;
+  model: string | null;
+  // null when the model has no price in the table
+  cost: number | null;
+}
+
+// Every call with the same session, component and model, added up. Unlike the per-call entries
+// these are never dropped, so totals and budgets count all spend however long the dashboard runs.
+export interface UsageTally extends Omit<UsageEntry, 'id' | 't'> {
+  calls: number;
+}
+
+// What `record` needs from a token update; hooks that only know the token counts can book them too
+export type TokenUsageUpdate = Pick<TokenUpdateMessage, 'input_tokens' | 'output_tokens'>
+  & Partial<Pick<TokenUpdateMessage, 'componentId' | 'model' | 'sessionId' | 'cache_read_input_tokens' | 'cache_creation_input_tokens'>>;
+
+export type UsageGrouping = 'component' | 'session' | 'model';
+
+export interface UsageSummary extends TokenUsage {
+  key: string;
+  calls: number;
+  cost: number;
+  // Tokens that could not be priced, so the cost is known to be low
+  unpricedTokens: number;
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  budget: Budget;
+  // The component, model or session the spend belongs to, or `total`
+  key: string;
+  spent: number;
+  state: BudgetState;
+}
+
+const PER_MILLION = 1_000_000;
+const CACHE_READ_FACTOR = 0.1;
+const CACHE_WRITE_FACTOR = 1.25;
+
+export const UNATTRIBUTED = 'unattributed';
+export const UNKNOWN_MODEL = 'unknown';
+
+export const totalTokens = (usage: TokenUsage) => usage.input + usage.output + usage.cacheRead + usage.cacheWrite;
+
+// Exact ids win; otherwise the longest `prefix*` entry that matches. Shared with the context
+// window table, which matches models the same way.
+export const findModelEntry = <T extends Pick<ModelPricing, 'model'>>(entries: T[], model: string): T | null =>
+  entries.find(entry => entry.model === model)
+  ?? entries
+    .filter(entry => entry.model.endsWith('*') && model.startsWith(entry.model.slice(0, -1)))
+    .sort((a, b) => b.model.length - a.model.length)[0]
+  ?? null;
+
+export const usageCost = (pricing: ModelPricing, usage: TokenUsage) => (
+  usage.input * pricing.input
+  + usage.output * pricing.output
+  + usage.cacheRead * (pricing.cacheRead ?? pricing.input * CACHE_READ_FACTOR)
+  + usage.cacheWrite * (pricing.cacheWrite ?? pricing.input * CACHE_WRITE_FACTOR)
+) / PER_MILLION;
+
+// Cost is linear in the token counts, so a tally prices exactly like the calls it adds up
+const priceEntry = <T extends Omit<UsageTally, 'cost' | 'calls'>>(config: CostConfig, entry: T): T & { cost: number | null } => {
+  const pricing = entry.model ? findModelEntry(config.pricing, entry.model) : null;
+  return { ...entry, cost: pricing ? usageCost(pricing, entry) : null };
+};
+
+const groupKey = (tally: UsageTally, by: UsageGrouping) =>
+  by === 'component' ? tally.componentId ?? UNATTRIBUTED : by === 'model' ? tally.model ?? UNKNOWN_MODEL : tally.sessionId;
+
+const tallyKey = (entry: Pick<UsageEntry, 'sessionId' | 'componentId' | 'model'>) =>
+  JSON.stringify([entry.sessionId, entry.componentId, entry.model]);
+
+const emptySummary = (key: string): UsageSummary => ({ key, calls: 0, cost: 0, unpricedTokens: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0 });
+
+const addTally = (summary: UsageSummary, tally: UsageTally) => {
+  summary.calls += tally.calls;
+  summary.input += tally.input;
+  summary.output += tally.output;
+  summary.cacheRead += tally.cacheRead;
+  summary.cacheWrite += tally.cacheWrite;
+  if (tally.cost === null) summary.unpricedTokens += totalTokens(tally);
+  else summary.cost += tally.cost;
+};
+
+export const totalUsage = (tallies: UsageTally[]): UsageSummary => {
+  const summary = emptySummary('total');
+  tallies.forEach(tally => addTally(summary, tally));
+  return summary;
+};
+
+// Most expensive first
+export const summarizeUsage = (tallies: UsageTally[], by: UsageGrouping): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>();
+  tallies.forEach(tally => {
+    const key = groupKey(tally, by);
+    if (!groups.has(key)) groups.set(key, emptySummary(key));
+    addTally(groups.get(key)!, tally);
+  });
+  return [...groups.values()].sort((a, b) => b.cost - a.cost || totalTokens(b) - totalTokens(a));
+};
+
+// Budgets without a target get one status per component, model or session that has spent
+// anything; budgets with one always report, so an unspent budget still shows as ok.
+export const evaluateBudgets = (budgets: Budget[], tallies: UsageTally[]): BudgetStatus[] =>
+  budgets.flatMap(budget => {
+    const spend = budget.scope === 'total'
+      ? [totalUsage(tallies)]
+      : budget.target
+      ? [summarizeUsage(tallies, budget.scope).find(summary => summary.key === budget.target) ?? emptySummary(budget.target)]
+      : summarizeUsage(tallies, budget.scope);
+    return spend.map(summary => ({
+      budget,
+      key: summary.key,
+      spent: summary.cost,
+      state: summary.cost >= budget.limit ? 'exceeded' : budget.warnAt !== undefined && summary.cost >= budget.warnAt ? 'warning' : 'ok'
+    }));
+  });
+
+export const budgetStatusKey = (status: BudgetStatus) => `${status.budget.id}:${status.key}`;
+
+// Amounts under a cent keep enough digits to compare individual calls
+export const formatCost = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: amount !== 0 && Math.abs(amount) < 0.01 ? 4 : 2
+  }).format(amount);
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per model call, oldest first, for spreadsheets
+export const usageToCsv = (entries: UsageEntry[], currency: string) => [
+  ['time', 'session', 'component', 'model', 'input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_write_tokens', `cost_${currency.toLowerCase()}`].join(','),
+  ...entries.map(entry => [
+    new Date(entry.t).toISOString(),
+    entry.sessionId,
+    entry.componentId,
+    entry.model,
+    entry.input,
+    entry.output,
+    entry.cacheRead,
+    entry.cacheWrite,
+    entry.cost === null ? null : Number(entry.cost.toFixed(6))
+  ].map(csvCell).join(','))
+].join('\n') + '\n';
+
+export interface TokenLedgerSnapshot {
+  sessionId: string;
+  sessionStartedAt: number;
+  // The most recent calls, oldest first; at most the ledger's limit
+  entries: UsageEntry[];
+  // All spend since the ledger was created or last cleared
+  tallies: UsageTally[];
+  budgets: BudgetStatus[];
+}
+
+export interface TokenLedger {
+  getSnapshot: () => TokenLedgerSnapshot;
+  subscribe: (listener: () => void) => () => void;
+  record: (message: TokenUsageUpdate, t?: number) => void;
+  // Reprices every entry and tally, e.g. after the manifest's pricing table changed
+  configure: (config: CostConfig) => void;
+  // Later updates without their own session id are booked to a fresh session
+  startSession: (t?: number) => void;
+  // Drops every entry and tally but keeps the session, for replays that rebuild state from the start
+  clear: () => void;
+}
+
+const sessionIdAt = (t: number) => `run-${new Date(t).toISOString().replace(/\.\d+Z$/, 'Z')}`;
+
+// `limit` caps the per-call entries behind the chart and CSV export; tallies are kept whole
+export const createTokenLedger = (initialConfig: CostConfig, limit = 20_000): TokenLedger => {
+  let config = initialConfig;
+  let nextId = 1;
+  const startedAt = Date.now();
+  const tallies = new Map<string, UsageTally>();
+  let snapshot: TokenLedgerSnapshot = {
+    sessionId: sessionIdAt(startedAt),
+    sessionStartedAt: startedAt,
+    entries: [],
+    tallies: [],
+    budgets: evaluateBudgets(config.budgets, [])
+  };
+  const listeners = new Set<() => void>();
+
+  const update = (next: Omit<TokenLedgerSnapshot, 'tallies' | 'budgets'>) => {
+    const all = [...tallies.values()];
+    snapshot = { ...next, tallies: all, budgets: evaluateBudgets(config.budgets, all) };
+    listeners.forEach(listener => listener());
+  };
+
+  const addToTally = (entry: UsageEntry) => {
+    const key = tallyKey(entry);
+    const tally = tallies.get(key);
+    tallies.set(key, priceEntry(config, {
+      sessionId: entry.sessionId,
+      componentId: entry.componentId,
+      model: entry.model,
+      calls: (tally?.calls ?? 0) + 1,
+      input: (tally?.input ?? 0) + entry.input,
+      output: (tally?.output ?? 0) + entry.output,
+      cacheRead: (tally?.cacheRead ?? 0) + entry.cacheRead,
+      cacheWrite: (tally?.cacheWrite ?? 0) + entry.cacheWrite
+    }));
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    record: (message, t = Date.now()) => {
+      const entry = priceEntry(config, {
+        id: nextId++,
+        t,
+        sessionId: message.sessionId ?? snapshot.sessionId,
+        componentId: message.componentId ?? null,
+        model: message.model ?? config.defaultModel ?? null,
+        input: message.input_tokens,
+        output: message.output_tokens,
+        cacheRead: message.cache_read_input_tokens ?? 0,
+        cacheWrite: message.cache_creation_input_tokens ?? 0
+      });
+      addToTally(entry);
+      update({ ...snapshot, entries: [...snapshot.entries, entry].slice(-limit) });
+    },
+    configure: (next) => {
+      config = next;
+      tallies.forEach((tally, key) => tallies.set(key, priceEntry(config, tally)));
+      update({ ...snapshot, entries: snapshot.entries.map(entry => priceEntry(config, entry)) });
+    },
+    startSession: (t = Date.now()) => {
+      update({ ...snapshot, sessionId: sessionIdAt(t), sessionStartedAt: t });
+    },
+    clear: () => {
+      tallies.clear();
+      update({ ...snapshot, entries: [] });
+    }
+  };
+};
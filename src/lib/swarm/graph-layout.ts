@@ -0,0 +1,271 @@
+import type { InterplayEdgeData, SwarmManifest } from './schema';
+import { NUCLEUS_RING, ringLayout, type NodePosition } from './layout';
+import type { Size } from './viewport';
+
+// Layouts that follow the interplay graph instead of the rings. Positions keep each
+// component's ring id, so ring filtering and colours work the same in every layout.
+
+export type LayoutKind = 'concentric' | 'force' | 'layered';
+
+export const LAYOUT_KINDS: LayoutKind[] = ['concentric', 'force', 'layered'];
+
+// All distances in canvas pixels
+export interface GraphLayoutOptions {
+  // Room around the drawing
+  margin: number;
+  // Typical distance between neighbouring nodes in the force-directed layout
+  nodeSpacing: number;
+  // Distance between layers, and between nodes within a layer, in the layered layout
+  columnGap: number;
+  rowGap: number;
+}
+
+export const DEFAULT_GRAPH_LAYOUT: GraphLayoutOptions = { margin: 100, nodeSpacing: 110, columnGap: 200, rowGap: 90 };
+
+export const parseLayoutKind = (text: string | null): LayoutKind | null =>
+  LAYOUT_KINDS.find(kind => kind === text) ?? null;
+
+type Edge = Pick<InterplayEdgeData, 'source' | 'target'>;
+
+interface GraphNode {
+  id: string;
+  ringId: string;
+}
+
+const componentNodes = (manifest: SwarmManifest): GraphNode[] =>
+  manifest.rings.flatMap(ring => ring.components.map(component => ({ id: component.id, ringId: ring.id })));
+
+const toPercent = (x: number, y: number, canvas: Size) => ({
+  x: (x / Math.max(canvas.width, 1)) * 100,
+  y: (y / Math.max(canvas.height, 1)) * 100
+});
+
+// Force-directed
+
+const cellKey = (column: number, row: number) => column * 65536 + row;
+
+// Fewer iterations for large swarms, which would otherwise take many seconds to lay out
+const forceIterations = (nodeCount: number) => Math.max(30, Math.min(200, Math.round(100000 / Math.max(nodeCount, 1))));
+
+export const forceExtent = (manifest: SwarmManifest, { margin, nodeSpacing }: GraphLayoutOptions = DEFAULT_GRAPH_LAYOUT) =>
+  Math.sqrt(componentNodes(manifest).length + 1) * nodeSpacing * 1.5 + margin * 2;
+
+// Fruchterman–Reingold over the interplay edges, starting from the concentric layout so the
+// result is the same on every run. Linked components pull together and all components push
+// apart; the nucleus stays at its manifest position and repels like any node. Repulsion only
+// reaches neighbouring grid cells, which keeps large swarms linear per iteration.
+export const forceLayout = (
+  manifest: SwarmManifest,
+  edges: Edge[],
+  canvas: Size,
+  { margin, nodeSpacing }: GraphLayoutOptions = DEFAULT_GRAPH_LAYOUT
+): Map<string, NodePosition> => {
+  const start = ringLayout(manifest, canvas);
+  const nodes = componentNodes(manifest);
+  const iterations = forceIterations(nodes.length);
+  const nucleus = manifest.nucleus.position;
+  const anchor = { x: (nucleus.x / 100) * canvas.width, y: (nucleus.y / 100) * canvas.height };
+  const points = nodes.map(node => {
+    const position = start.get(node.id);
+    return { x: (position.x / 100) * canvas.width, y: (position.y / 100) * canvas.height };
+  });
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  // The nucleus is the last point and never moves
+  points.push(anchor);
+  const fixed = points.length - 1;
+  indexById.set(manifest.nucleus.id, fixed);
+
+  const links = edges.flatMap(edge => {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    return source === undefined || target === undefined || source === target ? [] : [[source, target] as const];
+  });
+
+  const k = nodeSpacing;
+  const cellSize = k * 2;
+  const bounds = { minX: margin, minY: margin, maxX: canvas.width - margin, maxY: canvas.height - margin };
+  let temperature = Math.max(canvas.width, canvas.height) / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const shift = points.map(() => ({ x: 0, y: 0 }));
+
+    const cells = new Map<number, number[]>();
+    points.forEach((point, index) => {
+      const key = cellKey(Math.floor(point.x / cellSize), Math.floor(point.y / cellSize));
+      const cell = cells.get(key);
+      if (cell) cell.push(index);
+      else cells.set(key, [index]);
+    });
+    points.forEach((point, index) => {
+      const column = Math.floor(point.x / cellSize);
+      const row = Math.floor(point.y / cellSize);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          cells.get(cellKey(column + dx, row + dy))?.forEach(other => {
+            if (other === index) return;
+            const x = point.x - points[other].x;
+            const y = point.y - points[other].y;
+            const distance = Math.max(Math.hypot(x, y), 0.01);
+            if (distance > cellSize) return;
+            const force = (k * k) / distance;
+            shift[index].x += (x / distance) * force;
+            shift[index].y += (y / distance) * force;
+          });
+        }
+      }
+    });
+
+    links.forEach(([source, target]) => {
+      const x = points[source].x - points[target].x;
+      const y = points[source].y - points[target].y;
+      const distance = Math.max(Math.hypot(x, y), 0.01);
+      const force = (distance * distance) / k;
+      shift[source].x -= (x / distance) * force;
+      shift[source].y -= (y / distance) * force;
+      shift[target].x += (x / distance) * force;
+      shift[target].y += (y / distance) * force;
+    });
+
+    // A weak pull toward the nucleus keeps unlinked components from drifting to the edges
+    points.forEach((point, index) => {
+      shift[index].x -= (point.x - anchor.x) * 0.05;
+      shift[index].y -= (point.y - anchor.y) * 0.05;
+    });
+
+    points.forEach((point, index) => {
+      if (index === fixed) return;
+      const length = Math.max(Math.hypot(shift[index].x, shift[index].y), 0.01);
+      const step = Math.min(length, temperature);
+      point.x = Math.min(bounds.maxX, Math.max(bounds.minX, point.x + (shift[index].x / length) * step));
+      point.y = Math.min(bounds.maxY, Math.max(bounds.minY, point.y + (shift[index].y / length) * step));
+    });
+    temperature = Math.max(temperature - cooling, 1);
+  }
+
+  const positions = new Map<string, NodePosition>();
+  positions.set(manifest.nucleus.id, { x: nucleus.x, y: nucleus.y, ringId: NUCLEUS_RING });
+  nodes.forEach((node, index) => {
+    positions.set(node.id, { ...toPercent(points[index].x, points[index].y, canvas), ringId: node.ringId });
+  });
+  return positions;
+};
+
+// Layered
+
+// Layer of every component, left to right from each edge's source to its target. Cycles
+// (including bidirectional edges) are broken by ignoring edges that lead back to a component
+// still being visited. Components without interplay get `null`.
+export const assignLayers = (manifest: SwarmManifest, edges: Edge[]): Map<string, number | null> => {
+  const ids = componentNodes(manifest).map(node => node.id);
+  const known = new Set(ids);
+  const outgoing = new Map(ids.map(id => [id, [] as string[]]));
+  const linked = new Set<string>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target || !known.has(edge.source) || !known.has(edge.target)) return;
+    outgoing.get(edge.source).push(edge.target);
+    linked.add(edge.source);
+    linked.add(edge.target);
+  });
+
+  // Depth-first order; back edges are dropped, leaving a DAG
+  const state = new Map<string, 'visiting' | 'done'>();
+  const acyclic = new Map(ids.map(id => [id, [] as string[]]));
+  const order: string[] = [];
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    outgoing.get(id).forEach(next => {
+      if (state.get(next) === 'visiting') return;
+      acyclic.get(id).push(next);
+      if (!state.has(next)) visit(next);
+    });
+    state.set(id, 'done');
+    order.push(id);
+  };
+  ids.forEach(id => {
+    if (!state.has(id)) visit(id);
+  });
+
+  // Longest path from a source, walking the DAG in topological order
+  const layers = new Map<string, number | null>(ids.map(id => [id, linked.has(id) ? 0 : null]));
+  [...order].reverse().forEach(id => {
+    const layer = layers.get(id);
+    if (layer === null) return;
+    acyclic.get(id).forEach(next => {
+      layers.set(next, Math.max(layers.get(next) ?? 0, layer + 1));
+    });
+  });
+  return layers;
+};
+
+// Components in columns by layer, ordered within each column by the average position of their
+// neighbours in the columns beside it (a few sweeps each way) to cut down crossings. Components
+// without interplay go in a last column of their own; the nucleus sits left of layer 0.
+const layeredColumns = (manifest: SwarmManifest, edges: Edge[]) => {
+  const nodes = componentNodes(manifest);
+  const layers = assignLayers(manifest, edges);
+  const depth = Math.max(-1, ...[...layers.values()].filter((layer): layer is number => layer !== null)) + 1;
+  const unlinked = nodes.filter(node => layers.get(node.id) === null);
+  const columns: GraphNode[][] = Array.from({ length: depth + (unlinked.length ? 1 : 0) }, () => []);
+  nodes.forEach(node => {
+    const layer = layers.get(node.id);
+    columns[layer ?? depth].push(node);
+  });
+
+  const neighbours = new Map(nodes.map(node => [node.id, [] as string[]]));
+  edges.forEach(edge => {
+    neighbours.get(edge.source)?.push(edge.target);
+    neighbours.get(edge.target)?.push(edge.source);
+  });
+  const rowOf = new Map<string, number>();
+  const index = () => columns.forEach(column => column.forEach((node, row) => rowOf.set(node.id, row / Math.max(column.length - 1, 1))));
+  index();
+  const sweep = (column: GraphNode[]) => {
+    const weight = new Map(column.map((node, row) => {
+      const rows = neighbours.get(node.id).flatMap(id => (rowOf.has(id) ? [rowOf.get(id)] : []));
+      return [node.id, rows.length ? rows.reduce((sum, value) => sum + value, 0) / rows.length : row / Math.max(column.length - 1, 1)];
+    }));
+    column.sort((a, b) => weight.get(a.id) - weight.get(b.id));
+    index();
+  };
+  for (let pass = 0; pass < 4; pass++) {
+    columns.slice(1, depth).forEach(sweep);
+    columns.slice(0, depth - 1).reverse().forEach(sweep);
+  }
+  return columns;
+};
+
+export const layeredExtent = (manifest: SwarmManifest, edges: Edge[], { margin, columnGap, rowGap }: GraphLayoutOptions = DEFAULT_GRAPH_LAYOUT): Size => {
+  const columns = layeredColumns(manifest, edges);
+  return {
+    width: (columns.length + 1) * columnGap + margin * 2,
+    height: Math.max(0, ...columns.map(column => column.length - 1)) * rowGap + margin * 2
+  };
+};
+
+// A left-to-right DAG of the interplay, so pipelines read as pipelines. Gaps shrink when the
+// canvas is too small for them.
+export const layeredLayout = (
+  manifest: SwarmManifest,
+  edges: Edge[],
+  canvas: Size,
+  { margin, columnGap, rowGap }: GraphLayoutOptions = DEFAULT_GRAPH_LAYOUT
+): Map<string, NodePosition> => {
+  const columns = layeredColumns(manifest, edges);
+  const tallest = Math.max(1, ...columns.map(column => column.length - 1));
+  const columnStep = Math.min(columnGap, (canvas.width - margin * 2) / (columns.length + 1));
+  const rowStep = Math.min(rowGap, (canvas.height - margin * 2) / tallest);
+  // Centre the drawing when the canvas is larger than it needs
+  const left = (canvas.width - (columns.length + 1) * columnStep) / 2 + columnStep / 2;
+  const middle = canvas.height / 2;
+
+  const positions = new Map<string, NodePosition>();
+  positions.set(manifest.nucleus.id, { ...toPercent(left, middle, canvas), ringId: NUCLEUS_RING });
+  columns.forEach((column, layer) => {
+    const top = middle - ((column.length - 1) * rowStep) / 2;
+    column.forEach((node, row) => {
+      positions.set(node.id, { ...toPercent(left + (layer + 1) * columnStep, top + row * rowStep, canvas), ringId: node.ringId });
+    });
+  });
+  return positions;
+};
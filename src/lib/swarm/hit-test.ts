@@ -0,0 +1,50 @@
+import type { Point } from './viewport';
+
+// Finding the node under the pointer for renderers that draw to a single canvas. Targets are
+// bucketed into a uniform grid so a lookup only checks the nodes near the pointer.
+
+export interface HitTarget {
+  id: string;
+  // Canvas pixels
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface HitIndex {
+  cellSize: number;
+  cells: Map<string, HitTarget[]>;
+}
+
+const cellKey = (column: number, row: number) => `${column}:${row}`;
+
+export const createHitIndex = (targets: HitTarget[], cellSize = 64): HitIndex => {
+  const cells = new Map<string, HitTarget[]>();
+  targets.forEach(target => {
+    // A target goes into every cell its bounding box touches
+    for (let column = Math.floor((target.x - target.radius) / cellSize); column <= Math.floor((target.x + target.radius) / cellSize); column++) {
+      for (let row = Math.floor((target.y - target.radius) / cellSize); row <= Math.floor((target.y + target.radius) / cellSize); row++) {
+        const key = cellKey(column, row);
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(target);
+        else cells.set(key, [target]);
+      }
+    }
+  });
+  return { cellSize, cells };
+};
+
+// The closest target whose circle contains `point`, so overlapping nodes resolve to the nearer one
+export const hitTest = ({ cellSize, cells }: HitIndex, point: Point, accept: (target: HitTarget) => boolean = () => true): HitTarget | null => {
+  const bucket = cells.get(cellKey(Math.floor(point.x / cellSize), Math.floor(point.y / cellSize))) ?? [];
+  let best: HitTarget | null = null;
+  let bestDistance = Infinity;
+  bucket.forEach(target => {
+    const distance = Math.hypot(point.x - target.x, point.y - target.y);
+    if (distance <= target.radius && distance < bestDistance && accept(target)) {
+      best = target;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
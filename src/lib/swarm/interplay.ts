@@ -0,0 +1,157 @@
+import type { InterplayDirection, InterplayEdgeData, InterplayRelation, SwarmManifest } from './schema';
+
+export interface InterplayEdge extends InterplayEdgeData {
+  id: string;
+  origin: 'manifest' | 'prose';
+}
+
+export interface UnresolvedInterplay {
+  origin: 'manifest' | 'prose';
+  owner: string;
+  reference: string;
+  text: string;
+}
+
+export interface InterplayGraph {
+  edges: InterplayEdge[];
+  // Prose entries that do not name another component, keyed by owner id
+  notes: Record<string, string[]>;
+  unresolved: UnresolvedInterplay[];
+}
+
+// Upper snake case tokens (CONSTRAINT_WEAVER, SWARM_AGENTS) are how prose refers to components
+const COMPONENT_TOKEN = /\b[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+\b/g;
+
+const RELATION_VERBS: [RegExp, InterplayRelation, InterplayDirection | 'inbound'][] = [
+  [/^(receives|considers|executes)\b/i, 'feeds', 'inbound'],
+  [/^learns\b/i, 'learns', 'inbound'],
+  [/^(evolves|informs learning|integrates with learning)\b/i, 'learns', 'directed'],
+  [/^validates\b/i, 'validates', 'bidirectional'],
+  [/^(reports|monitors)\b/i, 'reports', 'directed'],
+  [/^optimizes\b/i, 'optimizes', 'bidirectional'],
+  [/^(coordinates|collaborates|synchronizes|harmonizes|interfaces|integrates)\b/i, 'coordinates', 'bidirectional'],
+  [/^(synthesizes|feeds|provisions|informs|translates|supports|provides)\b/i, 'feeds', 'directed']
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Bidirectional edges get an order-independent id so A↔B and B↔A collapse into one
+export const edgeId = (edge: Pick<InterplayEdgeData, 'source' | 'target' | 'relation' | 'direction'>) => {
+  if (edge.direction === 'bidirectional') {
+    const [a, b] = [edge.source, edge.target].sort();
+    return `${a}<->${b}:${edge.relation}`;
+  }
+  return `${edge.source}->${edge.target}:${edge.relation}`;
+};
+
+// Maps every way a manifest can refer to a component (id, name, declared aliases) to its id.
+export const buildNameIndex = (manifest: SwarmManifest, { aliases = true } = {}) => {
+  const index = new Map<string, string>();
+  const register = (key: string, id: string) => {
+    if (key && !index.has(key)) index.set(key, id);
+  };
+
+  const owners = [manifest.nucleus, ...manifest.rings.flatMap(ring => ring.components)];
+  owners.forEach(owner => {
+    register(owner.id, owner.id);
+    register(owner.name, owner.id);
+  });
+  // Aliases go last so they can never shadow a real id or name
+  if (aliases) {
+    owners.forEach(owner => (owner.aliases ?? []).forEach(alias => register(alias, owner.id)));
+  }
+  return index;
+};
+
+export const resolveComponentRef = (ref: string, index: Map<string, string>) =>
+  index.get(ref) ?? index.get(ref.trim()) ?? null;
+
+// Finds the first known component named in a sentence, preferring the longest match at a position.
+const findNamedComponent = (text: string, index: Map<string, string>) => {
+  let best: { id: string; position: number; length: number } | null = null;
+
+  index.forEach((id, key) => {
+    const match = new RegExp(`(^|[^\\w-])${escapeRegExp(key)}(?![\\w-])`).exec(text);
+    if (!match) return;
+    const position = match.index + match[1].length;
+    if (!best || position < best.position || (position === best.position && key.length > best.length)) {
+      best = { id, position, length: key.length };
+    }
+  });
+
+  return best as { id: string; position: number; length: number } | null;
+};
+
+const extractProtocol = (text: string) => {
+  const match = /\b(?:through|via)\s+(.+)$/i.exec(text);
+  return match ? match[1].trim() : undefined;
+};
+
+// Converts a legacy prose interplay line into a typed edge, when it names a known component.
+export const parseInterplayProse = (
+  owner: string,
+  text: string,
+  index: Map<string, string>
+): InterplayEdge | null => {
+  const named = findNamedComponent(text, index);
+  if (!named || named.id === owner) return null;
+
+  const [, relation, direction] = RELATION_VERBS.find(([pattern]) => pattern.test(text)) ?? [null, 'coordinates', 'bidirectional'];
+  const inbound = direction === 'inbound';
+  const edge: InterplayEdgeData = {
+    source: inbound ? named.id : owner,
+    target: inbound ? owner : named.id,
+    relation,
+    direction: inbound ? 'directed' : direction,
+    protocol: extractProtocol(text),
+    description: text
+  };
+
+  return { ...edge, id: edgeId(edge), origin: 'prose' };
+};
+
+// Resolves declared edges and migrates leftover prose into one graph keyed by component id.
+export const buildInterplayGraph = (manifest: SwarmManifest): InterplayGraph => {
+  const index = buildNameIndex(manifest);
+  const edges = new Map<string, InterplayEdge>();
+  const notes: Record<string, string[]> = {};
+  const unresolved: UnresolvedInterplay[] = [];
+
+  manifest.interplay.forEach(declared => {
+    const source = resolveComponentRef(declared.source, index);
+    const target = resolveComponentRef(declared.target, index);
+    if (!source || !target) {
+      unresolved.push({
+        origin: 'manifest',
+        owner: source ?? declared.source,
+        reference: !source ? declared.source : declared.target,
+        text: declared.description ?? `${declared.source} → ${declared.target}`
+      });
+      return;
+    }
+
+    const edge = { ...declared, source, target };
+    edges.set(edgeId(edge), { ...edge, id: edgeId(edge), origin: 'manifest' });
+  });
+
+  const owners = [manifest.nucleus, ...manifest.rings.flatMap(ring => ring.components)];
+  owners.forEach(owner => (owner.interplay ?? []).forEach(text => {
+    const edge = parseInterplayProse(owner.id, text, index);
+    if (edge) {
+      if (!edges.has(edge.id)) edges.set(edge.id, edge);
+      return;
+    }
+
+    (notes[owner.id] ??= []).push(text);
+    (text.match(COMPONENT_TOKEN) ?? [])
+      .filter(token => !index.has(token))
+      .forEach(reference => unresolved.push({ origin: 'prose', owner: owner.id, reference, text }));
+  }));
+
+  return { edges: [...edges.values()], notes, unresolved };
+};
+
+export const edgesForComponent = (graph: InterplayGraph, id: string) =>
+  graph.edges
+    .filter(edge => edge.source === id || edge.target === id)
+    .map(edge => ({ edge, peer: edge.source === id ? edge.target : edge.source, outbound: edge.source === id }));
@@ -0,0 +1,147 @@
+import type { SwarmManifest } from './schema';
+import type { Point, Size } from './viewport';
+
+// Where ring components sit on the canvas, in percent of its width and height. Rings are laid
+// out automatically: radii come from the canvas size and how many nodes each ring holds, and
+// components are spread evenly around their ring except where the manifest pins an angle.
+
+export interface NodePosition {
+  x: number;
+  y: number;
+  ringId: string;
+}
+
+// All distances in canvas pixels
+export interface LayoutOptions {
+  // Distance from the nucleus to the innermost ring
+  innerRadius: number;
+  // Room between the outermost ring and the canvas edge
+  margin: number;
+  // Least distance between neighbouring rings
+  ringGap: number;
+  // Arc length each node needs on its ring (e.g. for its label)
+  nodeArc: number;
+}
+
+export const DEFAULT_LAYOUT: LayoutOptions = { innerRadius: 150, margin: 70, ringGap: 90, nodeArc: 84 };
+
+export const NUCLEUS_RING = 'nucleus';
+
+const normalizeAngle = (angle: number) => ((angle % 360) + 360) % 360;
+
+// Angles for one ring. Pinned components keep their angle, however close together; the others
+// fill the gaps between pins, each going to the gap where it leaves the most room, and are
+// spaced evenly within it, as far apart as the pins allow. With no pins the ring starts at `offset`.
+export const ringAngles = (pins: (number | undefined)[], offset = 0): number[] => {
+  const free = pins.flatMap((pin, index) => (pin === undefined ? [index] : []));
+  const pinned = pins
+    .flatMap((pin, index) => (pin === undefined ? [] : [{ angle: normalizeAngle(pin), index }]))
+    .sort((a, b) => a.angle - b.angle);
+  const angles = pins.map(pin => (pin === undefined ? 0 : normalizeAngle(pin)));
+
+  if (pinned.length === 0) {
+    free.forEach((index, slot) => {
+      angles[index] = normalizeAngle(offset + (slot * 360) / free.length);
+    });
+    return angles;
+  }
+
+  const gaps = pinned.map((pin, position) => {
+    const last = position === pinned.length - 1;
+    const next = pinned[last ? 0 : position + 1];
+    return { start: pin.angle, size: last ? next.angle + 360 - pin.angle : next.angle - pin.angle, count: 0 };
+  });
+  free.forEach(() => {
+    const roomiest = gaps.reduce((best, gap) => (gap.size / (gap.count + 2) > best.size / (best.count + 2) ? gap : best));
+    roomiest.count++;
+  });
+
+  let next = 0;
+  gaps.forEach(gap => {
+    for (let slot = 1; slot <= gap.count; slot++) {
+      angles[free[next++]] = normalizeAngle(gap.start + (gap.size * slot) / (gap.count + 1));
+    }
+  });
+  return angles;
+};
+
+// Least angle in degrees between neighbours on a ring of `radius` px, each needing `nodeArc`
+export const minAngleGap = (radius: number, { nodeArc }: LayoutOptions = DEFAULT_LAYOUT) =>
+  (nodeArc / Math.max(radius, 1)) * (180 / Math.PI);
+
+// Smallest radius at which `count` nodes each get `nodeArc` of their ring
+const crowdedRadius = (count: number, nodeArc: number) => (count * nodeArc) / (2 * Math.PI);
+
+// Ring radii in canvas pixels, inner to outer in manifest order: spread evenly from
+// `innerRadius` to `available`, pushed outward where a ring needs more room for its nodes or
+// sits too close to the previous one
+const naturalRadii = (manifest: SwarmManifest, side: number, available: number, { innerRadius, ringGap, nodeArc }: LayoutOptions) => {
+  const count = manifest.rings.length;
+  const radii: number[] = [];
+  manifest.rings.forEach((ring, index) => {
+    if (ring.radius !== undefined) {
+      radii.push((ring.radius / 100) * side);
+      return;
+    }
+    const even = innerRadius + (available - innerRadius) * (count === 1 ? 0.5 : index / (count - 1));
+    radii.push(Math.max(even, crowdedRadius(ring.components.length, nodeArc), index > 0 ? radii[index - 1] + ringGap : innerRadius));
+  });
+  return radii;
+};
+
+// Ring radii for a canvas, scaled back in if the outermost ring would leave it
+export const ringRadii = (manifest: SwarmManifest, canvas: Size, options: LayoutOptions = DEFAULT_LAYOUT): number[] => {
+  const side = Math.min(canvas.width, canvas.height);
+  const available = Math.max(options.innerRadius, side / 2 - options.margin);
+  const radii = naturalRadii(manifest, side, available, options);
+  const outermost = Math.max(0, ...radii);
+  return outermost > available ? radii.map(radius => (radius * available) / outermost) : radii;
+};
+
+// Side of the square canvas that fits every ring without scaling it in
+export const layoutExtent = (manifest: SwarmManifest, options: LayoutOptions = DEFAULT_LAYOUT) => {
+  const radii = naturalRadii(manifest, 0, options.innerRadius, options);
+  return 2 * (Math.max(options.innerRadius, ...radii) + options.margin);
+};
+
+export const ringLayout = (manifest: SwarmManifest, canvas: Size, options: LayoutOptions = DEFAULT_LAYOUT): Map<string, NodePosition> => {
+  const positions = new Map<string, NodePosition>();
+  const { x, y } = manifest.nucleus.position;
+  positions.set(manifest.nucleus.id, { x, y, ringId: NUCLEUS_RING });
+
+  const radii = ringRadii(manifest, canvas, options);
+  manifest.rings.forEach((ring, ringIndex) => {
+    const radius = radii[ringIndex];
+    // Alternate rings start half a slot round, so spokes do not line up
+    const offset = ringIndex % 2 === 1 && ring.components.length > 0 ? 180 / ring.components.length : 0;
+    const angles = ringAngles(ring.components.map(component => component.angle), offset);
+    ring.components.forEach((component, componentIndex) => {
+      const radian = (angles[componentIndex] * Math.PI) / 180;
+      positions.set(component.id, {
+        x: x + ((radius * Math.cos(radian)) / Math.max(canvas.width, 1)) * 100,
+        y: y + ((radius * Math.sin(radian)) / Math.max(canvas.height, 1)) * 100,
+        ringId: ring.id
+      });
+    });
+  });
+  return positions;
+};
+
+// A step of the move from one layout to the next, with `progress` from 0 to 1. Nodes travel
+// around `origin` (the nucleus) rather than straight across; new nodes grow out of it.
+export const interpolateLayout = (from: Map<string, NodePosition>, to: Map<string, NodePosition>, progress: number, origin: Point) => {
+  const positions = new Map<string, NodePosition>();
+  to.forEach((target, id) => {
+    const start = from.get(id) ?? { ...origin, ringId: target.ringId };
+    const startAngle = Math.atan2(start.y - origin.y, start.x - origin.x);
+    const endAngle = Math.atan2(target.y - origin.y, target.x - origin.x);
+    const turn = Math.atan2(Math.sin(endAngle - startAngle), Math.cos(endAngle - startAngle));
+    const startRadius = Math.hypot(start.x - origin.x, start.y - origin.y);
+    const endRadius = Math.hypot(target.x - origin.x, target.y - origin.y);
+    // Nodes leaving the origin have no direction yet, so they head straight for their target
+    const angle = startRadius < 0.01 ? endAngle : startAngle + turn * progress;
+    const radius = startRadius + (endRadius - startRadius) * progress;
+    positions.set(id, { x: origin.x + radius * Math.cos(angle), y: origin.y + radius * Math.sin(angle), ringId: target.ringId });
+  });
+  return positions;
+};
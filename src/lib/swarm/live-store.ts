@@ -0,0 +1,69 @@
+import type { ComponentStatus, SwarmManifest } from './schema';
+
+export interface LiveComponentState {
+  performance?: number;
+  status?: ComponentStatus;
+  efficiency?: number;
+  throughput?: number;
+  errorRate?: number;
+  latencyMs?: number;
+  lastUpdated?: number;
+}
+
+export type LiveState = Record<string, LiveComponentState>;
+
+type Listener = (state: LiveState, changedId: string | null) => void;
+
+export interface LiveStore {
+  getSnapshot: () => LiveState;
+  get: (id: string) => LiveComponentState | undefined;
+  has: (id: string) => boolean;
+  subscribe: (listener: Listener) => () => void;
+  // `t` stamps `lastUpdated`; replays pass the recorded time so alert durations follow the recording
+  update: (id: string, patch: Partial<LiveComponentState>, t?: number) => boolean;
+  reset: (manifest: SwarmManifest) => void;
+}
+
+// The manifest's static performance/status values seed the live state of every ring component
+export const initialLiveState = (manifest: SwarmManifest): LiveState =>
+  Object.fromEntries(manifest.rings.flatMap(ring => ring.components.map(component => [
+    component.id,
+    { performance: component.performance, status: component.status }
+  ])));
+
+const isUnchanged = (current: LiveComponentState, patch: Partial<LiveComponentState>) =>
+  (Object.keys(patch) as (keyof LiveComponentState)[]).every(key => patch[key] === undefined || current[key] === patch[key]);
+
+export const createLiveStore = (manifest: SwarmManifest): LiveStore => {
+  let state = initialLiveState(manifest);
+  const listeners = new Set<Listener>();
+
+  const emit = (changedId: string | null) => listeners.forEach(listener => listener(state, changedId));
+
+  return {
+    getSnapshot: () => state,
+    get: (id) => state[id],
+    has: (id) => id in state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    // Unknown ids are rejected so stray stream messages cannot invent components
+    update: (id, patch, t = Date.now()) => {
+      const current = state[id];
+      if (!current) return false;
+      if (isUnchanged(current, patch)) return true;
+
+      const defined = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined));
+      state = { ...state, [id]: { ...current, ...defined, lastUpdated: t } };
+      emit(id);
+      return true;
+    },
+    reset: (nextManifest) => {
+      state = initialLiveState(nextManifest);
+      emit(null);
+    }
+  };
+};
@@ -0,0 +1,93 @@
+import { parse as parseYaml, YAMLParseError } from 'yaml';
+import { ZodError } from 'zod';
+import { mcpServerIssues, withMcpServerComponents } from './mcp-servers';
+import { MANIFEST_VERSION, manifestSchema, type SwarmManifest } from './schema';
+
+export type ManifestFormat = 'json' | 'yaml';
+
+export class ManifestError extends Error {
+  readonly source: string;
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid swarm manifest (${source}):\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ManifestError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>((acc, segment) => (
+    typeof segment === 'number' ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment
+  ), '') || '(root)';
+
+const formatZodError = (error: ZodError) =>
+  error.issues.map(issue => `${formatPath(issue.path)}: ${issue.message}`);
+
+export const detectManifestFormat = (source: string, text: string): ManifestFormat => {
+  if (/\.ya?ml($|\?)/i.test(source)) return 'yaml';
+  if (/\.json($|\?)/i.test(source)) return 'json';
+  return /^\s*[{[]/.test(text) ? 'json' : 'yaml';
+};
+
+// Validates an already-parsed document and returns the typed manifest, with any configured
+// MCP servers placed on their rings.
+export const validateManifest = (data: unknown, source = 'manifest'): SwarmManifest => {
+  if (data && typeof data === 'object' && 'version' in data && data.version !== MANIFEST_VERSION) {
+    throw new ManifestError(source, [
+      `version: Unsupported manifest version ${JSON.stringify(data.version)} (this build reads version ${MANIFEST_VERSION})`
+    ]);
+  }
+
+  const result = manifestSchema.safeParse(data);
+  if (!result.success) {
+    throw new ManifestError(source, formatZodError(result.error));
+  }
+  const serverIssues = mcpServerIssues(result.data);
+  if (serverIssues.length > 0) {
+    throw new ManifestError(source, serverIssues);
+  }
+  return withMcpServerComponents(result.data);
+};
+
+export const parseManifest = (text: string, source = 'manifest', format?: ManifestFormat): SwarmManifest => {
+  const resolvedFormat = format ?? detectManifestFormat(source, text);
+  let data: unknown;
+
+  try {
+    data = resolvedFormat === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const message = error instanceof YAMLParseError || error instanceof SyntaxError
+      ? error.message
+      : String(error);
+    throw new ManifestError(source, [`${resolvedFormat.toUpperCase()} syntax error: ${message}`]);
+  }
+
+  return validateManifest(data, source);
+};
+
+export const loadManifestFromUrl = async (url: string): Promise<SwarmManifest> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new ManifestError(url, [`Request failed: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  if (!response.ok) {
+    throw new ManifestError(url, [`Request failed with HTTP ${response.status} ${response.statusText}`.trim()]);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const format: ManifestFormat | undefined = contentType.includes('json')
+    ? 'json'
+    : contentType.includes('yaml')
+    ? 'yaml'
+    : undefined;
+
+  return parseManifest(await response.text(), url, format);
+};
+
+export const loadManifestFromFile = async (file: File): Promise<SwarmManifest> =>
+  parseManifest(await file.text(), file.name);
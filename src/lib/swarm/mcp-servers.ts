@@ -0,0 +1,54 @@
+import type { ComponentData, McpServerConfig, SwarmManifest } from './schema';
+
+// The streamable HTTP endpoint the dashboard talks to for a configured server
+export const mcpServerEndpoint = (server: McpServerConfig) =>
+  server.transport === 'http' ? server.url : `${server.bridge.replace(/\/$/, '')}/servers/${encodeURIComponent(server.id)}/mcp`;
+
+export const isMcpServerComponent = (manifest: SwarmManifest, id: string) =>
+  manifest.mcpServers.some(server => server.id === id);
+
+const serverComponent = (server: McpServerConfig): ComponentData => ({
+  id: server.id,
+  name: server.name,
+  subtitle: 'MCP server',
+  description: server.description,
+  details: [
+    server.transport === 'http' ? `Streamable HTTP at ${server.url}` : `stdio: ${[server.command, ...server.args].join(' ')} (via ${server.bridge})`,
+    `Health probe every ${Math.round(server.probeIntervalMs / 1000)}s`
+  ],
+  angle: server.angle,
+  // Unreachable until the first probe succeeds
+  status: 'idle',
+  role: server.role ?? 'External MCP server',
+  aliases: server.aliases
+});
+
+// Problems that make the `mcpServers` section unusable; reported like schema errors
+export const mcpServerIssues = (manifest: SwarmManifest): string[] => {
+  const ringIds = new Set(manifest.rings.map(ring => ring.id));
+  const componentIds = new Set([manifest.nucleus.id, ...manifest.rings.flatMap(ring => ring.components.map(component => component.id))]);
+  const seen = new Set<string>();
+
+  return manifest.mcpServers.flatMap((server, index) => {
+    const issues: string[] = [];
+    if (!ringIds.has(server.ring)) issues.push(`mcpServers[${index}].ring: Unknown ring "${server.ring}"`);
+    if (componentIds.has(server.id) || seen.has(server.id)) issues.push(`mcpServers[${index}].id: "${server.id}" is already used by another component or server`);
+    seen.add(server.id);
+    return issues;
+  });
+};
+
+// Adds every configured server to its ring as a component, so the live store, interplay,
+// alert rules and MCP resources treat it like any native component.
+export const withMcpServerComponents = (manifest: SwarmManifest): SwarmManifest => {
+  if (manifest.mcpServers.length === 0) return manifest;
+
+  return {
+    ...manifest,
+    rings: manifest.rings.map(ring => {
+      const servers = manifest.mcpServers.filter(server => server.ring === ring.id);
+      if (servers.length === 0) return ring;
+      return { ...ring, components: [...ring.components, ...servers.map(serverComponent)] };
+    })
+  };
+};
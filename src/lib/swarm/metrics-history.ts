@@ -0,0 +1,168 @@
+import type { LiveComponentState } from './live-store';
+import { metricKeySchema, type MetricKey } from './schema';
+
+export type { MetricKey };
+export const METRIC_KEYS = metricKeySchema.options;
+
+export const METRIC_WINDOWS = {
+  '1m': 60_000,
+  '15m': 15 * 60_000,
+  '1h': 60 * 60_000
+} as const;
+export type MetricWindow = keyof typeof METRIC_WINDOWS;
+
+export interface MetricPoint {
+  t: number;
+  v: number;
+}
+
+export interface DownsampleOptions {
+  // Samples younger than this are kept as received
+  rawRetentionMs: number;
+  // Older samples are averaged into buckets of this width
+  bucketMs: number;
+  // Nothing older than this is kept
+  retentionMs: number;
+  // Hard cap on raw samples per series, for bursts faster than the stream usually runs
+  maxRawPoints: number;
+}
+
+export const DEFAULT_DOWNSAMPLE: DownsampleOptions = {
+  rawRetentionMs: 2 * 60_000,
+  bucketMs: 10_000,
+  retentionMs: METRIC_WINDOWS['1h'],
+  maxRawPoints: 600
+};
+
+interface Bucket {
+  start: number;
+  sum: number;
+  count: number;
+}
+
+interface Series {
+  raw: MetricPoint[];
+  buckets: Bucket[];
+}
+
+type Listener = (changedId: string | null) => void;
+
+export interface MetricsHistory {
+  record: (id: string, values: Partial<Pick<LiveComponentState, MetricKey>>, t?: number) => void;
+  // Points inside `windowMs` before the newest sample in the store, oldest first
+  series: (id: string, metric: MetricKey, windowMs: number) => MetricPoint[];
+  // Bumped whenever a component's series change; a cheap snapshot for useSyncExternalStore
+  getVersion: (id: string) => number;
+  // Changes exactly when `series` would return different points: the component's version, and
+  // where the window starts, which moves as other components report newer samples
+  getSeriesKey: (id: string, metric: MetricKey, windowMs: number) => string;
+  subscribe: (listener: Listener) => () => void;
+  clear: () => void;
+}
+
+// Moves raw samples that aged out of the raw window into averaged buckets and drops expired buckets
+const compact = (series: Series, now: number, options: DownsampleOptions) => {
+  const rawCutoff = now - options.rawRetentionMs;
+  let aged = 0;
+  while (aged < series.raw.length && (series.raw[aged].t < rawCutoff || series.raw.length - aged > options.maxRawPoints)) {
+    const point = series.raw[aged];
+    const start = point.t - (point.t % options.bucketMs);
+    const last = series.buckets[series.buckets.length - 1];
+    if (last && last.start === start) {
+      last.sum += point.v;
+      last.count += 1;
+    } else {
+      series.buckets.push({ start, sum: point.v, count: 1 });
+    }
+    aged += 1;
+  }
+  if (aged > 0) series.raw = series.raw.slice(aged);
+
+  const retentionCutoff = now - options.retentionMs;
+  const expired = series.buckets.findIndex(bucket => bucket.start + options.bucketMs >= retentionCutoff);
+  if (expired > 0) series.buckets = series.buckets.slice(expired);
+  else if (expired === -1) series.buckets = [];
+};
+
+// Index of the first sample at or after `from`; samples are kept in time order
+const firstFrom = <T>(items: T[], from: number, time: (item: T) => number) => {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (time(items[middle]) < from) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+const bucketStart = (bucket: Bucket) => bucket.start;
+const pointTime = (point: MetricPoint) => point.t;
+
+export const createMetricsHistory = (options: Partial<DownsampleOptions> = {}): MetricsHistory => {
+  const downsample = { ...DEFAULT_DOWNSAMPLE, ...options };
+  let components = new Map<string, Map<MetricKey, Series>>();
+  let versions = new Map<string, number>();
+  let newest = 0;
+  const listeners = new Set<Listener>();
+
+  const emit = (changedId: string | null) => listeners.forEach(listener => listener(changedId));
+
+  // Where the window of `windowMs` starts in the series' buckets and raw samples
+  const windowStart = (series: Series, windowMs: number) => {
+    const from = newest - windowMs;
+    return { bucket: firstFrom(series.buckets, from, bucketStart), raw: firstFrom(series.raw, from, pointTime) };
+  };
+
+  return {
+    record: (id, values, t = Date.now()) => {
+      const metrics = components.get(id) ?? new Map<MetricKey, Series>();
+      components.set(id, metrics);
+      let changed = false;
+
+      METRIC_KEYS.forEach(metric => {
+        const value = values[metric];
+        if (value === undefined) return;
+        const series = metrics.get(metric) ?? { raw: [], buckets: [] };
+        metrics.set(metric, series);
+        series.raw.push({ t, v: value });
+        compact(series, t, downsample);
+        changed = true;
+      });
+
+      if (!changed) return;
+      newest = Math.max(newest, t);
+      versions.set(id, (versions.get(id) ?? 0) + 1);
+      emit(id);
+    },
+    series: (id, metric, windowMs) => {
+      const series = components.get(id)?.get(metric);
+      if (!series) return [];
+      const start = windowStart(series, windowMs);
+      const rolled = series.buckets
+        .slice(start.bucket)
+        .map(bucket => ({ t: bucket.start + downsample.bucketMs / 2, v: bucket.sum / bucket.count }));
+      return [...rolled, ...series.raw.slice(start.raw)];
+    },
+    getVersion: (id) => versions.get(id) ?? 0,
+    getSeriesKey: (id, metric, windowMs) => {
+      const series = components.get(id)?.get(metric);
+      const start = series ? windowStart(series, windowMs) : null;
+      return `${versions.get(id) ?? 0}:${start?.bucket ?? 0}:${start?.raw ?? 0}`;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    clear: () => {
+      // Fresh maps so every version snapshot changes and subscribers re-read
+      const bump = new Map([...versions].map(([id, version]) => [id, version + 1]));
+      components = new Map();
+      versions = bump;
+      newest = 0;
+      emit(null);
+    }
+  };
+};
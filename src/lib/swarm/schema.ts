@@ -0,0 +1,217 @@
+import { z } from 'zod';
+
+export const MANIFEST_VERSION = 1;
+
+export const componentStatusSchema = z.enum(['active', 'optimizing', 'idle']);
+
+export const componentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  subtitle: z.string().optional(),
+  description: z.string().optional(),
+  details: z.array(z.string()),
+  metrics: z.string().optional(),
+  // Pins the component to this angle (degrees, clockwise from 3 o'clock); components without one
+  // are spread evenly around the ring by the layout engine
+  angle: z.number().optional(),
+  performance: z.number().min(0).max(100).optional(),
+  status: componentStatusSchema.optional(),
+  role: z.string().optional(),
+  aliases: z.array(z.string().min(1)).optional(),
+  interplay: z.array(z.string()).optional()
+});
+
+export const ringSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  label: z.string().optional(),
+  emoji: z.string().optional(),
+  statusLabel: z.string().optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #rrggbb hex color'),
+  // Pins the ring to this distance from the nucleus, in percent of the canvas' shorter side;
+  // otherwise rings are placed inner to outer in declaration order
+  radius: z.number().positive().optional(),
+  components: z.array(componentSchema)
+});
+
+export const nucleusSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  details: z.array(z.string()),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #rrggbb hex color'),
+  position: z.object({ x: z.number(), y: z.number() }),
+  role: z.string().optional(),
+  aliases: z.array(z.string().min(1)).optional(),
+  interplay: z.array(z.string()).optional()
+});
+
+export const interplayRelationSchema = z.enum(['feeds', 'validates', 'coordinates', 'reports', 'optimizes', 'learns']);
+
+export const interplayDirectionSchema = z.enum(['directed', 'bidirectional']);
+
+// `source` and `target` are component ids; component names are accepted too
+// and resolved to ids when the interplay graph is built.
+export const interplayEdgeSchema = z.object({
+  source: z.string().min(1),
+  target: z.string().min(1),
+  relation: interplayRelationSchema,
+  direction: interplayDirectionSchema.default('directed'),
+  protocol: z.string().optional(),
+  description: z.string().optional()
+});
+
+// Live metrics carried by `performance_update` messages, plus the call latency measured for
+// attached MCP servers
+export const metricKeySchema = z.enum(['performance', 'efficiency', 'throughput', 'errorRate', 'latencyMs']);
+
+export const alertSeveritySchema = z.enum(['info', 'warning', 'critical']);
+
+// `threshold: "claimed"` compares against the component's own manifest value for the metric
+// (its claimed `performance`), shifted by `offset`. Empty scopes match every ring component.
+export const alertRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  metric: metricKeySchema,
+  comparator: z.enum(['>', '>=', '<', '<=']),
+  threshold: z.union([z.number(), z.literal('claimed')]),
+  offset: z.number().default(0),
+  durationMs: z.number().nonnegative().default(0),
+  severity: alertSeveritySchema,
+  scope: z.object({
+    components: z.array(z.string().min(1)).default([]),
+    rings: z.array(z.string().min(1)).default([])
+  }).default({})
+});
+
+export const DEFAULT_MCP_BRIDGE_URL = 'http://127.0.0.1:8790';
+
+const mcpServerFields = {
+  id: z.string().min(1),
+  name: z.string().min(1),
+  // Ring the server is drawn on; declare a ring with `components: []` to give servers their own
+  ring: z.string().min(1),
+  // Pinned like a component's angle; spread with the rest of the ring when omitted
+  angle: z.number().optional(),
+  role: z.string().optional(),
+  description: z.string().optional(),
+  aliases: z.array(z.string().min(1)).optional(),
+  probeIntervalMs: z.number().int().min(1000).default(15000)
+};
+
+// External MCP servers shown as components. Browsers cannot spawn processes, so stdio servers
+// are reached through `npm run mcp:bridge`, which runs the command and serves it over HTTP.
+export const mcpServerSchema = z.discriminatedUnion('transport', [
+  z.object({
+    ...mcpServerFields,
+    transport: z.literal('http'),
+    url: z.string().url()
+  }),
+  z.object({
+    ...mcpServerFields,
+    transport: z.literal('stdio'),
+    command: z.string().min(1),
+    args: z.array(z.string()).default([]),
+    env: z.record(z.string()).optional(),
+    cwd: z.string().optional(),
+    bridge: z.string().url().default(DEFAULT_MCP_BRIDGE_URL)
+  })
+]);
+
+// Prices per million tokens. `model` is an exact model id, or a prefix ending in `*`; the
+// longest matching entry wins. Cache prices default to the usual 0.1× (read) and 1.25×
+// (write) of the input price.
+export const modelPricingSchema = z.object({
+  model: z.string().min(1),
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+  cacheRead: z.number().nonnegative().optional(),
+  cacheWrite: z.number().nonnegative().optional()
+});
+
+export const DEFAULT_MODEL_PRICING: z.input<typeof modelPricingSchema>[] = [
+  { model: 'claude-opus-4-5*', input: 5, output: 25 },
+  { model: 'claude-opus-4*', input: 15, output: 75 },
+  { model: 'claude-sonnet-4*', input: 3, output: 15 },
+  { model: 'claude-haiku-4*', input: 1, output: 5 },
+  { model: 'claude-3-5-haiku*', input: 0.8, output: 4 }
+];
+
+export const budgetScopeSchema = z.enum(['total', 'session', 'component', 'model']);
+
+// A spending cap in the pricing currency. Without `target`, component, model and session
+// budgets apply to each component, model or session separately.
+export const budgetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  scope: budgetScopeSchema,
+  target: z.string().min(1).optional(),
+  warnAt: z.number().positive().optional(),
+  limit: z.number().positive()
+}).refine(budget => budget.warnAt === undefined || budget.warnAt < budget.limit, {
+  message: 'warnAt must be below limit',
+  path: ['warnAt']
+});
+
+export const costsSchema = z.object({
+  // ISO 4217 code, used to format amounts
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code such as USD').default('USD'),
+  // Used for token updates that do not name their model
+  defaultModel: z.string().min(1).optional(),
+  pricing: z.array(modelPricingSchema).default(DEFAULT_MODEL_PRICING),
+  budgets: z.array(budgetSchema).default([])
+}).default({});
+
+// Context window sizes in tokens, matched against model ids like pricing entries. `warnAt` and
+// `criticalAt` are fractions of the window at which the inspector starts warning.
+export const contextWindowSizeSchema = z.object({
+  model: z.string().min(1),
+  tokens: z.number().int().positive()
+});
+
+export const DEFAULT_CONTEXT_WINDOWS: z.input<typeof contextWindowSizeSchema>[] = [
+  { model: 'claude-*', tokens: 200_000 }
+];
+
+export const contextWindowSchema = z.object({
+  // Used when neither the frame nor the table gives a size
+  defaultTokens: z.number().int().positive().default(200_000),
+  windows: z.array(contextWindowSizeSchema).default(DEFAULT_CONTEXT_WINDOWS),
+  warnAt: z.number().gt(0).lt(1).default(0.8),
+  criticalAt: z.number().gt(0).max(1).default(0.95)
+}).refine(config => config.warnAt < config.criticalAt, {
+  message: 'warnAt must be below criticalAt',
+  path: ['warnAt']
+}).default({});
+
+export const manifestSchema = z.object({
+  version: z.literal(MANIFEST_VERSION),
+  name: z.string().min(1),
+  nucleus: nucleusSchema,
+  rings: z.array(ringSchema).min(1),
+  interplay: z.array(interplayEdgeSchema).default([]),
+  alertRules: z.array(alertRuleSchema).default([]),
+  mcpServers: z.array(mcpServerSchema).default([]),
+  costs: costsSchema,
+  contextWindow: contextWindowSchema
+});
+
+export type ComponentStatus = z.infer<typeof componentStatusSchema>;
+export type ComponentData = z.infer<typeof componentSchema>;
+export type RingData = z.infer<typeof ringSchema>;
+export type NucleusData = z.infer<typeof nucleusSchema>;
+export type InterplayRelation = z.infer<typeof interplayRelationSchema>;
+export type InterplayDirection = z.infer<typeof interplayDirectionSchema>;
+export type InterplayEdgeData = z.infer<typeof interplayEdgeSchema>;
+export type MetricKey = z.infer<typeof metricKeySchema>;
+export type AlertSeverity = z.infer<typeof alertSeveritySchema>;
+export type AlertComparator = z.infer<typeof alertRuleSchema>['comparator'];
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+export type McpServerConfig = z.infer<typeof mcpServerSchema>;
+export type SwarmManifest = z.infer<typeof manifestSchema>;
+export type ModelPricing = z.infer<typeof modelPricingSchema>;
+export type BudgetScope = z.infer<typeof budgetScopeSchema>;
+export type Budget = z.infer<typeof budgetSchema>;
+export type CostConfig = z.infer<typeof costsSchema>;
+export type ContextWindowSize = z.infer<typeof contextWindowSizeSchema>;
+export type ContextWindowConfig = z.infer<typeof contextWindowSchema>;
@@ -0,0 +1,75 @@
+import {
+  componentStatusSchema,
+  interplayRelationSchema,
+  manifestSchema,
+  MANIFEST_VERSION,
+  type SwarmManifest
+} from './schema';
+
+// Made-up topologies of any size, for renderer benchmarks and load testing. The same size and
+// seed always produce the same manifest, so runs can be compared.
+
+const RING_COLORS = ['#10b981', '#3b82f6', '#8b5cf6', '#f59e0b', '#ec4899', '#06b6d4', '#ef4444', '#84cc16'];
+
+// mulberry32
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const syntheticRingCount = (componentCount: number) => Math.max(3, Math.min(16, Math.round(Math.sqrt(componentCount) / 3)));
+
+export const createSyntheticManifest = (componentCount: number, seed = 1): SwarmManifest => {
+  const random = seededRandom(seed);
+  const pick = <T>(options: readonly T[]) => options[Math.floor(random() * options.length)];
+  const ringCount = syntheticRingCount(componentCount);
+  // Outer rings are longer, so they hold proportionally more components
+  const weights = Array.from({ length: ringCount }, (_, index) => index + 2);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const counts = weights.map(weight => Math.floor((componentCount * weight) / totalWeight));
+  counts[ringCount - 1] += componentCount - counts.reduce((sum, count) => sum + count, 0);
+
+  const rings = counts.map((count, ringIndex) => ({
+    id: `ring-${ringIndex + 1}`,
+    name: `Synthetic ring ${ringIndex + 1}`,
+    color: RING_COLORS[ringIndex % RING_COLORS.length],
+    components: Array.from({ length: count }, (_, index) => ({
+      id: `N${ringIndex + 1}-${index + 1}`,
+      name: `AGENT_${ringIndex + 1}_${index + 1}`,
+      subtitle: `Synthetic agent ${index + 1} on ring ${ringIndex + 1}`,
+      details: [],
+      performance: Math.round(70 + random() * 30),
+      status: random() < 0.7 ? 'active' as const : pick(componentStatusSchema.options)
+    }))
+  }));
+
+  // About one edge per component, mostly to a neighbouring ring
+  const interplay = rings.flatMap((ring, ringIndex) => ring.components.flatMap(component => {
+    if (random() < 0.3) return [];
+    const targetRing = rings[Math.min(ringCount - 1, Math.max(0, ringIndex + pick([-1, 0, 1])))];
+    const target = targetRing.components.length > 0 ? pick(targetRing.components) : null;
+    if (!target || target.id === component.id) return [];
+    return [{ source: component.id, target: target.id, relation: pick(interplayRelationSchema.options), direction: 'directed' as const }];
+  }));
+
+  return manifestSchema.parse({
+    version: MANIFEST_VERSION,
+    name: `synthetic-${componentCount}`,
+    nucleus: {
+      id: 'NUCLEUS',
+      name: `Synthetic-${componentCount}`,
+      description: `A generated swarm of ${componentCount} components`,
+      details: [],
+      color: '#fbbf24',
+      position: { x: 50, y: 50 }
+    },
+    rings,
+    interplay
+  });
+};
@@ -0,0 +1,280 @@
+import { resolveThreshold, ruleAppliesTo } from './alerts';
+import { findModelEntry } from './costs';
+import { buildInterplayGraph, buildNameIndex } from './interplay';
+import { layoutExtent, minAngleGap, ringRadii } from './layout';
+import { ManifestError, parseManifest } from './manifest';
+import type { SwarmManifest } from './schema';
+
+export type TopologySeverity = 'error' | 'warning';
+
+export type TopologyIssueCode =
+  | 'invalid-manifest'
+  | 'duplicate-id'
+  | 'duplicate-ring'
+  | 'duplicate-angle'
+  | 'crowded-pins'
+  | 'missing-field'
+  | 'unknown-reference'
+  | 'self-reference'
+  | 'alias-conflict'
+  | 'naming-mismatch'
+  | 'duplicate-rule'
+  | 'unbound-rule'
+  | 'duplicate-budget'
+  | 'unpriced-model';
+
+export interface TopologyIssue {
+  severity: TopologySeverity;
+  code: TopologyIssueCode;
+  path: string;
+  message: string;
+  componentId?: string;
+}
+
+export interface TopologyReport {
+  issues: TopologyIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Fields the dashboard renders for every ring component; absence is legal but leaves gaps in the UI
+const RECOMMENDED_FIELDS = ['subtitle', 'role', 'metrics', 'performance', 'status'] as const;
+
+const COMPONENT_NAME_CONVENTION = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/;
+
+const normalizeAngle = (angle: number) => ((angle % 360) + 360) % 360;
+
+export const summarizeIssues = (issues: TopologyIssue[]): TopologyReport => ({
+  issues,
+  errorCount: issues.filter(issue => issue.severity === 'error').length,
+  warningCount: issues.filter(issue => issue.severity === 'warning').length
+});
+
+export const lintTopology = (manifest: SwarmManifest): TopologyReport => {
+  const issues: TopologyIssue[] = [];
+  const report = (issue: TopologyIssue) => issues.push(issue);
+
+  // Ids must be unique across the nucleus and every ring
+  const idPaths = new Map<string, string>();
+  const claimId = (id: string, path: string) => {
+    const existing = idPaths.get(id);
+    if (existing) {
+      report({
+        severity: 'error',
+        code: 'duplicate-id',
+        path,
+        componentId: id,
+        message: `Component id "${id}" is already used at ${existing}`
+      });
+    } else {
+      idPaths.set(id, path);
+    }
+  };
+  claimId(manifest.nucleus.id, 'nucleus');
+
+  // Ring radii on a canvas that fits every ring, as the dashboard draws them when there is room
+  const extent = layoutExtent(manifest);
+  const radii = ringRadii(manifest, { width: extent, height: extent });
+
+  const ringIds = new Set<string>();
+  manifest.rings.forEach((ring, ringIndex) => {
+    const ringPath = `rings[${ringIndex}]`;
+    if (ringIds.has(ring.id)) {
+      report({ severity: 'error', code: 'duplicate-ring', path: `${ringPath}.id`, message: `Ring id "${ring.id}" is declared more than once` });
+    }
+    ringIds.add(ring.id);
+
+    const angles = new Map<number, string>();
+    ring.components.forEach((component, componentIndex) => {
+      const path = `${ringPath}.components[${componentIndex}]`;
+      claimId(component.id, path);
+
+      // Only pinned components can collide; the layout engine spreads the rest
+      const angle = component.angle === undefined ? undefined : normalizeAngle(component.angle);
+      const sharing = angle === undefined ? undefined : angles.get(angle);
+      if (sharing) {
+        report({
+          severity: 'error',
+          code: 'duplicate-angle',
+          path: `${path}.angle`,
+          componentId: component.id,
+          message: `${component.id} sits at ${angle}° on ring "${ring.id}", on top of ${sharing}`
+        });
+      } else if (angle !== undefined) {
+        angles.set(angle, component.id);
+      }
+
+      RECOMMENDED_FIELDS
+        .filter(field => component[field] === undefined || component[field] === '')
+        .forEach(field => report({
+          severity: 'warning',
+          code: 'missing-field',
+          path: `${path}.${field}`,
+          componentId: component.id,
+          message: `${component.id} has no ${field}`
+        }));
+
+      if (component.details.length === 0) {
+        report({ severity: 'warning', code: 'missing-field', path: `${path}.details`, componentId: component.id, message: `${component.id} lists no details` });
+      }
+
+      if (!COMPONENT_NAME_CONVENTION.test(component.name) && !(component.aliases ?? []).some(alias => COMPONENT_NAME_CONVENTION.test(alias))) {
+        report({
+          severity: 'warning',
+          code: 'naming-mismatch',
+          path: `${path}.name`,
+          componentId: component.id,
+          message: `${component.id} is named "${component.name}", which other components cannot reference in UPPER_SNAKE_CASE; declare an alias`
+        });
+      }
+    });
+
+    // Pins keep their angle however crowded, so ones closer than their nodes need overlap on screen
+    const minGap = minAngleGap(radii[ringIndex]);
+    const pinned = ring.components
+      .flatMap((component, index) => (component.angle === undefined ? [] : [{ id: component.id, index, angle: normalizeAngle(component.angle) }]))
+      .sort((a, b) => a.angle - b.angle);
+    if (pinned.length > 1) {
+      pinned.forEach((pin, position) => {
+        const last = position === pinned.length - 1;
+        const next = pinned[last ? 0 : position + 1];
+        const gap = last ? next.angle + 360 - pin.angle : next.angle - pin.angle;
+        // Equal angles are reported as duplicates
+        if (gap === 0 || gap >= minGap) return;
+        report({
+          severity: 'warning',
+          code: 'crowded-pins',
+          path: `${ringPath}.components[${next.index}].angle`,
+          componentId: next.id,
+          message: `${next.id} is pinned ${Number(gap.toFixed(1))}° from ${pin.id} on ring "${ring.id}", which needs at least ${Math.ceil(minGap)}° between nodes; they will overlap`
+        });
+      });
+    }
+  });
+
+  // Aliases must not collide with ids, names or other aliases
+  const nameIndex = buildNameIndex(manifest, { aliases: false });
+  const aliasOwners = new Map<string, string>();
+  const owners = [
+    { owner: manifest.nucleus, path: 'nucleus' },
+    ...manifest.rings.flatMap((ring, ringIndex) => ring.components.map((component, componentIndex) => ({
+      owner: component,
+      path: `rings[${ringIndex}].components[${componentIndex}]`
+    })))
+  ];
+  owners.forEach(({ owner, path }) => (owner.aliases ?? []).forEach((alias, aliasIndex) => {
+    const clash = nameIndex.get(alias) ?? aliasOwners.get(alias);
+    if (clash && clash !== owner.id) {
+      report({
+        severity: 'error',
+        code: 'alias-conflict',
+        path: `${path}.aliases[${aliasIndex}]`,
+        componentId: owner.id,
+        message: `Alias "${alias}" on ${owner.id} already refers to ${clash}`
+      });
+    }
+    aliasOwners.set(alias, owner.id);
+  }));
+
+  // Interplay references: declared edges must resolve, prose should
+  const resolver = buildNameIndex(manifest);
+  manifest.interplay.forEach((edge, edgeIndex) => {
+    const path = `interplay[${edgeIndex}]`;
+    (['source', 'target'] as const).forEach(end => {
+      if (!resolver.has(edge[end])) {
+        report({
+          severity: 'error',
+          code: 'unknown-reference',
+          path: `${path}.${end}`,
+          message: `Interplay ${end} "${edge[end]}" does not match any component id, name or alias`
+        });
+      }
+    });
+    if (resolver.has(edge.source) && resolver.get(edge.source) === resolver.get(edge.target)) {
+      report({ severity: 'warning', code: 'self-reference', path, message: `Interplay edge connects ${resolver.get(edge.source)} to itself` });
+    }
+  });
+
+  buildInterplayGraph(manifest).unresolved
+    .filter(entry => entry.origin === 'prose')
+    .forEach(entry => report({
+      severity: 'warning',
+      code: 'unknown-reference',
+      path: `${idPaths.get(entry.owner) ?? entry.owner}.interplay`,
+      componentId: entry.owner,
+      message: `${entry.owner} mentions ${entry.reference}, which is not a component id, name or alias`
+    }));
+
+  // Alert rules must be uniquely named, scoped to real components/rings and match something
+  const ruleIds = new Set<string>();
+  manifest.alertRules.forEach((rule, ruleIndex) => {
+    const path = `alertRules[${ruleIndex}]`;
+    if (ruleIds.has(rule.id)) {
+      report({ severity: 'error', code: 'duplicate-rule', path: `${path}.id`, message: `Alert rule id "${rule.id}" is declared more than once` });
+    }
+    ruleIds.add(rule.id);
+
+    (rule.scope?.components ?? []).forEach((id, index) => {
+      if (!idPaths.has(id) || id === manifest.nucleus.id) {
+        report({ severity: 'error', code: 'unknown-reference', path: `${path}.scope.components[${index}]`, message: `Alert rule "${rule.id}" is scoped to unknown component "${id}"` });
+      }
+    });
+    (rule.scope?.rings ?? []).forEach((id, index) => {
+      if (!ringIds.has(id)) {
+        report({ severity: 'error', code: 'unknown-reference', path: `${path}.scope.rings[${index}]`, message: `Alert rule "${rule.id}" is scoped to unknown ring "${id}"` });
+      }
+    });
+
+    const bound = manifest.rings.some(ring => ring.components.some(component =>
+      ruleAppliesTo(rule, component, ring.id) && resolveThreshold(rule, component) !== null
+    ));
+    if (!bound) {
+      report({
+        severity: 'warning',
+        code: 'unbound-rule',
+        path,
+        message: rule.threshold === 'claimed'
+          ? `Alert rule "${rule.id}" compares against a claimed ${rule.metric}, which no component in scope declares`
+          : `Alert rule "${rule.id}" does not apply to any component`
+      });
+    }
+  });
+
+  // Budgets must be uniquely named and point at components and models that can be priced
+  const { costs } = manifest;
+  if (costs.defaultModel && !findModelEntry(costs.pricing, costs.defaultModel)) {
+    report({ severity: 'warning', code: 'unpriced-model', path: 'costs.defaultModel', message: `Default model "${costs.defaultModel}" has no entry in costs.pricing` });
+  }
+  const budgetIds = new Set<string>();
+  costs.budgets.forEach((budget, budgetIndex) => {
+    const path = `costs.budgets[${budgetIndex}]`;
+    if (budgetIds.has(budget.id)) {
+      report({ severity: 'error', code: 'duplicate-budget', path: `${path}.id`, message: `Budget id "${budget.id}" is declared more than once` });
+    }
+    budgetIds.add(budget.id);
+
+    if (budget.scope === 'component' && budget.target && !idPaths.has(budget.target)) {
+      report({ severity: 'error', code: 'unknown-reference', path: `${path}.target`, message: `Budget "${budget.id}" targets unknown component "${budget.target}"` });
+    }
+    if (budget.scope === 'model' && budget.target && !findModelEntry(costs.pricing, budget.target)) {
+      report({ severity: 'warning', code: 'unpriced-model', path: `${path}.target`, message: `Budget "${budget.id}" targets model "${budget.target}", which has no entry in costs.pricing` });
+    }
+  });
+
+  return summarizeIssues(issues);
+};
+
+// Parses and lints raw manifest text; schema failures come back as `invalid-manifest` errors.
+export const lintManifestText = (text: string, source: string): TopologyReport => {
+  try {
+    return lintTopology(parseManifest(text, source));
+  } catch (error) {
+    if (!(error instanceof ManifestError)) throw error;
+    return summarizeIssues(error.issues.map(message => ({
+      severity: 'error' as const,
+      code: 'invalid-manifest' as const,
+      path: source,
+      message
+    })));
+  }
+};
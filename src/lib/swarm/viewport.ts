@@ -0,0 +1,106 @@
+// Zoom and pan for the ring canvas. The view is stored as a scale and the canvas point, in
+// percent, at the centre of the screen, so it survives resizes and can be shared in a URL.
+
+export interface ViewTransform {
+  scale: number;
+  cx: number;
+  cy: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const VIEW_QUERY_PARAM = 'view';
+export const DEFAULT_VIEW: ViewTransform = { scale: 1, cx: 50, cy: 50 };
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampView = ({ scale, cx, cy }: ViewTransform): ViewTransform => ({
+  scale: clamp(scale, MIN_SCALE, MAX_SCALE),
+  cx: clamp(cx, 0, 100),
+  cy: clamp(cy, 0, 100)
+});
+
+export const isDefaultView = (view: ViewTransform) =>
+  Math.abs(view.scale - DEFAULT_VIEW.scale) < 0.005 && Math.abs(view.cx - DEFAULT_VIEW.cx) < 0.05 && Math.abs(view.cy - DEFAULT_VIEW.cy) < 0.05;
+
+// Translation in pixels, applied before `scale` with the canvas' transform origin at its top left
+export const screenTransform = (view: ViewTransform, viewport: Size, canvas: Size) => ({
+  x: viewport.width / 2 - (view.cx / 100) * canvas.width * view.scale,
+  y: viewport.height / 2 - (view.cy / 100) * canvas.height * view.scale,
+  scale: view.scale
+});
+
+export const screenToCanvas = (point: Point, view: ViewTransform, viewport: Size, canvas: Size): Point => ({
+  x: view.cx + ((point.x - viewport.width / 2) / (canvas.width * view.scale)) * 100,
+  y: view.cy + ((point.y - viewport.height / 2) / (canvas.height * view.scale)) * 100
+});
+
+// Zooms by `factor` while the canvas point under `anchor` (screen pixels) stays put
+export const zoomAround = (view: ViewTransform, factor: number, anchor: Point, viewport: Size, canvas: Size): ViewTransform => {
+  const scale = clamp(view.scale * factor, MIN_SCALE, MAX_SCALE);
+  const fixed = screenToCanvas(anchor, view, viewport, canvas);
+  return clampView({
+    scale,
+    cx: fixed.x - ((anchor.x - viewport.width / 2) / (canvas.width * scale)) * 100,
+    cy: fixed.y - ((anchor.y - viewport.height / 2) / (canvas.height * scale)) * 100
+  });
+};
+
+// Moves the canvas with the pointer by `delta` screen pixels
+export const panBy = (view: ViewTransform, delta: Point, canvas: Size): ViewTransform => clampView({
+  ...view,
+  cx: view.cx - (delta.x / (canvas.width * view.scale)) * 100,
+  cy: view.cy - (delta.y / (canvas.height * view.scale)) * 100
+});
+
+export const boundsOf = (points: Point[]): Bounds | null =>
+  points.length === 0
+    ? null
+    : points.reduce<Bounds>(
+      (bounds, point) => ({
+        minX: Math.min(bounds.minX, point.x),
+        minY: Math.min(bounds.minY, point.y),
+        maxX: Math.max(bounds.maxX, point.x),
+        maxY: Math.max(bounds.maxY, point.y)
+      }),
+      { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+    );
+
+// The view that shows `bounds` (canvas percent) with `padding` screen pixels around it
+export const fitBounds = (bounds: Bounds, viewport: Size, canvas: Size, { padding = 80, maxScale = MAX_SCALE } = {}): ViewTransform => {
+  const width = ((bounds.maxX - bounds.minX) / 100) * canvas.width;
+  const height = ((bounds.maxY - bounds.minY) / 100) * canvas.height;
+  const scale = Math.min(
+    maxScale,
+    (viewport.width - padding * 2) / Math.max(width, 1),
+    (viewport.height - padding * 2) / Math.max(height, 1)
+  );
+  return clampView({ scale, cx: (bounds.minX + bounds.maxX) / 2, cy: (bounds.minY + bounds.maxY) / 2 });
+};
+
+// `?view=<scale>,<cx>,<cy>`; anything malformed is ignored
+export const parseView = (text: string | null): ViewTransform | null => {
+  if (!text) return null;
+  const parts = text.split(',').map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isFinite(part)) || parts[0] <= 0) return null;
+  return clampView({ scale: parts[0], cx: parts[1], cy: parts[2] });
+};
+
+export const formatView = (view: ViewTransform) => `${view.scale.toFixed(2)},${view.cx.toFixed(1)},${view.cy.toFixed(1)}`;
@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Gauge } from 'lucide-react';
+import CanvasRenderer from '@/components/swarm/CanvasRenderer';
+import ComponentNode from '@/components/swarm/ComponentNode';
+import ConnectionLines from '@/components/swarm/ConnectionLines';
+import { Button } from '@/components/ui/button';
+import { BENCHMARK_SIZES, summarizeFrameTimes, type FrameStats } from '@/lib/swarm/benchmark';
+import { buildInterplayGraph } from '@/lib/swarm/interplay';
+import { ringLayout } from '@/lib/swarm/layout';
+import { createLiveStore } from '@/lib/swarm/live-store';
+import { createMetricsHistory } from '@/lib/swarm/metrics-history';
+import { createSyntheticManifest } from '@/lib/swarm/synthetic';
+import { screenTransform, type Size } from '@/lib/swarm/viewport';
+
+type Renderer = 'dom' | 'canvas';
+
+interface BenchmarkRun {
+  size: number;
+  renderer: Renderer;
+}
+
+interface BenchmarkResult extends BenchmarkRun {
+  // Time between animation frames, which includes layout and paint
+  frame: FrameStats;
+  // Canvas only: time spent in the draw call itself
+  draw: FrameStats | null;
+}
+
+const STAGE: Size = { width: 960, height: 600 };
+const CANVAS: Size = { width: 1600, height: 1600 };
+const WARMUP_FRAMES = 30;
+const MEASURED_FRAMES = 240;
+// Live updates pushed into the store every frame, like a busy stream
+const UPDATES_PER_FRAME = 5;
+// The DOM renderer takes seconds per frame beyond this, so larger runs are skipped
+const DOM_SIZE_LIMIT = 1000;
+
+const RUNS: BenchmarkRun[] = BENCHMARK_SIZES.flatMap(size => [
+  { size, renderer: 'canvas' as const },
+  ...(size <= DOM_SIZE_LIMIT ? [{ size, renderer: 'dom' as const }] : [])
+]);
+
+const formatMs = (ms: number) => `${ms.toFixed(1)} ms`;
+
+// One run: mounts a synthetic swarm, then pans and zooms it continuously while recording frame times
+const BenchmarkStage = ({ run, onDone }: { run: BenchmarkRun; onDone: (result: BenchmarkResult) => void }) => {
+  const [setup] = useState(() => {
+    const manifest = createSyntheticManifest(run.size);
+    return {
+      manifest,
+      positions: ringLayout(manifest, CANVAS),
+      edges: buildInterplayGraph(manifest).edges,
+      store: createLiveStore(manifest),
+      history: createMetricsHistory(),
+      ids: manifest.rings.flatMap(ring => ring.components.map(component => component.id))
+    };
+  });
+  const [frame, setFrame] = useState(0);
+  const drawTimes = useRef<number[]>([]);
+  const done = useRef(onDone);
+  done.current = onDone;
+
+  useEffect(() => {
+    const intervals: number[] = [];
+    let handle = 0;
+    let last = 0;
+    let count = 0;
+    const tick = (now: number) => {
+      if (last) count++;
+      if (count > WARMUP_FRAMES) intervals.push(now - last);
+      else drawTimes.current = [];
+      last = now;
+      for (let update = 0; update < UPDATES_PER_FRAME; update++) {
+        const id = setup.ids[Math.floor(Math.random() * setup.ids.length)];
+        setup.store.update(id, { performance: Math.round(70 + Math.random() * 30) });
+      }
+      if (intervals.length >= MEASURED_FRAMES) {
+        done.current({ ...run, frame: summarizeFrameTimes(intervals), draw: summarizeFrameTimes(drawTimes.current) });
+        return;
+      }
+      setFrame(count);
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [run, setup]);
+
+  const phase = (frame / 120) * Math.PI * 2;
+  const transform = screenTransform(
+    { scale: 0.6 + 0.3 * Math.sin(phase), cx: 50 + 15 * Math.cos(phase), cy: 50 + 15 * Math.sin(phase) },
+    STAGE,
+    CANVAS
+  );
+
+  return run.renderer === 'canvas' ? (
+    <CanvasRenderer
+      manifest={setup.manifest}
+      positions={setup.positions}
+      edges={setup.edges}
+      store={setup.store}
+      transform={transform}
+      viewport={STAGE}
+      canvas={CANVAS}
+      viewMode="overview"
+      activeRing="all"
+      severityByComponent={{}}
+      isAnimating
+      onSelect={() => undefined}
+      onHover={() => undefined}
+      onFrame={(ms) => drawTimes.current.push(ms)}
+      continuous
+    />
+  ) : (
+    <div
+      className="relative origin-top-left"
+      style={{
+        width: CANVAS.width,
+        height: CANVAS.height,
+        transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`
+      }}
+    >
+      <ConnectionLines manifest={setup.manifest} positions={setup.positions} edges={setup.edges} activeRing="all" isAnimating />
+      {setup.manifest.rings.map(ring => ring.components.map(component => (
+        <ComponentNode
+          key={component.id}
+          component={component}
+          ring={ring}
+          position={setup.positions.get(component.id)}
+          store={setup.store}
+          history={setup.history}
+          viewMode="overview"
+          isAnimating
+          isSelected={false}
+          isHovered={false}
+          onSelect={() => undefined}
+          onHover={() => undefined}
+        />
+      )))}
+    </div>
+  );
+};
+
+// Frame times of the DOM and canvas renderers on synthetic swarms of 100, 1k and 5k components
+const Benchmark = () => {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [current, setCurrent] = useState<number | null>(null);
+  const run = current !== null ? RUNS[current] : null;
+  const sorted = useMemo(() => [...results].sort((a, b) => a.size - b.size || a.renderer.localeCompare(b.renderer)), [results]);
+
+  const start = () => {
+    setResults([]);
+    setCurrent(0);
+  };
+
+  return (
+    <div className="dark min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-800 text-white">
+      <header className="flex items-center gap-4 px-6 py-4 border-b border-white/10">
+        <Link to="/" className="flex items-center gap-1 text-sm text-gray-400 hover:text-white">
+          <ArrowLeft size={16} /> Dashboard
+        </Link>
+        <h1 className="text-lg font-bold text-blue-300">Renderer Benchmark</h1>
+        <span className="text-xs text-gray-500">
+          {MEASURED_FRAMES} frames of continuous pan and zoom per run, with {UPDATES_PER_FRAME} live updates a frame
+        </span>
+        <div className="ml-auto">
+          <Button variant="secondary" size="sm" onClick={start} disabled={run !== null}>
+            <Gauge size={14} /> {run ? `Running ${current + 1} of ${RUNS.length}…` : 'Run benchmark'}
+          </Button>
+        </div>
+      </header>
+
+      <main className="grid gap-6 p-6 lg:grid-cols-[auto_1fr]">
+        <section
+          className="relative overflow-hidden rounded-2xl border border-white/10 bg-black/40"
+          style={{ width: STAGE.width, height: STAGE.height }}
+        >
+          {run ? (
+            <BenchmarkStage
+              key={current}
+              run={run}
+              onDone={(result) => {
+                setResults(previous => [...previous, result]);
+                setCurrent(index => (index !== null && index + 1 < RUNS.length ? index + 1 : null));
+              }}
+            />
+          ) : (
+            <div className="flex h-full items-center justify-center text-sm text-gray-500">
+              {results.length ? 'Done' : 'Runs render here'}
+            </div>
+          )}
+          {run && (
+            <div className="absolute top-3 left-3 rounded-lg bg-black/70 px-2 py-1 text-xs text-gray-300">
+              {run.size.toLocaleString()} components · {run.renderer === 'dom' ? 'DOM' : 'Canvas'}
+            </div>
+          )}
+        </section>
+
+        <section className="bg-black/40 border border-white/10 rounded-2xl p-5 overflow-x-auto">
+          <h2 className="text-sm font-semibold text-gray-300 mb-3">Results</h2>
+          <table className="w-full text-xs">
+            <thead className="text-gray-400">
+              <tr className="text-left border-b border-white/10">
+                <th className="py-2 pr-3 font-medium">Components</th>
+                <th className="py-2 pr-3 font-medium">Renderer</th>
+                <th className="py-2 pr-3 font-medium text-right">Mean frame</th>
+                <th className="py-2 pr-3 font-medium text-right">p95 frame</th>
+                <th className="py-2 pr-3 font-medium text-right">Worst frame</th>
+                <th className="py-2 pr-3 font-medium text-right">FPS</th>
+                <th className="py-2 pr-3 font-medium text-right">Mean draw</th>
+                <th className="py-2 font-medium text-right">p95 draw</th>
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              {sorted.map(result => (
+                <tr key={`${result.size}-${result.renderer}`} className="border-b border-white/5">
+                  <td className="py-2 pr-3">{result.size.toLocaleString()}</td>
+                  <td className="py-2 pr-3">{result.renderer === 'dom' ? 'DOM' : 'Canvas'}</td>
+                  <td className="py-2 pr-3 text-right">{formatMs(result.frame.meanMs)}</td>
+                  <td className="py-2 pr-3 text-right">{formatMs(result.frame.p95Ms)}</td>
+                  <td className="py-2 pr-3 text-right">{formatMs(result.frame.maxMs)}</td>
+                  <td className={`py-2 pr-3 text-right font-semibold ${result.frame.fps >= 50 ? 'text-green-400' : result.frame.fps >= 30 ? 'text-yellow-400' : 'text-red-400'}`}>
+                    {result.frame.fps.toFixed(0)}
+                  </td>
+                  <td className="py-2 pr-3 text-right">{result.draw ? formatMs(result.draw.meanMs) : '—'}</td>
+                  <td className="py-2 text-right">{result.draw ? formatMs(result.draw.p95Ms) : '—'}</td>
+                </tr>
+              ))}
+              {sorted.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="py-6 text-center text-gray-500">No runs yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+          <p className="mt-3 text-[11px] text-gray-500">
+            The DOM renderer is skipped above {DOM_SIZE_LIMIT.toLocaleString()} components. Keep this tab in the foreground while it runs;
+            background tabs throttle animation frames.
+          </p>
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default Benchmark;
@@ -0,0 +1,276 @@
+import { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, CheckCircle2, Download, FilePlus2, RotateCcw, Trash2, Upload } from 'lucide-react';
+import PromptEditor, { type PromptDraft } from '@/components/prompts/PromptEditor';
+import PromptPreview from '@/components/prompts/PromptPreview';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { usePromptLibrary, usePrompts } from '@/hooks/use-prompt-library';
+import { toast } from '@/hooks/use-toast';
+import { bundledPromptLibrary } from '@/lib/mcp/bundled';
+import type { SwarmContext } from '@/lib/mcp/context';
+import {
+  activeRevision,
+  parsePromptLibrary,
+  PromptLibraryError,
+  serializePromptLibrary,
+  type PromptEntry
+} from '@/lib/mcp/prompts';
+import { createAlertEngine } from '@/lib/swarm/alerts';
+import { bundledManifest } from '@/lib/swarm/bundled';
+import { createLiveStore } from '@/lib/swarm/live-store';
+import { createMetricsHistory } from '@/lib/swarm/metrics-history';
+
+const EMPTY_DRAFT: PromptDraft = { name: '', title: '', description: undefined, arguments: [], template: '' };
+
+const draftFrom = (entry: PromptEntry, version?: number): PromptDraft => {
+  const revision = entry.revisions.find(candidate => candidate.version === version) ?? activeRevision(entry);
+  return {
+    name: entry.name,
+    title: revision.title,
+    description: revision.description,
+    arguments: revision.arguments ?? [],
+    template: revision.template
+  };
+};
+
+const reportError = (title: string, error: unknown) => {
+  console.error(error);
+  toast({
+    variant: 'destructive',
+    title,
+    description: error instanceof PromptLibraryError ? error.issues.slice(0, 5).join('\n') : String(error)
+  });
+};
+
+// Authoring and versioning for the prompts the MCP server serves. Saving appends a revision;
+// any revision can be made active again. Libraries move between machines as JSON files.
+const Prompts = () => {
+  const registry = usePromptLibrary();
+  const library = usePrompts(registry);
+  const [selected, setSelected] = useState<string | null>(library.prompts[0]?.name ?? null);
+  const [draft, setDraft] = useState<PromptDraft>(() => (library.prompts[0] ? draftFrom(library.prompts[0]) : EMPTY_DRAFT));
+  const [note, setNote] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  // Previews render against the bundled manifest's claims; the dashboard serves them from live state
+  const [previewContext] = useState<SwarmContext>(() => ({
+    manifest: () => bundledManifest,
+    live: createLiveStore(bundledManifest),
+    history: createMetricsHistory(),
+    alerts: createAlertEngine(bundledManifest),
+    integrations: () => []
+  }));
+
+  const entry = selected ? library.prompts.find(candidate => candidate.name === selected) : undefined;
+  const nextVersion = entry ? Math.max(...entry.revisions.map(revision => revision.version)) + 1 : 1;
+
+  const select = (next: PromptEntry | undefined, version?: number) => {
+    setSelected(next?.name ?? null);
+    setDraft(next ? draftFrom(next, version) : EMPTY_DRAFT);
+    setNote('');
+  };
+
+  const save = () => {
+    try {
+      const { name, ...definition } = draft;
+      const revision = registry.save(name.trim(), definition, note);
+      setSelected(name.trim());
+      setNote('');
+      toast({ title: `Saved ${name} v${revision.version}` });
+    } catch (error) {
+      reportError(`Could not save ${draft.name || 'prompt'}`, error);
+    }
+  };
+
+  const exportLibrary = () => {
+    const blob = new Blob([serializePromptLibrary(library)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'swarm.prompts.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const importLibrary = async (file: File) => {
+    try {
+      const imported = parsePromptLibrary(await file.text(), file.name);
+      registry.replace(imported);
+      select(imported.prompts[0]);
+      toast({ title: 'Prompt library imported', description: `${imported.prompts.length} prompts from ${file.name}` });
+    } catch (error) {
+      reportError(`Could not import ${file.name}`, error);
+    }
+  };
+
+  return (
+    <div className="dark min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-800 text-white">
+      <header className="flex items-center gap-4 px-6 py-4 border-b border-white/10">
+        <Link to="/" className="flex items-center gap-1 text-sm text-gray-400 hover:text-white">
+          <ArrowLeft size={16} /> Dashboard
+        </Link>
+        <h1 className="text-lg font-bold text-blue-300">MCP Prompt Library</h1>
+        <span className="text-xs text-gray-500">Served by the dashboard and by <code>npm run mcp -- --prompts swarm.prompts.json</code></span>
+        <div className="ml-auto flex gap-2">
+          <Button variant="secondary" size="sm" onClick={() => select(undefined)}>
+            <FilePlus2 size={14} /> New prompt
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => importRef.current?.click()}>
+            <Upload size={14} /> Import
+          </Button>
+          <Button variant="secondary" size="sm" onClick={exportLibrary}>
+            <Download size={14} /> Export
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm">
+                <RotateCcw size={14} /> Reset
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent className="dark text-white">
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reset to the bundled prompts?</AlertDialogTitle>
+                <AlertDialogDescription>Every saved revision in this browser is replaced. Export first to keep them.</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    registry.replace(bundledPromptLibrary);
+                    select(bundledPromptLibrary.prompts[0]);
+                  }}
+                >
+                  Reset
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+        <input
+          ref={importRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={event => {
+            const file = event.target.files?.[0];
+            if (file) importLibrary(file);
+            event.target.value = '';
+          }}
+        />
+      </header>
+
+      <main className="grid grid-cols-[16rem_1fr_24rem] gap-6 p-6">
+        <nav className="space-y-2">
+          {library.prompts.map(candidate => {
+            const active = activeRevision(candidate);
+            return (
+              <button
+                key={candidate.name}
+                onClick={() => select(candidate)}
+                className={`w-full text-left p-3 rounded-xl border transition-all ${
+                  candidate.name === selected ? 'bg-blue-500/20 border-blue-400/50' : 'bg-gray-800/50 border-transparent hover:bg-gray-700/50'
+                }`}
+              >
+                <div className="text-sm font-semibold text-gray-100">{active.title}</div>
+                <div className="text-xs font-mono text-gray-400">{candidate.name}</div>
+                <div className="text-[10px] text-gray-500">v{active.version} of {candidate.revisions.length}</div>
+              </button>
+            );
+          })}
+          {library.prompts.length === 0 && <div className="text-xs text-gray-500">No prompts yet</div>}
+        </nav>
+
+        <section className="bg-black/40 border border-white/10 rounded-2xl p-5">
+          <PromptEditor
+            draft={draft}
+            isNew={!entry}
+            nextVersion={nextVersion}
+            note={note}
+            onChange={setDraft}
+            onNoteChange={setNote}
+            onSave={save}
+          />
+        </section>
+
+        <aside className="space-y-6">
+          {entry && (
+            <div className="bg-black/40 border border-white/10 rounded-2xl p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-gray-200">Versions</h2>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" className="text-red-300">
+                      <Trash2 size={14} /> Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent className="dark text-white">
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {entry.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>All {entry.revisions.length} versions are removed and MCP clients stop seeing the prompt.</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => {
+                          registry.remove(entry.name);
+                          select(library.prompts.find(candidate => candidate.name !== entry.name));
+                        }}
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+              {[...entry.revisions].reverse().map(revision => {
+                const isActive = activeRevision(entry).version === revision.version;
+                return (
+                  <div key={revision.version} className="p-2 rounded-lg bg-gray-800/50 text-xs">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-gray-100">v{revision.version}</span>
+                      {isActive && <Badge className="bg-green-600 hover:bg-green-600">active</Badge>}
+                      <span className="ml-auto text-gray-500">{new Date(revision.savedAt).toLocaleString()}</span>
+                    </div>
+                    {revision.note && <div className="mt-1 text-gray-400">{revision.note}</div>}
+                    <div className="mt-1 flex gap-3">
+                      <button onClick={() => select(entry, revision.version)} className="text-blue-300 hover:text-blue-200 font-semibold">
+                        Edit from here
+                      </button>
+                      {!isActive && (
+                        <button
+                          onClick={() => registry.activate(entry.name, revision.version)}
+                          className="flex items-center gap-1 text-green-300 hover:text-green-200 font-semibold"
+                        >
+                          <CheckCircle2 size={12} /> Make active
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="bg-black/40 border border-white/10 rounded-2xl p-4 space-y-2">
+            <h2 className="text-sm font-semibold text-gray-200">Preview</h2>
+            <p className="text-[11px] text-gray-500">Rendered against the bundled manifest's claimed values; the dashboard fills in live metrics.</p>
+            <PromptPreview key={selected ?? 'new'} definition={draft} context={previewContext} />
+          </div>
+        </aside>
+      </main>
+    </div>
+  );
+};
+
+export default Prompts;
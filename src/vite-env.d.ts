@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_STREAM_URL?: string;
+  readonly VITE_STREAM_TRANSPORT?: string;
+}
@@ -84,11 +84,30 @@ export default {
 					to: {
 						height: '0'
 					}
+				},
+				'edge-flow': {
+					to: {
+						strokeDashoffset: '-20'
+					}
+				},
+				'call-pulse': {
+					from: {
+						strokeDashoffset: '0.12'
+					},
+					'80%': {
+						opacity: '1'
+					},
+					to: {
+						strokeDashoffset: '-1',
+						opacity: '0'
+					}
 				}
 			},
 			animation: {
 				'accordion-down': 'accordion-down 0.2s ease-out',
-				'accordion-up': 'accordion-up 0.2s ease-out'
+				'accordion-up': 'accordion-up 0.2s ease-out',
+				'edge-flow': 'edge-flow 1.2s linear infinite',
+				'call-pulse': 'call-pulse 1.2s ease-in-out forwards'
 			}
 		}
 	},